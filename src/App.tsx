@@ -12,6 +12,7 @@ import { TenantProvider } from './contexts/TenantContext';
 import { queryClient } from './lib/queryClient';
 import React, { useEffect, useState } from "react";
 import { updateManifestForRole, getDashboardPathForRole } from './services/manifestService';
+import { syncService } from './services/syncService';
 
 // Pages
 import Landing from "./pages/Landing";
@@ -24,6 +25,7 @@ import ForgotPassword from "./pages/ForgotPassword";
 import ResetPassword from "./pages/ResetPassword";
 import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
+import SyncIssues from "./pages/SyncIssues";
 import NotFound from "./pages/NotFound";
 
 // Super Admin Pages
@@ -36,11 +38,15 @@ import FactoryCreation from "./pages/super-admin/FactoryCreation";
 import AdminDashboard from "./pages/admin/AdminDashboard";
 import Products from "./pages/admin/Products";
 import Machines from "./pages/admin/Machines";
+import Displays from "./pages/admin/Displays";
+import AlertRules from "./pages/admin/AlertRules";
+import LeaveTypes from "./pages/admin/LeaveTypes";
 import Users from "./pages/admin/Users";
 import AdminFactoryRegistration from "./pages/admin/FactoryRegistration";
 import AdminReports from "./pages/admin/AdminReports";
 import FactorySettings from "./pages/admin/FactorySettings";
 import ProcessStagesSummaryPage from "./pages/admin/ProcessStagesSummaryPage";
+import OeeReport from "./pages/admin/OeeReport";
 import DisplayPage from "./pages/DisplayPage";
 
 // Supervisor Pages
@@ -51,6 +57,10 @@ import Reports from "./pages/supervisor/Reports";
 import SupervisorAttendance from "./pages/supervisor/SupervisorAttendance";
 import ProductReport from "./pages/supervisor/ProductReport";
 import ProcessStagesSummaryReport from "./pages/supervisor/ProcessStagesSummaryReport";
+import AlertInbox from "./pages/supervisor/AlertInbox";
+import MachineStatusBoard from "./pages/supervisor/MachineStatusBoard";
+import LotTraceability from "./pages/supervisor/LotTraceability";
+import RosterPlanner from "./pages/supervisor/RosterPlanner";
 
 // Employee Pages
 import EmployeeDashboard from "./pages/employee/EmployeeDashboard";
@@ -214,6 +224,18 @@ const App = () => {
       });
   }, [initializeAuth, setDeviceId, getDeviceId]);
 
+  // Replay the offline queue only while someone is signed in - queued writes need their auth token
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    syncService.startAutoSync();
+    syncService.syncPendingData();
+
+    return () => {
+      syncService.stopAutoSync();
+    };
+  }, [isAuthenticated]);
+
   // Update manifest when user changes
   useEffect(() => {
     if (isInitialized) {
@@ -243,6 +265,13 @@ const App = () => {
               <Route path="/register-factory" element={<FactoryRegistration />} />
               <Route path="/super-admin-login" element={<SuperAdminLogin />} />
               <Route path="/profile" element={<Profile />} />
+              <Route path="/sync-issues" element={
+                <TenantProvider>
+                  <ProtectedRoute>
+                    <SyncIssues />
+                  </ProtectedRoute>
+                </TenantProvider>
+              } />
               
               {/* Super Admin Routes - Wrapped with TenantProvider */}
               <Route path="/super-admin/*" element={
@@ -291,6 +320,21 @@ const App = () => {
                         <Machines />
                       </ProtectedRoute>
                     } />
+                    <Route path="/displays" element={
+                      <ProtectedRoute allowedRoles={['factory_admin']}>
+                        <Displays />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/alert-rules" element={
+                      <ProtectedRoute allowedRoles={['factory_admin']}>
+                        <AlertRules />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/leave-types" element={
+                      <ProtectedRoute allowedRoles={['factory_admin']}>
+                        <LeaveTypes />
+                      </ProtectedRoute>
+                    } />
                     <Route path="/users" element={
                       <ProtectedRoute allowedRoles={['factory_admin']}>
                         <Users />
@@ -321,6 +365,11 @@ const App = () => {
                         <ProcessStagesSummaryPage />
                       </ProtectedRoute>
                     } />
+                    <Route path="/reports/oee" element={
+                      <ProtectedRoute allowedRoles={['factory_admin']}>
+                        <OeeReport />
+                      </ProtectedRoute>
+                    } />
                     <Route path="/display" element={
                       <ProtectedRoute allowedRoles={['factory_admin']}>
                         <DisplayPage />
@@ -358,6 +407,26 @@ const App = () => {
                         <SupervisorAttendance />
                       </ProtectedRoute>
                     } />
+                    <Route path="/roster" element={
+                      <ProtectedRoute allowedRoles={['supervisor', 'factory_admin']}>
+                        <RosterPlanner />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/machines" element={
+                      <ProtectedRoute allowedRoles={['supervisor', 'factory_admin']}>
+                        <MachineStatusBoard />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/traceability" element={
+                      <ProtectedRoute allowedRoles={['supervisor', 'factory_admin']}>
+                        <LotTraceability />
+                      </ProtectedRoute>
+                    } />
+                    <Route path="/alerts" element={
+                      <ProtectedRoute allowedRoles={['supervisor', 'factory_admin']}>
+                        <AlertInbox />
+                      </ProtectedRoute>
+                    } />
                     <Route path="/product-report" element={
                       <ProtectedRoute allowedRoles={['supervisor', 'factory_admin']}>
                         <ProductReport />
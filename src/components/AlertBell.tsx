@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { alertService } from '@/services/api';
+import { wsService } from '@/services/websocket.service';
+
+// Header bell for supervisors and admins: open alert count plus a toast as each alert is raised
+export const AlertBell: React.FC = () => {
+  const [openCount, setOpenCount] = useState(0);
+  const navigate = useNavigate();
+
+  const loadOpenCount = useCallback(async () => {
+    try {
+      const alerts = await alertService.getAlerts({ status: 'open' });
+      setOpenCount(alerts.length);
+    } catch (error) {
+      console.error('Failed to load open alerts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadOpenCount();
+
+    // Alerts are pushed over the realtime connection, which supervisor pages don't otherwise open
+    if (wsService.getConnectionState() === 'disconnected') {
+      wsService.connect().catch(() => {});
+    }
+
+    const unsubscribeCreated = wsService.subscribe('alert_created', (alert) => {
+      setOpenCount((count) => count + 1);
+      const showToast = alert.severity === 'critical' ? toast.error : alert.severity === 'warning' ? toast.warning : toast.info;
+      showToast(alert.message, {
+        action: { label: 'View', onClick: () => navigate('/supervisor/alerts') },
+      });
+    });
+    const unsubscribeUpdated = wsService.subscribe('alert_updated', loadOpenCount);
+    const unsubscribeSync = wsService.subscribe('sync_required', loadOpenCount);
+
+    return () => {
+      unsubscribeCreated();
+      unsubscribeUpdated();
+      unsubscribeSync();
+    };
+  }, [loadOpenCount, navigate]);
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="relative h-9 w-9 sm:h-10 sm:w-10"
+      onClick={() => navigate('/supervisor/alerts')}
+      aria-label={openCount > 0 ? `${openCount} open alerts` : 'Alerts'}
+    >
+      <Bell className="h-4 w-4 sm:h-5 sm:w-5" />
+      {openCount > 0 && (
+        <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center">
+          {openCount > 99 ? '99+' : openCount}
+        </span>
+      )}
+    </Button>
+  );
+};
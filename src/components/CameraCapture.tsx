@@ -1,21 +1,40 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
-import { Camera, X, Loader2 } from 'lucide-react';
+import { Camera, X, Loader2, ScanLine } from 'lucide-react';
 
 interface CameraCaptureProps {
-  onCapture: (photoDataUrl: string) => void;
+  // 'scan' reads a QR code or barcode from the preview instead of taking a photo
+  mode?: 'photo' | 'scan';
+  onCapture?: (photoDataUrl: string) => void;
+  onScan?: (value: string) => void;
   onCancel?: () => void;
   className?: string;
 }
 
+// Browser-native decoder (Chrome on Android and desktop); not in the DOM typings yet
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => {
+  detect: (source: CanvasImageSource) => Promise<Array<{ rawValue: string }>>;
+};
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_FORMATS = ['qr_code', 'code_128', 'code_39', 'ean_13', 'ean_8'];
+const SCAN_INTERVAL_MS = 300;
+
 export const CameraCapture: React.FC<CameraCaptureProps> = ({
+  mode = 'photo',
   onCapture,
+  onScan,
   onCancel,
   className = '',
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // Latest handler without restarting the decode loop on every parent render
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
   
   const [isLoading, setIsLoading] = useState(false);
   const [isReady, setIsReady] = useState(false);
@@ -41,6 +60,11 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
   }, []);
 
   const startCamera = useCallback(async () => {
+    if (mode === 'scan' && !getBarcodeDetector()) {
+      setError('This browser cannot read codes. Please pick from the lists instead.');
+      return;
+    }
+
     try {
       setError(null);
       setIsLoading(true);
@@ -118,7 +142,7 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
         setError('Failed to access camera. Please try again.');
       }
     }
-  }, []);
+  }, [mode]);
 
   const capturePhoto = useCallback(() => {
     if (!videoRef.current || !canvasRef.current || !isReady) {
@@ -146,13 +170,48 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
       
       // Stop camera and call onCapture
       stopCamera();
-      onCapture(photoDataUrl);
+      onCapture?.(photoDataUrl);
     } catch (err) {
       console.error('Photo capture error:', err);
       setError('Failed to capture photo. Please try again.');
     }
   }, [isReady, onCapture, stopCamera]);
 
+  // Decode a frame every few hundred ms until something readable is in view
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (mode !== 'scan' || !isReady || !BarcodeDetector) {
+      return;
+    }
+
+    const detector = new BarcodeDetector({ formats: SCAN_FORMATS });
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const scanFrame = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        const [barcode] = await detector.detect(video);
+        if (!stopped && barcode?.rawValue) {
+          stopped = true;
+          stopCamera();
+          onScanRef.current?.(barcode.rawValue);
+          return;
+        }
+      } catch (err) {
+        console.error('Barcode detection error:', err);
+      }
+      if (!stopped) timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    };
+
+    timer = setTimeout(scanFrame, SCAN_INTERVAL_MS);
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [mode, isReady, stopCamera]);
+
   // Auto-start camera when component mounts
   useEffect(() => {
     startCamera();
@@ -218,24 +277,31 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({
           </div>
           
           <div className="flex gap-2">
-            <Button
-              type="button"
-              onClick={capturePhoto}
-              disabled={isLoading || !isReady}
-              className="flex-1"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Loading...
-                </>
-              ) : (
-                <>
-                  <Camera className="h-4 w-4 mr-2" />
-                  Capture Photo
-                </>
-              )}
-            </Button>
+            {mode === 'scan' ? (
+              <div className="flex flex-1 items-center justify-center gap-2 text-sm text-muted-foreground">
+                <ScanLine className="h-4 w-4" />
+                Point the camera at a label
+              </div>
+            ) : (
+              <Button
+                type="button"
+                onClick={capturePhoto}
+                disabled={isLoading || !isReady}
+                className="flex-1"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  <>
+                    <Camera className="h-4 w-4 mr-2" />
+                    Capture Photo
+                  </>
+                )}
+              </Button>
+            )}
             <Button
               type="button"
               variant="outline"
@@ -0,0 +1,25 @@
+import { Globe } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useTenant } from '@/contexts/TenantContext';
+import { getViewerTimezone, isViewerInOtherTimezone } from '@/utils/dateUtils';
+
+// Reminds viewers in another zone (e.g. head office) that times are on the factory's clock
+export const FactoryTimezoneBadge: React.FC = () => {
+  const { currentFactory } = useTenant();
+  const timezone = currentFactory?.timezone;
+
+  if (!timezone || !isViewerInOtherTimezone(timezone)) return null;
+
+  const viewerTime = new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: true });
+
+  return (
+    <Badge
+      variant="outline"
+      className="hidden sm:flex items-center gap-1 text-xs font-normal whitespace-nowrap"
+      title={`Dates and times are in the factory's timezone. Yours is ${getViewerTimezone()} (${viewerTime}).`}
+    >
+      <Globe className="h-3 w-3" />
+      Times in {timezone} (yours: {getViewerTimezone()})
+    </Badge>
+  );
+};
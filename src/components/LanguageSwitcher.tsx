@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuthStore } from '@/stores/authStore';
+import { authService } from '@/services/api';
+import { useTranslation } from '@/hooks/useTranslation';
+import { isLanguage, LANGUAGES, translate } from '@/i18n';
+
+interface LanguageSwitcherProps {
+  id?: string;
+  className?: string;
+}
+
+// Saves the choice on the user's profile so it follows them to other devices
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ id, className = '' }) => {
+  const { user, updateUser } = useAuthStore();
+  const { language, t } = useTranslation();
+  const [saving, setSaving] = useState(false);
+
+  const handleChange = async (value: string) => {
+    if (!user || !isLanguage(value) || value === language) return;
+
+    const previousProfile = user.profile;
+    // Switch straight away; the screen re-renders in the new language while the save runs
+    updateUser({ profile: { ...previousProfile, language: value } });
+    setSaving(true);
+    try {
+      const response = await authService.updateProfile({ language: value });
+      if (response.user?.profile) {
+        updateUser(response.user);
+      }
+      // Confirm in the language just picked
+      toast.success(translate(value, 'language.saved'));
+    } catch (error) {
+      console.error('Failed to save language:', error);
+      updateUser({ profile: previousProfile });
+      toast.error(t('language.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Select value={language} onValueChange={handleChange} disabled={!user || saving}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {LANGUAGES.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.nativeLabel}
+            {option.nativeLabel !== option.label && (
+              <span className="ml-2 text-muted-foreground">({option.label})</span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
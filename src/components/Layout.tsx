@@ -1,10 +1,12 @@
 import { ReactNode } from 'react';
-import { Menu, LogOut, User, Factory, BarChart3, Users, Package, Settings, Clock, Wrench, FileText } from 'lucide-react';
+import { Menu, LogOut, User, Factory, BarChart3, Users, Package, Settings, Clock, Wrench, FileText, Monitor, Bell, Siren, Cog, Gauge, GitBranch, Plane, CalendarDays } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuthStore } from '@/stores/authStore';
 import { useTenant } from '@/contexts/TenantContext';
 import { useNavigate } from 'react-router-dom';
 import { NetworkStatus } from '@/components/NetworkStatus';
+import { FactoryTimezoneBadge } from '@/components/FactoryTimezoneBadge';
+import { AlertBell } from '@/components/AlertBell';
 import { InstallPWAButton } from '@/components/InstallPWAButton';
 import { cn } from '@/lib/utils';
 import {
@@ -46,7 +48,15 @@ export const Layout: React.FC<LayoutProps> = ({ children, title }) => {
           { icon: BarChart3, label: 'Dashboard', path: '/admin' },
           { icon: Package, label: 'Products', path: '/admin/products' },
           { icon: Users, label: 'Users', path: '/admin/users' },
+          { icon: Plane, label: 'Leave Types', path: '/admin/leave-types' },
+          { icon: CalendarDays, label: 'Roster', path: '/supervisor/roster' },
           { icon: FileText, label: 'Product Report', path: '/supervisor/product-report' },
+          { icon: Gauge, label: 'OEE', path: '/admin/reports/oee' },
+          { icon: Monitor, label: 'Displays', path: '/admin/displays' },
+          { icon: Siren, label: 'Alert Rules', path: '/admin/alert-rules' },
+          { icon: Bell, label: 'Alerts', path: '/supervisor/alerts' },
+          { icon: Cog, label: 'Machine Status', path: '/supervisor/machines' },
+          { icon: GitBranch, label: 'Traceability', path: '/supervisor/traceability' },
           { icon: Wrench, label: 'Factory Settings', path: '/admin/factory-settings' },
           { icon: Settings, label: 'Settings', path: '/admin/settings' },
         ];
@@ -56,6 +66,10 @@ export const Layout: React.FC<LayoutProps> = ({ children, title }) => {
           { icon: Users, label: 'Employees', path: '/supervisor/employees' },
           { icon: Package, label: 'Validation', path: '/supervisor/validation' },
           { icon: Clock, label: 'Attendance', path: '/supervisor/attendance' },
+          { icon: CalendarDays, label: 'Roster', path: '/supervisor/roster' },
+          { icon: Bell, label: 'Alerts', path: '/supervisor/alerts' },
+          { icon: Cog, label: 'Machine Status', path: '/supervisor/machines' },
+          { icon: GitBranch, label: 'Traceability', path: '/supervisor/traceability' },
           { icon: FileText, label: 'Product Report', path: '/supervisor/product-report' },
         ];
       case 'employee':
@@ -79,11 +93,13 @@ export const Layout: React.FC<LayoutProps> = ({ children, title }) => {
               {title || (user?.role === 'super_admin' ? 'MFMS' : currentFactory?.name || 'MFMS')}
             </h1>
             <NetworkStatus />
+            <FactoryTimezoneBadge />
             <InstallPWAButton variant="ghost" size="sm" className="hidden sm:flex" />
           </div>
           
           <div className="flex items-center gap-2">
             <InstallPWAButton variant="ghost" size="icon" className="sm:hidden" />
+            {(user?.role === 'supervisor' || user?.role === 'factory_admin') && <AlertBell />}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="icon" className="ml-auto h-9 w-9 sm:h-10 sm:w-10">
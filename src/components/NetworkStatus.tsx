@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Wifi, WifiOff, AlertCircle } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Wifi, WifiOff, AlertCircle, AlertTriangle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { useOfflineStore } from '@/stores/offlineStore';
+import { useAuthStore } from '@/stores/authStore';
 
 interface NetworkStatusProps {
   showDetails?: boolean;
@@ -9,6 +12,12 @@ interface NetworkStatusProps {
 export const NetworkStatus: React.FC<NetworkStatusProps> = ({ showDetails = false }) => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [serverStatus, setServerStatus] = useState<'checking' | 'online' | 'offline'>('checking');
+  const navigate = useNavigate();
+  // Queued items the server rejected; they stay on the device until the user who queued them deals with them
+  const userId = useAuthStore((state) => state.user?._id || state.user?.id);
+  const syncIssueCount = useOfflineStore(
+    (state) => state.offlineQueue.filter((item) => item.userId === userId && item.status === 'dead_letter').length
+  );
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -64,12 +73,27 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({ showDetails = fals
     return 'Connected';
   };
 
+  const syncIssuesBadge = syncIssueCount > 0 && (
+    <Badge
+      variant="destructive"
+      className="text-xs cursor-pointer"
+      onClick={() => navigate('/sync-issues')}
+      title="Open Sync Issues"
+    >
+      <AlertTriangle className="h-3 w-3" />
+      <span className="ml-1">{syncIssueCount} sync {syncIssueCount === 1 ? 'issue' : 'issues'}</span>
+    </Badge>
+  );
+
   if (!showDetails) {
     return (
-      <Badge className={`${getStatusColor()} text-xs`}>
-        {getStatusIcon()}
-        <span className="ml-1">{getStatusText()}</span>
-      </Badge>
+      <div className="flex items-center gap-1">
+        <Badge className={`${getStatusColor()} text-xs`}>
+          {getStatusIcon()}
+          <span className="ml-1">{getStatusText()}</span>
+        </Badge>
+        {syncIssuesBadge}
+      </div>
     );
   }
 
@@ -80,6 +104,7 @@ export const NetworkStatus: React.FC<NetworkStatusProps> = ({ showDetails = fals
           {getStatusIcon()}
           <span className="ml-1">{getStatusText()}</span>
         </Badge>
+        {syncIssuesBadge}
       </div>
       {showDetails && (
         <div className="text-xs text-muted-foreground">
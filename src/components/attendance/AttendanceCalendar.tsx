@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { getAttendanceProductionDate } from '@/services/api/attendance.service';
+import { findLeaveOnDate } from '@/services/api/leave.service';
+import { useProductionDay } from '@/hooks/useProductionDay';
+import { Attendance, LeaveRequest } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+import { useTranslation } from '@/hooks/useTranslation';
+import { MessageKey } from '@/i18n';
+
+interface AttendanceCalendarProps {
+  attendance: Attendance[];
+  leaveRequests: LeaveRequest[];
+}
+
+const dayKey = (date: Date | string) => format(new Date(date), 'yyyy-MM-dd');
+
+const LEGEND: { label: MessageKey; className: string }[] = [
+  { label: 'common.present', className: 'bg-green-100 text-green-800' },
+  { label: 'common.halfDay', className: 'bg-yellow-100 text-yellow-800' },
+  { label: 'common.onLeave', className: 'bg-blue-100 text-blue-800' },
+  { label: 'common.absent', className: 'bg-red-100 text-red-800' },
+];
+
+// Month view of attendance by production day; approved leave takes the place of an absence
+export const AttendanceCalendar: React.FC<AttendanceCalendarProps> = ({ attendance, leaveRequests }) => {
+  const { t } = useTranslation();
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>();
+  const { shifts } = useProductionDay();
+
+  const getAttendanceDay = (record: Attendance) => getAttendanceProductionDate(record, shifts);
+
+  const modifiers = useMemo(() => {
+    const byDay = new Map(attendance.map((record) => [getAttendanceProductionDate(record, shifts), record]));
+    const leaveDays = leaveRequests
+      .filter((request) => request.status === 'approved')
+      .flatMap((request) => eachDayOfInterval({ start: new Date(request.startDate), end: new Date(request.endDate) }))
+      .filter((day) => {
+        const status = byDay.get(dayKey(day))?.status;
+        return !status || status === 'absent';
+      });
+    const withStatus = (status: NonNullable<Attendance['status']>) =>
+      attendance
+        .filter((record) => (record.status || record.checkIn?.status) === status)
+        .map((record) => parseISO(getAttendanceProductionDate(record, shifts)));
+
+    return {
+      present: withStatus('present'),
+      halfDay: withStatus('half-day'),
+      absent: withStatus('absent').filter((day) => !findLeaveOnDate(leaveRequests, day)),
+      leave: leaveDays,
+    };
+  }, [attendance, leaveRequests, shifts]);
+
+  const describeDay = (day: Date) => {
+    const leave = findLeaveOnDate(leaveRequests, day);
+    const record = attendance.find((a) => getAttendanceDay(a) === dayKey(day));
+    const status = record?.status || record?.checkIn?.status;
+    if (leave && status !== 'present' && status !== 'half-day') {
+      const onLeave = leave.leaveTypeName ? t('common.onLeaveWithType', { type: leave.leaveTypeName }) : t('common.onLeave');
+      return leave.halfDay ? t('attendance.onLeaveHalfDay', { leave: onLeave }) : onLeave;
+    }
+    if (status === 'present') return t('common.present');
+    if (status === 'half-day') return t('common.halfDay');
+    if (status === 'absent') return t('common.absent');
+    return t('attendance.noRecord');
+  };
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={selectedDay}
+        onSelect={setSelectedDay}
+        modifiers={modifiers}
+        modifiersClassNames={{
+          present: 'bg-green-100 text-green-800',
+          halfDay: 'bg-yellow-100 text-yellow-800',
+          leave: 'bg-blue-100 text-blue-800',
+          absent: 'bg-red-100 text-red-800',
+        }}
+        className="rounded-md border w-fit mx-auto"
+      />
+      <div className="flex flex-wrap justify-center gap-2 text-xs">
+        {LEGEND.map((item) => (
+          <span key={item.label} className={`px-2 py-1 rounded-full ${item.className}`}>
+            {t(item.label)}
+          </span>
+        ))}
+      </div>
+      {selectedDay && (
+        <p className="text-center text-sm text-muted-foreground">
+          {formatDate(selectedDay)}: {describeDay(selectedDay)}
+        </p>
+      )}
+    </div>
+  );
+};
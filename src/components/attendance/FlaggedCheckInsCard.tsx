@@ -0,0 +1,118 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, ShieldAlert, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { attendanceService } from '@/services/api';
+import { CHECK_IN_MODE_LABELS } from '@/services/api/attendance.service';
+import { CHECK_IN_RISK_SIGNAL_LABELS } from '@/services/checkInRisk.service';
+import { Attendance, User } from '@/types';
+import { formatDateTime } from '@/utils/dateUtils';
+
+interface FlaggedCheckInsCardProps {
+  employees: User[];
+}
+
+const getAttendanceId = (attendance: Attendance) => attendance._id || attendance.id || '';
+
+// High-risk check-ins held for a supervisor to accept or reject
+export const FlaggedCheckInsCard: React.FC<FlaggedCheckInsCardProps> = ({ employees }) => {
+  const [flagged, setFlagged] = useState<Attendance[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    attendanceService.getFlaggedCheckIns()
+      .then(setFlagged)
+      .catch((error) => console.error('Failed to load flagged check-ins:', error));
+  }, []);
+
+  const getEmployeeName = (attendance: Attendance) => {
+    const employee = employees.find((e) => (e._id || e.id) === attendance.employeeId);
+    return employee ? `${employee.profile.firstName} ${employee.profile.lastName}` : 'Unknown employee';
+  };
+
+  const handleReview = async (attendance: Attendance, review: 'approved' | 'rejected') => {
+    const attendanceId = getAttendanceId(attendance);
+    setReviewingId(attendanceId);
+    try {
+      await attendanceService.reviewCheckIn(attendanceId, review);
+      setFlagged((prev) => prev.filter((a) => getAttendanceId(a) !== attendanceId));
+      toast.success(review === 'approved' ? 'Check-in accepted' : 'Check-in rejected');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review check-in');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (flagged.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border-amber-300">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldAlert className="h-5 w-5 text-amber-600" />
+          Check-ins to Review
+        </CardTitle>
+        <CardDescription className="text-sm">
+          These check-ins looked like a spoofed location or a different phone
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y">
+          {flagged.map((attendance) => {
+            const risk = attendance.checkIn.risk;
+            const attendanceId = getAttendanceId(attendance);
+            return (
+              <div key={attendanceId} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-sm sm:text-base">{getEmployeeName(attendance)}</span>
+                    {risk && <Badge variant="destructive">Risk {risk.score}</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDateTime(attendance.checkIn.time)}
+                    {attendance.checkIn.method && ` · ${CHECK_IN_MODE_LABELS[attendance.checkIn.method]}`}
+                    {attendance.checkIn.zoneName && ` · ${attendance.checkIn.zoneName}`}
+                  </div>
+                  {risk && risk.signals.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {risk.signals.map((signal) => (
+                        <Badge key={signal} variant="outline" className="text-xs">
+                          {CHECK_IN_RISK_SIGNAL_LABELS[signal]}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(attendance, 'approved')}
+                    disabled={reviewingId === attendanceId}
+                    className="flex-1 sm:flex-initial"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleReview(attendance, 'rejected')}
+                    disabled={reviewingId === attendanceId}
+                    className="flex-1 sm:flex-initial text-destructive"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
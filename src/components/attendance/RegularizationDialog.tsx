@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { attendanceService, factoryService } from '@/services/api';
+import { getShiftEnd, ShiftWindow } from '@/services/api/attendance.service';
+import { Attendance } from '@/types';
+import { formatDateTime } from '@/utils/dateUtils';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface RegularizationDialogProps {
+  // Attendance whose check-out is being corrected; the dialog is open while set
+  attendance: Attendance | null;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+// Lets an employee propose the check-out time they missed, for a supervisor to approve
+export const RegularizationDialog: React.FC<RegularizationDialogProps> = ({ attendance, onClose, onSubmitted }) => {
+  const { t } = useTranslation();
+  const [shifts, setShifts] = useState<ShiftWindow[]>([]);
+  const [proposedCheckOut, setProposedCheckOut] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    factoryService.getShifts()
+      .then((response) => setShifts(response.data?.shifts || []))
+      .catch((error) => console.error('Failed to load shifts:', error));
+  }, []);
+
+  // Start from the end of the shift they checked in for
+  useEffect(() => {
+    if (!attendance) return;
+    const checkIn = new Date(attendance.checkIn.time);
+    const suggested = attendance.checkOut?.time
+      ? new Date(attendance.checkOut.time)
+      : getShiftEnd(checkIn, shifts);
+    setProposedCheckOut(suggested ? toDateTimeLocal(suggested) : '');
+    setReason('');
+  }, [attendance, shifts]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!attendance) return;
+
+    const proposed = new Date(proposedCheckOut);
+    if (!proposedCheckOut || Number.isNaN(proposed.getTime())) {
+      toast.error(t('regularization.enterTime'));
+      return;
+    }
+    if (proposed <= new Date(attendance.checkIn.time)) {
+      toast.error(t('regularization.beforeCheckIn'));
+      return;
+    }
+    if (proposed > new Date()) {
+      toast.error(t('regularization.inFuture'));
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error(t('regularization.reasonRequired'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await attendanceService.requestRegularization(attendance._id || attendance.id || '', {
+        proposedCheckOut: proposed,
+        reason: reason.trim(),
+      });
+      toast.success(t('regularization.sent'));
+      onSubmitted();
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('regularization.failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!attendance} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-[95vw] max-w-md" aria-describedby="regularization-description">
+        <DialogHeader>
+          <DialogTitle>{t('regularization.title')}</DialogTitle>
+          <DialogDescription id="regularization-description">
+            {attendance
+              ? t('regularization.hintWithCheckIn', { time: formatDateTime(attendance.checkIn.time) })
+              : t('regularization.hint')}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="proposedCheckOut">{t('regularization.whenLeft')}</Label>
+            <Input
+              id="proposedCheckOut"
+              type="datetime-local"
+              value={proposedCheckOut}
+              onChange={(e) => setProposedCheckOut(e.target.value)}
+              className="mt-1"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="regularizationReason">{t('common.reason')}</Label>
+            <Textarea
+              id="regularizationReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('regularization.reasonPlaceholder')}
+              className="mt-1"
+              rows={3}
+            />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={submitting}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('common.submit')}
+            </Button>
+            <Button type="button" variant="outline" className="flex-1" onClick={onClose}>
+              {t('common.cancel')}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
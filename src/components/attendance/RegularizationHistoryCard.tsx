@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { History } from 'lucide-react';
+import { attendanceService } from '@/services/api';
+import { describeCheckOut, REGULARIZATION_STATUS_LABELS } from '@/services/api/attendance.service';
+import { AttendanceRegularization } from '@/types';
+import { formatDate, formatDateTime, formatHours } from '@/utils/dateUtils';
+
+interface RegularizationHistoryCardProps {
+  employeeId: string;
+}
+
+const getRegularizationId = (regularization: AttendanceRegularization) => regularization._id || regularization.id || '';
+
+// Before/after audit of every check-out correction an employee asked for
+export const RegularizationHistoryCard: React.FC<RegularizationHistoryCardProps> = ({ employeeId }) => {
+  const [regularizations, setRegularizations] = useState<AttendanceRegularization[]>([]);
+
+  useEffect(() => {
+    attendanceService.getRegularizations({ employeeId })
+      .then(setRegularizations)
+      .catch((error) => console.error('Failed to load check-out corrections:', error));
+  }, [employeeId]);
+
+  if (regularizations.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <History className="h-5 w-5" />
+          Check-out Corrections
+        </CardTitle>
+        <CardDescription className="text-sm">What each correction changed, and who approved it</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y">
+          {regularizations.map((regularization) => (
+            <div key={getRegularizationId(regularization)} className="space-y-1 p-4 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">{formatDate(regularization.attendanceDate)}</span>
+                <Badge
+                  variant={regularization.status === 'approved' ? 'default' : regularization.status === 'rejected' ? 'destructive' : 'secondary'}
+                  className="text-xs"
+                >
+                  {REGULARIZATION_STATUS_LABELS[regularization.status]}
+                </Badge>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-muted-foreground">
+                <div>
+                  Before: {describeCheckOut(regularization.before)}
+                  {regularization.before.workHours !== undefined && ` · ${formatHours(regularization.before.workHours)}`}
+                </div>
+                <div>
+                  {regularization.after ? (
+                    <>
+                      After: {describeCheckOut(regularization.after)}
+                      {regularization.after.workHours !== undefined && ` · ${formatHours(regularization.after.workHours)}`}
+                    </>
+                  ) : (
+                    `Proposed: ${formatDateTime(regularization.proposedCheckOut)}`
+                  )}
+                </div>
+              </div>
+              <div>{regularization.reason}</div>
+              <div className="text-xs text-muted-foreground">
+                Requested {formatDateTime(regularization.createdAt)}
+                {regularization.reviewedAt && ` · ${regularization.status === 'approved' ? 'Approved' : 'Rejected'}`}
+                {regularization.reviewedByName && ` by ${regularization.reviewedByName}`}
+                {regularization.reviewedAt && ` ${formatDateTime(regularization.reviewedAt)}`}
+                {regularization.reviewNote && ` · "${regularization.reviewNote}"`}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
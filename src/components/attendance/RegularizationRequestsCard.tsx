@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowRight, Check, ClockAlert, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { attendanceService } from '@/services/api';
+import { describeCheckOut } from '@/services/api/attendance.service';
+import { AttendanceRegularization, User } from '@/types';
+import { formatDate, formatDateTime } from '@/utils/dateUtils';
+
+interface RegularizationRequestsCardProps {
+  employees: User[];
+  // Called after a correction is approved or rejected
+  onReviewed?: () => void;
+}
+
+const getRegularizationId = (regularization: AttendanceRegularization) => regularization._id || regularization.id || '';
+
+// Check-out corrections waiting for the supervisor
+export const RegularizationRequestsCard: React.FC<RegularizationRequestsCardProps> = ({ employees, onReviewed }) => {
+  const [pending, setPending] = useState<AttendanceRegularization[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadPending = useCallback(async () => {
+    try {
+      setPending(await attendanceService.getRegularizations({ status: 'pending' }));
+    } catch (error) {
+      console.error('Failed to load check-out corrections:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  const getEmployeeName = (regularization: AttendanceRegularization) => {
+    if (regularization.employeeName) return regularization.employeeName;
+    const employee = employees.find((e) => (e._id || e.id) === regularization.employeeId);
+    return employee ? `${employee.profile.firstName} ${employee.profile.lastName}` : 'Unknown employee';
+  };
+
+  const handleReview = async (regularization: AttendanceRegularization, status: 'approved' | 'rejected') => {
+    const regularizationId = getRegularizationId(regularization);
+    setReviewingId(regularizationId);
+    try {
+      await attendanceService.reviewRegularization(regularizationId, status, notes[regularizationId]?.trim() || undefined);
+      setPending((prev) => prev.filter((r) => getRegularizationId(r) !== regularizationId));
+      toast.success(status === 'approved' ? 'Check-out corrected' : 'Correction rejected');
+      onReviewed?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review correction');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border-orange-300">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ClockAlert className="h-5 w-5 text-orange-600" />
+          Check-out Corrections
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Missed or auto-closed check-outs employees have asked to fix
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y">
+          {pending.map((regularization) => {
+            const regularizationId = getRegularizationId(regularization);
+            return (
+              <div key={regularizationId} className="space-y-3 p-4">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-sm sm:text-base">{getEmployeeName(regularization)}</span>
+                    <span className="text-xs text-muted-foreground">{formatDate(regularization.attendanceDate)}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">{describeCheckOut(regularization.before)}</span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{formatDateTime(regularization.proposedCheckOut)}</span>
+                  </div>
+                  <div className="text-sm">{regularization.reason}</div>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={notes[regularizationId] || ''}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [regularizationId]: e.target.value }))}
+                    placeholder="Note to the employee (optional)"
+                    className="h-9 flex-1"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(regularization, 'approved')}
+                      disabled={reviewingId === regularizationId}
+                      className="flex-1 sm:flex-initial"
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(regularization, 'rejected')}
+                      disabled={reviewingId === regularizationId}
+                      className="flex-1 sm:flex-initial text-destructive"
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
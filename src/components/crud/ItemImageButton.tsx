@@ -0,0 +1,79 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Image as ImageIcon, Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { productService, processService } from '@/services/api';
+
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+interface ItemImageButtonProps {
+  kind: 'product' | 'process';
+  itemId: string;
+  imageUrl?: string;
+  onUploaded: (imageUrl: string) => void;
+  className?: string;
+}
+
+// Thumbnail plus picker for the picture employees tap on in simple mode
+export const ItemImageButton: React.FC<ItemImageButtonProps> = ({ kind, itemId, imageUrl, onUploaded, className }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFile = async (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast({ title: 'Error', description: 'Please choose an image file', variant: 'destructive' });
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast({ title: 'Error', description: 'Image must be 5 MB or smaller', variant: 'destructive' });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const service = kind === 'product' ? productService : processService;
+      const result = await service.uploadImage(itemId, file);
+      onUploaded(result.imageUrl);
+      toast({ title: 'Success', description: 'Picture updated' });
+    } catch (error) {
+      console.error(`Failed to upload ${kind} image:`, error);
+      const description = error instanceof Error && error.message ? error.message : 'Failed to upload picture';
+      toast({ title: 'Error', description, variant: 'destructive' });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) handleFile(file);
+        }}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className={className}
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading}
+      >
+        {uploading ? (
+          <Loader2 className="h-4 w-4 mr-1 sm:mr-2 animate-spin" />
+        ) : imageUrl ? (
+          <img src={imageUrl} alt="" className="h-4 w-4 mr-1 sm:mr-2 rounded object-cover" />
+        ) : (
+          <ImageIcon className="h-4 w-4 mr-1 sm:mr-2" />
+        )}
+        <span className="sm:inline">Picture</span>
+      </Button>
+    </>
+  );
+};
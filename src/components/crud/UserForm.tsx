@@ -26,6 +26,7 @@ const baseUserSchema = z.object({
       }, 'Phone number must have at least 5 digits'),
   }),
   isActive: z.boolean(),
+  simpleMode: z.boolean().optional(),
   assignedProcesses: z.array(z.string()).optional(),
   password: z.string().optional(),
 });
@@ -93,6 +94,7 @@ export const UserForm: React.FC<UserFormProps> = ({
         phone: initialData?.profile.phone || '',
       },
       isActive: initialData?.isActive ?? true,
+      simpleMode: initialData?.simpleMode ?? false,
       assignedProcesses: initialData?.assignedProcesses || [],
       password: '', // Add password field
       ...(isAdminRole ? { email: initialData?.email || '' } : {}),
@@ -140,6 +142,7 @@ export const UserForm: React.FC<UserFormProps> = ({
           phone: initialData.profile?.phone || '',
         },
         isActive: initialData.isActive ?? true,
+        simpleMode: initialData.simpleMode ?? false,
         assignedProcesses: initialData.assignedProcesses || [],
         ...(isAdminRole ? { email: initialData.email || '' } : {}),
       } as UserFormData;
@@ -153,6 +156,7 @@ export const UserForm: React.FC<UserFormProps> = ({
           phone: '',
         },
         isActive: true,
+        simpleMode: false,
         assignedProcesses: [],
         ...(isAdminRole ? { email: '' } : {}),
       } as UserFormData;
@@ -220,6 +224,7 @@ export const UserForm: React.FC<UserFormProps> = ({
                         phone: currentValues.profile.phone,
                       },
                       isActive: currentValues.isActive,
+                      simpleMode: currentValues.simpleMode,
                       password: currentValues.password,
                       ...(value === 'factory_admin' || value === 'super_admin' ? {
                         email: '',
@@ -375,6 +380,29 @@ export const UserForm: React.FC<UserFormProps> = ({
               />
             )}
 
+            {selectedRole === 'employee' && (
+              <FormField
+                control={form.control}
+                name="simpleMode"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Simple Mode</FormLabel>
+                      <div className="text-sm text-muted-foreground">
+                        Big buttons, pictures and spoken prompts instead of the full dashboard
+                      </div>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value ?? false}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="isActive"
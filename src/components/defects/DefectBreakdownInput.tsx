@@ -0,0 +1,76 @@
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { DEFECT_SEVERITY_LABELS, getDefectTotal } from '@/services/api/defect.service';
+import { DefectCode, WorkEntryDefect } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { cn } from '@/lib/utils';
+
+interface DefectBreakdownInputProps {
+  // Codes that apply to the selected process
+  codes: DefectCode[];
+  rejected: number;
+  value: WorkEntryDefect[];
+  onChange: (defects: WorkEntryDefect[]) => void;
+}
+
+// Splits the rejected quantity across defect codes; hidden until there is something rejected
+export const DefectBreakdownInput: React.FC<DefectBreakdownInputProps> = ({
+  codes,
+  rejected,
+  value,
+  onChange,
+}) => {
+  const { t } = useTranslation();
+
+  if (rejected <= 0 || codes.length === 0) return null;
+
+  const assigned = getDefectTotal(value);
+  const getQuantity = (code: string) => value.find((defect) => defect.code === code)?.quantity || 0;
+
+  const setQuantity = (code: string, quantity: number) => {
+    const others = value.filter((defect) => defect.code !== code);
+    onChange(quantity > 0 ? [...others, { code, quantity }] : others);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label>{t('production.defectsLabel')}</Label>
+        <span className={cn('text-sm font-medium', assigned === rejected ? 'text-green-600' : 'text-destructive')}>
+          {t('production.defectsAssigned', { assigned, rejected })}
+        </span>
+      </div>
+      <div className="space-y-2">
+        {codes.map((code) => (
+          <div key={code.code} className="flex items-center justify-between gap-3">
+            <div className="min-w-0 text-sm">
+              <div className="font-medium truncate">
+                <span className="font-mono">{code.code}</span> - {code.label}
+              </div>
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                {code.category}
+                {code.severity === 'critical' && (
+                  <Badge variant="destructive" className="text-[10px] px-1 py-0">
+                    {DEFECT_SEVERITY_LABELS[code.severity]}
+                  </Badge>
+                )}
+              </div>
+            </div>
+            <Input
+              type="number"
+              min="0"
+              max={rejected}
+              inputMode="numeric"
+              className="w-20 shrink-0"
+              value={getQuantity(code.code) || ''}
+              onChange={(e) => setQuantity(code.code, Math.max(0, parseInt(e.target.value) || 0))}
+              placeholder="0"
+              aria-label={t('production.defectQuantity', { label: code.label })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import { defectService, processService } from '@/services/api';
+import { DefectCodeInput, DEFECT_SEVERITY_LABELS } from '@/services/api/defect.service';
+import { DefectCode, DefectSeverity, Process } from '@/types';
+
+const EMPTY_FORM: DefectCodeInput = {
+  code: '',
+  label: '',
+  category: '',
+  severity: 'minor',
+  processIds: [],
+  isActive: true,
+};
+
+const SEVERITY_BADGE: Record<DefectSeverity, 'outline' | 'secondary' | 'destructive'> = {
+  minor: 'outline',
+  major: 'secondary',
+  critical: 'destructive',
+};
+
+const getDefectId = (defect: DefectCode) => defect._id || defect.id || '';
+
+const getProcessId = (process: Process) => process._id || process.id || '';
+
+// Defect codes employees split rejected pieces across
+export const DefectCatalogCard: React.FC = () => {
+  const [defects, setDefects] = useState<DefectCode[]>([]);
+  const [processes, setProcesses] = useState<Process[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<DefectCodeInput>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadDefects();
+    processService.getProcesses()
+      .then((response) => setProcesses(response.data || []))
+      .catch((error) => console.error('❌ Failed to load processes:', error));
+  }, []);
+
+  const loadDefects = async () => {
+    setLoading(true);
+    try {
+      setDefects(await defectService.getDefectCodes());
+    } catch (error) {
+      console.error('❌ Failed to load defect codes:', error);
+      toast.error('Failed to load defect codes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleProcess = (processId: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      processIds: checked
+        ? [...prev.processIds, processId]
+        : prev.processIds.filter((id) => id !== processId),
+    }));
+  };
+
+  const handleAddDefect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = form.code.trim().toUpperCase();
+    if (defects.some((defect) => defect.code === code)) {
+      toast.error(`Defect code ${code} already exists`);
+      return;
+    }
+
+    try {
+      await defectService.createDefectCode({
+        ...form,
+        code,
+        label: form.label.trim(),
+        category: form.category.trim(),
+      });
+      toast.success('Defect code added');
+      setDialogOpen(false);
+      setForm(EMPTY_FORM);
+      loadDefects();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add defect code');
+    }
+  };
+
+  const handleToggleActive = async (defect: DefectCode, isActive: boolean) => {
+    try {
+      await defectService.updateDefectCode(getDefectId(defect), { isActive });
+      setDefects((prev) => prev.map((d) => (getDefectId(d) === getDefectId(defect) ? { ...d, isActive } : d)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update defect code');
+    }
+  };
+
+  const handleDelete = async (defect: DefectCode) => {
+    if (!confirm(`Delete defect ${defect.code}? Rejects already recorded keep their code.`)) {
+      return;
+    }
+    try {
+      await defectService.deleteDefectCode(getDefectId(defect));
+      setDefects((prev) => prev.filter((d) => getDefectId(d) !== getDefectId(defect)));
+      toast.success('Defect code deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete defect code');
+    }
+  };
+
+  const getProcessNames = (defect: DefectCode) => {
+    if (defect.processIds.length === 0) return 'All processes';
+    return defect.processIds
+      .map((id) => processes.find((process) => getProcessId(process) === id)?.name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  const categories = Array.from(new Set(defects.map((defect) => defect.category).filter(Boolean)));
+
+  return (
+    <Card className="p-3 sm:p-4 md:p-6">
+      <CardHeader className="pb-3 sm:pb-4">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
+          <div className="flex-1">
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <ShieldAlert className="h-4 w-4 sm:h-5 sm:w-5" />
+              Defect Catalog
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Codes employees assign rejected pieces to
+            </CardDescription>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="w-full sm:w-auto min-h-[44px]">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Defect
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="w-[95vw] max-w-md sm:max-w-lg p-4 sm:p-6">
+              <DialogHeader>
+                <DialogTitle className="text-base sm:text-lg">Add Defect Code</DialogTitle>
+                <DialogDescription className="text-sm">
+                  Leave every process unticked to offer the code on all of them.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAddDefect} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+                  <div>
+                    <Label htmlFor="defectCode" className="text-sm sm:text-base">Code</Label>
+                    <Input
+                      id="defectCode"
+                      value={form.code}
+                      onChange={(e) => setForm((prev) => ({ ...prev, code: e.target.value }))}
+                      placeholder="e.g., SCR-01"
+                      required
+                      className="text-sm sm:text-base mt-1 uppercase"
+                    />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <Label htmlFor="defectLabel" className="text-sm sm:text-base">Description</Label>
+                    <Input
+                      id="defectLabel"
+                      value={form.label}
+                      onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+                      placeholder="e.g., Surface scratch"
+                      required
+                      className="text-sm sm:text-base mt-1"
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+                  <div>
+                    <Label htmlFor="defectCategory" className="text-sm sm:text-base">Category</Label>
+                    <Input
+                      id="defectCategory"
+                      list="defectCategories"
+                      value={form.category}
+                      onChange={(e) => setForm((prev) => ({ ...prev, category: e.target.value }))}
+                      placeholder="e.g., Finish"
+                      required
+                      className="text-sm sm:text-base mt-1"
+                    />
+                    <datalist id="defectCategories">
+                      {categories.map((category) => (
+                        <option key={category} value={category} />
+                      ))}
+                    </datalist>
+                  </div>
+                  <div>
+                    <Label className="text-sm sm:text-base">Severity</Label>
+                    <Select
+                      value={form.severity}
+                      onValueChange={(value) => setForm((prev) => ({ ...prev, severity: value as DefectSeverity }))}
+                    >
+                      <SelectTrigger className="mt-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DEFECT_SEVERITY_LABELS) as DefectSeverity[]).map((severity) => (
+                          <SelectItem key={severity} value={severity}>{DEFECT_SEVERITY_LABELS[severity]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-sm sm:text-base">Processes</Label>
+                  <div className="mt-1 max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                    {processes.length === 0 ? (
+                      <div className="text-sm text-muted-foreground">No processes found</div>
+                    ) : (
+                      processes.map((process) => (
+                        <label key={getProcessId(process)} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={form.processIds.includes(getProcessId(process))}
+                            onCheckedChange={(checked) => toggleProcess(getProcessId(process), checked === true)}
+                          />
+                          {process.name}
+                        </label>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2 pt-2">
+                  <Button type="submit" className="flex-1 min-h-[44px]">
+                    Add Defect
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} className="flex-1 min-h-[44px]">
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0 sm:p-6">
+        {loading ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">Loading defect codes...</div>
+        ) : defects.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            No defect codes yet. Until you add some, rejects are recorded as a plain quantity.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Processes</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {defects.map((defect) => (
+                  <TableRow key={getDefectId(defect)}>
+                    <TableCell className="font-mono font-medium">{defect.code}</TableCell>
+                    <TableCell>{defect.label}</TableCell>
+                    <TableCell>{defect.category}</TableCell>
+                    <TableCell>
+                      <Badge variant={SEVERITY_BADGE[defect.severity]}>{DEFECT_SEVERITY_LABELS[defect.severity]}</Badge>
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate text-sm text-muted-foreground">
+                      {getProcessNames(defect)}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={defect.isActive}
+                        onCheckedChange={(checked) => handleToggleActive(defect, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(defect)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldAlert } from 'lucide-react';
+import { defectService } from '@/services/api';
+import { DEFECT_SEVERITY_LABELS } from '@/services/api/defect.service';
+import { DefectParetoGroupBy, DefectParetoRow } from '@/types';
+
+interface DefectParetoCardProps {
+  startDate?: string;
+  endDate?: string;
+  productId?: string;
+  processId?: string;
+}
+
+const GROUP_BY_LABELS: Record<DefectParetoGroupBy, string> = {
+  defect: 'Defect code',
+  product: 'Product',
+  process: 'Process',
+  machine: 'Machine',
+  employee: 'Employee',
+};
+
+// Only the biggest causes are charted; the table lists everything
+const CHART_LIMIT = 10;
+
+// Rejected pieces ranked by cause, with the cumulative share that makes it a Pareto
+export const DefectParetoCard: React.FC<DefectParetoCardProps> = ({
+  startDate,
+  endDate,
+  productId,
+  processId,
+}) => {
+  const [groupBy, setGroupBy] = useState<DefectParetoGroupBy>('defect');
+  const [rows, setRows] = useState<DefectParetoRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    defectService.getPareto({ startDate, endDate, productId, processId, groupBy })
+      .then((data) => {
+        if (!cancelled) setRows(data);
+      })
+      .catch((error) => console.error('Failed to load defect Pareto:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, productId, processId, groupBy]);
+
+  const totalRejected = rows.reduce((total, row) => total + row.quantity, 0);
+  const chartRows = rows.slice(0, CHART_LIMIT).map((row) => ({
+    ...row,
+    name: groupBy === 'defect' ? row.key : row.label,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <ShieldAlert className="h-5 w-5" />
+              Top Defect Causes
+            </CardTitle>
+            <CardDescription>
+              Rejected pieces by {GROUP_BY_LABELS[groupBy].toLowerCase()}
+              {totalRejected > 0 && ` · ${totalRejected} in total`}
+            </CardDescription>
+          </div>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as DefectParetoGroupBy)}>
+            <SelectTrigger className="w-full sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(GROUP_BY_LABELS) as DefectParetoGroupBy[]).map((key) => (
+                <SelectItem key={key} value={key}>By {GROUP_BY_LABELS[key].toLowerCase()}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">Loading defects...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">No rejects with defect codes in this period</div>
+        ) : (
+          <>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartRows} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" fontSize={10} interval={0} angle={-30} textAnchor="end" height={60} />
+                  <YAxis yAxisId="quantity" fontSize={10} width={40} allowDecimals={false} />
+                  <YAxis
+                    yAxisId="share"
+                    orientation="right"
+                    domain={[0, 100]}
+                    fontSize={10}
+                    width={40}
+                    tickFormatter={(value) => `${value}%`}
+                  />
+                  <Tooltip
+                    formatter={(value: number, name: string) =>
+                      name === 'cumulativePercentage' ? [`${value.toFixed(1)}%`, 'Cumulative'] : [value, 'Rejected']
+                    }
+                  />
+                  <Bar yAxisId="quantity" dataKey="quantity" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} />
+                  <Line
+                    yAxisId="share"
+                    type="monotone"
+                    dataKey="cumulativePercentage"
+                    stroke="hsl(var(--primary))"
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{GROUP_BY_LABELS[groupBy]}</TableHead>
+                    {groupBy === 'defect' ? (
+                      <TableHead>Severity</TableHead>
+                    ) : (
+                      <TableHead>Top cause</TableHead>
+                    )}
+                    <TableHead className="text-right">Rejected</TableHead>
+                    <TableHead className="text-right">Share</TableHead>
+                    <TableHead className="text-right">Cumulative</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell>
+                        {groupBy === 'defect' ? (
+                          <>
+                            <span className="font-mono">{row.key}</span> - {row.label}
+                            {row.category && <div className="text-xs text-muted-foreground">{row.category}</div>}
+                          </>
+                        ) : (
+                          row.label
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {groupBy === 'defect' ? (
+                          row.severity && (
+                            <Badge variant={row.severity === 'critical' ? 'destructive' : 'outline'}>
+                              {DEFECT_SEVERITY_LABELS[row.severity]}
+                            </Badge>
+                          )
+                        ) : (
+                          row.topDefectCode && (
+                            <span className="text-sm">
+                              <span className="font-mono">{row.topDefectCode}</span>
+                              {row.topDefectLabel && ` - ${row.topDefectLabel}`}
+                            </span>
+                          )
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.quantity}</TableCell>
+                      <TableCell className="text-right">{row.percentage.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{row.cumulativePercentage.toFixed(1)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
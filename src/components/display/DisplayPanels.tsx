@@ -0,0 +1,255 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart3, Clock, QrCode, Trophy } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { GateCheckInCode, HourlyProductionData, ProductPlanData, ProductProcessStagesData } from '@/types';
+import { EmployeePerformanceData } from '@/services/api/reports.service';
+
+// Panels shared by the production display and the rotating kiosk displays
+
+const tooltipStyle = {
+  backgroundColor: '#1F2937',
+  border: '1px solid #374151',
+  borderRadius: '8px',
+  color: '#F9FAFB'
+};
+
+const getEfficiencyClass = (efficiency: number) => {
+  if (efficiency >= 90) return 'text-green-400';
+  if (efficiency >= 70) return 'text-yellow-400';
+  return 'text-red-400';
+};
+
+const EmptyChart: React.FC<{ title: string; description: string }> = ({ title, description }) => (
+  <div className="h-64 sm:h-80 lg:h-96 flex items-center justify-center border-2 border-dashed border-gray-600 rounded-lg">
+    <div className="text-center space-y-4">
+      <BarChart3 className="h-16 w-16 mx-auto text-gray-500 opacity-50" />
+      <div>
+        <h3 className="text-xl font-semibold text-gray-400 mb-2">{title}</h3>
+        <p className="text-gray-500 text-sm">{description}</p>
+      </div>
+    </div>
+  </div>
+);
+
+export const HourlyProductionPanel: React.FC<{ hourlyData: HourlyProductionData[] }> = ({ hourlyData }) => (
+  <Card className="bg-gray-800 border-gray-700 mb-8">
+    <CardHeader>
+      <CardTitle className="text-white text-2xl flex items-center">
+        <Clock className="h-6 w-6 mr-2" />
+        Hourly Production
+      </CardTitle>
+      <CardDescription className="text-gray-400">
+        Actual production against plan for each hour of the day
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      {hourlyData.length > 0 ? (
+        <div className="h-64 sm:h-80 lg:h-96">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={hourlyData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="hour" stroke="#9CA3AF" fontSize={14} />
+              <YAxis stroke="#9CA3AF" fontSize={14} />
+              <Tooltip contentStyle={tooltipStyle} />
+              <Legend />
+              <Bar dataKey="production" name="Actual" fill="#10B981" radius={[2, 2, 0, 0]} maxBarSize={40} />
+              <Bar dataKey="expected" name="Expected" fill="#3B82F6" radius={[2, 2, 0, 0]} maxBarSize={40} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <EmptyChart title="No Hourly Data Yet" description="Hourly figures appear once production is logged today." />
+      )}
+    </CardContent>
+  </Card>
+);
+
+export const ProcessStagesPanel: React.FC<{ products: ProductProcessStagesData[] }> = ({ products }) => (
+  <>
+    {products.map((product, productIndex) => {
+      const processChartData = (product.processes || [])
+        .filter((process) => process != null && process.processName)
+        .map((process) => ({
+          name: process.processName || 'Unknown',
+          stageOrder: Number(process.stageOrder || 0),
+          achieved: Number(process.achievedQuantity || 0),
+          rejected: Number(process.rejectedQuantity || 0)
+        }))
+        .sort((a, b) => a.stageOrder - b.stageOrder)
+        .filter((item) => item.achieved > 0 || item.rejected > 0); // Filter out zero-only entries
+
+      return (
+        <Card key={`process-${productIndex}`} className="bg-gray-800 border-gray-700 mb-8">
+          <CardHeader>
+            <CardTitle className="text-white text-2xl flex items-center">
+              <BarChart3 className="h-6 w-6 mr-2" />
+              {product.productName} - Process Stages Analytics
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Achieved vs Rejected quantities by process stage for {product.productName}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {processChartData.length > 0 ? (
+              <div className="h-64 sm:h-80 lg:h-96">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={processChartData}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                    <XAxis
+                      dataKey="name"
+                      stroke="#9CA3AF"
+                      fontSize={14}
+                      angle={-45}
+                      textAnchor="end"
+                      height={80}
+                    />
+                    <YAxis
+                      stroke="#9CA3AF"
+                      fontSize={14}
+                      label={{ value: 'Quantity', angle: -90, position: 'insideLeft', style: { fontSize: '14px' } }}
+                    />
+                    <Tooltip
+                      contentStyle={tooltipStyle}
+                      formatter={(value, name) => [value, name === 'achieved' ? 'Achieved' : 'Rejected']}
+                      labelFormatter={(label) => `Process: ${label}`}
+                    />
+                    <Bar dataKey="achieved" fill="#10B981" name="achieved" radius={[2, 2, 0, 0]} maxBarSize={40} />
+                    <Bar dataKey="rejected" fill="#EF4444" name="rejected" radius={[2, 2, 0, 0]} maxBarSize={40} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <EmptyChart
+                title="No Process Data Available"
+                description={`No process stage data found for ${product.productName}.`}
+              />
+            )}
+          </CardContent>
+        </Card>
+      );
+    })}
+  </>
+);
+
+export const ProductPlanPanel: React.FC<{ rows: ProductPlanData[] }> = ({ rows }) => (
+  <Card className="bg-gray-800 border-gray-700">
+    <CardHeader>
+      <CardTitle className="text-white text-2xl">Production Plan Status</CardTitle>
+      <CardDescription className="text-gray-400">
+        Current production vs plan by product
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-600">
+              <TableHead className="text-gray-300 text-xs sm:text-sm">SEQUENCE</TableHead>
+              <TableHead className="text-gray-300 text-xs sm:text-sm">MODEL CODE</TableHead>
+              <TableHead className="text-gray-300 text-xs sm:text-sm">MODEL NAME</TableHead>
+              <TableHead className="text-gray-300 text-xs sm:text-sm">PRODUCTION</TableHead>
+              <TableHead className="text-gray-300 text-xs sm:text-sm">REJECTED</TableHead>
+              <TableHead className="text-gray-300 text-xs sm:text-sm">EFFICIENCY (%)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((product, index) => (
+              <TableRow key={index} className="border-gray-600 hover:bg-gray-700">
+                <TableCell className="text-white font-medium text-xs sm:text-sm">
+                  {product.sequence}
+                </TableCell>
+                <TableCell className="text-gray-300 text-xs sm:text-sm">
+                  {product.modelCode}
+                </TableCell>
+                <TableCell className="text-white font-medium text-xs sm:text-sm">
+                  {product.modelName}
+                </TableCell>
+                <TableCell className="text-green-400 font-bold text-xs sm:text-sm">
+                  {product.production}
+                </TableCell>
+                <TableCell className="text-red-400 font-bold text-xs sm:text-sm">
+                  {product.rejected}
+                </TableCell>
+                <TableCell className={`font-bold text-xs sm:text-sm ${getEfficiencyClass(product.efficiency)}`}>
+                  {product.efficiency.toFixed(1)}%
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+export const TopPerformersPanel: React.FC<{ performers: EmployeePerformanceData[] }> = ({ performers }) => (
+  <Card className="bg-gray-800 border-gray-700">
+    <CardHeader>
+      <CardTitle className="text-white text-2xl flex items-center">
+        <Trophy className="h-6 w-6 mr-2 text-yellow-400" />
+        Top Performers Today
+      </CardTitle>
+      <CardDescription className="text-gray-400">
+        Highest production so far this shift
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      {performers.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-gray-600">
+              <TableHead className="text-gray-300 text-lg">#</TableHead>
+              <TableHead className="text-gray-300 text-lg">EMPLOYEE</TableHead>
+              <TableHead className="text-gray-300 text-lg">PRODUCTION</TableHead>
+              <TableHead className="text-gray-300 text-lg">REJECTED</TableHead>
+              <TableHead className="text-gray-300 text-lg">EFFICIENCY (%)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {performers.map((performer, index) => (
+              <TableRow key={`${performer.name}-${index}`} className="border-gray-600 hover:bg-gray-700">
+                <TableCell className="text-white font-bold text-2xl">{index + 1}</TableCell>
+                <TableCell className="text-white font-medium text-2xl">{performer.name}</TableCell>
+                <TableCell className="text-green-400 font-bold text-2xl">{performer.production}</TableCell>
+                <TableCell className="text-red-400 font-bold text-2xl">{performer.rejections}</TableCell>
+                <TableCell className={`font-bold text-2xl ${getEfficiencyClass(performer.efficiency)}`}>
+                  {Number(performer.efficiency || 0).toFixed(1)}%
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="py-12 text-center text-gray-400 text-xl">No production logged yet today</div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+export const GateCheckInPanel: React.FC<{ gateCode: GateCheckInCode | null }> = ({ gateCode }) => (
+  <Card className="bg-gray-800 border-gray-700">
+    <CardHeader>
+      <CardTitle className="text-white text-2xl flex items-center">
+        <QrCode className="h-6 w-6 mr-2" />
+        Scan to Check In
+      </CardTitle>
+      <CardDescription className="text-gray-400">
+        Tap Check In on your phone and scan this code. It changes every few minutes.
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      {gateCode ? (
+        <div className="flex justify-center">
+          <img
+            src={gateCode.qrImage}
+            alt="Check-in QR code"
+            className="w-72 h-72 sm:w-96 sm:h-96 rounded-lg bg-white p-4"
+          />
+        </div>
+      ) : (
+        <div className="py-12 text-center text-gray-400 text-xl">Loading check-in code...</div>
+      )}
+    </CardContent>
+  </Card>
+);
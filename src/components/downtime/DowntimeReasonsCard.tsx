@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2, PauseCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { downtimeService } from '@/services/api';
+import { DowntimeReasonInput, DOWNTIME_CATEGORY_LABELS } from '@/services/api/downtime.service';
+import { DowntimeCategory, DowntimeReason } from '@/types';
+
+const EMPTY_FORM: DowntimeReasonInput = {
+  code: '',
+  label: '',
+  category: 'breakdown',
+  isActive: true,
+};
+
+const getReasonId = (reason: DowntimeReason) => reason._id || reason.id || '';
+
+// Reason codes employees pick from when they log a machine stoppage
+export const DowntimeReasonsCard: React.FC = () => {
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<DowntimeReasonInput>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadReasons();
+  }, []);
+
+  const loadReasons = async () => {
+    setLoading(true);
+    try {
+      setReasons(await downtimeService.getReasons());
+    } catch (error) {
+      console.error('❌ Failed to load downtime reasons:', error);
+      toast.error('Failed to load downtime reasons');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddReason = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = form.code.trim().toUpperCase();
+    if (reasons.some((reason) => reason.code === code)) {
+      toast.error(`Reason code ${code} already exists`);
+      return;
+    }
+
+    try {
+      await downtimeService.createReason({ ...form, code, label: form.label.trim() });
+      toast.success('Downtime reason added');
+      setDialogOpen(false);
+      setForm(EMPTY_FORM);
+      loadReasons();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add downtime reason');
+    }
+  };
+
+  const handleToggleActive = async (reason: DowntimeReason, isActive: boolean) => {
+    try {
+      await downtimeService.updateReason(getReasonId(reason), { isActive });
+      setReasons((prev) => prev.map((r) => (getReasonId(r) === getReasonId(reason) ? { ...r, isActive } : r)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update downtime reason');
+    }
+  };
+
+  const handleDelete = async (reason: DowntimeReason) => {
+    if (!confirm(`Delete reason ${reason.code}? Stoppages already logged keep their code.`)) {
+      return;
+    }
+    try {
+      await downtimeService.deleteReason(getReasonId(reason));
+      setReasons((prev) => prev.filter((r) => getReasonId(r) !== getReasonId(reason)));
+      toast.success('Downtime reason deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete downtime reason');
+    }
+  };
+
+  return (
+    <Card className="p-3 sm:p-4 md:p-6">
+      <CardHeader className="pb-3 sm:pb-4">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
+          <div className="flex-1">
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <PauseCircle className="h-4 w-4 sm:h-5 sm:w-5" />
+              Downtime Reasons
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Codes employees choose from when a machine stops
+            </CardDescription>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="w-full sm:w-auto min-h-[44px]">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Reason
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="w-[95vw] max-w-md sm:max-w-lg p-4 sm:p-6">
+              <DialogHeader>
+                <DialogTitle className="text-base sm:text-lg">Add Downtime Reason</DialogTitle>
+                <DialogDescription className="text-sm">
+                  Breakdowns, material shortages and quality stops count against availability; planned stops and changeovers are reported separately.
+                </DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleAddReason} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+                  <div>
+                    <Label htmlFor="reasonCode" className="text-sm sm:text-base">Code</Label>
+                    <Input
+                      id="reasonCode"
+                      value={form.code}
+                      onChange={(e) => setForm((prev) => ({ ...prev, code: e.target.value }))}
+                      placeholder="e.g., BRK-01"
+                      required
+                      className="text-sm sm:text-base mt-1 uppercase"
+                    />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <Label htmlFor="reasonLabel" className="text-sm sm:text-base">Description</Label>
+                    <Input
+                      id="reasonLabel"
+                      value={form.label}
+                      onChange={(e) => setForm((prev) => ({ ...prev, label: e.target.value }))}
+                      placeholder="e.g., Hydraulic failure"
+                      required
+                      className="text-sm sm:text-base mt-1"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-sm sm:text-base">Category</Label>
+                  <Select
+                    value={form.category}
+                    onValueChange={(value) => setForm((prev) => ({ ...prev, category: value as DowntimeCategory }))}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DOWNTIME_CATEGORY_LABELS) as DowntimeCategory[]).map((category) => (
+                        <SelectItem key={category} value={category}>{DOWNTIME_CATEGORY_LABELS[category]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2 pt-2">
+                  <Button type="submit" className="flex-1 min-h-[44px]">
+                    Add Reason
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} className="flex-1 min-h-[44px]">
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0 sm:p-6">
+        {loading ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">Loading reasons...</div>
+        ) : reasons.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            No downtime reasons yet. Add the common stoppage causes for your machines.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reasons.map((reason) => (
+                  <TableRow key={getReasonId(reason)}>
+                    <TableCell className="font-mono font-medium">{reason.code}</TableCell>
+                    <TableCell>{reason.label}</TableCell>
+                    <TableCell>
+                      <Badge variant={reason.category === 'planned' || reason.category === 'changeover' ? 'secondary' : 'outline'}>
+                        {DOWNTIME_CATEGORY_LABELS[reason.category]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={reason.isActive}
+                        onCheckedChange={(checked) => handleToggleActive(reason, checked)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(reason)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PauseCircle } from 'lucide-react';
+import { downtimeService } from '@/services/api';
+import { DOWNTIME_CATEGORY_LABELS } from '@/services/api/downtime.service';
+import { DowntimeSummary } from '@/types';
+import { formatWorkHours } from '@/utils/dateUtils';
+
+interface DowntimeSummaryCardProps {
+  startDate?: string;
+  endDate?: string;
+  machineId?: string;
+  title?: string;
+  description?: string;
+  // Bump to reload, e.g. when a machine_status_changed event arrives
+  refreshKey?: number;
+}
+
+// Machine time lost per reason code, so low efficiency can be traced to stoppages
+export const DowntimeSummaryCard: React.FC<DowntimeSummaryCardProps> = ({
+  startDate,
+  endDate,
+  machineId,
+  title = 'Machine Downtime by Reason',
+  description = 'Stoppages logged against machines in this period',
+  refreshKey = 0,
+}) => {
+  const [summary, setSummary] = useState<DowntimeSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    downtimeService.getSummary({ startDate, endDate, machineId })
+      .then((rows) => {
+        if (!cancelled) setSummary(rows);
+      })
+      .catch((error) => console.error('Failed to load downtime summary:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate, machineId, refreshKey]);
+
+  const totalMinutes = summary.reduce((total, row) => total + row.totalMinutes, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <PauseCircle className="h-5 w-5" />
+          {title}
+        </CardTitle>
+        <CardDescription>
+          {description}
+          {totalMinutes > 0 && ` · ${formatWorkHours(totalMinutes / 60)} in total`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">Loading downtime...</div>
+        ) : summary.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">No stoppages logged</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Stoppages</TableHead>
+                  <TableHead className="text-right">Time lost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...summary].sort((a, b) => b.totalMinutes - a.totalMinutes).map((row) => (
+                  <TableRow key={row.reasonCode}>
+                    <TableCell>
+                      <span className="font-mono">{row.reasonCode}</span> - {row.reasonLabel}
+                    </TableCell>
+                    <TableCell>{DOWNTIME_CATEGORY_LABELS[row.category] || row.category}</TableCell>
+                    <TableCell className="text-right">{row.occurrences}</TableCell>
+                    <TableCell className="text-right">{formatWorkHours(row.totalMinutes / 60)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
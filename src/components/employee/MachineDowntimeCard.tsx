@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { PauseCircle, PlayCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { downtimeService } from '@/services/api';
+import { getDowntimeMachineId } from '@/services/api/downtime.service';
+import { wsService } from '@/services/websocket.service';
+import { DowntimeEvent, DowntimeReason, Machine } from '@/types';
+import { formatTime } from '@/utils/dateUtils';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface MachineDowntimeCardProps {
+  machines: Machine[];
+  // Machine the employee is working on, preselected in the form
+  defaultMachineId?: string;
+  className?: string;
+}
+
+const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const getDowntimeId = (event: DowntimeEvent) => event._id || event.id || '';
+
+// Lets operators record machine stoppages so lost output is put down to the machine, not the operator
+export const MachineDowntimeCard: React.FC<MachineDowntimeCardProps> = ({
+  machines,
+  defaultMachineId,
+  className = '',
+}) => {
+  const { t } = useTranslation();
+  const [reasons, setReasons] = useState<DowntimeReason[]>([]);
+  const [openStoppages, setOpenStoppages] = useState<DowntimeEvent[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [endingId, setEndingId] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    machineId: '',
+    reasonCode: '',
+    startTime: '',
+    stillStopped: true,
+    endTime: '',
+    notes: '',
+  });
+
+  const loadOpenStoppages = useCallback(async () => {
+    try {
+      setOpenStoppages(await downtimeService.getDowntime({ open: true }));
+    } catch (error) {
+      console.error('Failed to load open stoppages:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    downtimeService.getReasons()
+      .then((list) => setReasons(list.filter((reason) => reason.isActive)))
+      .catch((error) => console.error('Failed to load downtime reasons:', error));
+    loadOpenStoppages();
+
+    return wsService.subscribe('machine_status_changed', loadOpenStoppages);
+  }, [loadOpenStoppages]);
+
+  const openDialog = () => {
+    setForm({
+      machineId: defaultMachineId || '',
+      reasonCode: '',
+      startTime: toDateTimeLocal(new Date()),
+      stillStopped: true,
+      endTime: '',
+      notes: '',
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.machineId || !form.reasonCode) {
+      toast.error(t('downtime.selectMachineAndReason'));
+      return;
+    }
+    if (!form.stillStopped && (!form.endTime || new Date(form.endTime) <= new Date(form.startTime))) {
+      toast.error(t('downtime.endBeforeStart'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await downtimeService.logDowntime({
+        machineId: form.machineId,
+        reasonCode: form.reasonCode,
+        startTime: new Date(form.startTime).toISOString(),
+        endTime: form.stillStopped ? undefined : new Date(form.endTime).toISOString(),
+        notes: form.notes.trim() || undefined,
+      });
+      toast.success(form.stillStopped ? t('downtime.reported') : t('downtime.logged'));
+      setDialogOpen(false);
+      loadOpenStoppages();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('downtime.logFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleEnd = async (event: DowntimeEvent) => {
+    setEndingId(getDowntimeId(event));
+    try {
+      await downtimeService.endDowntime(getDowntimeId(event));
+      toast.success(t('downtime.markedRunning'));
+      loadOpenStoppages();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('downtime.endFailed'));
+    } finally {
+      setEndingId(null);
+    }
+  };
+
+  const getMachineName = (event: DowntimeEvent) => {
+    if (typeof event.machineId === 'object') return event.machineId.name;
+    return machines.find((machine) => machine._id === event.machineId)?.name || t('downtime.machineFallback');
+  };
+
+  const getReasonLabel = (code: string) => reasons.find((reason) => reason.code === code)?.label || code;
+
+  // Only stoppages on machines this employee can pick
+  const machineIds = new Set(machines.map((machine) => machine._id));
+  const visibleStoppages = openStoppages.filter((event) => machineIds.has(getDowntimeMachineId(event)));
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <PauseCircle className="h-4 w-4" />
+              {t('downtime.title')}
+            </CardTitle>
+            <CardDescription>{t('downtime.hint')}</CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={openDialog} disabled={machines.length === 0}>
+            {t('downtime.report')}
+          </Button>
+        </div>
+      </CardHeader>
+      {visibleStoppages.length > 0 && (
+        <CardContent className="space-y-2">
+          {visibleStoppages.map((event) => (
+            <div key={getDowntimeId(event)} className="flex items-center justify-between gap-2 rounded-lg border border-destructive/50 p-3 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">{getMachineName(event)}</div>
+                <div className="text-muted-foreground">
+                  {t('downtime.since', { reason: event.reasonLabel || getReasonLabel(event.reasonCode), time: formatTime(event.startTime) })}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge variant="destructive">{t('downtime.down')}</Badge>
+                <Button size="sm" onClick={() => handleEnd(event)} disabled={endingId === getDowntimeId(event)}>
+                  {endingId === getDowntimeId(event) ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <PlayCircle className="h-4 w-4" />
+                  )}
+                  <span className="ml-1">{t('downtime.runningAgain')}</span>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="w-[95vw] max-w-md" aria-describedby="report-stoppage-description">
+          <DialogHeader>
+            <DialogTitle>{t('downtime.dialogTitle')}</DialogTitle>
+            <DialogDescription id="report-stoppage-description">
+              {t('downtime.dialogHint')}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>{t('downtime.machine')}</Label>
+              <Select value={form.machineId} onValueChange={(value) => setForm((prev) => ({ ...prev, machineId: value }))}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder={t('downtime.selectMachine')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {machines.map((machine) => (
+                    <SelectItem key={machine._id} value={machine._id}>{machine.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{t('common.reason')}</Label>
+              <Select value={form.reasonCode} onValueChange={(value) => setForm((prev) => ({ ...prev, reasonCode: value }))}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder={reasons.length === 0 ? t('downtime.noReasons') : t('downtime.selectReason')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {reasons.map((reason) => (
+                    <SelectItem key={reason.code} value={reason.code}>
+                      {reason.code} - {reason.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="downtimeStart">{t('downtime.stoppedAt')}</Label>
+              <Input
+                id="downtimeStart"
+                type="datetime-local"
+                value={form.startTime}
+                max={toDateTimeLocal(new Date())}
+                onChange={(e) => setForm((prev) => ({ ...prev, startTime: e.target.value }))}
+                required
+                className="mt-1"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={form.stillStopped}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, stillStopped: checked === true }))}
+              />
+              {t('downtime.stillStopped')}
+            </label>
+            {!form.stillStopped && (
+              <div>
+                <Label htmlFor="downtimeEnd">{t('downtime.runningAgainAt')}</Label>
+                <Input
+                  id="downtimeEnd"
+                  type="datetime-local"
+                  value={form.endTime}
+                  min={form.startTime}
+                  max={toDateTimeLocal(new Date())}
+                  onChange={(e) => setForm((prev) => ({ ...prev, endTime: e.target.value }))}
+                  required
+                  className="mt-1"
+                />
+              </div>
+            )}
+            <div>
+              <Label htmlFor="downtimeNotes">{t('downtime.notes')}</Label>
+              <Textarea
+                id="downtimeNotes"
+                value={form.notes}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                className="mt-1"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={submitting}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t('common.save')}
+              </Button>
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setDialogOpen(false)}>
+                {t('common.cancel')}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
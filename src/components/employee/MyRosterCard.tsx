@@ -0,0 +1,71 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { CalendarDays } from 'lucide-react';
+import { Machine, Process, RosterAssignment } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getLocale } from '@/i18n';
+
+interface MyRosterCardProps {
+  // The employee's slots for the coming days, from rosterService.getMyRoster
+  assignments: RosterAssignment[];
+  processes: Process[];
+  machines: Machine[];
+  // Current production day (yyyy-MM-dd); after midnight a night shift is still today
+  today: string;
+  className?: string;
+}
+
+const getAssignmentId = (assignment: RosterAssignment) => assignment._id || assignment.id || '';
+
+// Shows the employee where the supervisor has put them over the next week
+export const MyRosterCard: React.FC<MyRosterCardProps> = ({ assignments, processes, machines, today, className = '' }) => {
+  const { language, t } = useTranslation();
+
+  if (assignments.length === 0) return null;
+
+  const sorted = [...assignments].sort((a, b) => a.date.localeCompare(b.date));
+
+  const describeDay = (date: string) => {
+    if (date === today) return t('roster.today');
+    if (date === format(addDays(parseISO(today), 1), 'yyyy-MM-dd')) return t('roster.tomorrow');
+    return parseISO(date).toLocaleDateString(getLocale(language), { weekday: 'short', day: 'numeric', month: 'short' });
+  };
+
+  const getProcessName = (assignment: RosterAssignment) =>
+    assignment.processName || processes.find((p) => p._id === assignment.processId)?.name || t('roster.process');
+
+  const getMachineName = (assignment: RosterAssignment) =>
+    assignment.machineName || machines.find((m) => m._id === assignment.machineId)?.name;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarDays className="h-4 w-4" />
+          {t('roster.title')}
+        </CardTitle>
+        <CardDescription>{t('roster.hint')}</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y">
+          {sorted.map((assignment) => {
+            const machineName = getMachineName(assignment);
+            return (
+              <div key={getAssignmentId(assignment)} className="flex items-center justify-between gap-2 px-6 py-3 text-sm">
+                <div>
+                  <div className="font-medium">{describeDay(assignment.date)}</div>
+                  <div className="text-muted-foreground">
+                    {getProcessName(assignment)}
+                    {machineName && ` · ${machineName}`}
+                  </div>
+                </div>
+                <Badge variant={assignment.date === today ? 'default' : 'secondary'}>{assignment.shiftName}</Badge>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { CloudOff, RefreshCw, AlertTriangle, Loader2 } from 'lucide-react';
+import { useOfflineStore } from '@/stores/offlineStore';
+import { useAuthStore } from '@/stores/authStore';
+import { syncService, QueuedProductionSubmission } from '@/services/syncService';
+import { formatTime } from '@/utils/dateUtils';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface PendingSyncSubmissionsProps {
+  className?: string;
+}
+
+// Production entries saved on this device that the server has not accepted yet
+export const PendingSyncSubmissions: React.FC<PendingSyncSubmissionsProps> = ({ className = '' }) => {
+  const { t } = useTranslation();
+  const offlineQueue = useOfflineStore((state) => state.offlineQueue);
+  const isOnline = useOfflineStore((state) => state.isOnline);
+  const userId = useAuthStore((state) => state.user?._id || state.user?.id);
+  const [syncing, setSyncing] = useState(false);
+
+  const submissions = offlineQueue.filter(
+    (item) => item.userId === userId && item.type === 'work_entry' && item.status !== 'synced'
+  );
+
+  if (submissions.length === 0) {
+    return null;
+  }
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await syncService.forceSync();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <CloudOff className="h-4 w-4" />
+              {t('sync.savedOnDevice')}
+            </CardTitle>
+            <CardDescription>
+              {isOnline ? t('sync.uploadingWhenReachable') : t('sync.uploadWhenOnline')}
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleSyncNow} disabled={!isOnline || syncing}>
+            {syncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span className="ml-1">{t('sync.syncNow')}</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {submissions.map((item) => {
+          const submission = item.data as QueuedProductionSubmission;
+          const isDeadLetter = item.status === 'dead_letter';
+
+          return (
+            <div key={item.id} className="flex items-start justify-between gap-2 rounded-lg border p-3 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium truncate">
+                  {submission.summary.productName || t('sync.productFallback')}
+                  {submission.summary.processName ? ` · ${submission.summary.processName}` : ''}
+                </div>
+                <div className="text-muted-foreground">
+                  {t('sync.summary', {
+                    achieved: submission.summary.achieved,
+                    rejected: submission.summary.rejected,
+                    time: formatTime(item.timestamp),
+                  })}
+                </div>
+                {item.lastError && (
+                  <div className={`mt-1 text-xs ${isDeadLetter ? 'text-destructive' : 'text-muted-foreground'}`}>
+                    {isDeadLetter && <AlertTriangle className="inline h-3 w-3 mr-1" />}
+                    {item.lastError.message}
+                  </div>
+                )}
+              </div>
+              {isDeadLetter ? (
+                <Badge variant="destructive" className="shrink-0">{t('sync.failed')}</Badge>
+              ) : (
+                <Badge variant="secondary" className="shrink-0">{t('sync.pending')}</Badge>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
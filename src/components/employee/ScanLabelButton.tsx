@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CameraCapture } from '@/components/CameraCapture';
+import { ScanLine } from 'lucide-react';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface ScanLabelButtonProps {
+  // Raw text read from the code; the page decides what it selects
+  onScan: (value: string) => void;
+  className?: string;
+}
+
+// Opens the camera to read a product, process or machine label
+export const ScanLabelButton: React.FC<ScanLabelButtonProps> = ({ onScan, className }) => {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+
+  const handleScan = (value: string) => {
+    setOpen(false);
+    onScan(value);
+  };
+
+  return (
+    <>
+      <Button type="button" variant="outline" onClick={() => setOpen(true)} className={className}>
+        <ScanLine className="h-4 w-4 mr-2" />
+        {t('scan.button')}
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="w-[95vw] max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t('scan.button')}</DialogTitle>
+            <DialogDescription>
+              {t('scan.hint')}
+            </DialogDescription>
+          </DialogHeader>
+          {open && (
+            <CameraCapture mode="scan" onScan={handleScan} onCancel={() => setOpen(false)} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,471 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Camera, Check, CheckCircle, Cog, Delete, Loader2, LogIn, Package, Send, Volume2, VolumeX, Wrench } from 'lucide-react';
+import { CameraCapture } from '@/components/CameraCapture';
+import { Attendance, Machine, Process, Product } from '@/types';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSpeech } from '@/hooks/useSpeech';
+import { MessageKey } from '@/i18n';
+import { formatTime } from '@/utils/dateUtils';
+
+type Step = 'checkIn' | 'product' | 'process' | 'machine' | 'count' | 'photo' | 'review' | 'done';
+
+const STEP_PROMPTS: Record<Step, MessageKey> = {
+  checkIn: 'simple.prompts.checkIn',
+  product: 'simple.prompts.product',
+  process: 'simple.prompts.process',
+  machine: 'simple.prompts.machine',
+  count: 'simple.prompts.count',
+  photo: 'simple.prompts.photo',
+  review: 'simple.prompts.review',
+  done: 'simple.prompts.done',
+};
+
+const PROGRESS_STEPS: Step[] = ['product', 'process', 'machine', 'count', 'photo', 'review'];
+
+const PREVIOUS_STEP: Partial<Record<Step, Step>> = {
+  process: 'product',
+  machine: 'process',
+  count: 'machine',
+  photo: 'count',
+  review: 'photo',
+};
+
+const KEYPAD_DIGITS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+const MAX_COUNT_DIGITS = 6;
+
+const VOICE_STORAGE_KEY = 'simple_mode_voice';
+
+// Tiles without a picture get a steady color from the name so the same job always looks the same
+const TILE_COLORS = ['bg-sky-500', 'bg-emerald-500', 'bg-amber-500', 'bg-rose-500', 'bg-violet-500', 'bg-teal-500'];
+const tileColor = (name: string) =>
+  TILE_COLORS[Array.from(name).reduce((sum, char) => sum + char.charCodeAt(0), 0) % TILE_COLORS.length];
+
+// A process names the machine it runs on; without a match any of the factory's machines will do
+const machinesForProcess = (machines: Machine[], process?: Process) => {
+  const linked = process?.machineNumber ? machines.filter(m => m.name === process.machineNumber) : [];
+  return linked.length > 0 ? linked : machines;
+};
+
+const readVoicePreference = () => {
+  try {
+    return localStorage.getItem(VOICE_STORAGE_KEY) !== 'off';
+  } catch {
+    return true;
+  }
+};
+
+interface SimpleEmployeeModeProps {
+  products: Product[];
+  // Stages of the selected product
+  processes: Process[];
+  attendance: Attendance | null;
+  selectedProduct: string;
+  selectedProcess: string;
+  onSelectProduct: (productId: string) => void;
+  onSelectProcess: (processId: string) => void;
+  machines: Machine[];
+  selectedMachine: string;
+  onSelectMachine: (machineId: string) => void;
+  quantity: string;
+  onQuantityChange: (quantity: string) => void;
+  photo: string | null;
+  onPhotoChange: (photo: string | null) => void;
+  loading: boolean;
+  onCheckIn: () => void;
+  // The dashboard's own submit; it clears the photo once the entry is sent or queued
+  onSubmit: () => Promise<void>;
+}
+
+interface JobTileProps {
+  name: string;
+  imageUrl?: string;
+  fallback: React.ReactNode;
+  selected?: boolean;
+  onClick?: () => void;
+}
+
+const JobTile: React.FC<JobTileProps> = ({ name, imageUrl, fallback, selected, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    disabled={!onClick}
+    className={`flex flex-col overflow-hidden rounded-2xl border-4 bg-white text-left shadow-sm transition active:scale-95 ${
+      selected ? 'border-primary' : 'border-transparent'
+    }`}
+  >
+    {imageUrl ? (
+      <img src={imageUrl} alt="" className="aspect-square w-full object-cover" />
+    ) : (
+      <div className={`flex aspect-square w-full items-center justify-center text-white ${tileColor(name)}`}>{fallback}</div>
+    )}
+    <span className="truncate px-3 py-2 text-lg font-semibold">{name}</span>
+  </button>
+);
+
+/**
+ * One big action per screen for employees who find the full dashboard hard to read:
+ * check in, tap the job's picture and the machine, type the count on a keypad, take a photo, send.
+ * Prompts can be read aloud. Selections and submission stay with the dashboard.
+ */
+export const SimpleEmployeeMode: React.FC<SimpleEmployeeModeProps> = ({
+  products,
+  processes,
+  attendance,
+  selectedProduct,
+  selectedProcess,
+  onSelectProduct,
+  onSelectProcess,
+  machines,
+  selectedMachine,
+  onSelectMachine,
+  quantity,
+  onQuantityChange,
+  photo,
+  onPhotoChange,
+  loading,
+  onCheckIn,
+  onSubmit,
+}) => {
+  const { language, t, formatNumber } = useTranslation();
+  const { supported: speechSupported, speak, stop } = useSpeech(language);
+  const [step, setStep] = useState<Step>(attendance ? 'product' : 'checkIn');
+  const [voiceOn, setVoiceOn] = useState(readVoicePreference);
+  const [sent, setSent] = useState(false);
+  // Check-in records the process, so without a remembered one the job is picked first
+  const [jobPickedForCheckIn, setJobPickedForCheckIn] = useState(false);
+  const [checkInPending, setCheckInPending] = useState(false);
+
+  const product = products.find(p => String(p._id) === String(selectedProduct));
+  const process = processes.find(p => String(p._id) === String(selectedProcess));
+  const machine = machines.find(m => String(m._id) === String(selectedMachine));
+  const machineOptions = machinesForProcess(machines, process);
+
+  // Stages in the order the product runs through them
+  const orderedProcesses = useMemo(() => {
+    const orderOf = (processId?: string) =>
+      product?.processes?.find(pp => pp != null && String(pp.processId) === String(processId))?.order ?? Number.MAX_SAFE_INTEGER;
+    return [...processes].sort((a, b) => orderOf(a._id) - orderOf(b._id));
+  }, [processes, product]);
+
+  const stageNumber = (processId?: string) =>
+    product?.processes?.find(pp => pp != null && String(pp.processId) === String(processId))?.order;
+
+  const prompt = step === 'product' && !attendance ? t('simple.prompts.pickJobFirst') : t(STEP_PROMPTS[step]);
+
+  useEffect(() => {
+    if (voiceOn) speak(prompt);
+  }, [prompt, voiceOn, speak]);
+
+  // Wait for the dashboard to hold the picked process before checking in with it
+  useEffect(() => {
+    if (!checkInPending || !selectedProcess || loading) return;
+    setCheckInPending(false);
+    onCheckIn();
+  }, [checkInPending, selectedProcess, loading, onCheckIn]);
+
+  useEffect(() => {
+    if (attendance && step === 'checkIn') {
+      setStep(jobPickedForCheckIn ? (machineOptions.length === 1 ? 'count' : 'machine') : 'product');
+    }
+  }, [attendance, step, jobPickedForCheckIn, machineOptions.length]);
+
+  // The dashboard clears the photo once the entry is sent or saved offline; a failed send keeps it for a retry
+  useEffect(() => {
+    if (!sent) return;
+    setSent(false);
+    if (!photo) setStep('done');
+  }, [sent, photo]);
+
+  const toggleVoice = () => {
+    const next = !voiceOn;
+    setVoiceOn(next);
+    if (!next) stop();
+    try {
+      localStorage.setItem(VOICE_STORAGE_KEY, next ? 'on' : 'off');
+    } catch (error) {
+      console.warn('Failed to save voice preference:', error);
+    }
+  };
+
+  const handleCheckIn = () => {
+    if (!selectedProcess) {
+      setStep('product');
+      return;
+    }
+    onCheckIn();
+  };
+
+  const handlePickProduct = (productId: string) => {
+    onSelectProduct(productId);
+    setStep('process');
+  };
+
+  const handlePickProcess = (processId: string) => {
+    onSelectProcess(processId);
+    // The machine screen is only skipped when there is nothing to choose
+    const options = machinesForProcess(machines, processes.find(p => String(p._id) === processId));
+    if (options.length === 1) onSelectMachine(String(options[0]._id));
+    if (attendance) {
+      setStep(options.length === 1 ? 'count' : 'machine');
+    } else {
+      setJobPickedForCheckIn(true);
+      setCheckInPending(true);
+      setStep('checkIn');
+    }
+  };
+
+  const handlePickMachine = (machineId: string) => {
+    onSelectMachine(machineId);
+    setStep('count');
+  };
+
+  const handleDigit = (digit: string) => {
+    if (quantity.length >= MAX_COUNT_DIGITS) return;
+    onQuantityChange(quantity === '0' ? digit : quantity + digit);
+  };
+
+  const handleSend = async () => {
+    await onSubmit();
+    setSent(true);
+  };
+
+  const previousStep = step === 'count' && machineOptions.length === 1 ? 'process' : PREVIOUS_STEP[step];
+
+  const count = parseInt(quantity) || 0;
+  const bigButton = 'h-20 w-full rounded-2xl text-2xl font-bold';
+
+  const productFallback = (name: string) => (
+    <div className="flex flex-col items-center gap-1">
+      <Package className="h-12 w-12" />
+      <span className="text-4xl font-bold">{Array.from(name)[0]?.toUpperCase()}</span>
+    </div>
+  );
+
+  const processFallback = (processId?: string) => {
+    const stage = stageNumber(processId);
+    return (
+      <div className="flex flex-col items-center gap-1">
+        <Cog className="h-12 w-12" />
+        {stage !== undefined && <span className="text-4xl font-bold">{formatNumber(stage)}</span>}
+      </div>
+    );
+  };
+
+  const machineFallback = <Wrench className="h-12 w-12" />;
+
+  const renderJob = () =>
+    product && process ? (
+      <div className={`grid gap-3 ${machine ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        <JobTile name={product.name} imageUrl={product.imageUrl} fallback={productFallback(product.name)} />
+        <JobTile name={process.name} imageUrl={process.imageUrl} fallback={processFallback(process._id)} />
+        {machine && <JobTile name={machine.name} fallback={machineFallback} />}
+      </div>
+    ) : null;
+
+  const renderStep = () => {
+    switch (step) {
+      case 'checkIn':
+        return (
+          <div className="space-y-6">
+            {renderJob()}
+            <Button onClick={handleCheckIn} disabled={loading} className="h-40 w-full rounded-3xl text-3xl font-bold">
+              {loading ? <Loader2 className="mr-3 h-10 w-10 animate-spin" /> : <LogIn className="mr-3 h-10 w-10" />}
+              {t('simple.checkIn')}
+            </Button>
+          </div>
+        );
+
+      case 'product':
+        if (products.length === 0) {
+          return loading ? (
+            <Loader2 className="mx-auto h-12 w-12 animate-spin" />
+          ) : (
+            <p className="text-center text-xl text-muted-foreground">{t('simple.noProducts')}</p>
+          );
+        }
+        return (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {products.map(p => (
+              <JobTile
+                key={p._id}
+                name={p.name}
+                imageUrl={p.imageUrl}
+                fallback={productFallback(p.name)}
+                selected={String(p._id) === String(selectedProduct)}
+                onClick={() => handlePickProduct(String(p._id))}
+              />
+            ))}
+          </div>
+        );
+
+      case 'process':
+        if (orderedProcesses.length === 0) {
+          return <p className="text-center text-xl text-muted-foreground">{t('simple.noProcesses')}</p>;
+        }
+        return (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {orderedProcesses.map(p => (
+              <JobTile
+                key={p._id}
+                name={p.name}
+                imageUrl={p.imageUrl}
+                fallback={processFallback(p._id)}
+                selected={String(p._id) === String(selectedProcess)}
+                onClick={() => handlePickProcess(String(p._id))}
+              />
+            ))}
+          </div>
+        );
+
+      case 'machine':
+        if (machineOptions.length === 0) {
+          return <p className="text-center text-xl text-muted-foreground">{t('simple.noMachines')}</p>;
+        }
+        return (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {machineOptions.map(m => (
+              <JobTile
+                key={m._id}
+                name={m.name}
+                fallback={machineFallback}
+                selected={String(m._id) === String(selectedMachine)}
+                onClick={() => handlePickMachine(String(m._id))}
+              />
+            ))}
+          </div>
+        );
+
+      case 'count':
+        return (
+          <div className="space-y-4">
+            <div className="rounded-2xl border-4 bg-white py-6 text-center text-6xl font-bold tabular-nums">
+              {quantity ? formatNumber(count) : <span className="text-muted-foreground">0</span>}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {KEYPAD_DIGITS.map(digit => (
+                <Button key={digit} variant="outline" className="h-20 rounded-2xl text-4xl font-bold" onClick={() => handleDigit(digit)}>
+                  {digit}
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                className="h-20 rounded-2xl"
+                onClick={() => onQuantityChange(quantity.slice(0, -1))}
+                aria-label={t('simple.clear')}
+              >
+                <Delete className="h-10 w-10" />
+              </Button>
+              <Button variant="outline" className="h-20 rounded-2xl text-4xl font-bold" onClick={() => handleDigit('0')}>
+                0
+              </Button>
+              <Button className="h-20 rounded-2xl" onClick={() => setStep('photo')} disabled={count <= 0} aria-label={t('simple.ok')}>
+                <Check className="h-10 w-10" />
+              </Button>
+            </div>
+          </div>
+        );
+
+      case 'photo':
+        return photo ? (
+          <div className="space-y-4">
+            <img src={photo} alt={t('dashboard.photoAlt')} className="w-full rounded-2xl border" />
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="outline" className={bigButton} onClick={() => onPhotoChange(null)}>
+                <Camera className="mr-2 h-8 w-8" />
+                {t('simple.retake')}
+              </Button>
+              <Button className={bigButton} onClick={() => setStep('review')}>
+                <Check className="mr-2 h-8 w-8" />
+                {t('simple.ok')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <CameraCapture onCapture={onPhotoChange} onCancel={() => setStep('count')} />
+        );
+
+      case 'review':
+        return (
+          <div className="space-y-4">
+            {renderJob()}
+            <div className="flex items-center gap-4">
+              {photo && <img src={photo} alt={t('dashboard.photoAlt')} className="h-28 w-28 rounded-2xl border object-cover" />}
+              <div className="text-5xl font-bold">{t('simple.pieces', { count })}</div>
+            </div>
+            <Button onClick={handleSend} disabled={loading} className="h-32 w-full rounded-3xl text-3xl font-bold">
+              {loading ? <Loader2 className="mr-3 h-10 w-10 animate-spin" /> : <Send className="mr-3 h-10 w-10" />}
+              {loading ? t('simple.sending') : t('simple.send')}
+            </Button>
+          </div>
+        );
+
+      case 'done':
+        return (
+          <div className="space-y-6 text-center">
+            <CheckCircle className="mx-auto h-32 w-32 text-green-600" />
+            <Button className={bigButton} onClick={() => setStep('product')}>
+              {t('simple.another')}
+            </Button>
+          </div>
+        );
+    }
+  };
+
+  const progressIndex = step === 'done' ? PROGRESS_STEPS.length : PROGRESS_STEPS.indexOf(step);
+
+  return (
+    <div className="mx-auto max-w-xl space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        {previousStep ? (
+          <Button
+            variant="outline"
+            size="lg"
+            className="h-14 w-14 rounded-full p-0"
+            onClick={() => setStep(previousStep)}
+            aria-label={t('simple.back')}
+          >
+            <ArrowLeft className="h-8 w-8" />
+          </Button>
+        ) : (
+          <div className="h-14 w-14" />
+        )}
+        <div className="flex gap-2">
+          {PROGRESS_STEPS.map((s, index) => (
+            <span
+              key={s}
+              className={`h-4 w-4 rounded-full ${index <= progressIndex ? 'bg-primary' : 'bg-muted'}`}
+            />
+          ))}
+        </div>
+        {speechSupported ? (
+          <Button
+            variant={voiceOn ? 'default' : 'outline'}
+            size="lg"
+            className="h-14 w-14 rounded-full p-0"
+            onClick={toggleVoice}
+            aria-label={voiceOn ? t('simple.voiceOff') : t('simple.voiceOn')}
+          >
+            {voiceOn ? <Volume2 className="h-8 w-8" /> : <VolumeX className="h-8 w-8" />}
+          </Button>
+        ) : (
+          <div className="h-14 w-14" />
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => speechSupported && speak(prompt)}
+        className="w-full text-center text-2xl font-semibold"
+      >
+        {prompt}
+      </button>
+
+      {attendance?.checkIn?.time && step !== 'checkIn' && (
+        <p className="text-center text-muted-foreground">{t('simple.checkedInAt', { time: formatTime(attendance.checkIn.time) })}</p>
+      )}
+
+      {renderStep()}
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,6 +10,12 @@ import { Camera, Upload, X } from 'lucide-react';
 import { useSubmitWork } from '@/hooks/useApi';
 import { useTenant } from '@/contexts/TenantContext';
 import { CameraCapture } from '@/components/CameraCapture';
+import { DefectBreakdownInput } from '@/components/defects/DefectBreakdownInput';
+import { defectService } from '@/services/api';
+import { getDefectBreakdown, getDefectBreakdownError, getDefectCodesForProcess } from '@/services/api/defect.service';
+import { DefectCode, WorkEntryDefect } from '@/types';
+import { toast } from 'sonner';
+import { translateNow } from '@/hooks/useTranslation';
 
 const workEntrySchema = z.object({
   targetQuantity: z.number().min(1, 'Target quantity must be greater than 0'),
@@ -27,6 +33,8 @@ interface WorkEntryFormProps {
   attendanceId: string;
   processId: string;
   productId: string;
+  // Production order the work is booked against, if any
+  orderId?: string;
   onSuccess?: () => void;
 }
 
@@ -34,10 +42,13 @@ export const WorkEntryForm: React.FC<WorkEntryFormProps> = ({
   attendanceId,
   processId,
   productId,
+  orderId,
   onSuccess,
 }) => {
   const [photo, setPhoto] = useState<string | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [defectCodes, setDefectCodes] = useState<DefectCode[]>([]);
+  const [defects, setDefects] = useState<WorkEntryDefect[]>([]);
   
   const { factoryId } = useTenant();
   const submitWork = useSubmitWork();
@@ -56,6 +67,15 @@ export const WorkEntryForm: React.FC<WorkEntryFormProps> = ({
     },
   });
 
+  useEffect(() => {
+    setDefects([]);
+    defectService.getDefectCodes()
+      .then((codes) => setDefectCodes(getDefectCodesForProcess(codes, processId)))
+      .catch((error) => console.error('Failed to load defect codes:', error));
+  }, [processId]);
+
+  const rejected = form.watch('rejected');
+
   const handleCameraCapture = (photoDataUrl: string) => {
     setPhoto(photoDataUrl);
     form.setValue('photo', photoDataUrl);
@@ -72,14 +92,22 @@ export const WorkEntryForm: React.FC<WorkEntryFormProps> = ({
   };
 
   const handleSubmit = async (data: WorkEntryFormData) => {
+    const defectError = getDefectBreakdownError(defectCodes, data.rejected, defects);
+    if (defectError) {
+      toast.error(translateNow(defectError.key, defectError.params));
+      return;
+    }
+
     try {
       await submitWork.mutateAsync({
         attendanceId,
         processId,
         productId,
+        orderId,
         targetQuantity: data.targetQuantity,
         achieved: data.achieved,
         rejected: data.rejected,
+        defects: data.rejected > 0 ? getDefectBreakdown(defects) : [],
         reasonForLessProduction: data.reasonForLessProduction,
         startTime: data.startTime,
         endTime: data.endTime,
@@ -89,6 +117,7 @@ export const WorkEntryForm: React.FC<WorkEntryFormProps> = ({
       // Reset form
       form.reset();
       setPhoto(null);
+      setDefects([]);
       onSuccess?.();
     } catch (error) {
       // Error submitting work entry
@@ -204,6 +233,12 @@ export const WorkEntryForm: React.FC<WorkEntryFormProps> = ({
               />
             </div>
 
+            <DefectBreakdownInput
+              codes={defectCodes}
+              rejected={rejected}
+              value={defects}
+              onChange={setDefects}
+            />
 
             {/* Reason for Less Production */}
             <FormField
@@ -0,0 +1,350 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Crosshair, Edit, Hexagon, Loader2, LocateFixed, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { factoryService } from '@/services/api';
+import { geolocationService } from '@/services/geolocationService';
+import { locationService } from '@/services/location.service';
+import { GeofenceZone, GeoPoint } from '@/types';
+
+interface GeofenceZonesCardProps {
+  factoryId?: string;
+  zones: GeofenceZone[];
+  onSaved: () => void;
+}
+
+// Inputs are edited as text so half-typed numbers like "12." survive
+interface PointRow {
+  latitude: string;
+  longitude: string;
+}
+
+const PREVIEW_SIZE = 160;
+
+const toRows = (points: GeoPoint[]): PointRow[] =>
+  points.map((point) => ({ latitude: point.latitude.toFixed(6), longitude: point.longitude.toFixed(6) }));
+
+const toPoint = (row: PointRow): GeoPoint | null => {
+  const latitude = parseFloat(row.latitude);
+  const longitude = parseFloat(row.longitude);
+  if (isNaN(latitude) || latitude < -90 || latitude > 90) return null;
+  if (isNaN(longitude) || longitude < -180 || longitude > 180) return null;
+  return { latitude, longitude };
+};
+
+// Outline of the polygon scaled to a small square, north up
+const ZonePreview: React.FC<{ points: GeoPoint[] }> = ({ points }) => {
+  if (points.length < 2) {
+    return (
+      <div className="flex h-40 w-40 items-center justify-center rounded-md border text-xs text-muted-foreground">
+        Add corners to see the shape
+      </div>
+    );
+  }
+
+  const lats = points.map((point) => point.latitude);
+  const lngs = points.map((point) => point.longitude);
+  const minLat = Math.min(...lats);
+  const minLng = Math.min(...lngs);
+  const span = Math.max(Math.max(...lats) - minLat, Math.max(...lngs) - minLng) || 1;
+  const scale = (PREVIEW_SIZE - 16) / span;
+  const coords = points
+    .map((point) => `${8 + (point.longitude - minLng) * scale},${PREVIEW_SIZE - 8 - (point.latitude - minLat) * scale}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${PREVIEW_SIZE} ${PREVIEW_SIZE}`} className="h-40 w-40 rounded-md border bg-muted/40">
+      <polygon points={coords} fill="hsl(var(--primary) / 0.15)" stroke="hsl(var(--primary))" strokeWidth={2} />
+    </svg>
+  );
+};
+
+// Polygon check-in zones; each building or yard gets its own outline
+export const GeofenceZonesCard: React.FC<GeofenceZonesCardProps> = ({ factoryId, zones, onSaved }) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Index of the zone being edited; null while adding a new one
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [rows, setRows] = useState<PointRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [locating, setLocating] = useState(false);
+
+  const openDialog = (index: number | null) => {
+    setEditingIndex(index);
+    setName(index === null ? '' : zones[index].name);
+    setRows(index === null ? [] : toRows(zones[index].points));
+    setDialogOpen(true);
+  };
+
+  const updateRow = (index: number, field: keyof PointRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  // Walk the boundary and add each corner where you stand
+  const addCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const result = await locationService.getHighAccuracyLocation();
+      const { location } = result;
+      if (!result.success || !location) {
+        toast.error(result.error || 'Failed to get current location');
+        return;
+      }
+      setRows((prev) => [...prev, ...toRows([location])]);
+      toast.success(`Corner added. Accuracy: ${result.accuracy?.toFixed(1)}m (${result.accuracyLevel})`);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const saveZones = async (nextZones: GeofenceZone[], successMessage: string) => {
+    if (!factoryId) {
+      toast.error('Factory ID not found');
+      return false;
+    }
+
+    setSaving(true);
+    try {
+      await factoryService.updateFactory(factoryId, { geofenceZones: nextZones });
+      toast.success(successMessage);
+      onSaved();
+      return true;
+    } catch (error) {
+      console.error('Failed to save geofence zones:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save geofence zones');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const points = rows.map(toPoint);
+    if (points.some((point) => point === null)) {
+      toast.error('Every corner needs a latitude between -90 and 90 and a longitude between -180 and 180');
+      return;
+    }
+    if (points.length < 3) {
+      toast.error('A zone needs at least 3 corners');
+      return;
+    }
+    const trimmedName = name.trim();
+    if (zones.some((zone, index) => index !== editingIndex && zone.name.toLowerCase() === trimmedName.toLowerCase())) {
+      toast.error(`A zone named ${trimmedName} already exists`);
+      return;
+    }
+
+    const zone: GeofenceZone = {
+      ...(editingIndex !== null ? zones[editingIndex] : {}),
+      name: trimmedName,
+      points: points as GeoPoint[],
+    };
+    const nextZones = editingIndex === null
+      ? [...zones, zone]
+      : zones.map((existing, index) => (index === editingIndex ? zone : existing));
+
+    if (await saveZones(nextZones, editingIndex === null ? 'Zone added' : 'Zone updated')) {
+      setDialogOpen(false);
+    }
+  };
+
+  const handleDelete = (index: number) => {
+    if (!confirm(`Delete zone ${zones[index].name}? Employees can no longer check in there.`)) {
+      return;
+    }
+    saveZones(zones.filter((_, i) => i !== index), 'Zone deleted');
+  };
+
+  const testCurrentLocation = async () => {
+    setLocating(true);
+    try {
+      const result = await locationService.getHighAccuracyLocation();
+      if (!result.success || !result.location) {
+        toast.error(result.error || 'Failed to get current location');
+        return;
+      }
+      const zone = geolocationService.findGeofenceZone(result.location, zones);
+      if (zone) {
+        toast.success(`You are inside ${zone.name}`);
+      } else {
+        toast.error('You are outside every zone');
+      }
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const previewPoints = rows.map(toPoint).filter((point): point is GeoPoint => point !== null);
+
+  return (
+    <Card className="p-3 sm:p-4 md:p-6">
+      <CardHeader className="pb-3 sm:pb-4">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-0">
+          <div className="flex-1">
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <Hexagon className="h-4 w-4 sm:h-5 sm:w-5" />
+              Geofence Zones
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Outline each building or yard employees can check in from
+            </CardDescription>
+          </div>
+          <div className="flex w-full sm:w-auto flex-col sm:flex-row gap-2">
+            {zones.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={testCurrentLocation}
+                disabled={locating}
+                className="w-full sm:w-auto min-h-[44px]"
+              >
+                <Crosshair className="h-4 w-4 mr-2" />
+                Test My Location
+              </Button>
+            )}
+            <Button onClick={() => openDialog(null)} className="w-full sm:w-auto min-h-[44px]">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Zone
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0 sm:p-6">
+        {zones.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            No zones yet. Until you add one, check-ins use the geofence radius above.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Zone</TableHead>
+                  <TableHead>Corners</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {zones.map((zone, index) => (
+                  <TableRow key={zone._id || zone.id || zone.name}>
+                    <TableCell className="font-medium">{zone.name}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{zone.points.length}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(index)} disabled={saving}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(index)} disabled={saving}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="w-[95vw] max-w-md sm:max-w-lg p-4 sm:p-6 max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-base sm:text-lg">{editingIndex === null ? 'Add Zone' : 'Edit Zone'}</DialogTitle>
+            <DialogDescription className="text-sm">
+              Walk the boundary and add each corner where you stand, or type the corners in order.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="zoneName" className="text-sm sm:text-base">Zone Name</Label>
+              <Input
+                id="zoneName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Building A"
+                required
+                className="text-sm sm:text-base mt-1"
+              />
+            </div>
+
+            <div className="flex justify-center">
+              <ZonePreview points={previewPoints} />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm sm:text-base">Corners</Label>
+              {rows.map((row, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-5 shrink-0 text-right text-xs text-muted-foreground">{index + 1}</span>
+                  <Input
+                    type="number"
+                    step="0.000001"
+                    value={row.latitude}
+                    onChange={(e) => updateRow(index, 'latitude', e.target.value)}
+                    placeholder="Latitude"
+                    aria-label={`Corner ${index + 1} latitude`}
+                    className="font-mono text-sm"
+                  />
+                  <Input
+                    type="number"
+                    step="0.000001"
+                    value={row.longitude}
+                    onChange={(e) => updateRow(index, 'longitude', e.target.value)}
+                    placeholder="Longitude"
+                    aria-label={`Corner ${index + 1} longitude`}
+                    className="font-mono text-sm"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addCurrentLocation}
+                  disabled={locating}
+                  className="flex-1 min-h-[44px]"
+                >
+                  {locating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LocateFixed className="h-4 w-4 mr-2" />}
+                  Add My Location
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setRows((prev) => [...prev, { latitude: '', longitude: '' }])}
+                  className="flex-1 min-h-[44px]"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Corner
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 pt-2">
+              <Button type="submit" disabled={saving} className="flex-1 min-h-[44px]">
+                {saving ? 'Saving...' : 'Save Zone'}
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)} className="flex-1 min-h-[44px]">
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, QrCode } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { labelService } from '@/services/api';
+import { LABEL_KIND_LABELS } from '@/services/api/label.service';
+import { LabelKind } from '@/types';
+
+interface PrintLabelsButtonProps {
+  kind: LabelKind;
+  className?: string;
+}
+
+// Downloads a printable sheet of QR labels for every active product, process or machine
+export const PrintLabelsButton: React.FC<PrintLabelsButtonProps> = ({ kind, className }) => {
+  const [loading, setLoading] = useState(false);
+
+  const handlePrint = async () => {
+    setLoading(true);
+    try {
+      const blob = await labelService.getLabelSheet(kind);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${kind}-labels-${new Date().toISOString().split('T')[0]}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error(`Failed to generate ${kind} labels:`, error);
+      toast({
+        title: 'Error',
+        description: `Failed to generate ${LABEL_KIND_LABELS[kind].toLowerCase()} labels`,
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" onClick={handlePrint} disabled={loading} className={className}>
+      {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <QrCode className="h-4 w-4 mr-2" />}
+      Print {LABEL_KIND_LABELS[kind]} Labels
+    </Button>
+  );
+};
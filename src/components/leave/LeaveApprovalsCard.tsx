@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Check, Plane, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { leaveService } from '@/services/api';
+import { LeaveRequest, User } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+
+interface LeaveApprovalsCardProps {
+  employees: User[];
+  // Called after a request is approved or declined
+  onReviewed?: () => void;
+}
+
+const getRequestId = (request: LeaveRequest) => request._id || request.id || '';
+
+// Pending leave requests for the supervisor to approve or decline
+export const LeaveApprovalsCard: React.FC<LeaveApprovalsCardProps> = ({ employees, onReviewed }) => {
+  const [pending, setPending] = useState<LeaveRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadPending = useCallback(async () => {
+    try {
+      setPending(await leaveService.getRequests({ status: 'pending' }));
+    } catch (error) {
+      console.error('Failed to load leave requests:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  const getEmployeeName = (request: LeaveRequest) => {
+    if (request.employeeName) return request.employeeName;
+    const employee = employees.find((e) => (e._id || e.id) === request.employeeId);
+    return employee ? `${employee.profile.firstName} ${employee.profile.lastName}` : 'Unknown employee';
+  };
+
+  const handleReview = async (request: LeaveRequest, status: 'approved' | 'declined') => {
+    const requestId = getRequestId(request);
+    setReviewingId(requestId);
+    try {
+      await leaveService.reviewRequest(requestId, status, notes[requestId]?.trim() || undefined);
+      setPending((prev) => prev.filter((r) => getRequestId(r) !== requestId));
+      toast.success(status === 'approved' ? 'Leave approved' : 'Leave declined');
+      onReviewed?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to review leave request');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border-blue-300">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Plane className="h-5 w-5 text-blue-600" />
+          Leave Requests
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Approved days show as leave instead of absences
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="divide-y">
+          {pending.map((request) => {
+            const requestId = getRequestId(request);
+            return (
+              <div key={requestId} className="space-y-3 p-4">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-sm sm:text-base">{getEmployeeName(request)}</span>
+                    {request.leaveTypeName && <Badge variant="outline">{request.leaveTypeName}</Badge>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDate(request.startDate)}
+                    {formatDate(request.endDate) !== formatDate(request.startDate) && ` - ${formatDate(request.endDate)}`}
+                    {` · ${request.days} ${request.days === 1 ? 'day' : 'days'}`}
+                  </div>
+                  <div className="text-sm">{request.reason}</div>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    value={notes[requestId] || ''}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [requestId]: e.target.value }))}
+                    placeholder="Note to the employee (optional)"
+                    className="h-9 flex-1"
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(request, 'approved')}
+                      disabled={reviewingId === requestId}
+                      className="flex-1 sm:flex-initial"
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(request, 'declined')}
+                      disabled={reviewingId === requestId}
+                      className="flex-1 sm:flex-initial text-destructive"
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,294 @@
+import { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CalendarPlus, Loader2, Plane } from 'lucide-react';
+import { toast } from 'sonner';
+import { leaveService } from '@/services/api';
+import { countLeaveDays } from '@/services/api/leave.service';
+import { LeaveBalance, LeaveRequest, LeaveRequestStatus, LeaveType } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface MyLeaveCardProps {
+  // The employee's own requests, loaded by the page so its calendar can show them too
+  requests: LeaveRequest[];
+  onChange: () => void;
+}
+
+const STATUS_VARIANTS: Record<LeaveRequestStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  approved: 'default',
+  declined: 'destructive',
+  cancelled: 'outline',
+};
+
+const getRequestId = (request: LeaveRequest) => request._id || request.id || '';
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Leave balances, the employee's requests and a form to ask for leave
+export const MyLeaveCard: React.FC<MyLeaveCardProps> = ({ requests, onChange }) => {
+  const { t } = useTranslation();
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    leaveTypeId: '',
+    startDate: today(),
+    endDate: today(),
+    halfDay: false,
+    reason: '',
+  });
+
+  useEffect(() => {
+    leaveService.getLeaveTypes()
+      .then((list) => setLeaveTypes(list.filter((type) => type.isActive)))
+      .catch((error) => console.error('Failed to load leave types:', error));
+  }, []);
+
+  // Pending and approved requests change the balances
+  useEffect(() => {
+    leaveService.getBalances()
+      .then(setBalances)
+      .catch((error) => console.error('Failed to load leave balances:', error));
+  }, [requests]);
+
+  const singleDay = form.startDate === form.endDate;
+  const days = countLeaveDays(form.startDate, form.endDate, singleDay && form.halfDay);
+  const selectedBalance = balances.find((balance) => balance.leaveTypeId === form.leaveTypeId);
+
+  const openDialog = () => {
+    setForm({ leaveTypeId: '', startDate: today(), endDate: today(), halfDay: false, reason: '' });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.leaveTypeId) {
+      toast.error(t('leave.selectTypeFirst'));
+      return;
+    }
+    if (days <= 0) {
+      toast.error(t('leave.endBeforeStart'));
+      return;
+    }
+    if (!form.reason.trim()) {
+      toast.error(t('leave.reasonRequired'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await leaveService.createRequest({
+        leaveTypeId: form.leaveTypeId,
+        startDate: parseISO(form.startDate),
+        endDate: parseISO(form.endDate),
+        halfDay: singleDay && form.halfDay,
+        reason: form.reason.trim(),
+      });
+      toast.success(t('leave.requested'));
+      setDialogOpen(false);
+      onChange();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('leave.requestFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (request: LeaveRequest) => {
+    setCancellingId(getRequestId(request));
+    try {
+      await leaveService.cancelRequest(getRequestId(request));
+      toast.success(t('leave.cancelled'));
+      onChange();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('leave.cancelFailed'));
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const sortedRequests = [...requests].sort(
+    (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime()
+  );
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+          <div className="flex-1">
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <Plane className="h-4 w-4 sm:h-5 sm:w-5" />
+              {t('leave.title')}
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              {t('leave.hint')}
+            </CardDescription>
+          </div>
+          <Button onClick={openDialog} disabled={leaveTypes.length === 0} className="w-full sm:w-auto">
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            {t('leave.request')}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {balances.length > 0 && (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {balances.map((balance) => (
+              <div key={balance.leaveTypeId} className="p-3 rounded-lg border bg-white text-center">
+                <p className="text-xs sm:text-sm text-gray-700">{balance.leaveTypeName}</p>
+                <p className="text-xl sm:text-2xl font-bold text-primary">{balance.remaining}</p>
+                <p className="text-xs text-muted-foreground">
+                  {balance.pending > 0
+                    ? t('leave.leftWithPending', { allowance: balance.allowance, pending: balance.pending })
+                    : t('leave.left', { allowance: balance.allowance })}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {sortedRequests.length > 0 ? (
+          <div className="divide-y rounded-lg border">
+            {sortedRequests.map((request) => (
+              <div key={getRequestId(request)} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{request.leaveTypeName || t('leave.title')}</span>
+                    <Badge variant={STATUS_VARIANTS[request.status]} className="text-xs">
+                      {t(`leave.status.${request.status}`)}
+                    </Badge>
+                  </div>
+                  <div className="text-muted-foreground">
+                    {formatDate(request.startDate)}
+                    {formatDate(request.endDate) !== formatDate(request.startDate) && ` - ${formatDate(request.endDate)}`}
+                    {` · ${t('leave.days', { count: request.days })}`}
+                  </div>
+                  {request.reviewNote && (
+                    <div className="text-xs text-muted-foreground">{t('leave.note', { note: request.reviewNote })}</div>
+                  )}
+                </div>
+                {request.status === 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleCancel(request)}
+                    disabled={cancellingId === getRequestId(request)}
+                  >
+                    {cancellingId === getRequestId(request) && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    {t('common.cancel')}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-4 text-muted-foreground text-sm">{t('leave.empty')}</div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="w-[95vw] max-w-md" aria-describedby="request-leave-description">
+          <DialogHeader>
+            <DialogTitle>{t('leave.request')}</DialogTitle>
+            <DialogDescription id="request-leave-description">
+              {t('leave.dialogHint')}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>{t('leave.type')}</Label>
+              <Select value={form.leaveTypeId} onValueChange={(value) => setForm((prev) => ({ ...prev, leaveTypeId: value }))}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder={t('leave.selectType')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {leaveTypes.map((type) => (
+                    <SelectItem key={type._id || type.id} value={type._id || type.id || ''}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedBalance && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {t('leave.daysLeft', { remaining: selectedBalance.remaining, allowance: selectedBalance.allowance })}
+                </p>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="leaveStart">{t('leave.from')}</Label>
+                <Input
+                  id="leaveStart"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm((prev) => ({
+                    ...prev,
+                    startDate: e.target.value,
+                    endDate: prev.endDate < e.target.value ? e.target.value : prev.endDate,
+                  }))}
+                  className="mt-1"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="leaveEnd">{t('leave.to')}</Label>
+                <Input
+                  id="leaveEnd"
+                  type="date"
+                  min={form.startDate}
+                  value={form.endDate}
+                  onChange={(e) => setForm((prev) => ({ ...prev, endDate: e.target.value }))}
+                  className="mt-1"
+                  required
+                />
+              </div>
+            </div>
+            {singleDay && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={form.halfDay}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, halfDay: checked === true }))}
+                />
+                {t('leave.halfDayOnly')}
+              </label>
+            )}
+            <div>
+              <Label htmlFor="leaveReason">{t('common.reason')}</Label>
+              <Textarea
+                id="leaveReason"
+                value={form.reason}
+                onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+                placeholder={t('leave.reasonPlaceholder')}
+                className="mt-1"
+                rows={3}
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {t('leave.daysRequested', { count: days })}
+            </p>
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1" disabled={submitting}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {t('leave.submit')}
+              </Button>
+              <Button type="button" variant="outline" className="flex-1" onClick={() => setDialogOpen(false)}>
+                {t('common.cancel')}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,78 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { getConsumedTotal, getOldestFirstConsumption } from '@/services/api/lot.service';
+import { Lot, LotConsumption } from '@/types';
+import { formatDateTime } from '@/utils/dateUtils';
+import { cn } from '@/lib/utils';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface LotConsumptionInputProps {
+  // Previous-stage lots with pieces left, oldest first
+  lots: Lot[];
+  // Pieces this entry takes from the previous stage (achieved + rejected)
+  required: number;
+  value: LotConsumption[];
+  onChange: (consumed: LotConsumption[]) => void;
+}
+
+// Records which previous-stage lots a later-stage entry was made from
+export const LotConsumptionInput: React.FC<LotConsumptionInputProps> = ({
+  lots,
+  required,
+  value,
+  onChange,
+}) => {
+  const { t } = useTranslation();
+
+  if (lots.length === 0) return null;
+
+  const assigned = getConsumedTotal(value);
+  const getQuantity = (lotNumber: string) => value.find((lot) => lot.lotNumber === lotNumber)?.quantity || 0;
+
+  const setQuantity = (lotNumber: string, quantity: number) => {
+    const others = value.filter((lot) => lot.lotNumber !== lotNumber);
+    onChange(quantity > 0 ? [...others, { lotNumber, quantity }] : others);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Label>{t('production.lotsUsed')}</Label>
+        <div className="flex items-center gap-2">
+          <span className={cn('text-sm font-medium', assigned === required ? 'text-green-600' : 'text-destructive')}>
+            {t('production.lotsAssigned', { assigned, required })}
+          </span>
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange(getOldestFirstConsumption(lots, required))} disabled={required <= 0}>
+            {t('production.oldestFirst')}
+          </Button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {lots.map((lot) => (
+          <div key={lot.lotNumber} className="flex items-center justify-between gap-3">
+            <div className="min-w-0 text-sm">
+              <div className="font-mono font-medium truncate">{lot.lotNumber}</div>
+              <div className="text-xs text-muted-foreground">
+                {t('production.lotRemaining', { remaining: lot.remainingQuantity, date: formatDateTime(lot.createdAt) })}
+              </div>
+            </div>
+            <Input
+              type="number"
+              min="0"
+              max={lot.remainingQuantity}
+              inputMode="numeric"
+              className="w-20 shrink-0"
+              value={getQuantity(lot.lotNumber) || ''}
+              onChange={(e) =>
+                setQuantity(lot.lotNumber, Math.min(lot.remainingQuantity, Math.max(0, parseInt(e.target.value) || 0)))
+              }
+              placeholder="0"
+              aria-label={t('production.lotQuantity', { lot: lot.lotNumber })}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,387 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ClipboardList, Plus, Trash2 } from 'lucide-react';
+import { orderService } from '@/services/api';
+import {
+  ORDER_PRIORITY_LABELS,
+  ORDER_STATUS_LABELS,
+  ProductionOrderInput,
+  getExpectedCompletionDate,
+  getOrderId,
+  getRequiredDailyRate,
+  sortOrdersByUrgency,
+} from '@/services/api/order.service';
+import { wsService } from '@/services/websocket.service';
+import { DeleteConfirmDialog } from '@/components/crud/DeleteConfirmDialog';
+import { toast } from '@/hooks/use-toast';
+import { Product, ProductionOrder, ProductionOrderPriority, ProductionOrderStatus } from '@/types';
+import { formatDate } from '@/utils/dateUtils';
+
+interface ProductionOrdersBoardProps {
+  products: Product[];
+}
+
+type OrderView = 'open' | 'completed' | 'all';
+
+const OPEN_STATUSES: ProductionOrderStatus[] = ['planned', 'released', 'in_progress'];
+
+const PRIORITY_BADGE: Record<ProductionOrderPriority, string> = {
+  low: 'bg-slate-100 text-slate-700',
+  normal: 'bg-blue-100 text-blue-800',
+  high: 'bg-amber-100 text-amber-800',
+  urgent: 'bg-red-100 text-red-800',
+};
+
+const emptyForm = (): ProductionOrderInput => ({
+  productId: '',
+  quantity: 0,
+  dueDate: format(new Date(), 'yyyy-MM-dd'),
+  priority: 'normal',
+  notes: '',
+});
+
+// Orders board for the Products page: planned vs completed and where each order will land
+export const ProductionOrdersBoard: React.FC<ProductionOrdersBoardProps> = ({ products }) => {
+  const [orders, setOrders] = useState<ProductionOrder[]>([]);
+  const [view, setView] = useState<OrderView>('open');
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ProductionOrderInput>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [orderToDelete, setOrderToDelete] = useState<ProductionOrder | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  const loadOrders = useCallback(async () => {
+    try {
+      const status = view === 'open' ? OPEN_STATUSES : view === 'completed' ? 'completed' : undefined;
+      setOrders(await orderService.getOrders({ status }));
+    } catch (error) {
+      console.error('Failed to load production orders:', error);
+      toast({ title: 'Error', description: 'Failed to load production orders', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [view]);
+
+  useEffect(() => {
+    loadOrders();
+    const unsubs = [
+      wsService.subscribe('order_updated', loadOrders),
+      wsService.subscribe('production_data_updated', (data) => {
+        if (data.orderId) loadOrders();
+      }),
+      wsService.subscribe('sync_required', loadOrders),
+    ];
+    return () => unsubs.forEach((unsub) => unsub());
+  }, [loadOrders]);
+
+  const getProductName = (order: ProductionOrder) => {
+    if (typeof order.productId === 'object') return `${order.productId.code} - ${order.productId.name}`;
+    const product = products.find((p) => (p._id || p.id) === order.productId);
+    return product ? `${product.code} - ${product.name}` : 'Unknown product';
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.productId || form.quantity <= 0) {
+      toast({ title: 'Error', description: 'Choose a product and a quantity above 0', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await orderService.createOrder({ ...form, notes: form.notes?.trim() || undefined });
+      toast({ title: 'Success', description: 'Production order created' });
+      setDialogOpen(false);
+      setForm(emptyForm());
+      loadOrders();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create production order',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatusChange = async (order: ProductionOrder, status: ProductionOrderStatus) => {
+    try {
+      await orderService.updateOrder(getOrderId(order), { status });
+      setOrders((prev) => prev.map((o) => (getOrderId(o) === getOrderId(order) ? { ...o, status } : o)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update order status',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!orderToDelete) return;
+    setDeleting(true);
+    try {
+      await orderService.deleteOrder(getOrderId(orderToDelete));
+      setOrders((prev) => prev.filter((o) => getOrderId(o) !== getOrderId(orderToDelete)));
+      toast({ title: 'Success', description: 'Production order deleted' });
+      setOrderToDelete(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete production order',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const sortedOrders = sortOrdersByUrgency(orders);
+  const totalPlanned = orders.reduce((total, order) => total + order.quantity, 0);
+  const totalCompleted = orders.reduce((total, order) => total + Math.min(order.completedQuantity, order.quantity), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Production Orders
+          </CardTitle>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={view} onValueChange={(value) => setView(value as OrderView)}>
+              <SelectTrigger className="w-full sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button className="w-full sm:w-auto" disabled={products.length === 0}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Order
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="w-[95vw] sm:w-full max-w-lg" aria-describedby="new-order-description">
+                <DialogHeader>
+                  <DialogTitle>New Production Order</DialogTitle>
+                  <DialogDescription id="new-order-description">
+                    Employees book their work against released orders; progress rolls up through every stage.
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleCreate} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Product *</Label>
+                    <Select value={form.productId} onValueChange={(value) => setForm((prev) => ({ ...prev, productId: value }))}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a product" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {products.map((product) => (
+                          <SelectItem key={product._id || product.id} value={String(product._id || product.id)}>
+                            {product.code} - {product.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="orderQuantity">Quantity *</Label>
+                      <Input
+                        id="orderQuantity"
+                        type="number"
+                        min="1"
+                        value={form.quantity || ''}
+                        onChange={(e) => setForm((prev) => ({ ...prev, quantity: parseInt(e.target.value) || 0 }))}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="orderDueDate">Due date *</Label>
+                      <Input
+                        id="orderDueDate"
+                        type="date"
+                        value={form.dueDate}
+                        onChange={(e) => setForm((prev) => ({ ...prev, dueDate: e.target.value }))}
+                        required
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Priority</Label>
+                    <Select
+                      value={form.priority}
+                      onValueChange={(value) => setForm((prev) => ({ ...prev, priority: value as ProductionOrderPriority }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ORDER_PRIORITY_LABELS) as ProductionOrderPriority[]).map((priority) => (
+                          <SelectItem key={priority} value={priority}>{ORDER_PRIORITY_LABELS[priority]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="orderNotes">Notes</Label>
+                    <Textarea
+                      id="orderNotes"
+                      value={form.notes}
+                      onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                    />
+                  </div>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Button type="submit" className="flex-1" disabled={saving}>
+                      {saving ? 'Creating...' : 'Create Order'}
+                    </Button>
+                    <Button type="button" variant="outline" className="flex-1" onClick={() => setDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {orders.length > 0 && (
+          <div className="text-sm text-muted-foreground">
+            {totalCompleted.toLocaleString()} of {totalPlanned.toLocaleString()} planned pieces completed across {orders.length} orders
+          </div>
+        )}
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">Loading orders...</div>
+        ) : sortedOrders.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            {view === 'open' ? 'No open production orders' : 'No production orders found'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="min-w-[220px]">Planned vs completed</TableHead>
+                  <TableHead>Expected completion</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedOrders.map((order) => {
+                  const expected = getExpectedCompletionDate(order);
+                  const isLate = !!expected && expected > new Date(new Date(order.dueDate).setHours(23, 59, 59, 999));
+                  const percent = order.quantity > 0 ? Math.min(100, (order.completedQuantity / order.quantity) * 100) : 0;
+                  return (
+                    <TableRow key={getOrderId(order)}>
+                      <TableCell className="font-mono font-medium">{order.orderNumber}</TableCell>
+                      <TableCell>{getProductName(order)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={PRIORITY_BADGE[order.priority]}>
+                          {ORDER_PRIORITY_LABELS[order.priority]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {formatDate(order.dueDate)}
+                        {OPEN_STATUSES.includes(order.status) && getRequiredDailyRate(order) > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            Needs {getRequiredDailyRate(order).toLocaleString()}/day
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <div className="flex justify-between text-sm">
+                            <span>{order.completedQuantity.toLocaleString()} / {order.quantity.toLocaleString()}</span>
+                            <span className="text-muted-foreground">{percent.toFixed(0)}%</span>
+                          </div>
+                          <Progress value={percent} className="h-2" />
+                          {order.stageProgress.length > 0 && (
+                            <div className="flex flex-wrap gap-1 pt-1">
+                              {[...order.stageProgress]
+                                .sort((a, b) => a.stageOrder - b.stageOrder)
+                                .map((stage) => (
+                                  <span
+                                    key={stage.processId}
+                                    className="rounded bg-muted px-1.5 py-0.5 text-xs"
+                                    title={`${stage.rejectedQuantity} rejected`}
+                                  >
+                                    {stage.processName}: {stage.achievedQuantity}
+                                  </span>
+                                ))}
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className={isLate ? 'text-destructive font-medium' : ''}>
+                        {expected ? formatDate(expected) : '-'}
+                        {isLate && order.status !== 'completed' && <div className="text-xs">After due date</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={order.status}
+                          onValueChange={(value) => handleStatusChange(order, value as ProductionOrderStatus)}
+                        >
+                          <SelectTrigger className="w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(ORDER_STATUS_LABELS) as ProductionOrderStatus[]).map((status) => (
+                              <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setOrderToDelete(order)}
+                          disabled={order.completedQuantity > 0}
+                          title={order.completedQuantity > 0 ? 'Orders with booked work can only be cancelled' : undefined}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <DeleteConfirmDialog
+        open={!!orderToDelete}
+        onOpenChange={(open) => !open && setOrderToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        isLoading={deleting}
+        title="Delete Production Order"
+        description={`Are you sure you want to delete order "${orderToDelete?.orderNumber}"? This action cannot be undone.`}
+      />
+    </Card>
+  );
+};
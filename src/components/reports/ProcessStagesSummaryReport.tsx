@@ -23,6 +23,7 @@ import { reportsService, ReportFilters } from '@/services/api/reports.service';
 import { ProcessStagesSummaryReport, ProductSummary, ProcessSummary } from '@/types';
 import { toast } from 'sonner';
 import { wsService } from '@/services/websocket.service';
+import { formatDateKey } from '@/utils/dateUtils';
 
 interface ProcessStagesSummaryReportProps {
   className?: string;
@@ -45,8 +46,8 @@ export function ProcessStagesSummaryReport({
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [filters, setFilters] = useState<ReportFilters>({
-    startDate: new Date().toISOString().split('T')[0],
-    endDate: new Date().toISOString().split('T')[0],
+    startDate: formatDateKey(),
+    endDate: formatDateKey(),
     viewType: 'product'
   });
 
@@ -87,9 +88,14 @@ export function ProcessStagesSummaryReport({
     const unsubscribe = wsService.subscribe('production_data_updated', () => {
       loadReport(true);
     });
+    // Events missed during a long disconnect could not be replayed
+    const unsubscribeSyncRequired = wsService.subscribe('sync_required', () => {
+      loadReport(true);
+    });
 
     return () => {
       unsubscribe();
+      unsubscribeSyncRequired();
     };
   }, [filters]);
 
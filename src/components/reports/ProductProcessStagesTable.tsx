@@ -83,9 +83,14 @@ export default function ProductProcessStagesTable({
     const unsubscribe = wsService.subscribe('production_data_updated', () => {
       loadData();
     });
+    // Events missed during a long disconnect could not be replayed
+    const unsubscribeSyncRequired = wsService.subscribe('sync_required', () => {
+      loadData();
+    });
 
     return () => {
       unsubscribe();
+      unsubscribeSyncRequired();
     };
   }, [filters]);
 
@@ -237,6 +242,11 @@ export default function ProductProcessStagesTable({
                 {data.grandTotals.totalRejected.toLocaleString()}
               </div>
               <p className="text-xs text-muted-foreground">Total Rejected</p>
+              {!!data.grandTotals.totalReworked && (
+                <p className="text-xs text-amber-600">
+                  {(data.grandTotals.totalScrapped || 0).toLocaleString()} scrapped · {data.grandTotals.totalReworked.toLocaleString()} reworked
+                </p>
+              )}
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-blue-600">
@@ -307,6 +317,7 @@ export default function ProductProcessStagesTable({
               </div>
               <div className="text-sm text-muted-foreground">
                 Total: {product.totals.totalAchieved} achieved, {product.totals.totalRejected} rejected
+                {!!product.totals.totalReworked && ` (${product.totals.totalReworked} reworked)`}
               </div>
             </CardTitle>
           </CardHeader>
@@ -318,6 +329,7 @@ export default function ProductProcessStagesTable({
                   <TableHead>Stage</TableHead>
                   <TableHead>Achieved</TableHead>
                   <TableHead>Rejected</TableHead>
+                  <TableHead>Rework In</TableHead>
                   <TableHead>Available</TableHead>
                   <TableHead>Target</TableHead>
                   <TableHead>Efficiency</TableHead>
@@ -336,6 +348,14 @@ export default function ProductProcessStagesTable({
                     </TableCell>
                     <TableCell className="text-red-600 font-medium">
                       {process.rejectedQuantity.toLocaleString()}
+                      {!!process.reworkOutQuantity && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {(process.scrapQuantity ?? process.rejectedQuantity - process.reworkOutQuantity).toLocaleString()} scrap · {process.reworkOutQuantity.toLocaleString()} rework
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-amber-600 font-medium">
+                      {process.reworkInQuantity ? `+${process.reworkInQuantity.toLocaleString()}` : '-'}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
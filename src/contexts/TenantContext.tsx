@@ -2,11 +2,15 @@ import React, { createContext, useContext, useEffect, useState, useCallback } fr
 import { useAuthStore } from '@/stores/authStore';
 import { Factory } from '@/types';
 import { factoryService } from '@/services/api';
+import { setFactoryTimezone } from '@/utils/dateUtils';
+import { useLanguageStore } from '@/stores/languageStore';
 
 interface TenantContextType {
   currentFactory: Factory | null;
   setCurrentFactory: (factory: Factory | null) => void;
   factoryId: string | null;
+  // Factory's IANA zone; memos that format or bucket dates depend on it so they recompute when it loads
+  timezone: string | undefined;
   isLoading: boolean;
 }
 
@@ -26,6 +30,7 @@ interface TenantProviderProps {
 
 export const TenantProvider: React.FC<TenantProviderProps> = ({ children }) => {
   const { user } = useAuthStore();
+  const setFactoryLanguage = useLanguageStore((state) => state.setFactoryLanguage);
   const [currentFactory, setCurrentFactory] = useState<Factory | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [lastLoadedFactoryId, setLastLoadedFactoryId] = useState<string | null>(null);
@@ -96,6 +101,16 @@ export const TenantProvider: React.FC<TenantProviderProps> = ({ children }) => {
     }
   }, [user?.factoryId, user?.role, currentFactory, lastLoadedFactoryId, isLoading, loadFactory]);
 
+  // Keep the last known factory language while the factory reloads so screens don't flash English
+  useEffect(() => {
+    if (currentFactory) setFactoryLanguage(currentFactory.defaultLanguage);
+  }, [currentFactory, setFactoryLanguage]);
+
+  // Show dates and times on the factory's clock wherever the viewer is. Set while rendering rather
+  // than in an effect so the children rendered below already read the factory's zone
+  const timezone = currentFactory?.timezone || undefined;
+  setFactoryTimezone(timezone);
+
   const factoryId = currentFactory?._id || currentFactory?.id ||
     (typeof user?.factoryId === 'string' 
       ? user.factoryId 
@@ -107,6 +122,7 @@ export const TenantProvider: React.FC<TenantProviderProps> = ({ children }) => {
       currentFactory,
       setCurrentFactory,
       factoryId,
+      timezone,
       isLoading,
     }}>
       {children}
@@ -1,7 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuthStore } from '@/stores/authStore';
 import { useTenant } from '@/contexts/TenantContext';
-import { productService, processService, userService, dashboardService, attendanceService, workEntryService } from '@/services/api';
+import { productService, processService, userService, dashboardService, attendanceService, workEntryService, factoryService } from '@/services/api';
+import type { ShiftWindow } from '@/services/api/attendance.service';
 import { toast } from 'sonner';
 import type { UserRole } from '@/types';
 
@@ -9,6 +10,7 @@ import type { UserRole } from '@/types';
 export const QUERY_KEYS = {
   products: (factoryId: string) => ['products', factoryId],
   processes: (factoryId: string) => ['processes', factoryId],
+  shifts: (factoryId: string) => ['shifts', factoryId],
   users: (factoryId: string, role?: UserRole) => ['users', factoryId, role],
   dashboard: (factoryId: string) => ['dashboard', factoryId],
   attendance: (employeeId: string) => ['attendance', employeeId],
@@ -164,6 +166,21 @@ export const useDeleteProcess = () => {
   });
 };
 
+// Shifts
+export const useShifts = () => {
+  const { factoryId } = useTenant();
+  return useQuery({
+    queryKey: QUERY_KEYS.shifts(factoryId!),
+    queryFn: async (): Promise<ShiftWindow[]> => {
+      const response = await factoryService.getShifts();
+      const shifts: ShiftWindow[] = response.data?.shifts || [];
+      return shifts.filter((shift) => shift.isActive !== false);
+    },
+    enabled: !!factoryId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
 // Users
 export const useUsers = (role?: UserRole) => {
   const { factoryId } = useTenant();
@@ -0,0 +1,24 @@
+import { useMemo } from 'react';
+import { useShifts } from '@/hooks/useApi';
+import { useTenant } from '@/contexts/TenantContext';
+import { getProductionDate, getProductionDayRange } from '@/utils/dateUtils';
+
+/**
+ * Production day helpers bound to the factory's shifts. Until the shifts load,
+ * `isReady` is false and days fall back to calendar days.
+ */
+export const useProductionDay = () => {
+  const { data: shifts, isSuccess } = useShifts();
+  const { timezone } = useTenant();
+
+  return useMemo(() => {
+    const activeShifts = shifts || [];
+    return {
+      shifts: activeShifts,
+      isReady: isSuccess,
+      getToday: () => getProductionDate(new Date(), activeShifts, timezone),
+      getDate: (time: string | Date) => getProductionDate(time, activeShifts, timezone),
+      getRange: (productionDate: string | Date) => getProductionDayRange(productionDate, activeShifts, timezone),
+    };
+  }, [shifts, isSuccess, timezone]);
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { Language } from '@/types';
+import { getLocale } from '@/i18n';
+
+const isSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Reads prompts aloud with the browser's speech synthesis, in a voice for the
+ * given language when the device has one. A no-op where speech isn't available.
+ */
+export const useSpeech = (language: Language) => {
+  const supported = isSupported();
+
+  const stop = useCallback(() => {
+    if (isSupported()) window.speechSynthesis.cancel();
+  }, []);
+
+  const speak = useCallback(
+    (text: string) => {
+      if (!isSupported() || !text) return;
+      // Voices are listed by plain BCP 47 tags, without our -u-nu-latn digit extension
+      const lang = getLocale(language).split('-u-')[0];
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = 0.9;
+      const voice = window.speechSynthesis.getVoices().find((v) => v.lang.replace('_', '-').startsWith(language));
+      if (voice) utterance.voice = voice;
+
+      // A new prompt replaces whatever was still being read
+      window.speechSynthesis.cancel();
+      window.speechSynthesis.speak(utterance);
+    },
+    [language]
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return useMemo(() => ({ supported, speak, stop }), [supported, speak, stop]);
+};
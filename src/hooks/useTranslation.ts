@@ -0,0 +1,30 @@
+import { useCallback, useMemo } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { useLanguageStore } from '@/stores/languageStore';
+import { formatNumber, MessageKey, MessageParams, resolveLanguage, translate } from '@/i18n';
+
+/**
+ * Messages in the signed-in user's language: their own choice from Settings or
+ * Profile, else their factory's default, else English.
+ */
+export const useTranslation = () => {
+  const userLanguage = useAuthStore((state) => state.user?.profile?.language);
+  const factoryLanguage = useLanguageStore((state) => state.factoryLanguage);
+  const language = resolveLanguage(userLanguage, factoryLanguage);
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(language, key, params), [language]);
+  const format = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) => formatNumber(language, value, options),
+    [language]
+  );
+
+  return useMemo(() => ({ language, t, formatNumber: format }), [language, t, format]);
+};
+
+// Same lookup outside render, for loaders that run once on mount and shouldn't re-run when the language changes
+export const translateNow = (key: MessageKey, params?: MessageParams) =>
+  translate(
+    resolveLanguage(useAuthStore.getState().user?.profile?.language, useLanguageStore.getState().factoryLanguage),
+    key,
+    params
+  );
@@ -0,0 +1,94 @@
+import { Language } from '@/types';
+import { en, Messages } from './locales/en';
+import { hi } from './locales/hi';
+import { ta } from './locales/ta';
+import { mr } from './locales/mr';
+
+export type { Messages };
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGES: { value: Language; label: string; nativeLabel: string }[] = [
+  { value: 'en', label: 'English', nativeLabel: 'English' },
+  { value: 'hi', label: 'Hindi', nativeLabel: 'हिन्दी' },
+  { value: 'ta', label: 'Tamil', nativeLabel: 'தமிழ்' },
+  { value: 'mr', label: 'Marathi', nativeLabel: 'मराठी' },
+];
+
+const CATALOGS: Record<Language, Messages> = { en, hi, ta, mr };
+
+// Digits stay Latin in every language so counts match what operators type on the keypad
+const LOCALES: Record<Language, string> = {
+  en: 'en-IN',
+  hi: 'hi-IN-u-nu-latn',
+  ta: 'ta-IN-u-nu-latn',
+  mr: 'mr-IN-u-nu-latn',
+};
+
+type PluralForms = { one: string; other: string };
+
+// Dotted paths to every message, e.g. 'dashboard.title'
+type Paths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralForms ? K : `${K}.${Paths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = Paths<Messages>;
+export type MessageParams = Record<string, string | number>;
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && value in CATALOGS;
+
+// First supported language among the candidates, e.g. the user's choice then the factory's
+export const resolveLanguage = (...candidates: (string | null | undefined)[]): Language =>
+  candidates.find(isLanguage) || DEFAULT_LANGUAGE;
+
+export const getLocale = (language: Language): string => LOCALES[language];
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+export const formatNumber = (language: Language, value: number, options?: Intl.NumberFormatOptions): string => {
+  const cacheKey = `${language}|${JSON.stringify(options || {})}`;
+  let formatter = numberFormats.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(LOCALES[language], options);
+    numberFormats.set(cacheKey, formatter);
+  }
+  return formatter.format(value);
+};
+
+const getPluralForm = (language: Language, count: number): keyof PluralForms => {
+  let rules = pluralRules.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(LOCALES[language]);
+    pluralRules.set(language, rules);
+  }
+  return rules.select(count) === 'one' ? 'one' : 'other';
+};
+
+const lookup = (messages: Messages, key: string): string | PluralForms | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    messages
+  );
+  return typeof value === 'string' || (value && typeof value === 'object' && 'other' in value)
+    ? (value as string | PluralForms)
+    : undefined;
+};
+
+// Missing messages fall back to English, then to the key itself so a gap shows up on screen
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+  const message = lookup(CATALOGS[language], key) ?? lookup(en, key);
+  if (message === undefined) return key;
+
+  const count = params?.count;
+  const template =
+    typeof message === 'string' ? message : message[typeof count === 'number' ? getPluralForm(language, count) : 'other'];
+
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(language, value) : value;
+  });
+};
@@ -0,0 +1,430 @@
+// English strings; every other catalog has to provide the same keys.
+// Plural messages carry `one` / `other` forms and are picked by the `count` param.
+export const en = {
+  common: {
+    present: 'Present',
+    absent: 'Absent',
+    halfDay: 'Half Day',
+    onLeave: 'On Leave',
+    onLeaveWithType: 'On Leave ({type})',
+    notMarked: 'Not Marked',
+    unknown: 'Unknown',
+    none: 'None',
+    notAvailable: 'N/A',
+    unknownError: 'Unknown error',
+    checkIn: 'Check In',
+    checkingIn: 'Checking In...',
+    capturePhoto: 'Capture Photo',
+    submitProduction: 'Submit Production',
+    submitting: 'Submitting...',
+    refreshing: 'Refreshing...',
+    completed: 'Completed',
+    inProgress: 'In Progress',
+    goToDashboard: 'Go to Dashboard',
+    units: { one: '{count} unit', other: '{count} units' },
+    entries: { one: '{count} entry', other: '{count} entries' },
+    cancel: 'Cancel',
+    save: 'Save',
+    submit: 'Submit',
+    reason: 'Reason',
+  },
+  errors: {
+    userNotFound: 'User not found. Please log in again.',
+    userIdNotFound: 'User ID not found. Please log in again.',
+    fillRequired: 'Please fill in all required fields',
+    invalidAchieved: 'Please enter a valid achieved quantity',
+    machineNotFound: 'Selected machine not found',
+  },
+  scan: {
+    notALabel: 'Not a product, process or machine label',
+    productUnavailable: 'This product is not available in your factory',
+    productScanned: 'Product: {name}',
+    scanProductFirst: 'Select or scan the product first',
+    processNotInProduct: 'This process is not part of the selected product',
+    processNotAStage: 'This process is not a stage of the selected product',
+    processScanned: 'Process: {name}',
+    machineUnavailable: 'This machine is not available in your factory',
+    machineScanned: 'Machine: {name}',
+    button: 'Scan Label',
+    hint: 'Scan the QR code on a product, process or machine to select it.',
+  },
+  language: {
+    title: 'Language',
+    description: 'Choose the language your screens are shown in',
+    label: 'Language',
+    saved: 'Language changed',
+    saveFailed: 'Failed to change language',
+  },
+  dashboard: {
+    initializing: 'Initializing...',
+    restoringSession: 'Please wait while we restore your session',
+    loading: 'Loading dashboard...',
+    loadingData: 'Please wait while we load your data',
+    title: 'Employee Dashboard',
+    welcome: 'Welcome back, {name}!',
+    checkInBadge: 'Check-in: {time}',
+    timeNotAvailable: 'Time not available',
+    todaySummary: "Today's Summary",
+    status: 'Status:',
+    checkInTime: 'Check-in Time:',
+    checkOutTime: 'Check-out Time:',
+    totalWorkHours: 'Total Work Hours:',
+    workEntries: 'Work Entries:',
+    entriesToday: '{count} today',
+    productsUsed: 'Products Used:',
+    machinesUsed: 'Machines Used:',
+    totalAchieved: 'Total Achieved:',
+    totalRejected: 'Total Rejected:',
+    machineBreakdown: 'Machine Breakdown:',
+    processBreakdown: 'Process Breakdown:',
+    achievedCount: 'Achieved: {count}',
+    rejectedCount: 'Rejected: {count}',
+    noWorkToday: 'No work started today',
+    startFirstEntry: 'Start your first work entry above',
+    connectionError: '⚠️ Connection Error',
+    cannotConnect: 'Cannot connect to server. Please ensure the backend server is running.',
+    backendApi: 'Backend API: {url}',
+    notConfigured: 'Not configured',
+    machineMissingTitle: '⚠️ Machine Not Found',
+    selectedMachineId: 'Selected machine ID: {id}',
+    availableMachineIds: 'Available machine IDs: {ids}',
+    reselectMachine: 'Please reselect a machine from the dropdown.',
+    attendance: 'Attendance',
+    attendanceByGps: 'Mark your attendance using geofence location',
+    attendanceByQr: 'Mark your attendance by scanning the QR code at the gate',
+    attendanceByGpsAndQr: 'Mark your attendance using geofence location and the QR code at the gate',
+    checkedIn: 'Checked In',
+    checkedInTime: 'Time: {time}',
+    checkedInZone: 'Zone: {zone}',
+    submitToCheckOut: '💡 Submit production to automatically check out',
+    productionEntry: 'Production Entry',
+    productionEntryHint: 'Enter your achieved and rejected quantities',
+    selectProduct: 'Select Product',
+    chooseProduct: 'Choose product',
+    noProducts: 'No products available',
+    selectProcess: 'Select Process',
+    chooseProcess: 'Choose process',
+    selectProductFirst: 'Select product first',
+    noProcessesForProduct: 'No processes available for this product',
+    selectAProductFirst: 'Select a product first',
+    selectMachine: 'Select Machine',
+    chooseMachine: 'Choose machine',
+    noMachines: 'No machines available',
+    selectShift: 'Select Shift',
+    chooseShift: 'Choose shift',
+    noShifts: 'No shifts available',
+    processStatus: 'Process Status',
+    available: 'Available:',
+    remainingFromPrevious: 'Remaining from previous stage',
+    stageLockedNotice: "⚠️ This process stage is locked. No work can be started until it's unlocked by a supervisor.",
+    achievedQuantity: 'Achieved Quantity',
+    enterAchieved: 'Enter achieved quantity',
+    rejectedQuantity: 'Rejected Quantity',
+    enterRejected: 'Enter rejected quantity',
+    photoOptional: 'Production Photo (Optional)',
+    photoAlt: 'Captured production photo',
+    retakePhoto: 'Retake Photo',
+    scanGateCode: 'Scan Gate Code',
+    scanGateCodeHint: 'Scan the check-in QR code shown on the display at the factory gate.',
+    unknownProduct: 'Unknown Product',
+    unknownProcess: 'Unknown Process',
+    unknownMachine: 'Unknown Machine',
+    unknownMachineWithId: 'Unknown Machine (ID: {id})',
+    notSelected: 'Not selected',
+    selectProcessAndShift: 'Please select a process and shift before checking in',
+    selectProcessBeforeCheckIn: 'Please select a process before checking in',
+    selectShiftBeforeCheckIn: 'Please select a shift before checking in',
+    invalidLocation: 'Invalid location coordinates. Please enable location services.',
+    invalidShift: 'Invalid shift type. Please select a valid shift.',
+    invalidUserId: 'Invalid user ID. Please log in again.',
+    invalidProcessId: 'Invalid process ID. Please select a process.',
+    invalidCheckIn: 'Invalid check-in data. Please try again.',
+    checkInUnderReview: 'Checked in - your location looked unusual, so a supervisor will review this check-in',
+    checkInSuccess: 'Checked in successfully',
+    checkInFailed: 'Failed to check in',
+    serverError: 'Server error: {message}. Please check backend logs or contact support.',
+    validationError: 'Validation error: {message}',
+    photoCaptured: 'Photo captured successfully!',
+    photoRequired: 'Please capture a photo before submitting production data',
+    insufficientQuantity: 'Insufficient quantity available for consumption. Available: {available}, Required: {required}',
+    willLockStage: 'This will consume all available units and lock the stage. Remaining after consumption: {remaining}',
+    savedOffline: 'No connection - production saved on this device and will sync automatically',
+    saveOfflineFailed: 'Failed to save production on this device',
+    queuedRejected: 'Queued production was rejected: {message}',
+    invalidSubmitResponse: 'Failed to submit production: Invalid response from server',
+    submittedAndCheckedOut: 'Production submitted and checked out successfully! Work hours: {hours}h',
+    submittedAlreadyCheckedOut: 'Production submitted successfully! Work hours: {hours}h (Already checked out)',
+    submittedCheckOutFailed: 'Production submitted successfully. However, checkout failed: {message}',
+    submittedWithHours: 'Production submitted successfully! Work hours: {hours}h',
+    submitted: 'Production submitted successfully!',
+    submittedData: 'Production data submitted successfully',
+    submitFailed: 'Failed to submit production: {message}',
+    submitRetry: 'Failed to submit production. Please try again.',
+    startInvalidResponse: 'Failed to start work entry. Invalid response from server.',
+    startRetry: 'Failed to start work entry. Please try again.',
+    uiUpdateFailed: 'Work entry submitted but UI update failed. Refreshing...',
+    selectAllToStart: 'Please select product, machine, shift, and enter achieved quantity',
+    roleRequired: 'Access denied. Employee or supervisor role required. Current role: {role}',
+    selectProcess_: 'Please select a process.',
+    selectMachine_: 'Please select a machine.',
+    stageLocked: 'This process stage is locked. Please wait for supervisor to unlock it.',
+    noQuantityForStage: 'No quantity available for this stage. Please wait for the previous stage to complete.',
+    workStarted: 'Work started successfully! Attendance marked automatically.',
+    authFailed: 'Authentication failed. Please log in again.',
+    accessDenied: 'Access denied. Please contact your supervisor.',
+    validationFailed: 'Validation failed: {message}',
+    validationDetails: 'Validation details: {details}',
+    startWorkFailed: 'Failed to start work: {message}',
+    startWorkRetry: 'Failed to start work. Please try again.',
+    employeeRoleRequired: 'Access denied. Please ensure you have employee role and are properly authenticated.',
+    notAssignedToProcess: 'You are not assigned to this process. Please contact your supervisor.',
+    processAccessDenied: 'Process access denied. Please contact your supervisor.',
+  },
+  roster: {
+    title: 'My Roster',
+    hint: 'Your shifts for the coming week',
+    today: 'Today',
+    tomorrow: 'Tomorrow',
+    process: 'Process',
+  },
+  production: {
+    title: 'Production Entry',
+    subtitle: 'Enter your production data',
+    checkIn: 'Check-in',
+    checkInHint: 'Start your production session',
+    checkedInAt: 'Checked in at {time}',
+    details: 'Production Details',
+    detailsHint: 'Fill in the production information',
+    product: 'Product *',
+    selectProduct: 'Select a product',
+    order: 'Production Order',
+    noOrder: 'No order',
+    orderOption: '{number} - {completed}/{quantity}, due {date}',
+    processStage: 'Process Stage *',
+    loadingStages: 'Loading stages...',
+    selectStage: 'Select a process stage',
+    stageOption: 'Stage {order}: {name}',
+    availableFromPrevious: 'Available from Previous Stage:',
+    unlimited: 'Unlimited',
+    includesRework: {
+      one: 'Includes {count} reworked piece sent back to this stage',
+      other: 'Includes {count} reworked pieces sent back to this stage',
+    },
+    calculating: 'Calculating...',
+    machine: 'Machine *',
+    selectMachine: 'Select a machine',
+    shift: 'Shift *',
+    selectShift: 'Select a shift',
+    achieved: 'Achieved Quantity *',
+    rejected: 'Rejected Quantity',
+    lotNumber: 'Lot Number',
+    lotPlaceholder: 'Leave blank to start a new lot',
+    canRework: 'Can be reworked',
+    sendReworkTo: 'Send rework to',
+    selectReworkStage: 'Select a stage',
+    scrapped: { one: '{count} will be scrapped', other: '{count} will be scrapped' },
+    backForRework: { one: ', {count} goes back for rework', other: ', {count} go back for rework' },
+    photo: 'Photo *',
+    photoAlt: 'Captured',
+    removePhoto: 'Remove Photo',
+    loadProductsFailed: 'Failed to load products',
+    loadStagesFailed: 'Failed to load process stages',
+    loadMachinesFailed: 'Failed to load machines',
+    loadShiftsFailed: 'Failed to load shifts',
+    loadStatusFailed: 'Failed to load process status',
+    offlineSynced: 'Offline production entry synced',
+    offlineRejected: 'Offline production entry was rejected: {message}',
+    seePendingEntries: 'see pending entries',
+    checkInSuccess: 'Check-in successful',
+    checkedInOffline: 'Offline - checked in on this device',
+    checkInFailed: 'Failed to check in',
+    checkInFirst: 'Please check in first',
+    invalidRejected: 'Please enter a valid rejected quantity',
+    reworkOutOfRange: 'Rework quantity must be between 0 and the rejected quantity',
+    chooseReworkStage: 'Please choose the stage the rework goes back to',
+    assignLots: {
+      one: 'Assign the {count} piece to the lot it came from',
+      other: 'Assign all {count} pieces to the lots they came from',
+    },
+    defectsLabel: 'Why were they rejected? *',
+    defectsAssigned: '{assigned} of {rejected} assigned',
+    defectQuantity: '{label} quantity',
+    splitDefects: 'Split all {rejected} rejected pieces across defect codes ({assigned} assigned)',
+    lotsUsed: 'Lots used *',
+    lotsAssigned: '{assigned} of {required}',
+    oldestFirst: 'Oldest first',
+    lotRemaining: '{remaining} left · {date}',
+    lotQuantity: 'Quantity from lot {lot}',
+    photoRequired: 'Please capture a photo',
+    insufficientQuantity: 'Insufficient quantity available. Available: {available}, Required: {required}',
+    savedOffline: 'Saved on this device - it will sync when the connection returns',
+    submittedWithLot: 'Production entry submitted - lot {lot}',
+    submitted: 'Production entry submitted successfully',
+    submitFailed: 'Failed to submit production entry',
+  },
+  attendance: {
+    title: 'Attendance',
+    heading: 'Attendance & Work Overview',
+    subtitle: 'Track your attendance, work hours, and performance',
+    todayLoaded: "Today's attendance loaded successfully!",
+    todayLoadFailed: "Failed to load today's attendance",
+    historyLoaded: { one: 'Loaded {count} attendance record', other: 'Loaded {count} attendance records' },
+    historyLoadFailed: 'Failed to load attendance history',
+    currentStatus: 'Current Status - {date}',
+    statusAsOf: 'Real-time status as of {time}',
+    checkInAt: 'Check-in: {time}',
+    noCheckInToday: 'No check-in today',
+    totalHours: 'Total Hours',
+    achieved: 'Achieved',
+    workEntries: 'Work Entries',
+    autoTitle: 'Automatic Attendance System',
+    autoHint: 'Your attendance is automatically marked when you start work from the Dashboard',
+    autoInstructions: 'To mark attendance, go to the Dashboard tab and click "Start Work & Mark Attendance"',
+    tabOverview: 'Overview',
+    tabAttendance: 'Attendance',
+    tabAttendanceShort: 'Attend.',
+    tabLeave: 'Leave',
+    todayEntries: "Today's Work Entries",
+    todayEntriesHint: 'All work entries for today ({count} total)',
+    entryNumber: 'Work Entry #{number}',
+    machine: 'Machine:',
+    target: 'Target:',
+    started: 'Started:',
+    ended: 'Ended:',
+    duration: 'Duration:',
+    achievedLabel: 'Achieved:',
+    rejectedLabel: 'Rejected:',
+    noEntriesToday: 'No work entries for today',
+    startFromDashboard: 'Start your first work entry from the Dashboard',
+    calendar: 'Calendar',
+    calendarHint: 'Tap a day to see your attendance or leave',
+    history: 'Attendance History',
+    historyHint: 'Your attendance records with work hours',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+    loadingHistory: 'Loading attendance history...',
+    date: 'Date',
+    day: 'Day',
+    checkIn: 'Check-in',
+    checkOut: 'Check-out',
+    workHours: 'Work Hours',
+    status: 'Status',
+    missed: 'Missed',
+    onDuty: 'On duty',
+    regularized: 'Regularized',
+    autoClosed: 'Auto-closed',
+    correctionPending: 'Correction pending',
+    fixCheckOut: 'Fix check-out',
+    noRecords: 'No attendance records found for selected period',
+    historyEmpty: 'Your attendance history will appear here',
+    onLeaveHalfDay: '{leave} - half day',
+    noRecord: 'No attendance record',
+  },
+  downtime: {
+    title: 'Machine Stoppages',
+    hint: "Report when a machine stops so lost output isn't counted against you",
+    report: 'Report stoppage',
+    machineFallback: 'Machine',
+    since: '{reason} · since {time}',
+    down: 'Down',
+    runningAgain: 'Running again',
+    dialogTitle: 'Report Machine Stoppage',
+    dialogHint: 'Leave "still stopped" ticked if the machine is down right now.',
+    machine: 'Machine',
+    selectMachine: 'Select machine',
+    noReasons: 'No reasons configured',
+    selectReason: 'Select reason',
+    stoppedAt: 'Stopped at',
+    stillStopped: 'Still stopped',
+    runningAgainAt: 'Running again at',
+    notes: 'Notes (optional)',
+    selectMachineAndReason: 'Select the machine and the reason',
+    endBeforeStart: 'End time must be after the start time',
+    reported: 'Stoppage reported',
+    logged: 'Stoppage logged',
+    logFailed: 'Failed to log stoppage',
+    markedRunning: 'Machine marked as running',
+    endFailed: 'Failed to end stoppage',
+  },
+  sync: {
+    savedOnDevice: 'Saved on this device',
+    uploadingWhenReachable: 'Uploading when the server is reachable',
+    uploadWhenOnline: 'Will upload when the connection returns',
+    syncNow: 'Sync now',
+    productFallback: 'Product',
+    summary: 'Achieved {achieved} · Rejected {rejected} · Saved {time}',
+    failed: 'Sync failed',
+    pending: 'Pending sync',
+  },
+  leave: {
+    title: 'Leave',
+    hint: 'Approved leave is not counted as an absence',
+    request: 'Request Leave',
+    left: 'of {allowance} left',
+    leftWithPending: 'of {allowance} left · {pending} pending',
+    days: { one: '{count} day', other: '{count} days' },
+    note: 'Note: {note}',
+    empty: 'No leave requested yet',
+    dialogHint: 'Your supervisor approves or declines the request.',
+    type: 'Type of leave',
+    selectType: 'Select leave type',
+    daysLeft: '{remaining} of {allowance} days left this year',
+    from: 'From',
+    to: 'To',
+    halfDayOnly: 'Half day only',
+    reasonPlaceholder: 'e.g. Fever, family function',
+    daysRequested: { one: '{count} day requested', other: '{count} days requested' },
+    submit: 'Submit Request',
+    selectTypeFirst: 'Select the type of leave',
+    endBeforeStart: 'End date must be on or after the start date',
+    reasonRequired: 'Give a reason for the leave',
+    requested: 'Leave requested - your supervisor will review it',
+    requestFailed: 'Failed to request leave',
+    cancelled: 'Leave request cancelled',
+    cancelFailed: 'Failed to cancel leave request',
+    status: { pending: 'Pending', approved: 'Approved', declined: 'Declined', cancelled: 'Cancelled' },
+  },
+  regularization: {
+    title: 'Fix Check-out',
+    hint: 'Your hours are updated once a supervisor approves.',
+    hintWithCheckIn: 'Checked in {time}. Your hours are updated once a supervisor approves.',
+    whenLeft: 'When did you leave?',
+    reasonPlaceholder: 'e.g. Phone battery died at the end of the shift',
+    enterTime: 'Enter the time you left',
+    beforeCheckIn: 'Check-out must be after your check-in',
+    inFuture: 'Check-out cannot be in the future',
+    reasonRequired: 'Say why the check-out was missed',
+    sent: 'Correction sent to your supervisor',
+    failed: 'Failed to submit correction',
+  },
+  simple: {
+    checkIn: 'Check In',
+    ok: 'OK',
+    clear: 'Clear',
+    back: 'Back',
+    retake: 'Take again',
+    send: 'Send',
+    sending: 'Sending...',
+    another: 'Next entry',
+    voiceOn: 'Turn voice on',
+    voiceOff: 'Turn voice off',
+    noProducts: 'No products yet. Ask your supervisor.',
+    noProcesses: 'No work stages for this product. Ask your supervisor.',
+    noMachines: 'No machines set up yet. Ask your supervisor.',
+    pieces: { one: '{count} piece', other: '{count} pieces' },
+    checkedInAt: 'Checked in at {time}',
+    prompts: {
+      checkIn: 'Tap the big button to check in',
+      pickJobFirst: 'Tap your product, then your work, to check in',
+      product: 'Tap the product you are making',
+      process: 'Tap the work you are doing',
+      machine: 'Tap the machine you are working on',
+      count: 'Type how many pieces you made, then tap the tick',
+      photo: 'Take a photo of your work',
+      review: 'Check it, then tap Send',
+      done: 'Sent. Well done!',
+    },
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,428 @@
+import type { Messages } from './en';
+
+export const hi: Messages = {
+  common: {
+    present: 'उपस्थित',
+    absent: 'अनुपस्थित',
+    halfDay: 'आधा दिन',
+    onLeave: 'छुट्टी पर',
+    onLeaveWithType: 'छुट्टी पर ({type})',
+    notMarked: 'दर्ज नहीं',
+    unknown: 'अज्ञात',
+    none: 'कोई नहीं',
+    notAvailable: 'उपलब्ध नहीं',
+    unknownError: 'अज्ञात त्रुटि',
+    checkIn: 'चेक इन करें',
+    checkingIn: 'चेक इन हो रहा है...',
+    capturePhoto: 'फ़ोटो लें',
+    submitProduction: 'उत्पादन जमा करें',
+    submitting: 'जमा हो रहा है...',
+    refreshing: 'रीफ़्रेश हो रहा है...',
+    completed: 'पूरा हुआ',
+    inProgress: 'चल रहा है',
+    goToDashboard: 'डैशबोर्ड पर जाएँ',
+    units: { one: '{count} यूनिट', other: '{count} यूनिट' },
+    entries: { one: '{count} एंट्री', other: '{count} एंट्री' },
+    cancel: 'रद्द करें',
+    save: 'सेव करें',
+    submit: 'भेजें',
+    reason: 'कारण',
+  },
+  errors: {
+    userNotFound: 'उपयोगकर्ता नहीं मिला। कृपया फिर से लॉग इन करें।',
+    userIdNotFound: 'उपयोगकर्ता आईडी नहीं मिली। कृपया फिर से लॉग इन करें।',
+    fillRequired: 'कृपया सभी ज़रूरी जानकारी भरें',
+    invalidAchieved: 'कृपया सही उत्पादित मात्रा डालें',
+    machineNotFound: 'चुनी गई मशीन नहीं मिली',
+  },
+  scan: {
+    notALabel: 'यह उत्पाद, प्रक्रिया या मशीन का लेबल नहीं है',
+    productUnavailable: 'यह उत्पाद आपकी फ़ैक्टरी में उपलब्ध नहीं है',
+    productScanned: 'उत्पाद: {name}',
+    scanProductFirst: 'पहले उत्पाद चुनें या स्कैन करें',
+    processNotInProduct: 'यह प्रक्रिया चुने गए उत्पाद का हिस्सा नहीं है',
+    processNotAStage: 'यह प्रक्रिया चुने गए उत्पाद का चरण नहीं है',
+    processScanned: 'प्रक्रिया: {name}',
+    machineUnavailable: 'यह मशीन आपकी फ़ैक्टरी में उपलब्ध नहीं है',
+    machineScanned: 'मशीन: {name}',
+    button: 'लेबल स्कैन करें',
+    hint: 'चुनने के लिए उत्पाद, प्रक्रिया या मशीन पर लगा QR कोड स्कैन करें।',
+  },
+  language: {
+    title: 'भाषा',
+    description: 'अपनी स्क्रीन की भाषा चुनें',
+    label: 'भाषा',
+    saved: 'भाषा बदल दी गई',
+    saveFailed: 'भाषा बदलने में विफल',
+  },
+  dashboard: {
+    initializing: 'शुरू हो रहा है...',
+    restoringSession: 'कृपया प्रतीक्षा करें, आपका सत्र वापस लाया जा रहा है',
+    loading: 'डैशबोर्ड लोड हो रहा है...',
+    loadingData: 'कृपया प्रतीक्षा करें, आपका डेटा लोड हो रहा है',
+    title: 'कर्मचारी डैशबोर्ड',
+    welcome: 'फिर से स्वागत है, {name}!',
+    checkInBadge: 'चेक इन: {time}',
+    timeNotAvailable: 'समय उपलब्ध नहीं',
+    todaySummary: 'आज का सारांश',
+    status: 'स्थिति:',
+    checkInTime: 'चेक इन समय:',
+    checkOutTime: 'चेक आउट समय:',
+    totalWorkHours: 'कुल काम के घंटे:',
+    workEntries: 'काम की एंट्री:',
+    entriesToday: 'आज {count}',
+    productsUsed: 'इस्तेमाल हुए उत्पाद:',
+    machinesUsed: 'इस्तेमाल हुई मशीनें:',
+    totalAchieved: 'कुल उत्पादन:',
+    totalRejected: 'कुल अस्वीकृत:',
+    machineBreakdown: 'मशीन अनुसार:',
+    processBreakdown: 'प्रक्रिया अनुसार:',
+    achievedCount: 'उत्पादन: {count}',
+    rejectedCount: 'अस्वीकृत: {count}',
+    noWorkToday: 'आज कोई काम शुरू नहीं हुआ',
+    startFirstEntry: 'ऊपर से अपनी पहली एंट्री शुरू करें',
+    connectionError: '⚠️ कनेक्शन त्रुटि',
+    cannotConnect: 'सर्वर से कनेक्ट नहीं हो सका। कृपया जाँचें कि बैकएंड सर्वर चल रहा है।',
+    backendApi: 'बैकएंड API: {url}',
+    notConfigured: 'सेट नहीं है',
+    machineMissingTitle: '⚠️ मशीन नहीं मिली',
+    selectedMachineId: 'चुनी गई मशीन आईडी: {id}',
+    availableMachineIds: 'उपलब्ध मशीन आईडी: {ids}',
+    reselectMachine: 'कृपया सूची से मशीन फिर से चुनें।',
+    attendance: 'हाज़िरी',
+    attendanceByGps: 'अपनी लोकेशन से हाज़िरी लगाएँ',
+    attendanceByQr: 'गेट पर QR कोड स्कैन करके हाज़िरी लगाएँ',
+    attendanceByGpsAndQr: 'अपनी लोकेशन और गेट पर QR कोड से हाज़िरी लगाएँ',
+    checkedIn: 'चेक इन हो गया',
+    checkedInTime: 'समय: {time}',
+    checkedInZone: 'क्षेत्र: {zone}',
+    submitToCheckOut: '💡 उत्पादन जमा करने पर अपने-आप चेक आउट हो जाएगा',
+    productionEntry: 'उत्पादन एंट्री',
+    productionEntryHint: 'अपनी उत्पादित और अस्वीकृत मात्रा डालें',
+    selectProduct: 'उत्पाद चुनें',
+    chooseProduct: 'उत्पाद चुनें',
+    noProducts: 'कोई उत्पाद उपलब्ध नहीं',
+    selectProcess: 'प्रक्रिया चुनें',
+    chooseProcess: 'प्रक्रिया चुनें',
+    selectProductFirst: 'पहले उत्पाद चुनें',
+    noProcessesForProduct: 'इस उत्पाद के लिए कोई प्रक्रिया उपलब्ध नहीं',
+    selectAProductFirst: 'पहले कोई उत्पाद चुनें',
+    selectMachine: 'मशीन चुनें',
+    chooseMachine: 'मशीन चुनें',
+    noMachines: 'कोई मशीन उपलब्ध नहीं',
+    selectShift: 'शिफ़्ट चुनें',
+    chooseShift: 'शिफ़्ट चुनें',
+    noShifts: 'कोई शिफ़्ट उपलब्ध नहीं',
+    processStatus: 'प्रक्रिया की स्थिति',
+    available: 'उपलब्ध:',
+    remainingFromPrevious: 'पिछले चरण से बचा हुआ',
+    stageLockedNotice: '⚠️ यह प्रक्रिया चरण लॉक है। सुपरवाइज़र के अनलॉक करने तक काम शुरू नहीं हो सकता।',
+    achievedQuantity: 'उत्पादित मात्रा',
+    enterAchieved: 'उत्पादित मात्रा डालें',
+    rejectedQuantity: 'अस्वीकृत मात्रा',
+    enterRejected: 'अस्वीकृत मात्रा डालें',
+    photoOptional: 'उत्पादन फ़ोटो (वैकल्पिक)',
+    photoAlt: 'ली गई उत्पादन फ़ोटो',
+    retakePhoto: 'फ़ोटो फिर से लें',
+    scanGateCode: 'गेट कोड स्कैन करें',
+    scanGateCodeHint: 'फ़ैक्टरी गेट पर स्क्रीन पर दिखाया गया चेक इन QR कोड स्कैन करें।',
+    unknownProduct: 'अज्ञात उत्पाद',
+    unknownProcess: 'अज्ञात प्रक्रिया',
+    unknownMachine: 'अज्ञात मशीन',
+    unknownMachineWithId: 'अज्ञात मशीन (आईडी: {id})',
+    notSelected: 'नहीं चुना गया',
+    selectProcessAndShift: 'चेक इन से पहले कृपया प्रक्रिया और शिफ़्ट चुनें',
+    selectProcessBeforeCheckIn: 'चेक इन से पहले कृपया प्रक्रिया चुनें',
+    selectShiftBeforeCheckIn: 'चेक इन से पहले कृपया शिफ़्ट चुनें',
+    invalidLocation: 'लोकेशन सही नहीं है। कृपया लोकेशन सेवा चालू करें।',
+    invalidShift: 'शिफ़्ट सही नहीं है। कृपया सही शिफ़्ट चुनें।',
+    invalidUserId: 'उपयोगकर्ता आईडी सही नहीं है। कृपया फिर से लॉग इन करें।',
+    invalidProcessId: 'प्रक्रिया सही नहीं है। कृपया प्रक्रिया चुनें।',
+    invalidCheckIn: 'चेक इन की जानकारी सही नहीं है। कृपया फिर से कोशिश करें।',
+    checkInUnderReview: 'चेक इन हो गया - आपकी लोकेशन असामान्य लगी, इसलिए सुपरवाइज़र इसकी जाँच करेंगे',
+    checkInSuccess: 'चेक इन सफल रहा',
+    checkInFailed: 'चेक इन नहीं हो सका',
+    serverError: 'सर्वर त्रुटि: {message}। कृपया सहायता से संपर्क करें।',
+    validationError: 'जाँच त्रुटि: {message}',
+    photoCaptured: 'फ़ोटो ले ली गई!',
+    photoRequired: 'उत्पादन जमा करने से पहले कृपया फ़ोटो लें',
+    insufficientQuantity: 'पर्याप्त मात्रा उपलब्ध नहीं है। उपलब्ध: {available}, ज़रूरी: {required}',
+    willLockStage: 'इससे सारी उपलब्ध मात्रा इस्तेमाल हो जाएगी और चरण लॉक हो जाएगा। बाद में बचा: {remaining}',
+    savedOffline: 'कनेक्शन नहीं है - उत्पादन इस डिवाइस पर सेव हुआ और अपने-आप सिंक हो जाएगा',
+    saveOfflineFailed: 'इस डिवाइस पर उत्पादन सेव नहीं हो सका',
+    queuedRejected: 'सेव किया गया उत्पादन अस्वीकार हुआ: {message}',
+    invalidSubmitResponse: 'उत्पादन जमा नहीं हो सका: सर्वर से गलत जवाब मिला',
+    submittedAndCheckedOut: 'उत्पादन जमा हुआ और चेक आउट हो गया! काम के घंटे: {hours}',
+    submittedAlreadyCheckedOut: 'उत्पादन जमा हुआ! काम के घंटे: {hours} (पहले ही चेक आउट हो चुका है)',
+    submittedCheckOutFailed: 'उत्पादन जमा हुआ, लेकिन चेक आउट नहीं हो सका: {message}',
+    submittedWithHours: 'उत्पादन जमा हुआ! काम के घंटे: {hours}',
+    submitted: 'उत्पादन जमा हुआ!',
+    submittedData: 'उत्पादन की जानकारी जमा हुई',
+    submitFailed: 'उत्पादन जमा नहीं हो सका: {message}',
+    submitRetry: 'उत्पादन जमा नहीं हो सका। कृपया फिर से कोशिश करें।',
+    startInvalidResponse: 'काम की एंट्री शुरू नहीं हो सकी। सर्वर से गलत जवाब मिला।',
+    startRetry: 'काम की एंट्री शुरू नहीं हो सकी। कृपया फिर से कोशिश करें।',
+    uiUpdateFailed: 'एंट्री जमा हुई पर स्क्रीन अपडेट नहीं हुई। रीफ़्रेश हो रहा है...',
+    selectAllToStart: 'कृपया उत्पाद, मशीन, शिफ़्ट चुनें और उत्पादित मात्रा डालें',
+    roleRequired: 'अनुमति नहीं है। कर्मचारी या सुपरवाइज़र भूमिका ज़रूरी है। मौजूदा भूमिका: {role}',
+    selectProcess_: 'कृपया प्रक्रिया चुनें।',
+    selectMachine_: 'कृपया मशीन चुनें।',
+    stageLocked: 'यह प्रक्रिया चरण लॉक है। कृपया सुपरवाइज़र के अनलॉक करने का इंतज़ार करें।',
+    noQuantityForStage: 'इस चरण के लिए कोई मात्रा उपलब्ध नहीं। कृपया पिछले चरण के पूरा होने का इंतज़ार करें।',
+    workStarted: 'काम शुरू हो गया! हाज़िरी अपने-आप लग गई।',
+    authFailed: 'पहचान नहीं हो सकी। कृपया फिर से लॉग इन करें।',
+    accessDenied: 'अनुमति नहीं है। कृपया अपने सुपरवाइज़र से संपर्क करें।',
+    validationFailed: 'जाँच विफल: {message}',
+    validationDetails: 'जाँच का विवरण: {details}',
+    startWorkFailed: 'काम शुरू नहीं हो सका: {message}',
+    startWorkRetry: 'काम शुरू नहीं हो सका। कृपया फिर से कोशिश करें।',
+    employeeRoleRequired: 'अनुमति नहीं है। कृपया जाँचें कि आपकी कर्मचारी भूमिका है और आप लॉग इन हैं।',
+    notAssignedToProcess: 'आपको इस प्रक्रिया पर नहीं लगाया गया है। कृपया अपने सुपरवाइज़र से संपर्क करें।',
+    processAccessDenied: 'इस प्रक्रिया की अनुमति नहीं है। कृपया अपने सुपरवाइज़र से संपर्क करें।',
+  },
+  roster: {
+    title: 'मेरा रोस्टर',
+    hint: 'अगले हफ़्ते की आपकी शिफ़्ट',
+    today: 'आज',
+    tomorrow: 'कल',
+    process: 'प्रक्रिया',
+  },
+  production: {
+    title: 'उत्पादन एंट्री',
+    subtitle: 'अपने उत्पादन की जानकारी डालें',
+    checkIn: 'चेक इन',
+    checkInHint: 'अपना उत्पादन सत्र शुरू करें',
+    checkedInAt: '{time} पर चेक इन हुआ',
+    details: 'उत्पादन विवरण',
+    detailsHint: 'उत्पादन की जानकारी भरें',
+    product: 'उत्पाद *',
+    selectProduct: 'उत्पाद चुनें',
+    order: 'उत्पादन ऑर्डर',
+    noOrder: 'कोई ऑर्डर नहीं',
+    orderOption: '{number} - {completed}/{quantity}, अंतिम तिथि {date}',
+    processStage: 'प्रक्रिया चरण *',
+    loadingStages: 'चरण लोड हो रहे हैं...',
+    selectStage: 'प्रक्रिया चरण चुनें',
+    stageOption: 'चरण {order}: {name}',
+    availableFromPrevious: 'पिछले चरण से उपलब्ध:',
+    unlimited: 'असीमित',
+    includesRework: {
+      one: 'इसमें इस चरण पर दोबारा काम के लिए लौटा {count} पीस शामिल है',
+      other: 'इसमें इस चरण पर दोबारा काम के लिए लौटे {count} पीस शामिल हैं',
+    },
+    calculating: 'गणना हो रही है...',
+    machine: 'मशीन *',
+    selectMachine: 'मशीन चुनें',
+    shift: 'शिफ़्ट *',
+    selectShift: 'शिफ़्ट चुनें',
+    achieved: 'उत्पादित मात्रा *',
+    rejected: 'अस्वीकृत मात्रा',
+    lotNumber: 'लॉट नंबर',
+    lotPlaceholder: 'नया लॉट शुरू करने के लिए खाली छोड़ें',
+    canRework: 'दोबारा काम हो सकता है',
+    sendReworkTo: 'दोबारा काम के लिए भेजें',
+    selectReworkStage: 'चरण चुनें',
+    scrapped: { one: '{count} स्क्रैप होगा', other: '{count} स्क्रैप होंगे' },
+    backForRework: { one: ', {count} दोबारा काम के लिए जाएगा', other: ', {count} दोबारा काम के लिए जाएँगे' },
+    photo: 'फ़ोटो *',
+    photoAlt: 'ली गई फ़ोटो',
+    removePhoto: 'फ़ोटो हटाएँ',
+    loadProductsFailed: 'उत्पाद लोड नहीं हो सके',
+    loadStagesFailed: 'प्रक्रिया चरण लोड नहीं हो सके',
+    loadMachinesFailed: 'मशीनें लोड नहीं हो सकीं',
+    loadShiftsFailed: 'शिफ़्ट लोड नहीं हो सकीं',
+    loadStatusFailed: 'प्रक्रिया की स्थिति लोड नहीं हो सकी',
+    offlineSynced: 'ऑफ़लाइन उत्पादन एंट्री सिंक हो गई',
+    offlineRejected: 'ऑफ़लाइन उत्पादन एंट्री अस्वीकार हुई: {message}',
+    seePendingEntries: 'बाकी एंट्री देखें',
+    checkInSuccess: 'चेक इन सफल रहा',
+    checkedInOffline: 'ऑफ़लाइन - इस डिवाइस पर चेक इन हुआ',
+    checkInFailed: 'चेक इन नहीं हो सका',
+    checkInFirst: 'कृपया पहले चेक इन करें',
+    invalidRejected: 'कृपया सही अस्वीकृत मात्रा डालें',
+    reworkOutOfRange: 'दोबारा काम की मात्रा 0 और अस्वीकृत मात्रा के बीच होनी चाहिए',
+    chooseReworkStage: 'कृपया वह चरण चुनें जहाँ दोबारा काम होगा',
+    assignLots: {
+      one: '{count} पीस को उसके लॉट में डालें',
+      other: 'सभी {count} पीस को उनके लॉट में डालें',
+    },
+    defectsLabel: 'ये क्यों अस्वीकृत हुए? *',
+    defectsAssigned: '{rejected} में से {assigned} दर्ज',
+    defectQuantity: '{label} की मात्रा',
+    splitDefects: 'सभी {rejected} अस्वीकृत पीस को दोष कोड में बाँटें ({assigned} दर्ज)',
+    lotsUsed: 'इस्तेमाल हुए लॉट *',
+    lotsAssigned: '{required} में से {assigned}',
+    oldestFirst: 'पहले पुराने',
+    lotRemaining: '{remaining} बाकी · {date}',
+    lotQuantity: 'लॉट {lot} से मात्रा',
+    photoRequired: 'कृपया फ़ोटो लें',
+    insufficientQuantity: 'पर्याप्त मात्रा उपलब्ध नहीं है। उपलब्ध: {available}, ज़रूरी: {required}',
+    savedOffline: 'इस डिवाइस पर सेव हुआ - कनेक्शन आने पर सिंक हो जाएगा',
+    submittedWithLot: 'उत्पादन एंट्री जमा हुई - लॉट {lot}',
+    submitted: 'उत्पादन एंट्री जमा हुई',
+    submitFailed: 'उत्पादन एंट्री जमा नहीं हो सकी',
+  },
+  attendance: {
+    title: 'हाज़िरी',
+    heading: 'हाज़िरी और काम का विवरण',
+    subtitle: 'अपनी हाज़िरी, काम के घंटे और प्रदर्शन देखें',
+    todayLoaded: 'आज की हाज़िरी लोड हो गई!',
+    todayLoadFailed: 'आज की हाज़िरी लोड नहीं हो सकी',
+    historyLoaded: { one: '{count} हाज़िरी रिकॉर्ड लोड हुआ', other: '{count} हाज़िरी रिकॉर्ड लोड हुए' },
+    historyLoadFailed: 'हाज़िरी का इतिहास लोड नहीं हो सका',
+    currentStatus: 'मौजूदा स्थिति - {date}',
+    statusAsOf: '{time} तक की स्थिति',
+    checkInAt: 'चेक इन: {time}',
+    noCheckInToday: 'आज कोई चेक इन नहीं',
+    totalHours: 'कुल घंटे',
+    achieved: 'उत्पादन',
+    workEntries: 'काम की एंट्री',
+    autoTitle: 'स्वचालित हाज़िरी',
+    autoHint: 'डैशबोर्ड से काम शुरू करते ही आपकी हाज़िरी अपने-आप लग जाती है',
+    autoInstructions: 'हाज़िरी लगाने के लिए डैशबोर्ड पर जाएँ और "काम शुरू करें और हाज़िरी लगाएँ" दबाएँ',
+    tabOverview: 'सारांश',
+    tabAttendance: 'हाज़िरी',
+    tabAttendanceShort: 'हाज़िरी',
+    tabLeave: 'छुट्टी',
+    todayEntries: 'आज की काम की एंट्री',
+    todayEntriesHint: 'आज की सभी एंट्री (कुल {count})',
+    entryNumber: 'काम की एंट्री #{number}',
+    machine: 'मशीन:',
+    target: 'लक्ष्य:',
+    started: 'शुरू:',
+    ended: 'खत्म:',
+    duration: 'अवधि:',
+    achievedLabel: 'उत्पादन:',
+    rejectedLabel: 'अस्वीकृत:',
+    noEntriesToday: 'आज कोई काम की एंट्री नहीं',
+    startFromDashboard: 'डैशबोर्ड से अपनी पहली एंट्री शुरू करें',
+    calendar: 'कैलेंडर',
+    calendarHint: 'अपनी हाज़िरी या छुट्टी देखने के लिए किसी दिन पर टैप करें',
+    history: 'हाज़िरी का इतिहास',
+    historyHint: 'काम के घंटों के साथ आपके हाज़िरी रिकॉर्ड',
+    weekly: 'साप्ताहिक',
+    monthly: 'मासिक',
+    loadingHistory: 'हाज़िरी का इतिहास लोड हो रहा है...',
+    date: 'तारीख',
+    day: 'दिन',
+    checkIn: 'चेक इन',
+    checkOut: 'चेक आउट',
+    workHours: 'काम के घंटे',
+    status: 'स्थिति',
+    missed: 'छूट गया',
+    onDuty: 'ड्यूटी पर',
+    regularized: 'सुधारा गया',
+    autoClosed: 'अपने-आप बंद',
+    correctionPending: 'सुधार लंबित',
+    fixCheckOut: 'चेक आउट ठीक करें',
+    noRecords: 'चुनी गई अवधि के लिए कोई हाज़िरी रिकॉर्ड नहीं मिला',
+    historyEmpty: 'आपकी हाज़िरी का इतिहास यहाँ दिखेगा',
+    onLeaveHalfDay: '{leave} - आधा दिन',
+    noRecord: 'कोई उपस्थिति रिकॉर्ड नहीं',
+  },
+  downtime: {
+    title: 'मशीन रुकावटें',
+    hint: 'मशीन रुकने पर बताएँ ताकि कम उत्पादन आपके खाते में न गिना जाए',
+    report: 'रुकावट बताएँ',
+    machineFallback: 'मशीन',
+    since: '{reason} · {time} से',
+    down: 'बंद',
+    runningAgain: 'फिर से चालू',
+    dialogTitle: 'मशीन रुकावट बताएँ',
+    dialogHint: 'अगर मशीन अभी बंद है तो "अभी भी बंद" पर निशान लगा रहने दें।',
+    machine: 'मशीन',
+    selectMachine: 'मशीन चुनें',
+    noReasons: 'कोई कारण सेट नहीं है',
+    selectReason: 'कारण चुनें',
+    stoppedAt: 'रुकने का समय',
+    stillStopped: 'अभी भी बंद',
+    runningAgainAt: 'फिर से चालू होने का समय',
+    notes: 'नोट (वैकल्पिक)',
+    selectMachineAndReason: 'मशीन और कारण चुनें',
+    endBeforeStart: 'खत्म होने का समय शुरू होने के बाद का होना चाहिए',
+    reported: 'रुकावट दर्ज की गई',
+    logged: 'रुकावट सेव की गई',
+    logFailed: 'रुकावट सेव नहीं हो सकी',
+    markedRunning: 'मशीन चालू दर्ज की गई',
+    endFailed: 'रुकावट खत्म नहीं की जा सकी',
+  },
+  sync: {
+    savedOnDevice: 'इस डिवाइस पर सेव',
+    uploadingWhenReachable: 'सर्वर मिलते ही अपलोड होगा',
+    uploadWhenOnline: 'कनेक्शन लौटने पर अपलोड होगा',
+    syncNow: 'अभी सिंक करें',
+    productFallback: 'उत्पाद',
+    summary: 'हासिल {achieved} · अस्वीकृत {rejected} · सेव {time}',
+    failed: 'सिंक विफल',
+    pending: 'सिंक बाकी',
+  },
+  leave: {
+    title: 'छुट्टी',
+    hint: 'मंज़ूर छुट्टी को अनुपस्थिति नहीं गिना जाता',
+    request: 'छुट्टी माँगें',
+    left: '{allowance} में से बाकी',
+    leftWithPending: '{allowance} में से बाकी · {pending} लंबित',
+    days: { one: '{count} दिन', other: '{count} दिन' },
+    note: 'नोट: {note}',
+    empty: 'अभी तक कोई छुट्टी नहीं माँगी गई',
+    dialogHint: 'आपका सुपरवाइज़र अनुरोध मंज़ूर या अस्वीकार करेगा।',
+    type: 'छुट्टी का प्रकार',
+    selectType: 'छुट्टी का प्रकार चुनें',
+    daysLeft: 'इस साल {allowance} में से {remaining} दिन बाकी',
+    from: 'से',
+    to: 'तक',
+    halfDayOnly: 'सिर्फ़ आधा दिन',
+    reasonPlaceholder: 'जैसे बुखार, पारिवारिक कार्यक्रम',
+    daysRequested: { one: '{count} दिन माँगा गया', other: '{count} दिन माँगे गए' },
+    submit: 'अनुरोध भेजें',
+    selectTypeFirst: 'छुट्टी का प्रकार चुनें',
+    endBeforeStart: 'आखिरी तारीख शुरू की तारीख या उसके बाद की होनी चाहिए',
+    reasonRequired: 'छुट्टी का कारण बताएँ',
+    requested: 'छुट्टी माँगी गई - आपका सुपरवाइज़र इसे देखेगा',
+    requestFailed: 'छुट्टी नहीं माँगी जा सकी',
+    cancelled: 'छुट्टी का अनुरोध रद्द किया गया',
+    cancelFailed: 'छुट्टी का अनुरोध रद्द नहीं हो सका',
+    status: { pending: 'लंबित', approved: 'मंज़ूर', declined: 'अस्वीकृत', cancelled: 'रद्द' },
+  },
+  regularization: {
+    title: 'चेक-आउट ठीक करें',
+    hint: 'सुपरवाइज़र की मंज़ूरी के बाद आपके घंटे अपडेट होंगे।',
+    hintWithCheckIn: '{time} पर चेक-इन किया। सुपरवाइज़र की मंज़ूरी के बाद आपके घंटे अपडेट होंगे।',
+    whenLeft: 'आप कब निकले?',
+    reasonPlaceholder: 'जैसे शिफ्ट के अंत में फ़ोन की बैटरी खत्म हो गई',
+    enterTime: 'निकलने का समय डालें',
+    beforeCheckIn: 'चेक-आउट आपके चेक-इन के बाद का होना चाहिए',
+    inFuture: 'चेक-आउट भविष्य में नहीं हो सकता',
+    reasonRequired: 'बताएँ कि चेक-आउट क्यों छूटा',
+    sent: 'सुधार आपके सुपरवाइज़र को भेजा गया',
+    failed: 'सुधार नहीं भेजा जा सका',
+  },
+  simple: {
+    checkIn: 'चेक इन करें',
+    ok: 'ठीक है',
+    clear: 'मिटाएँ',
+    back: 'वापस',
+    retake: 'फिर से लें',
+    send: 'भेजें',
+    sending: 'भेज रहे हैं...',
+    another: 'अगली एंट्री',
+    voiceOn: 'आवाज़ चालू करें',
+    voiceOff: 'आवाज़ बंद करें',
+    noProducts: 'अभी कोई उत्पाद नहीं है। अपने सुपरवाइज़र से पूछें।',
+    noProcesses: 'इस उत्पाद का कोई काम नहीं है। अपने सुपरवाइज़र से पूछें।',
+    noMachines: 'अभी कोई मशीन नहीं जोड़ी गई। अपने सुपरवाइज़र से पूछें।',
+    pieces: { one: '{count} पीस', other: '{count} पीस' },
+    checkedInAt: '{time} पर चेक इन किया',
+    prompts: {
+      checkIn: 'चेक इन करने के लिए बड़ा बटन दबाएँ',
+      pickJobFirst: 'चेक इन के लिए अपना उत्पाद, फिर अपना काम दबाएँ',
+      product: 'जो उत्पाद बना रहे हैं, उसे दबाएँ',
+      process: 'जो काम कर रहे हैं, उसे दबाएँ',
+      machine: 'जिस मशीन पर काम कर रहे हैं, उसे दबाएँ',
+      count: 'कितने पीस बनाए, वह लिखें, फिर सही का निशान दबाएँ',
+      photo: 'अपने काम की फ़ोटो लें',
+      review: 'जाँच लें, फिर भेजें दबाएँ',
+      done: 'भेज दिया। शाबाश!',
+    },
+  },
+};
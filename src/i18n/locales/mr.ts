@@ -0,0 +1,428 @@
+import type { Messages } from './en';
+
+export const mr: Messages = {
+  common: {
+    present: 'हजर',
+    absent: 'गैरहजर',
+    halfDay: 'अर्धा दिवस',
+    onLeave: 'रजेवर',
+    onLeaveWithType: 'रजेवर ({type})',
+    notMarked: 'नोंद नाही',
+    unknown: 'अज्ञात',
+    none: 'काहीही नाही',
+    notAvailable: 'उपलब्ध नाही',
+    unknownError: 'अज्ञात त्रुटी',
+    checkIn: 'चेक इन करा',
+    checkingIn: 'चेक इन होत आहे...',
+    capturePhoto: 'फोटो काढा',
+    submitProduction: 'उत्पादन जमा करा',
+    submitting: 'जमा होत आहे...',
+    refreshing: 'रिफ्रेश होत आहे...',
+    completed: 'पूर्ण',
+    inProgress: 'सुरू आहे',
+    goToDashboard: 'डॅशबोर्डवर जा',
+    units: { one: '{count} युनिट', other: '{count} युनिट' },
+    entries: { one: '{count} नोंद', other: '{count} नोंदी' },
+    cancel: 'रद्द करा',
+    save: 'सेव्ह करा',
+    submit: 'पाठवा',
+    reason: 'कारण',
+  },
+  errors: {
+    userNotFound: 'वापरकर्ता सापडला नाही. कृपया पुन्हा लॉग इन करा.',
+    userIdNotFound: 'वापरकर्ता आयडी सापडला नाही. कृपया पुन्हा लॉग इन करा.',
+    fillRequired: 'कृपया सर्व आवश्यक माहिती भरा',
+    invalidAchieved: 'कृपया योग्य उत्पादित संख्या टाका',
+    machineNotFound: 'निवडलेले मशीन सापडले नाही',
+  },
+  scan: {
+    notALabel: 'हे उत्पादन, प्रक्रिया किंवा मशीनचे लेबल नाही',
+    productUnavailable: 'हे उत्पादन तुमच्या कारखान्यात उपलब्ध नाही',
+    productScanned: 'उत्पादन: {name}',
+    scanProductFirst: 'आधी उत्पादन निवडा किंवा स्कॅन करा',
+    processNotInProduct: 'ही प्रक्रिया निवडलेल्या उत्पादनाचा भाग नाही',
+    processNotAStage: 'ही प्रक्रिया निवडलेल्या उत्पादनाचा टप्पा नाही',
+    processScanned: 'प्रक्रिया: {name}',
+    machineUnavailable: 'हे मशीन तुमच्या कारखान्यात उपलब्ध नाही',
+    machineScanned: 'मशीन: {name}',
+    button: 'लेबल स्कॅन करा',
+    hint: 'निवडण्यासाठी उत्पादन, प्रक्रिया किंवा मशीनवरील QR कोड स्कॅन करा.',
+  },
+  language: {
+    title: 'भाषा',
+    description: 'तुमच्या स्क्रीनची भाषा निवडा',
+    label: 'भाषा',
+    saved: 'भाषा बदलली',
+    saveFailed: 'भाषा बदलता आली नाही',
+  },
+  dashboard: {
+    initializing: 'सुरू होत आहे...',
+    restoringSession: 'कृपया थांबा, तुमचे सत्र परत आणले जात आहे',
+    loading: 'डॅशबोर्ड लोड होत आहे...',
+    loadingData: 'कृपया थांबा, तुमची माहिती लोड होत आहे',
+    title: 'कर्मचारी डॅशबोर्ड',
+    welcome: 'पुन्हा स्वागत आहे, {name}!',
+    checkInBadge: 'चेक इन: {time}',
+    timeNotAvailable: 'वेळ उपलब्ध नाही',
+    todaySummary: 'आजचा सारांश',
+    status: 'स्थिती:',
+    checkInTime: 'चेक इन वेळ:',
+    checkOutTime: 'चेक आउट वेळ:',
+    totalWorkHours: 'एकूण कामाचे तास:',
+    workEntries: 'कामाच्या नोंदी:',
+    entriesToday: 'आज {count}',
+    productsUsed: 'वापरलेली उत्पादने:',
+    machinesUsed: 'वापरलेली मशीन:',
+    totalAchieved: 'एकूण उत्पादन:',
+    totalRejected: 'एकूण नाकारलेले:',
+    machineBreakdown: 'मशीननुसार:',
+    processBreakdown: 'प्रक्रियेनुसार:',
+    achievedCount: 'उत्पादन: {count}',
+    rejectedCount: 'नाकारलेले: {count}',
+    noWorkToday: 'आज कोणतेही काम सुरू झाले नाही',
+    startFirstEntry: 'वरून तुमची पहिली नोंद सुरू करा',
+    connectionError: '⚠️ कनेक्शन त्रुटी',
+    cannotConnect: 'सर्व्हरशी जोडता आले नाही. कृपया बॅकएंड सर्व्हर सुरू आहे का ते तपासा.',
+    backendApi: 'बॅकएंड API: {url}',
+    notConfigured: 'सेट केलेले नाही',
+    machineMissingTitle: '⚠️ मशीन सापडले नाही',
+    selectedMachineId: 'निवडलेला मशीन आयडी: {id}',
+    availableMachineIds: 'उपलब्ध मशीन आयडी: {ids}',
+    reselectMachine: 'कृपया यादीतून मशीन पुन्हा निवडा.',
+    attendance: 'हजेरी',
+    attendanceByGps: 'तुमच्या लोकेशनवरून हजेरी लावा',
+    attendanceByQr: 'गेटवरील QR कोड स्कॅन करून हजेरी लावा',
+    attendanceByGpsAndQr: 'तुमचे लोकेशन आणि गेटवरील QR कोड वापरून हजेरी लावा',
+    checkedIn: 'चेक इन झाले',
+    checkedInTime: 'वेळ: {time}',
+    checkedInZone: 'क्षेत्र: {zone}',
+    submitToCheckOut: '💡 उत्पादन जमा केल्यावर आपोआप चेक आउट होईल',
+    productionEntry: 'उत्पादन नोंद',
+    productionEntryHint: 'तुमची उत्पादित आणि नाकारलेली संख्या टाका',
+    selectProduct: 'उत्पादन निवडा',
+    chooseProduct: 'उत्पादन निवडा',
+    noProducts: 'कोणतेही उत्पादन उपलब्ध नाही',
+    selectProcess: 'प्रक्रिया निवडा',
+    chooseProcess: 'प्रक्रिया निवडा',
+    selectProductFirst: 'आधी उत्पादन निवडा',
+    noProcessesForProduct: 'या उत्पादनासाठी कोणतीही प्रक्रिया उपलब्ध नाही',
+    selectAProductFirst: 'आधी एखादे उत्पादन निवडा',
+    selectMachine: 'मशीन निवडा',
+    chooseMachine: 'मशीन निवडा',
+    noMachines: 'कोणतेही मशीन उपलब्ध नाही',
+    selectShift: 'शिफ्ट निवडा',
+    chooseShift: 'शिफ्ट निवडा',
+    noShifts: 'कोणतीही शिफ्ट उपलब्ध नाही',
+    processStatus: 'प्रक्रियेची स्थिती',
+    available: 'उपलब्ध:',
+    remainingFromPrevious: 'मागील टप्प्यातून उरलेले',
+    stageLockedNotice: '⚠️ हा प्रक्रिया टप्पा लॉक आहे. सुपरवायझर अनलॉक करेपर्यंत काम सुरू करता येणार नाही.',
+    achievedQuantity: 'उत्पादित संख्या',
+    enterAchieved: 'उत्पादित संख्या टाका',
+    rejectedQuantity: 'नाकारलेली संख्या',
+    enterRejected: 'नाकारलेली संख्या टाका',
+    photoOptional: 'उत्पादन फोटो (ऐच्छिक)',
+    photoAlt: 'काढलेला उत्पादन फोटो',
+    retakePhoto: 'फोटो पुन्हा काढा',
+    scanGateCode: 'गेट कोड स्कॅन करा',
+    scanGateCodeHint: 'कारखान्याच्या गेटवरील स्क्रीनवर दिसणारा चेक इन QR कोड स्कॅन करा.',
+    unknownProduct: 'अज्ञात उत्पादन',
+    unknownProcess: 'अज्ञात प्रक्रिया',
+    unknownMachine: 'अज्ञात मशीन',
+    unknownMachineWithId: 'अज्ञात मशीन (आयडी: {id})',
+    notSelected: 'निवडलेले नाही',
+    selectProcessAndShift: 'चेक इन करण्यापूर्वी कृपया प्रक्रिया आणि शिफ्ट निवडा',
+    selectProcessBeforeCheckIn: 'चेक इन करण्यापूर्वी कृपया प्रक्रिया निवडा',
+    selectShiftBeforeCheckIn: 'चेक इन करण्यापूर्वी कृपया शिफ्ट निवडा',
+    invalidLocation: 'लोकेशन योग्य नाही. कृपया लोकेशन सेवा चालू करा.',
+    invalidShift: 'शिफ्ट योग्य नाही. कृपया योग्य शिफ्ट निवडा.',
+    invalidUserId: 'वापरकर्ता आयडी योग्य नाही. कृपया पुन्हा लॉग इन करा.',
+    invalidProcessId: 'प्रक्रिया योग्य नाही. कृपया प्रक्रिया निवडा.',
+    invalidCheckIn: 'चेक इनची माहिती योग्य नाही. कृपया पुन्हा प्रयत्न करा.',
+    checkInUnderReview: 'चेक इन झाले - तुमचे लोकेशन वेगळे वाटले, म्हणून सुपरवायझर हे तपासतील',
+    checkInSuccess: 'चेक इन यशस्वी',
+    checkInFailed: 'चेक इन करता आले नाही',
+    serverError: 'सर्व्हर त्रुटी: {message}. कृपया मदतीसाठी संपर्क करा.',
+    validationError: 'तपासणी त्रुटी: {message}',
+    photoCaptured: 'फोटो काढला!',
+    photoRequired: 'उत्पादन जमा करण्यापूर्वी कृपया फोटो काढा',
+    insufficientQuantity: 'पुरेशी संख्या उपलब्ध नाही. उपलब्ध: {available}, आवश्यक: {required}',
+    willLockStage: 'यामुळे सर्व उपलब्ध संख्या वापरली जाईल आणि टप्पा लॉक होईल. नंतर उरलेले: {remaining}',
+    savedOffline: 'कनेक्शन नाही - उत्पादन या डिव्हाइसवर जतन झाले आणि आपोआप सिंक होईल',
+    saveOfflineFailed: 'या डिव्हाइसवर उत्पादन जतन करता आले नाही',
+    queuedRejected: 'जतन केलेले उत्पादन नाकारले गेले: {message}',
+    invalidSubmitResponse: 'उत्पादन जमा करता आले नाही: सर्व्हरकडून चुकीचे उत्तर आले',
+    submittedAndCheckedOut: 'उत्पादन जमा झाले आणि चेक आउट झाले! कामाचे तास: {hours}',
+    submittedAlreadyCheckedOut: 'उत्पादन जमा झाले! कामाचे तास: {hours} (आधीच चेक आउट झाले आहे)',
+    submittedCheckOutFailed: 'उत्पादन जमा झाले, पण चेक आउट झाले नाही: {message}',
+    submittedWithHours: 'उत्पादन जमा झाले! कामाचे तास: {hours}',
+    submitted: 'उत्पादन जमा झाले!',
+    submittedData: 'उत्पादनाची माहिती जमा झाली',
+    submitFailed: 'उत्पादन जमा करता आले नाही: {message}',
+    submitRetry: 'उत्पादन जमा करता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+    startInvalidResponse: 'कामाची नोंद सुरू करता आली नाही. सर्व्हरकडून चुकीचे उत्तर आले.',
+    startRetry: 'कामाची नोंद सुरू करता आली नाही. कृपया पुन्हा प्रयत्न करा.',
+    uiUpdateFailed: 'नोंद जमा झाली पण स्क्रीन अपडेट झाली नाही. रिफ्रेश होत आहे...',
+    selectAllToStart: 'कृपया उत्पादन, मशीन, शिफ्ट निवडा आणि उत्पादित संख्या टाका',
+    roleRequired: 'परवानगी नाही. कर्मचारी किंवा सुपरवायझर भूमिका आवश्यक आहे. सध्याची भूमिका: {role}',
+    selectProcess_: 'कृपया प्रक्रिया निवडा.',
+    selectMachine_: 'कृपया मशीन निवडा.',
+    stageLocked: 'हा प्रक्रिया टप्पा लॉक आहे. कृपया सुपरवायझर अनलॉक करेपर्यंत थांबा.',
+    noQuantityForStage: 'या टप्प्यासाठी कोणतीही संख्या उपलब्ध नाही. कृपया मागील टप्पा पूर्ण होईपर्यंत थांबा.',
+    workStarted: 'काम सुरू झाले! हजेरी आपोआप लागली.',
+    authFailed: 'ओळख पटली नाही. कृपया पुन्हा लॉग इन करा.',
+    accessDenied: 'परवानगी नाही. कृपया तुमच्या सुपरवायझरशी संपर्क करा.',
+    validationFailed: 'तपासणी अयशस्वी: {message}',
+    validationDetails: 'तपासणीचा तपशील: {details}',
+    startWorkFailed: 'काम सुरू करता आले नाही: {message}',
+    startWorkRetry: 'काम सुरू करता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+    employeeRoleRequired: 'परवानगी नाही. तुमची कर्मचारी भूमिका आहे आणि तुम्ही लॉग इन आहात का ते तपासा.',
+    notAssignedToProcess: 'तुम्हाला या प्रक्रियेवर नेमलेले नाही. कृपया तुमच्या सुपरवायझरशी संपर्क करा.',
+    processAccessDenied: 'या प्रक्रियेची परवानगी नाही. कृपया तुमच्या सुपरवायझरशी संपर्क करा.',
+  },
+  roster: {
+    title: 'माझे रोस्टर',
+    hint: 'पुढील आठवड्यातील तुमच्या शिफ्ट',
+    today: 'आज',
+    tomorrow: 'उद्या',
+    process: 'प्रक्रिया',
+  },
+  production: {
+    title: 'उत्पादन नोंद',
+    subtitle: 'तुमच्या उत्पादनाची माहिती टाका',
+    checkIn: 'चेक इन',
+    checkInHint: 'तुमचे उत्पादन सत्र सुरू करा',
+    checkedInAt: '{time} वाजता चेक इन झाले',
+    details: 'उत्पादन तपशील',
+    detailsHint: 'उत्पादनाची माहिती भरा',
+    product: 'उत्पादन *',
+    selectProduct: 'उत्पादन निवडा',
+    order: 'उत्पादन ऑर्डर',
+    noOrder: 'ऑर्डर नाही',
+    orderOption: '{number} - {completed}/{quantity}, अंतिम तारीख {date}',
+    processStage: 'प्रक्रिया टप्पा *',
+    loadingStages: 'टप्पे लोड होत आहेत...',
+    selectStage: 'प्रक्रिया टप्पा निवडा',
+    stageOption: 'टप्पा {order}: {name}',
+    availableFromPrevious: 'मागील टप्प्यातून उपलब्ध:',
+    unlimited: 'अमर्यादित',
+    includesRework: {
+      one: 'यात या टप्प्यावर पुन्हा कामासाठी परत आलेला {count} नग आहे',
+      other: 'यात या टप्प्यावर पुन्हा कामासाठी परत आलेले {count} नग आहेत',
+    },
+    calculating: 'मोजणी होत आहे...',
+    machine: 'मशीन *',
+    selectMachine: 'मशीन निवडा',
+    shift: 'शिफ्ट *',
+    selectShift: 'शिफ्ट निवडा',
+    achieved: 'उत्पादित संख्या *',
+    rejected: 'नाकारलेली संख्या',
+    lotNumber: 'लॉट नंबर',
+    lotPlaceholder: 'नवीन लॉट सुरू करण्यासाठी रिकामे ठेवा',
+    canRework: 'पुन्हा काम करता येईल',
+    sendReworkTo: 'पुन्हा कामासाठी पाठवा',
+    selectReworkStage: 'टप्पा निवडा',
+    scrapped: { one: '{count} भंगारात जाईल', other: '{count} भंगारात जातील' },
+    backForRework: { one: ', {count} पुन्हा कामासाठी जाईल', other: ', {count} पुन्हा कामासाठी जातील' },
+    photo: 'फोटो *',
+    photoAlt: 'काढलेला फोटो',
+    removePhoto: 'फोटो काढून टाका',
+    loadProductsFailed: 'उत्पादने लोड करता आली नाहीत',
+    loadStagesFailed: 'प्रक्रिया टप्पे लोड करता आले नाहीत',
+    loadMachinesFailed: 'मशीन लोड करता आल्या नाहीत',
+    loadShiftsFailed: 'शिफ्ट लोड करता आल्या नाहीत',
+    loadStatusFailed: 'प्रक्रियेची स्थिती लोड करता आली नाही',
+    offlineSynced: 'ऑफलाइन उत्पादन नोंद सिंक झाली',
+    offlineRejected: 'ऑफलाइन उत्पादन नोंद नाकारली गेली: {message}',
+    seePendingEntries: 'बाकी नोंदी पहा',
+    checkInSuccess: 'चेक इन यशस्वी',
+    checkedInOffline: 'ऑफलाइन - या डिव्हाइसवर चेक इन झाले',
+    checkInFailed: 'चेक इन करता आले नाही',
+    checkInFirst: 'कृपया आधी चेक इन करा',
+    invalidRejected: 'कृपया योग्य नाकारलेली संख्या टाका',
+    reworkOutOfRange: 'पुन्हा कामाची संख्या 0 आणि नाकारलेल्या संख्येच्या दरम्यान असावी',
+    chooseReworkStage: 'कृपया पुन्हा काम कोणत्या टप्प्यावर होईल तो निवडा',
+    assignLots: {
+      one: '{count} नग त्याच्या लॉटमध्ये टाका',
+      other: 'सर्व {count} नग त्यांच्या लॉटमध्ये टाका',
+    },
+    defectsLabel: 'हे का नाकारले? *',
+    defectsAssigned: '{rejected} पैकी {assigned} नोंदवले',
+    defectQuantity: '{label} संख्या',
+    splitDefects: 'सर्व {rejected} नाकारलेले नग दोष कोडमध्ये विभागा ({assigned} नोंदवले)',
+    lotsUsed: 'वापरलेले लॉट *',
+    lotsAssigned: '{required} पैकी {assigned}',
+    oldestFirst: 'जुने आधी',
+    lotRemaining: '{remaining} शिल्लक · {date}',
+    lotQuantity: 'लॉट {lot} मधील संख्या',
+    photoRequired: 'कृपया फोटो काढा',
+    insufficientQuantity: 'पुरेशी संख्या उपलब्ध नाही. उपलब्ध: {available}, आवश्यक: {required}',
+    savedOffline: 'या डिव्हाइसवर जतन झाले - कनेक्शन आल्यावर सिंक होईल',
+    submittedWithLot: 'उत्पादन नोंद जमा झाली - लॉट {lot}',
+    submitted: 'उत्पादन नोंद जमा झाली',
+    submitFailed: 'उत्पादन नोंद जमा करता आली नाही',
+  },
+  attendance: {
+    title: 'हजेरी',
+    heading: 'हजेरी आणि कामाचा आढावा',
+    subtitle: 'तुमची हजेरी, कामाचे तास आणि कामगिरी पहा',
+    todayLoaded: 'आजची हजेरी लोड झाली!',
+    todayLoadFailed: 'आजची हजेरी लोड करता आली नाही',
+    historyLoaded: { one: '{count} हजेरी नोंद लोड झाली', other: '{count} हजेरी नोंदी लोड झाल्या' },
+    historyLoadFailed: 'हजेरीचा इतिहास लोड करता आला नाही',
+    currentStatus: 'सध्याची स्थिती - {date}',
+    statusAsOf: '{time} पर्यंतची स्थिती',
+    checkInAt: 'चेक इन: {time}',
+    noCheckInToday: 'आज चेक इन नाही',
+    totalHours: 'एकूण तास',
+    achieved: 'उत्पादन',
+    workEntries: 'कामाच्या नोंदी',
+    autoTitle: 'स्वयंचलित हजेरी',
+    autoHint: 'डॅशबोर्डवरून काम सुरू करताच तुमची हजेरी आपोआप लागते',
+    autoInstructions: 'हजेरी लावण्यासाठी डॅशबोर्डवर जा आणि "काम सुरू करा आणि हजेरी लावा" दाबा',
+    tabOverview: 'आढावा',
+    tabAttendance: 'हजेरी',
+    tabAttendanceShort: 'हजेरी',
+    tabLeave: 'रजा',
+    todayEntries: 'आजच्या कामाच्या नोंदी',
+    todayEntriesHint: 'आजच्या सर्व नोंदी (एकूण {count})',
+    entryNumber: 'कामाची नोंद #{number}',
+    machine: 'मशीन:',
+    target: 'लक्ष्य:',
+    started: 'सुरुवात:',
+    ended: 'शेवट:',
+    duration: 'कालावधी:',
+    achievedLabel: 'उत्पादन:',
+    rejectedLabel: 'नाकारलेले:',
+    noEntriesToday: 'आज कामाची कोणतीही नोंद नाही',
+    startFromDashboard: 'डॅशबोर्डवरून तुमची पहिली नोंद सुरू करा',
+    calendar: 'दिनदर्शिका',
+    calendarHint: 'तुमची हजेरी किंवा रजा पाहण्यासाठी एखाद्या दिवसावर टॅप करा',
+    history: 'हजेरीचा इतिहास',
+    historyHint: 'कामाच्या तासांसह तुमच्या हजेरी नोंदी',
+    weekly: 'साप्ताहिक',
+    monthly: 'मासिक',
+    loadingHistory: 'हजेरीचा इतिहास लोड होत आहे...',
+    date: 'तारीख',
+    day: 'वार',
+    checkIn: 'चेक इन',
+    checkOut: 'चेक आउट',
+    workHours: 'कामाचे तास',
+    status: 'स्थिती',
+    missed: 'चुकले',
+    onDuty: 'कामावर',
+    regularized: 'दुरुस्त केले',
+    autoClosed: 'आपोआप बंद',
+    correctionPending: 'दुरुस्ती प्रलंबित',
+    fixCheckOut: 'चेक आउट दुरुस्त करा',
+    noRecords: 'निवडलेल्या कालावधीसाठी हजेरीची नोंद सापडली नाही',
+    historyEmpty: 'तुमचा हजेरीचा इतिहास इथे दिसेल',
+    onLeaveHalfDay: '{leave} - अर्धा दिवस',
+    noRecord: 'हजेरीची नोंद नाही',
+  },
+  downtime: {
+    title: 'मशीन थांबणे',
+    hint: 'मशीन थांबल्यावर कळवा म्हणजे कमी उत्पादन तुमच्या नावावर मोजले जाणार नाही',
+    report: 'थांबणे कळवा',
+    machineFallback: 'मशीन',
+    since: '{reason} · {time} पासून',
+    down: 'बंद',
+    runningAgain: 'पुन्हा चालू',
+    dialogTitle: 'मशीन थांबल्याचे कळवा',
+    dialogHint: 'मशीन आत्ता बंद असेल तर "अजून बंद" वर खूण तशीच ठेवा.',
+    machine: 'मशीन',
+    selectMachine: 'मशीन निवडा',
+    noReasons: 'कोणतीही कारणे सेट केलेली नाहीत',
+    selectReason: 'कारण निवडा',
+    stoppedAt: 'थांबल्याची वेळ',
+    stillStopped: 'अजून बंद',
+    runningAgainAt: 'पुन्हा चालू झाल्याची वेळ',
+    notes: 'टीप (ऐच्छिक)',
+    selectMachineAndReason: 'मशीन आणि कारण निवडा',
+    endBeforeStart: 'संपण्याची वेळ सुरू होण्याच्या वेळेनंतरची असावी',
+    reported: 'थांबणे कळवले',
+    logged: 'थांबणे नोंदवले',
+    logFailed: 'थांबणे नोंदवता आले नाही',
+    markedRunning: 'मशीन चालू म्हणून नोंदवली',
+    endFailed: 'थांबणे संपवता आले नाही',
+  },
+  sync: {
+    savedOnDevice: 'या डिव्हाइसवर सेव्ह केले',
+    uploadingWhenReachable: 'सर्व्हर मिळताच अपलोड होईल',
+    uploadWhenOnline: 'कनेक्शन परत आल्यावर अपलोड होईल',
+    syncNow: 'आत्ता सिंक करा',
+    productFallback: 'उत्पादन',
+    summary: 'साध्य {achieved} · नाकारले {rejected} · सेव्ह {time}',
+    failed: 'सिंक अयशस्वी',
+    pending: 'सिंक बाकी',
+  },
+  leave: {
+    title: 'रजा',
+    hint: 'मंजूर रजा गैरहजेरी म्हणून मोजली जात नाही',
+    request: 'रजा मागा',
+    left: '{allowance} पैकी शिल्लक',
+    leftWithPending: '{allowance} पैकी शिल्लक · {pending} प्रलंबित',
+    days: { one: '{count} दिवस', other: '{count} दिवस' },
+    note: 'टीप: {note}',
+    empty: 'अजून रजा मागितलेली नाही',
+    dialogHint: 'तुमचा सुपरवायझर विनंती मंजूर किंवा नामंजूर करेल.',
+    type: 'रजेचा प्रकार',
+    selectType: 'रजेचा प्रकार निवडा',
+    daysLeft: 'या वर्षी {allowance} पैकी {remaining} दिवस शिल्लक',
+    from: 'पासून',
+    to: 'पर्यंत',
+    halfDayOnly: 'फक्त अर्धा दिवस',
+    reasonPlaceholder: 'उदा. ताप, कौटुंबिक कार्यक्रम',
+    daysRequested: { one: '{count} दिवस मागितला', other: '{count} दिवस मागितले' },
+    submit: 'विनंती पाठवा',
+    selectTypeFirst: 'रजेचा प्रकार निवडा',
+    endBeforeStart: 'शेवटची तारीख सुरुवातीच्या तारखेला किंवा नंतरची असावी',
+    reasonRequired: 'रजेचे कारण सांगा',
+    requested: 'रजा मागितली - तुमचा सुपरवायझर ती पाहील',
+    requestFailed: 'रजा मागता आली नाही',
+    cancelled: 'रजेची विनंती रद्द केली',
+    cancelFailed: 'रजेची विनंती रद्द करता आली नाही',
+    status: { pending: 'प्रलंबित', approved: 'मंजूर', declined: 'नामंजूर', cancelled: 'रद्द' },
+  },
+  regularization: {
+    title: 'चेक-आउट दुरुस्त करा',
+    hint: 'सुपरवायझरने मंजूर केल्यावर तुमचे तास अपडेट होतील.',
+    hintWithCheckIn: '{time} ला चेक-इन केले. सुपरवायझरने मंजूर केल्यावर तुमचे तास अपडेट होतील.',
+    whenLeft: 'तुम्ही कधी निघालात?',
+    reasonPlaceholder: 'उदा. शिफ्टच्या शेवटी फोनची बॅटरी संपली',
+    enterTime: 'तुम्ही निघाल्याची वेळ टाका',
+    beforeCheckIn: 'चेक-आउट तुमच्या चेक-इननंतरचा असावा',
+    inFuture: 'चेक-आउट भविष्यातील असू शकत नाही',
+    reasonRequired: 'चेक-आउट का चुकला ते सांगा',
+    sent: 'दुरुस्ती तुमच्या सुपरवायझरला पाठवली',
+    failed: 'दुरुस्ती पाठवता आली नाही',
+  },
+  simple: {
+    checkIn: 'चेक इन करा',
+    ok: 'ठीक आहे',
+    clear: 'पुसा',
+    back: 'मागे',
+    retake: 'पुन्हा काढा',
+    send: 'पाठवा',
+    sending: 'पाठवत आहे...',
+    another: 'पुढची नोंद',
+    voiceOn: 'आवाज चालू करा',
+    voiceOff: 'आवाज बंद करा',
+    noProducts: 'अजून कोणतेही उत्पादन नाही. तुमच्या सुपरवायझरला विचारा.',
+    noProcesses: 'या उत्पादनासाठी कोणतेही काम नाही. तुमच्या सुपरवायझरला विचारा.',
+    noMachines: 'अजून कोणतीही मशीन जोडलेली नाही. तुमच्या सुपरवायझरला विचारा.',
+    pieces: { one: '{count} नग', other: '{count} नग' },
+    checkedInAt: '{time} वाजता चेक इन केले',
+    prompts: {
+      checkIn: 'चेक इन करण्यासाठी मोठे बटण दाबा',
+      pickJobFirst: 'चेक इन करण्यासाठी तुमचे उत्पादन, मग तुमचे काम दाबा',
+      product: 'तुम्ही बनवत असलेले उत्पादन दाबा',
+      process: 'तुम्ही करत असलेले काम दाबा',
+      machine: 'तुम्ही ज्या मशीनवर काम करत आहात ती दाबा',
+      count: 'किती नग बनवले ते लिहा, मग बरोबरची खूण दाबा',
+      photo: 'तुमच्या कामाचा फोटो काढा',
+      review: 'तपासा, मग पाठवा दाबा',
+      done: 'पाठवले. शाब्बास!',
+    },
+  },
+};
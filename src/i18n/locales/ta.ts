@@ -0,0 +1,428 @@
+import type { Messages } from './en';
+
+export const ta: Messages = {
+  common: {
+    present: 'வருகை',
+    absent: 'வரவில்லை',
+    halfDay: 'அரை நாள்',
+    onLeave: 'விடுப்பில்',
+    onLeaveWithType: 'விடுப்பில் ({type})',
+    notMarked: 'பதிவு இல்லை',
+    unknown: 'தெரியவில்லை',
+    none: 'எதுவும் இல்லை',
+    notAvailable: 'இல்லை',
+    unknownError: 'தெரியாத பிழை',
+    checkIn: 'செக் இன் செய்',
+    checkingIn: 'செக் இன் ஆகிறது...',
+    capturePhoto: 'புகைப்படம் எடு',
+    submitProduction: 'உற்பத்தியைச் சமர்ப்பி',
+    submitting: 'சமர்ப்பிக்கப்படுகிறது...',
+    refreshing: 'புதுப்பிக்கப்படுகிறது...',
+    completed: 'முடிந்தது',
+    inProgress: 'நடைபெறுகிறது',
+    goToDashboard: 'டாஷ்போர்டுக்குச் செல்',
+    units: { one: '{count} அலகு', other: '{count} அலகுகள்' },
+    entries: { one: '{count} பதிவு', other: '{count} பதிவுகள்' },
+    cancel: 'ரத்து செய்',
+    save: 'சேமி',
+    submit: 'அனுப்பு',
+    reason: 'காரணம்',
+  },
+  errors: {
+    userNotFound: 'பயனர் கிடைக்கவில்லை. மீண்டும் உள்நுழையவும்.',
+    userIdNotFound: 'பயனர் ஐடி கிடைக்கவில்லை. மீண்டும் உள்நுழையவும்.',
+    fillRequired: 'தேவையான அனைத்து விவரங்களையும் நிரப்பவும்',
+    invalidAchieved: 'சரியான உற்பத்தி எண்ணிக்கையை உள்ளிடவும்',
+    machineNotFound: 'தேர்ந்தெடுத்த இயந்திரம் கிடைக்கவில்லை',
+  },
+  scan: {
+    notALabel: 'இது பொருள், செயல்முறை அல்லது இயந்திர லேபிள் அல்ல',
+    productUnavailable: 'இந்தப் பொருள் உங்கள் தொழிற்சாலையில் இல்லை',
+    productScanned: 'பொருள்: {name}',
+    scanProductFirst: 'முதலில் பொருளைத் தேர்ந்தெடுக்கவும் அல்லது ஸ்கேன் செய்யவும்',
+    processNotInProduct: 'இந்தச் செயல்முறை தேர்ந்தெடுத்த பொருளின் பகுதி அல்ல',
+    processNotAStage: 'இந்தச் செயல்முறை தேர்ந்தெடுத்த பொருளின் நிலை அல்ல',
+    processScanned: 'செயல்முறை: {name}',
+    machineUnavailable: 'இந்த இயந்திரம் உங்கள் தொழிற்சாலையில் இல்லை',
+    machineScanned: 'இயந்திரம்: {name}',
+    button: 'லேபிளை ஸ்கேன் செய்',
+    hint: 'தேர்ந்தெடுக்க பொருள், செயல்முறை அல்லது இயந்திரத்தில் உள்ள QR குறியீட்டை ஸ்கேன் செய்யுங்கள்.',
+  },
+  language: {
+    title: 'மொழி',
+    description: 'உங்கள் திரைகள் காட்டப்படும் மொழியைத் தேர்ந்தெடுக்கவும்',
+    label: 'மொழி',
+    saved: 'மொழி மாற்றப்பட்டது',
+    saveFailed: 'மொழியை மாற்ற முடியவில்லை',
+  },
+  dashboard: {
+    initializing: 'தொடங்குகிறது...',
+    restoringSession: 'காத்திருக்கவும், உங்கள் அமர்வு மீட்டெடுக்கப்படுகிறது',
+    loading: 'டாஷ்போர்டு ஏற்றப்படுகிறது...',
+    loadingData: 'காத்திருக்கவும், உங்கள் தரவு ஏற்றப்படுகிறது',
+    title: 'பணியாளர் டாஷ்போர்டு',
+    welcome: 'மீண்டும் வருக, {name}!',
+    checkInBadge: 'செக் இன்: {time}',
+    timeNotAvailable: 'நேரம் கிடைக்கவில்லை',
+    todaySummary: 'இன்றைய சுருக்கம்',
+    status: 'நிலை:',
+    checkInTime: 'செக் இன் நேரம்:',
+    checkOutTime: 'செக் அவுட் நேரம்:',
+    totalWorkHours: 'மொத்த வேலை நேரம்:',
+    workEntries: 'வேலைப் பதிவுகள்:',
+    entriesToday: 'இன்று {count}',
+    productsUsed: 'பயன்படுத்திய பொருட்கள்:',
+    machinesUsed: 'பயன்படுத்திய இயந்திரங்கள்:',
+    totalAchieved: 'மொத்த உற்பத்தி:',
+    totalRejected: 'மொத்த நிராகரிப்பு:',
+    machineBreakdown: 'இயந்திர வாரியாக:',
+    processBreakdown: 'செயல்முறை வாரியாக:',
+    achievedCount: 'உற்பத்தி: {count}',
+    rejectedCount: 'நிராகரிப்பு: {count}',
+    noWorkToday: 'இன்று எந்த வேலையும் தொடங்கவில்லை',
+    startFirstEntry: 'மேலே உங்கள் முதல் பதிவைத் தொடங்குங்கள்',
+    connectionError: '⚠️ இணைப்புப் பிழை',
+    cannotConnect: 'சர்வருடன் இணைக்க முடியவில்லை. பேக்எண்ட் சர்வர் இயங்குகிறதா எனச் சரிபார்க்கவும்.',
+    backendApi: 'பேக்எண்ட் API: {url}',
+    notConfigured: 'அமைக்கப்படவில்லை',
+    machineMissingTitle: '⚠️ இயந்திரம் கிடைக்கவில்லை',
+    selectedMachineId: 'தேர்ந்தெடுத்த இயந்திர ஐடி: {id}',
+    availableMachineIds: 'கிடைக்கும் இயந்திர ஐடிகள்: {ids}',
+    reselectMachine: 'பட்டியலிலிருந்து இயந்திரத்தை மீண்டும் தேர்ந்தெடுக்கவும்.',
+    attendance: 'வருகைப் பதிவு',
+    attendanceByGps: 'உங்கள் இருப்பிடத்தைக் கொண்டு வருகையைப் பதிவு செய்யுங்கள்',
+    attendanceByQr: 'வாயிலில் உள்ள QR குறியீட்டை ஸ்கேன் செய்து வருகையைப் பதிவு செய்யுங்கள்',
+    attendanceByGpsAndQr: 'உங்கள் இருப்பிடம் மற்றும் வாயில் QR குறியீட்டைக் கொண்டு வருகையைப் பதிவு செய்யுங்கள்',
+    checkedIn: 'செக் இன் ஆனது',
+    checkedInTime: 'நேரம்: {time}',
+    checkedInZone: 'பகுதி: {zone}',
+    submitToCheckOut: '💡 உற்பத்தியைச் சமர்ப்பித்தால் தானாகச் செக் அவுட் ஆகும்',
+    productionEntry: 'உற்பத்திப் பதிவு',
+    productionEntryHint: 'உங்கள் உற்பத்தி மற்றும் நிராகரிப்பு எண்ணிக்கையை உள்ளிடவும்',
+    selectProduct: 'பொருளைத் தேர்ந்தெடு',
+    chooseProduct: 'பொருளைத் தேர்ந்தெடு',
+    noProducts: 'பொருட்கள் எதுவும் இல்லை',
+    selectProcess: 'செயல்முறையைத் தேர்ந்தெடு',
+    chooseProcess: 'செயல்முறையைத் தேர்ந்தெடு',
+    selectProductFirst: 'முதலில் பொருளைத் தேர்ந்தெடு',
+    noProcessesForProduct: 'இந்தப் பொருளுக்குச் செயல்முறைகள் எதுவும் இல்லை',
+    selectAProductFirst: 'முதலில் ஒரு பொருளைத் தேர்ந்தெடு',
+    selectMachine: 'இயந்திரத்தைத் தேர்ந்தெடு',
+    chooseMachine: 'இயந்திரத்தைத் தேர்ந்தெடு',
+    noMachines: 'இயந்திரங்கள் எதுவும் இல்லை',
+    selectShift: 'ஷிப்டைத் தேர்ந்தெடு',
+    chooseShift: 'ஷிப்டைத் தேர்ந்தெடு',
+    noShifts: 'ஷிப்டுகள் எதுவும் இல்லை',
+    processStatus: 'செயல்முறை நிலை',
+    available: 'கிடைப்பது:',
+    remainingFromPrevious: 'முந்தைய நிலையிலிருந்து மீதம்',
+    stageLockedNotice: '⚠️ இந்தச் செயல்முறை நிலை பூட்டப்பட்டுள்ளது. மேற்பார்வையாளர் திறக்கும் வரை வேலையைத் தொடங்க முடியாது.',
+    achievedQuantity: 'உற்பத்தி எண்ணிக்கை',
+    enterAchieved: 'உற்பத்தி எண்ணிக்கையை உள்ளிடவும்',
+    rejectedQuantity: 'நிராகரிப்பு எண்ணிக்கை',
+    enterRejected: 'நிராகரிப்பு எண்ணிக்கையை உள்ளிடவும்',
+    photoOptional: 'உற்பத்திப் புகைப்படம் (விருப்பம்)',
+    photoAlt: 'எடுத்த உற்பத்திப் புகைப்படம்',
+    retakePhoto: 'மீண்டும் புகைப்படம் எடு',
+    scanGateCode: 'வாயில் குறியீட்டை ஸ்கேன் செய்',
+    scanGateCodeHint: 'தொழிற்சாலை வாயிலில் உள்ள திரையில் காட்டப்படும் செக் இன் QR குறியீட்டை ஸ்கேன் செய்யவும்.',
+    unknownProduct: 'தெரியாத பொருள்',
+    unknownProcess: 'தெரியாத செயல்முறை',
+    unknownMachine: 'தெரியாத இயந்திரம்',
+    unknownMachineWithId: 'தெரியாத இயந்திரம் (ஐடி: {id})',
+    notSelected: 'தேர்ந்தெடுக்கவில்லை',
+    selectProcessAndShift: 'செக் இன் செய்வதற்கு முன் செயல்முறையையும் ஷிப்டையும் தேர்ந்தெடுக்கவும்',
+    selectProcessBeforeCheckIn: 'செக் இன் செய்வதற்கு முன் செயல்முறையைத் தேர்ந்தெடுக்கவும்',
+    selectShiftBeforeCheckIn: 'செக் இன் செய்வதற்கு முன் ஷிப்டைத் தேர்ந்தெடுக்கவும்',
+    invalidLocation: 'இருப்பிடம் சரியில்லை. இருப்பிடச் சேவையை இயக்கவும்.',
+    invalidShift: 'ஷிப்ட் சரியில்லை. சரியான ஷிப்டைத் தேர்ந்தெடுக்கவும்.',
+    invalidUserId: 'பயனர் ஐடி சரியில்லை. மீண்டும் உள்நுழையவும்.',
+    invalidProcessId: 'செயல்முறை சரியில்லை. செயல்முறையைத் தேர்ந்தெடுக்கவும்.',
+    invalidCheckIn: 'செக் இன் விவரங்கள் சரியில்லை. மீண்டும் முயற்சிக்கவும்.',
+    checkInUnderReview: 'செக் இன் ஆனது - உங்கள் இருப்பிடம் வழக்கத்துக்கு மாறாக இருந்ததால் மேற்பார்வையாளர் சரிபார்ப்பார்',
+    checkInSuccess: 'செக் இன் வெற்றிகரமாக முடிந்தது',
+    checkInFailed: 'செக் இன் செய்ய முடியவில்லை',
+    serverError: 'சர்வர் பிழை: {message}. உதவிக்குத் தொடர்பு கொள்ளவும்.',
+    validationError: 'சரிபார்ப்புப் பிழை: {message}',
+    photoCaptured: 'புகைப்படம் எடுக்கப்பட்டது!',
+    photoRequired: 'உற்பத்தியைச் சமர்ப்பிக்கும் முன் புகைப்படம் எடுக்கவும்',
+    insufficientQuantity: 'போதுமான எண்ணிக்கை இல்லை. கிடைப்பது: {available}, தேவை: {required}',
+    willLockStage: 'இது கிடைக்கும் அனைத்தையும் பயன்படுத்தி நிலையைப் பூட்டிவிடும். பின் மீதம்: {remaining}',
+    savedOffline: 'இணைப்பு இல்லை - உற்பத்தி இந்தச் சாதனத்தில் சேமிக்கப்பட்டது, தானாக ஒத்திசைக்கப்படும்',
+    saveOfflineFailed: 'இந்தச் சாதனத்தில் உற்பத்தியைச் சேமிக்க முடியவில்லை',
+    queuedRejected: 'சேமித்த உற்பத்தி நிராகரிக்கப்பட்டது: {message}',
+    invalidSubmitResponse: 'உற்பத்தியைச் சமர்ப்பிக்க முடியவில்லை: சர்வரிடமிருந்து தவறான பதில்',
+    submittedAndCheckedOut: 'உற்பத்தி சமர்ப்பிக்கப்பட்டு செக் அவுட் ஆனது! வேலை நேரம்: {hours}',
+    submittedAlreadyCheckedOut: 'உற்பத்தி சமர்ப்பிக்கப்பட்டது! வேலை நேரம்: {hours} (ஏற்கனவே செக் அவுட் ஆனது)',
+    submittedCheckOutFailed: 'உற்பத்தி சமர்ப்பிக்கப்பட்டது, ஆனால் செக் அவுட் ஆகவில்லை: {message}',
+    submittedWithHours: 'உற்பத்தி சமர்ப்பிக்கப்பட்டது! வேலை நேரம்: {hours}',
+    submitted: 'உற்பத்தி சமர்ப்பிக்கப்பட்டது!',
+    submittedData: 'உற்பத்தித் தரவு சமர்ப்பிக்கப்பட்டது',
+    submitFailed: 'உற்பத்தியைச் சமர்ப்பிக்க முடியவில்லை: {message}',
+    submitRetry: 'உற்பத்தியைச் சமர்ப்பிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    startInvalidResponse: 'வேலைப் பதிவைத் தொடங்க முடியவில்லை. சர்வரிடமிருந்து தவறான பதில்.',
+    startRetry: 'வேலைப் பதிவைத் தொடங்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    uiUpdateFailed: 'பதிவு சமர்ப்பிக்கப்பட்டது, ஆனால் திரை புதுப்பிக்கப்படவில்லை. புதுப்பிக்கப்படுகிறது...',
+    selectAllToStart: 'பொருள், இயந்திரம், ஷிப்டைத் தேர்ந்தெடுத்து உற்பத்தி எண்ணிக்கையை உள்ளிடவும்',
+    roleRequired: 'அனுமதி இல்லை. பணியாளர் அல்லது மேற்பார்வையாளர் பங்கு தேவை. தற்போதைய பங்கு: {role}',
+    selectProcess_: 'செயல்முறையைத் தேர்ந்தெடுக்கவும்.',
+    selectMachine_: 'இயந்திரத்தைத் தேர்ந்தெடுக்கவும்.',
+    stageLocked: 'இந்தச் செயல்முறை நிலை பூட்டப்பட்டுள்ளது. மேற்பார்வையாளர் திறக்கும் வரை காத்திருக்கவும்.',
+    noQuantityForStage: 'இந்த நிலைக்கு எண்ணிக்கை எதுவும் இல்லை. முந்தைய நிலை முடியும் வரை காத்திருக்கவும்.',
+    workStarted: 'வேலை தொடங்கியது! வருகை தானாகப் பதிவானது.',
+    authFailed: 'அங்கீகாரம் தோல்வி. மீண்டும் உள்நுழையவும்.',
+    accessDenied: 'அனுமதி இல்லை. உங்கள் மேற்பார்வையாளரைத் தொடர்பு கொள்ளவும்.',
+    validationFailed: 'சரிபார்ப்பு தோல்வி: {message}',
+    validationDetails: 'சரிபார்ப்பு விவரங்கள்: {details}',
+    startWorkFailed: 'வேலையைத் தொடங்க முடியவில்லை: {message}',
+    startWorkRetry: 'வேலையைத் தொடங்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+    employeeRoleRequired: 'அனுமதி இல்லை. உங்களுக்குப் பணியாளர் பங்கு உள்ளதா, உள்நுழைந்துள்ளீர்களா எனச் சரிபார்க்கவும்.',
+    notAssignedToProcess: 'நீங்கள் இந்தச் செயல்முறைக்கு ஒதுக்கப்படவில்லை. உங்கள் மேற்பார்வையாளரைத் தொடர்பு கொள்ளவும்.',
+    processAccessDenied: 'இந்தச் செயல்முறைக்கு அனுமதி இல்லை. உங்கள் மேற்பார்வையாளரைத் தொடர்பு கொள்ளவும்.',
+  },
+  roster: {
+    title: 'எனது பணி அட்டவணை',
+    hint: 'வரும் வாரத்துக்கான உங்கள் ஷிப்டுகள்',
+    today: 'இன்று',
+    tomorrow: 'நாளை',
+    process: 'செயல்முறை',
+  },
+  production: {
+    title: 'உற்பத்திப் பதிவு',
+    subtitle: 'உங்கள் உற்பத்தித் தரவை உள்ளிடவும்',
+    checkIn: 'செக் இன்',
+    checkInHint: 'உங்கள் உற்பத்தி அமர்வைத் தொடங்குங்கள்',
+    checkedInAt: '{time} மணிக்குச் செக் இன் ஆனது',
+    details: 'உற்பத்தி விவரங்கள்',
+    detailsHint: 'உற்பத்தித் தகவலை நிரப்பவும்',
+    product: 'பொருள் *',
+    selectProduct: 'ஒரு பொருளைத் தேர்ந்தெடு',
+    order: 'உற்பத்தி ஆர்டர்',
+    noOrder: 'ஆர்டர் இல்லை',
+    orderOption: '{number} - {completed}/{quantity}, கடைசி நாள் {date}',
+    processStage: 'செயல்முறை நிலை *',
+    loadingStages: 'நிலைகள் ஏற்றப்படுகின்றன...',
+    selectStage: 'செயல்முறை நிலையைத் தேர்ந்தெடு',
+    stageOption: 'நிலை {order}: {name}',
+    availableFromPrevious: 'முந்தைய நிலையிலிருந்து கிடைப்பது:',
+    unlimited: 'வரம்பில்லை',
+    includesRework: {
+      one: 'இந்த நிலைக்கு மறுவேலைக்குத் திரும்பிய {count} பீஸ் அடங்கும்',
+      other: 'இந்த நிலைக்கு மறுவேலைக்குத் திரும்பிய {count} பீஸ்கள் அடங்கும்',
+    },
+    calculating: 'கணக்கிடப்படுகிறது...',
+    machine: 'இயந்திரம் *',
+    selectMachine: 'ஒரு இயந்திரத்தைத் தேர்ந்தெடு',
+    shift: 'ஷிப்ட் *',
+    selectShift: 'ஒரு ஷிப்டைத் தேர்ந்தெடு',
+    achieved: 'உற்பத்தி எண்ணிக்கை *',
+    rejected: 'நிராகரிப்பு எண்ணிக்கை',
+    lotNumber: 'லாட் எண்',
+    lotPlaceholder: 'புதிய லாட் தொடங்க காலியாக விடவும்',
+    canRework: 'மறுவேலை செய்யலாம்',
+    sendReworkTo: 'மறுவேலைக்கு அனுப்பு',
+    selectReworkStage: 'ஒரு நிலையைத் தேர்ந்தெடு',
+    scrapped: { one: '{count} கழிவாகும்', other: '{count} கழிவாகும்' },
+    backForRework: { one: ', {count} மறுவேலைக்குத் திரும்பும்', other: ', {count} மறுவேலைக்குத் திரும்பும்' },
+    photo: 'புகைப்படம் *',
+    photoAlt: 'எடுத்த புகைப்படம்',
+    removePhoto: 'புகைப்படத்தை நீக்கு',
+    loadProductsFailed: 'பொருட்களை ஏற்ற முடியவில்லை',
+    loadStagesFailed: 'செயல்முறை நிலைகளை ஏற்ற முடியவில்லை',
+    loadMachinesFailed: 'இயந்திரங்களை ஏற்ற முடியவில்லை',
+    loadShiftsFailed: 'ஷிப்டுகளை ஏற்ற முடியவில்லை',
+    loadStatusFailed: 'செயல்முறை நிலையை ஏற்ற முடியவில்லை',
+    offlineSynced: 'ஆஃப்லைன் உற்பத்திப் பதிவு ஒத்திசைக்கப்பட்டது',
+    offlineRejected: 'ஆஃப்லைன் உற்பத்திப் பதிவு நிராகரிக்கப்பட்டது: {message}',
+    seePendingEntries: 'நிலுவைப் பதிவுகளைப் பார்க்கவும்',
+    checkInSuccess: 'செக் இன் வெற்றிகரமாக முடிந்தது',
+    checkedInOffline: 'ஆஃப்லைன் - இந்தச் சாதனத்தில் செக் இன் ஆனது',
+    checkInFailed: 'செக் இன் செய்ய முடியவில்லை',
+    checkInFirst: 'முதலில் செக் இன் செய்யவும்',
+    invalidRejected: 'சரியான நிராகரிப்பு எண்ணிக்கையை உள்ளிடவும்',
+    reworkOutOfRange: 'மறுவேலை எண்ணிக்கை 0 முதல் நிராகரிப்பு எண்ணிக்கை வரை இருக்க வேண்டும்',
+    chooseReworkStage: 'மறுவேலை எந்த நிலைக்குத் திரும்பும் என்பதைத் தேர்ந்தெடுக்கவும்',
+    assignLots: {
+      one: '{count} பீஸை அது வந்த லாட்டில் சேர்க்கவும்',
+      other: 'அனைத்து {count} பீஸ்களையும் அவை வந்த லாட்டுகளில் சேர்க்கவும்',
+    },
+    defectsLabel: 'ஏன் நிராகரிக்கப்பட்டன? *',
+    defectsAssigned: '{rejected} இல் {assigned} ஒதுக்கப்பட்டது',
+    defectQuantity: '{label} எண்ணிக்கை',
+    splitDefects: 'நிராகரிக்கப்பட்ட அனைத்து {rejected} பீஸ்களையும் குறைபாடு குறியீடுகளுக்கு பிரிக்கவும் ({assigned} ஒதுக்கப்பட்டது)',
+    lotsUsed: 'பயன்படுத்திய லாட்டுகள் *',
+    lotsAssigned: '{required} இல் {assigned}',
+    oldestFirst: 'பழையது முதலில்',
+    lotRemaining: '{remaining} மீதம் · {date}',
+    lotQuantity: 'லாட் {lot} இலிருந்து எண்ணிக்கை',
+    photoRequired: 'புகைப்படம் எடுக்கவும்',
+    insufficientQuantity: 'போதுமான எண்ணிக்கை இல்லை. கிடைப்பது: {available}, தேவை: {required}',
+    savedOffline: 'இந்தச் சாதனத்தில் சேமிக்கப்பட்டது - இணைப்பு வந்ததும் ஒத்திசைக்கப்படும்',
+    submittedWithLot: 'உற்பத்திப் பதிவு சமர்ப்பிக்கப்பட்டது - லாட் {lot}',
+    submitted: 'உற்பத்திப் பதிவு சமர்ப்பிக்கப்பட்டது',
+    submitFailed: 'உற்பத்திப் பதிவைச் சமர்ப்பிக்க முடியவில்லை',
+  },
+  attendance: {
+    title: 'வருகைப் பதிவு',
+    heading: 'வருகை மற்றும் வேலைச் சுருக்கம்',
+    subtitle: 'உங்கள் வருகை, வேலை நேரம் மற்றும் செயல்திறனைப் பாருங்கள்',
+    todayLoaded: 'இன்றைய வருகை ஏற்றப்பட்டது!',
+    todayLoadFailed: 'இன்றைய வருகையை ஏற்ற முடியவில்லை',
+    historyLoaded: { one: '{count} வருகைப் பதிவு ஏற்றப்பட்டது', other: '{count} வருகைப் பதிவுகள் ஏற்றப்பட்டன' },
+    historyLoadFailed: 'வருகை வரலாற்றை ஏற்ற முடியவில்லை',
+    currentStatus: 'தற்போதைய நிலை - {date}',
+    statusAsOf: '{time} நிலவரப்படி',
+    checkInAt: 'செக் இன்: {time}',
+    noCheckInToday: 'இன்று செக் இன் இல்லை',
+    totalHours: 'மொத்த நேரம்',
+    achieved: 'உற்பத்தி',
+    workEntries: 'வேலைப் பதிவுகள்',
+    autoTitle: 'தானியங்கி வருகைப் பதிவு',
+    autoHint: 'டாஷ்போர்டிலிருந்து வேலையைத் தொடங்கியதும் உங்கள் வருகை தானாகப் பதிவாகும்',
+    autoInstructions: 'வருகையைப் பதிவு செய்ய டாஷ்போர்டுக்குச் சென்று "வேலையைத் தொடங்கி வருகையைப் பதிவு செய்" என்பதை அழுத்தவும்',
+    tabOverview: 'சுருக்கம்',
+    tabAttendance: 'வருகை',
+    tabAttendanceShort: 'வருகை',
+    tabLeave: 'விடுப்பு',
+    todayEntries: 'இன்றைய வேலைப் பதிவுகள்',
+    todayEntriesHint: 'இன்றைய அனைத்துப் பதிவுகளும் (மொத்தம் {count})',
+    entryNumber: 'வேலைப் பதிவு #{number}',
+    machine: 'இயந்திரம்:',
+    target: 'இலக்கு:',
+    started: 'தொடக்கம்:',
+    ended: 'முடிவு:',
+    duration: 'கால அளவு:',
+    achievedLabel: 'உற்பத்தி:',
+    rejectedLabel: 'நிராகரிப்பு:',
+    noEntriesToday: 'இன்று வேலைப் பதிவுகள் இல்லை',
+    startFromDashboard: 'டாஷ்போர்டிலிருந்து உங்கள் முதல் பதிவைத் தொடங்குங்கள்',
+    calendar: 'நாள்காட்டி',
+    calendarHint: 'உங்கள் வருகை அல்லது விடுப்பைப் பார்க்க ஒரு நாளைத் தட்டவும்',
+    history: 'வருகை வரலாறு',
+    historyHint: 'வேலை நேரத்துடன் உங்கள் வருகைப் பதிவுகள்',
+    weekly: 'வாராந்திர',
+    monthly: 'மாதாந்திர',
+    loadingHistory: 'வருகை வரலாறு ஏற்றப்படுகிறது...',
+    date: 'தேதி',
+    day: 'நாள்',
+    checkIn: 'செக் இன்',
+    checkOut: 'செக் அவுட்',
+    workHours: 'வேலை நேரம்',
+    status: 'நிலை',
+    missed: 'தவறியது',
+    onDuty: 'பணியில்',
+    regularized: 'சரிசெய்யப்பட்டது',
+    autoClosed: 'தானாக மூடப்பட்டது',
+    correctionPending: 'திருத்தம் நிலுவையில்',
+    fixCheckOut: 'செக் அவுட்டைச் சரிசெய்',
+    noRecords: 'தேர்ந்தெடுத்த காலத்துக்கு வருகைப் பதிவுகள் இல்லை',
+    historyEmpty: 'உங்கள் வருகை வரலாறு இங்கே தோன்றும்',
+    onLeaveHalfDay: '{leave} - அரை நாள்',
+    noRecord: 'வருகைப் பதிவு இல்லை',
+  },
+  downtime: {
+    title: 'இயந்திர நிறுத்தங்கள்',
+    hint: 'இயந்திரம் நின்றால் தெரிவியுங்கள், அப்போது குறைந்த உற்பத்தி உங்கள் கணக்கில் சேராது',
+    report: 'நிறுத்தத்தைத் தெரிவி',
+    machineFallback: 'இயந்திரம்',
+    since: '{reason} · {time} முதல்',
+    down: 'நின்றுள்ளது',
+    runningAgain: 'மீண்டும் இயங்குகிறது',
+    dialogTitle: 'இயந்திர நிறுத்தத்தைத் தெரிவி',
+    dialogHint: 'இயந்திரம் இப்போது நின்றிருந்தால் "இன்னும் நின்றுள்ளது" என்பதைக் குறித்தபடியே விடுங்கள்.',
+    machine: 'இயந்திரம்',
+    selectMachine: 'இயந்திரத்தைத் தேர்ந்தெடு',
+    noReasons: 'காரணங்கள் அமைக்கப்படவில்லை',
+    selectReason: 'காரணத்தைத் தேர்ந்தெடு',
+    stoppedAt: 'நின்ற நேரம்',
+    stillStopped: 'இன்னும் நின்றுள்ளது',
+    runningAgainAt: 'மீண்டும் இயங்கிய நேரம்',
+    notes: 'குறிப்புகள் (விருப்பம்)',
+    selectMachineAndReason: 'இயந்திரத்தையும் காரணத்தையும் தேர்ந்தெடுங்கள்',
+    endBeforeStart: 'முடிவு நேரம் தொடக்க நேரத்திற்குப் பிறகு இருக்க வேண்டும்',
+    reported: 'நிறுத்தம் தெரிவிக்கப்பட்டது',
+    logged: 'நிறுத்தம் பதிவு செய்யப்பட்டது',
+    logFailed: 'நிறுத்தத்தைப் பதிவு செய்ய முடியவில்லை',
+    markedRunning: 'இயந்திரம் இயங்குவதாகக் குறிக்கப்பட்டது',
+    endFailed: 'நிறுத்தத்தை முடிக்க முடியவில்லை',
+  },
+  sync: {
+    savedOnDevice: 'இந்தச் சாதனத்தில் சேமிக்கப்பட்டது',
+    uploadingWhenReachable: 'சர்வர் கிடைத்ததும் பதிவேற்றப்படும்',
+    uploadWhenOnline: 'இணைப்பு திரும்பியதும் பதிவேற்றப்படும்',
+    syncNow: 'இப்போது ஒத்திசை',
+    productFallback: 'பொருள்',
+    summary: 'அடைந்தது {achieved} · நிராகரிப்பு {rejected} · சேமித்தது {time}',
+    failed: 'ஒத்திசைவு தோல்வி',
+    pending: 'ஒத்திசைவு நிலுவையில்',
+  },
+  leave: {
+    title: 'விடுப்பு',
+    hint: 'அனுமதிக்கப்பட்ட விடுப்பு வராததாகக் கணக்கிடப்படாது',
+    request: 'விடுப்பு கேள்',
+    left: '{allowance} இல் மீதம்',
+    leftWithPending: '{allowance} இல் மீதம் · {pending} நிலுவையில்',
+    days: { one: '{count} நாள்', other: '{count} நாட்கள்' },
+    note: 'குறிப்பு: {note}',
+    empty: 'இன்னும் விடுப்பு கேட்கப்படவில்லை',
+    dialogHint: 'உங்கள் மேற்பார்வையாளர் கோரிக்கையை அனுமதிப்பார் அல்லது மறுப்பார்.',
+    type: 'விடுப்பு வகை',
+    selectType: 'விடுப்பு வகையைத் தேர்ந்தெடு',
+    daysLeft: 'இந்த ஆண்டு {allowance} இல் {remaining} நாட்கள் மீதம்',
+    from: 'முதல்',
+    to: 'வரை',
+    halfDayOnly: 'அரை நாள் மட்டும்',
+    reasonPlaceholder: 'எ.கா. காய்ச்சல், குடும்ப நிகழ்ச்சி',
+    daysRequested: { one: '{count} நாள் கோரப்பட்டது', other: '{count} நாட்கள் கோரப்பட்டன' },
+    submit: 'கோரிக்கையை அனுப்பு',
+    selectTypeFirst: 'விடுப்பு வகையைத் தேர்ந்தெடுங்கள்',
+    endBeforeStart: 'முடிவுத் தேதி தொடக்கத் தேதியன்று அல்லது அதற்குப் பிறகு இருக்க வேண்டும்',
+    reasonRequired: 'விடுப்புக்கான காரணத்தைக் கூறுங்கள்',
+    requested: 'விடுப்பு கோரப்பட்டது - உங்கள் மேற்பார்வையாளர் பரிசீலிப்பார்',
+    requestFailed: 'விடுப்பைக் கோர முடியவில்லை',
+    cancelled: 'விடுப்புக் கோரிக்கை ரத்து செய்யப்பட்டது',
+    cancelFailed: 'விடுப்புக் கோரிக்கையை ரத்து செய்ய முடியவில்லை',
+    status: { pending: 'நிலுவையில்', approved: 'அனுமதிக்கப்பட்டது', declined: 'மறுக்கப்பட்டது', cancelled: 'ரத்து செய்யப்பட்டது' },
+  },
+  regularization: {
+    title: 'செக்-அவுட்டைச் சரிசெய்',
+    hint: 'மேற்பார்வையாளர் அனுமதித்ததும் உங்கள் நேரம் புதுப்பிக்கப்படும்.',
+    hintWithCheckIn: '{time} இல் செக்-இன் செய்தீர்கள். மேற்பார்வையாளர் அனுமதித்ததும் உங்கள் நேரம் புதுப்பிக்கப்படும்.',
+    whenLeft: 'நீங்கள் எப்போது வெளியேறினீர்கள்?',
+    reasonPlaceholder: 'எ.கா. ஷிஃப்ட் முடிவில் போன் பேட்டரி தீர்ந்துவிட்டது',
+    enterTime: 'நீங்கள் வெளியேறிய நேரத்தை உள்ளிடுங்கள்',
+    beforeCheckIn: 'செக்-அவுட் உங்கள் செக்-இன்னுக்குப் பிறகு இருக்க வேண்டும்',
+    inFuture: 'செக்-அவுட் எதிர்காலத்தில் இருக்க முடியாது',
+    reasonRequired: 'செக்-அவுட் ஏன் தவறியது என்று கூறுங்கள்',
+    sent: 'திருத்தம் உங்கள் மேற்பார்வையாளருக்கு அனுப்பப்பட்டது',
+    failed: 'திருத்தத்தை அனுப்ப முடியவில்லை',
+  },
+  simple: {
+    checkIn: 'செக் இன் செய்',
+    ok: 'சரி',
+    clear: 'அழி',
+    back: 'பின்செல்',
+    retake: 'மீண்டும் எடு',
+    send: 'அனுப்பு',
+    sending: 'அனுப்புகிறது...',
+    another: 'அடுத்த பதிவு',
+    voiceOn: 'குரலை இயக்கு',
+    voiceOff: 'குரலை நிறுத்து',
+    noProducts: 'இன்னும் பொருட்கள் இல்லை. உங்கள் மேற்பார்வையாளரிடம் கேளுங்கள்.',
+    noProcesses: 'இந்தப் பொருளுக்கு வேலை நிலைகள் இல்லை. உங்கள் மேற்பார்வையாளரிடம் கேளுங்கள்.',
+    noMachines: 'இன்னும் இயந்திரங்கள் அமைக்கப்படவில்லை. உங்கள் மேற்பார்வையாளரிடம் கேளுங்கள்.',
+    pieces: { one: '{count} பீஸ்', other: '{count} பீஸ்கள்' },
+    checkedInAt: '{time} மணிக்கு செக் இன் செய்தீர்கள்',
+    prompts: {
+      checkIn: 'செக் இன் செய்ய பெரிய பொத்தானைத் தொடுங்கள்',
+      pickJobFirst: 'செக் இன் செய்ய உங்கள் பொருளையும் பிறகு உங்கள் வேலையையும் தொடுங்கள்',
+      product: 'நீங்கள் செய்யும் பொருளைத் தொடுங்கள்',
+      process: 'நீங்கள் செய்யும் வேலையைத் தொடுங்கள்',
+      machine: 'நீங்கள் வேலை செய்யும் இயந்திரத்தைத் தொடுங்கள்',
+      count: 'எத்தனை பீஸ் செய்தீர்கள் என்று அழுத்தி, பிறகு சரி குறியைத் தொடுங்கள்',
+      photo: 'உங்கள் வேலையைப் புகைப்படம் எடுங்கள்',
+      review: 'சரிபார்த்து, அனுப்பு என்பதைத் தொடுங்கள்',
+      done: 'அனுப்பப்பட்டது. நன்று!',
+    },
+  },
+};
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -15,25 +16,228 @@ import {
   ToggleRight,
   BarChart3
 } from 'lucide-react';
-import { DisplayAnalyticsReport, HourlyProductionData, ProductPlanData } from '@/types';
-import { reportsService } from '@/services/api';
+import { DisplayAnalyticsReport, DisplayConfig, GateCheckInCode, HourlyProductionData, ProductPlanData, ProductProcessStagesData, ProductionAlert } from '@/types';
+import { reportsService, displayService, alertService, attendanceService } from '@/services/api';
 import { apiClient } from '@/services/api/client';
-import { wsService } from '@/services/websocket.service';
+import { EmployeePerformanceData } from '@/services/api/reports.service';
+import {
+  GateCheckInPanel,
+  HourlyProductionPanel,
+  ProcessStagesPanel,
+  ProductPlanPanel,
+  TopPerformersPanel
+} from '@/components/display/DisplayPanels';
+import { wsService, ProductionDataUpdatedPayload, WSTransport } from '@/services/websocket.service';
 import { toast } from 'sonner';
+import { formatDateKey } from '@/utils/dateUtils';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 
+interface DailyProductionData {
+  date?: string;
+  totalAchieved?: number;
+  totalRejected?: number;
+  totalTarget?: number;
+  production?: number;
+  rejected?: number;
+}
+
+// /reports/realtime-display returns the analytics report plus the per-product stage breakdown
+type RealtimeDisplayData = DisplayAnalyticsReport & {
+  products?: Array<ProductProcessStagesData & { dailyData?: DailyProductionData[] }>;
+};
+
+// Full refresh while live, to correct any drift between patched figures and server aggregates
+const RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+
+const TOP_PERFORMERS_COUNT = 5;
+
+// Fetch the next gate code this long before the current one expires, so a scan never lands on a dead code
+const GATE_CODE_REFRESH_LEAD_MS = 10 * 1000;
+const GATE_CODE_RETRY_MS = 15 * 1000;
+
+// The server already scopes data to a display token's filters; trimming again here keeps a TV
+// on its own line even if a broader report comes back
+function filterReportForDisplay(report: RealtimeDisplayData, config: DisplayConfig): RealtimeDisplayData {
+  const productIds = config.productIds || [];
+  const processIds = config.processIds || [];
+  const productAllowed = (productId: string) => productIds.length === 0 || productIds.includes(productId);
+  const processAllowed = (processId: string) => processIds.length === 0 || processIds.includes(processId);
+
+  return {
+    ...report,
+    products: (report.products || [])
+      .filter((product) => productAllowed(product.productId))
+      .map((product) => ({
+        ...product,
+        processes: (product.processes || []).filter((process) => processAllowed(process.processId)),
+      })),
+    productPlanData: (report.productPlanData || []).filter(
+      (row) => productAllowed(row.productId) && processAllowed(row.processId)
+    ),
+  };
+}
+
+// Alerts without a product/process are factory-wide and show on every display
+function alertAppliesToDisplay(alert: ProductionAlert, config: DisplayConfig): boolean {
+  const productIds = config.productIds || [];
+  const processIds = config.processIds || [];
+  return (
+    (!alert.productId || productIds.length === 0 || productIds.includes(alert.productId)) &&
+    (!alert.processId || processIds.length === 0 || processIds.includes(alert.processId))
+  );
+}
+
+// Narrow a production event to the stages a kiosk shows; null when none of it is on this display
+function filterUpdateForDisplay(
+  update: ProductionDataUpdatedPayload,
+  config: DisplayConfig
+): ProductionDataUpdatedPayload | null {
+  const productIds = config.productIds || [];
+  const processIds = config.processIds || [];
+  if (productIds.length > 0 && !productIds.includes(update.productId)) {
+    return null;
+  }
+  if (processIds.length === 0 || !update.stages) {
+    return update;
+  }
+
+  const stages = update.stages.filter((stage) => processIds.includes(stage.processId));
+  return stages.length > 0 ? { ...update, stages } : null;
+}
+
+// Apply a production event to the loaded report instead of refetching it.
+// Returns null when the event can't be applied locally: the server sent no stage snapshots,
+// or a stage isn't on screen yet (new product/process), which needs a full reload.
+function applyProductionUpdate(
+  report: RealtimeDisplayData,
+  update: ProductionDataUpdatedPayload
+): RealtimeDisplayData | null {
+  const stages = update.stages;
+  const products = report.products || [];
+  if (!stages || stages.length === 0) {
+    return null;
+  }
+
+  const allStagesShown = stages.every((stage) =>
+    products.some(
+      (product) =>
+        product.productId === stage.productId &&
+        (product.processes || []).some((process) => process.processId === stage.processId)
+    )
+  );
+  if (!allStagesShown) {
+    return null;
+  }
+
+  const today = formatDateKey();
+
+  const addToToday = (dailyData?: DailyProductionData[]) => {
+    if (!dailyData) return dailyData;
+    const hasToday = dailyData.some((day) => day?.date?.startsWith(today));
+    if (!hasToday) {
+      return [...dailyData, { date: today, totalAchieved: update.achievedDelta, totalRejected: update.rejectedDelta }];
+    }
+    return dailyData.map((day) =>
+      day?.date?.startsWith(today)
+        ? {
+            ...day,
+            totalAchieved: Number(day.totalAchieved || day.production || 0) + update.achievedDelta,
+            totalRejected: Number(day.totalRejected || day.rejected || 0) + update.rejectedDelta,
+          }
+        : day
+    );
+  };
+
+  return {
+    ...report,
+    products: products.map((product) => {
+      const productStages = stages.filter((stage) => stage.productId === product.productId);
+      if (productStages.length === 0) {
+        return product;
+      }
+
+      return {
+        ...product,
+        processes: (product.processes || []).map((process) => {
+          const stage = productStages.find((s) => s.processId === process.processId);
+          return stage
+            ? {
+                ...process,
+                achievedQuantity: stage.achievedQuantity,
+                rejectedQuantity: stage.rejectedQuantity,
+                availableQuantity: stage.availableQuantity,
+                targetQuantity: stage.targetQuantity ?? process.targetQuantity,
+                efficiency: stage.efficiency ?? process.efficiency,
+              }
+            : process;
+        }),
+        dailyData: product.productId === update.productId ? addToToday(product.dailyData) : product.dailyData,
+      };
+    }),
+    productPlanData: (report.productPlanData || []).map((row) =>
+      row.productId === update.productId && row.processId === update.processId
+        ? {
+            ...row,
+            production: row.production + update.achievedDelta,
+            rejected: row.rejected + update.rejectedDelta,
+          }
+        : row
+    ),
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
 export default function DisplayPage() {
-  const [data, setData] = useState<DisplayAnalyticsReport | null>(null);
+  const [data, setData] = useState<RealtimeDisplayData | null>(null);
   const [loading, setLoading] = useState(true);
   const [viewType, setViewType] = useState<'analytics' | 'table'>('analytics');
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
   const [error, setError] = useState<string | null>(null);
   const [wsConnected, setWsConnected] = useState(false);
+  const [transport, setTransport] = useState<WSTransport>(wsService.getTransport());
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
   const [isLoadingData, setIsLoadingData] = useState(false);
   const [pollIntervalMs, setPollIntervalMs] = useState(30000); // Start at 30s
   const rateLimitResetTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Kiosk mode: /display?token=... runs without a login, using the display's scoped token
+  const [searchParams] = useSearchParams();
+  const displayToken = searchParams.get('token');
+  const [kioskConfig, setKioskConfig] = useState<DisplayConfig | null>(null);
+  const [panelIndex, setPanelIndex] = useState(0);
+  const [topPerformers, setTopPerformers] = useState<EmployeePerformanceData[]>([]);
+  const [gateCode, setGateCode] = useState<GateCheckInCode | null>(null);
+  const kioskConfigRef = useRef<DisplayConfig | null>(null);
+  const [openAlerts, setOpenAlerts] = useState<ProductionAlert[]>([]);
+  const isReady = !displayToken || kioskConfig !== null;
+  useEffect(() => {
+    if (!displayToken) return;
+
+    apiClient.setDisplayToken(displayToken);
+    displayService.getKioskConfig()
+      .then((config) => {
+        kioskConfigRef.current = config;
+        setKioskConfig(config);
+      })
+      .catch((error) => {
+        console.error('❌ Error loading kiosk display config:', error);
+        setError(error?.status === 401 || error?.status === 403
+          ? 'This display link is no longer valid. Ask an admin for the current kiosk URL.'
+          : error?.message || 'Failed to load display configuration');
+        setLoading(false);
+      });
+
+    return () => {
+      apiClient.setDisplayToken(null);
+    };
+  }, [displayToken]);
+
+  // Latest report for WebSocket handlers, which are registered once on mount
+  const dataRef = useRef<RealtimeDisplayData | null>(null);
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
   const loadData = useCallback(async () => {
     // Prevent concurrent requests
     if (isLoadingData) {
@@ -52,7 +256,7 @@ export default function DisplayPage() {
       const response = await reportsService.getRealtimeDisplay({ _t: Date.now().toString() } as any);
       
       if (response) {
-        setData(response);
+        setData(kioskConfigRef.current ? filterReportForDisplay(response, kioskConfigRef.current) : response);
         setLastUpdated(new Date());
         // Reset polling interval to default on successful request
         setPollIntervalMs(30000);
@@ -182,6 +386,9 @@ export default function DisplayPage() {
   }, [pollIntervalMs]);
 
   useEffect(() => {
+    // Kiosk displays wait for their config so the first load is already filtered
+    if (!isReady) return;
+
     let currentPollingInterval: NodeJS.Timeout | null = null;
     let wsConnectedRef = false; // Track if WebSocket connection has been initiated
     let debounceTimer: NodeJS.Timeout | null = null; // Debounce timer for WebSocket events
@@ -200,6 +407,7 @@ export default function DisplayPage() {
       try {
         await wsService.connect();
         setWsConnected(true);
+        setTransport(wsService.getTransport());
         console.log('✅ WebSocket connected for real-time updates');
         // Clear any existing polling interval when WebSocket connects
         if (currentPollingInterval) {
@@ -221,11 +429,9 @@ export default function DisplayPage() {
       }
     };
 
-    // Subscribe to production data updates - refresh data when event is received
+    // Debounced full refresh for changes that can't be patched locally
     // Use debouncing to prevent rapid-fire API calls when multiple updates arrive quickly
-    const unsubscribe = wsService.subscribe('production_data_updated', () => {
-      console.log('📡 WebSocket: Production data updated, scheduling refresh...');
-      
+    const scheduleRefresh = () => {
       // Clear existing debounce timer
       if (debounceTimer) {
         clearTimeout(debounceTimer);
@@ -238,8 +444,49 @@ export default function DisplayPage() {
         loadDataRef.current();
         debounceTimer = null;
       }, 500);
+    };
+
+    // Production updates carry the changed stage totals - patch them in, refetch only when that's not possible
+    const unsubscribeProduction = wsService.subscribe('production_data_updated', (event) => {
+      const update = kioskConfigRef.current ? filterUpdateForDisplay(event, kioskConfigRef.current) : event;
+      if (!update) {
+        return;
+      }
+
+      const patched = dataRef.current ? applyProductionUpdate(dataRef.current, update) : null;
+      if (patched) {
+        dataRef.current = patched;
+        setData(patched);
+        setLastUpdated(new Date());
+        return;
+      }
+
+      console.log('📡 WebSocket: Production data updated, scheduling refresh...');
+      scheduleRefresh();
     });
 
+    // New or changed products/processes change the report layout itself
+    const unsubscribeCatalog = [
+      wsService.subscribe('product_created', scheduleRefresh),
+      wsService.subscribe('product_updated', scheduleRefresh),
+      wsService.subscribe('product_deleted', scheduleRefresh),
+      wsService.subscribe('process_created', scheduleRefresh),
+      wsService.subscribe('process_updated', scheduleRefresh),
+      wsService.subscribe('process_deleted', scheduleRefresh),
+    ];
+
+    // Missed events could not be replayed after a reconnect - reload everything
+    const unsubscribeSyncRequired = wsService.subscribe('sync_required', () => {
+      console.log('📡 WebSocket: Full refresh requested after reconnect');
+      loadDataRef.current();
+    });
+
+    const reconcileInterval = setInterval(() => {
+      if (wsService.getConnectionState() === 'connected') {
+        loadDataRef.current();
+      }
+    }, RECONCILE_INTERVAL_MS);
+
     // Connect WebSocket only once on mount
     connectWebSocket();
 
@@ -257,6 +504,7 @@ export default function DisplayPage() {
     const connectionCheckInterval = setInterval(() => {
       const connectionState = wsService.getConnectionState();
       setWsConnected(connectionState === 'connected');
+      setTransport(wsService.getTransport());
       if (connectionState === 'connected' && currentPollingInterval) {
         clearInterval(currentPollingInterval);
         currentPollingInterval = null;
@@ -268,7 +516,10 @@ export default function DisplayPage() {
     }, 5000); // Check every 5 seconds
 
     return () => {
-      unsubscribe();
+      unsubscribeProduction();
+      unsubscribeCatalog.forEach(unsub => unsub());
+      unsubscribeSyncRequired();
+      clearInterval(reconcileInterval);
       clearInterval(connectionCheckInterval);
       // Clean up debounce timer
       if (debounceTimer) {
@@ -287,7 +538,94 @@ export default function DisplayPage() {
         rateLimitResetTimeoutRef.current = null;
       }
     };
-  }, []); // Empty dependency array - only run once on mount
+  }, [isReady]); // Runs once, as soon as the page (or the kiosk config) is ready
+
+  // Only receive production events for the products on screen; a kiosk limited to processes follows those instead
+  const kioskProcessIdsKey = (kioskConfig?.processIds || []).slice().sort().join(',');
+  const productIdsKey = (data?.products || []).map(product => product.productId).sort().join(',');
+  useEffect(() => {
+    if (kioskProcessIdsKey) {
+      return wsService.subscribeTopics(kioskProcessIdsKey.split(',').map(id => ({ kind: 'process' as const, id })));
+    }
+    if (!productIdsKey) return;
+    return wsService.subscribeTopics(productIdsKey.split(',').map(id => ({ kind: 'product' as const, id })));
+  }, [productIdsKey, kioskProcessIdsKey]);
+
+  // Open Andon alerts turn the header red until a supervisor resolves them
+  useEffect(() => {
+    if (!isReady) return;
+
+    const loadOpenAlerts = async () => {
+      try {
+        const alerts = await alertService.getAlerts({ status: 'open' });
+        const config = kioskConfigRef.current;
+        setOpenAlerts(config ? alerts.filter((alert) => alertAppliesToDisplay(alert, config)) : alerts);
+      } catch (error) {
+        console.error('❌ Error loading open alerts:', error);
+      }
+    };
+
+    loadOpenAlerts();
+    const unsubscribe = [
+      wsService.subscribe('alert_created', loadOpenAlerts),
+      wsService.subscribe('alert_updated', loadOpenAlerts),
+      wsService.subscribe('sync_required', loadOpenAlerts),
+    ];
+    return () => unsubscribe.forEach(unsub => unsub());
+  }, [isReady]);
+
+  // Rotate through the kiosk's panels
+  const kioskPanelCount = kioskConfig?.panels.length || 0;
+  const dwellMs = Math.max(kioskConfig?.dwellSeconds || 0, 5) * 1000;
+  useEffect(() => {
+    if (kioskPanelCount <= 1) return;
+    const rotation = setInterval(() => {
+      setPanelIndex((index) => (index + 1) % kioskPanelCount);
+    }, dwellMs);
+    return () => clearInterval(rotation);
+  }, [kioskPanelCount, dwellMs]);
+
+  // Top performers are refreshed along with the rest of the report
+  const showsTopPerformers = !!kioskConfig?.panels.includes('top_performers');
+  const reportUpdatedAt = data?.lastUpdated;
+  useEffect(() => {
+    if (!showsTopPerformers || !reportUpdatedAt) return;
+    const today = formatDateKey();
+    reportsService.getEmployeePerformance({ startDate: today, endDate: today })
+      .then((performance) => {
+        setTopPerformers(
+          [...performance].sort((a, b) => b.production - a.production).slice(0, TOP_PERFORMERS_COUNT)
+        );
+      })
+      .catch((error) => console.error('❌ Error loading top performers:', error));
+  }, [showsTopPerformers, reportUpdatedAt]);
+
+  // Gate check-in code, replaced shortly before each one expires
+  const showsGateCode = !!kioskConfig?.panels.includes('gate_checkin');
+  useEffect(() => {
+    if (!showsGateCode) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const loadGateCode = async () => {
+      try {
+        const code = await attendanceService.getGateCode();
+        if (cancelled) return;
+        setGateCode(code);
+        const refreshInMs = new Date(code.expiresAt).getTime() - Date.now() - GATE_CODE_REFRESH_LEAD_MS;
+        timer = setTimeout(loadGateCode, Math.max(refreshInMs, GATE_CODE_REFRESH_LEAD_MS));
+      } catch (error) {
+        console.error('❌ Error loading gate check-in code:', error);
+        if (!cancelled) timer = setTimeout(loadGateCode, GATE_CODE_RETRY_MS);
+      }
+    };
+
+    loadGateCode();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showsGateCode]);
 
   const getEfficiencyColor = (efficiency: number) => {
     if (efficiency >= 90) return 'text-green-400';
@@ -355,12 +693,22 @@ export default function DisplayPage() {
     <div className="min-h-screen bg-gray-900 text-white p-4 lg:p-8">
       <div className="w-full max-w-none">
         {/* Header */}
-        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center mb-8 gap-4">
+        <div className={`flex flex-col lg:flex-row justify-between items-start lg:items-center mb-8 gap-4 ${
+          openAlerts.length > 0 ? 'bg-red-700 rounded-lg p-4' : ''
+        }`}>
           <div className="flex-1">
-            <h1 className="text-2xl lg:text-4xl font-bold mb-2"> PRODUCTION STATUS </h1>
-            <p className="text-lg lg:text-xl text-gray-300">
+            <h1 className="text-2xl lg:text-4xl font-bold mb-2">
+              {kioskConfig ? kioskConfig.name.toUpperCase() : ' PRODUCTION STATUS '}
+            </h1>
+            <p className={`text-lg lg:text-xl ${openAlerts.length > 0 ? 'text-red-100' : 'text-gray-300'}`}>
               Last updated: {lastUpdated.toLocaleTimeString()}
             </p>
+            {openAlerts.length > 0 && (
+              <p className="text-xl lg:text-2xl font-bold mt-2 flex items-center">
+                <AlertTriangle className="h-6 w-6 mr-2" />
+                {openAlerts.length > 1 ? `${openAlerts.length} open alerts - ` : ''}{openAlerts[0].message}
+              </p>
+            )}
           </div>
           
           <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-2 sm:space-y-0 sm:space-x-4">
@@ -371,28 +719,48 @@ export default function DisplayPage() {
                 className={wsConnected ? "bg-green-600 hover:bg-green-700" : "bg-gray-600 hover:bg-gray-700"}
               >
                 <Monitor className="h-3 w-3 mr-1" />
-                {wsConnected ? 'Live' : 'Polling'}
+                {wsConnected ? (transport === 'sse' ? 'Live (SSE)' : 'Live (WebSocket)') : 'Polling'}
               </Badge>
             </div>
 
             {/* View Toggle */}
-            <div className="flex items-center space-x-2">
-              <span className="text-sm font-medium">Analytics</span>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => setViewType(viewType === 'analytics' ? 'table' : 'analytics')}
-                className="bg-gray-800 border-gray-600 hover:bg-gray-700"
-              >
-                {viewType === 'analytics' ? <ToggleRight className="h-4 w-4" /> : <ToggleLeft className="h-4 w-4" />}
-              </Button>
-              <span className="text-sm font-medium">Table</span>
-            </div>
+            {!kioskConfig && (
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium">Analytics</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setViewType(viewType === 'analytics' ? 'table' : 'analytics')}
+                  className="bg-gray-800 border-gray-600 hover:bg-gray-700"
+                >
+                  {viewType === 'analytics' ? <ToggleRight className="h-4 w-4" /> : <ToggleLeft className="h-4 w-4" />}
+                </Button>
+                <span className="text-sm font-medium">Table</span>
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Analytics View */}
-        {viewType === 'analytics' ? (
+        {/* Kiosk View - one configured panel at a time */}
+        {kioskConfig ? (
+          <>
+            {kioskConfig.panels[panelIndex % kioskPanelCount] === 'hourly_chart' && (
+              <HourlyProductionPanel hourlyData={data.hourlyData || []} />
+            )}
+            {kioskConfig.panels[panelIndex % kioskPanelCount] === 'product_plan' && (
+              <ProductPlanPanel rows={data.productPlanData || []} />
+            )}
+            {kioskConfig.panels[panelIndex % kioskPanelCount] === 'process_stages' && (
+              <ProcessStagesPanel products={data.products || []} />
+            )}
+            {kioskConfig.panels[panelIndex % kioskPanelCount] === 'top_performers' && (
+              <TopPerformersPanel performers={topPerformers} />
+            )}
+            {kioskConfig.panels[panelIndex % kioskPanelCount] === 'gate_checkin' && (
+              <GateCheckInPanel gateCode={gateCode} />
+            )}
+          </>
+        ) : viewType === 'analytics' ? (
           <>
             {/* Production by Product Analytics Chart */}
             {(data.products || []).map((product: any, productIndex: number) => {
@@ -533,164 +901,10 @@ export default function DisplayPage() {
             })}
 
             {/* Process Stages Analytics Chart */}
-            {(data.products || []).map((product: any, productIndex: number) => {
-              // Validate and process process data
-              const processesArray = product.processes || [];
-              let processChartData: any[] = [];
-              
-              try {
-                if (Array.isArray(processesArray) && processesArray.length > 0) {
-                  processChartData = processesArray
-                    .filter((process: any) => process != null && process.processName)
-                    .map((process: any) => ({
-                      name: process.processName || 'Unknown',
-                      processName: process.processName || 'Unknown',
-                      stageOrder: Number(process.stageOrder || 0),
-                      achieved: Number(process.achievedQuantity || 0),
-                      rejected: Number(process.rejectedQuantity || 0)
-                    }))
-                    .sort((a: any, b: any) => a.stageOrder - b.stageOrder)
-                    .filter((item: any) => item.achieved > 0 || item.rejected > 0); // Filter out zero-only entries
-                }
-              } catch (error: any) {
-                console.error('Error processing process chart data:', error);
-                processChartData = [];
-              }
-
-              const hasProcessData = processChartData.length > 0;
-
-              return (
-                <Card key={`process-${productIndex}`} className="bg-gray-800 border-gray-700 mb-8">
-                  <CardHeader>
-                    <CardTitle className="text-white text-2xl flex items-center">
-                      <BarChart3 className="h-6 w-6 mr-2" />
-                      {product.productName} - Process Stages Analytics
-                    </CardTitle>
-                    <CardDescription className="text-gray-400">
-                      Achieved vs Rejected quantities by process stage for {product.productName}
-                    </CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    {hasProcessData ? (
-                      <div className="h-64 sm:h-80 lg:h-96">
-                        <ResponsiveContainer width="100%" height="100%">
-                          <BarChart data={processChartData}>
-                            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                            <XAxis 
-                              dataKey="name" 
-                              stroke="#9CA3AF"
-                              fontSize={14}
-                              angle={-45}
-                              textAnchor="end"
-                              height={80}
-                            />
-                            <YAxis 
-                              stroke="#9CA3AF"
-                              fontSize={14}
-                              label={{ value: 'Quantity', angle: -90, position: 'insideLeft', style: { fontSize: '14px' } }}
-                            />
-                            <Tooltip 
-                              contentStyle={{ 
-                                backgroundColor: '#1F2937', 
-                                border: '1px solid #374151',
-                                borderRadius: '8px',
-                                color: '#F9FAFB'
-                              }}
-                              formatter={(value, name) => [value, name === 'achieved' ? 'Achieved' : 'Rejected']}
-                              labelFormatter={(label) => `Process: ${label}`}
-                            />
-                            <Bar 
-                              dataKey="achieved" 
-                              fill="#10B981" 
-                              name="achieved"
-                              radius={[2, 2, 0, 0]}
-                              maxBarSize={40}
-                            />
-                            <Bar 
-                              dataKey="rejected" 
-                              fill="#EF4444" 
-                              name="rejected"
-                              radius={[2, 2, 0, 0]}
-                              maxBarSize={40}
-                            />
-                          </BarChart>
-                        </ResponsiveContainer>
-                      </div>
-                    ) : (
-                      <div className="h-64 sm:h-80 lg:h-96 flex items-center justify-center border-2 border-dashed border-gray-600 rounded-lg">
-                        <div className="text-center space-y-4">
-                          <BarChart3 className="h-16 w-16 mx-auto text-gray-500 opacity-50" />
-                          <div>
-                            <h3 className="text-xl font-semibold text-gray-400 mb-2">
-                              No Process Data Available
-                            </h3>
-                            <p className="text-gray-500 text-sm">
-                              No process stage data found for {product.productName}.
-                            </p>
-                            <p className="text-gray-500 text-xs mt-2">
-                              Data will appear here once work entries are processed for this product.
-                            </p>
-                          </div>
-                        </div>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
-              );
-            })}
+            <ProcessStagesPanel products={data.products || []} />
 
             {/* Product Plan Table */}
-            <Card className="bg-gray-800 border-gray-700">
-              <CardHeader>
-                <CardTitle className="text-white text-2xl">Production Plan Status</CardTitle>
-                <CardDescription className="text-gray-400">
-                  Current production vs plan by product
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="overflow-x-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow className="border-gray-600">
-                        <TableHead className="text-gray-300 text-xs sm:text-sm">SEQUENCE</TableHead>
-                        <TableHead className="text-gray-300 text-xs sm:text-sm">MODEL CODE</TableHead>
-                        <TableHead className="text-gray-300 text-xs sm:text-sm">MODEL NAME</TableHead>
-                        <TableHead className="text-gray-300 text-xs sm:text-sm">PRODUCTION</TableHead>
-                        <TableHead className="text-gray-300 text-xs sm:text-sm">REJECTED</TableHead>
-                        <TableHead className="text-gray-300 text-xs sm:text-sm">EFFICIENCY (%)</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {(data.productPlanData || []).map((product, index) => (
-                        <TableRow key={index} className="border-gray-600 hover:bg-gray-700">
-                          <TableCell className="text-white font-medium text-xs sm:text-sm">
-                            {product.sequence}
-                          </TableCell>
-                          <TableCell className="text-gray-300 text-xs sm:text-sm">
-                            {product.modelCode}
-                          </TableCell>
-                          <TableCell className="text-white font-medium text-xs sm:text-sm">
-                            {product.modelName}
-                          </TableCell>
-                          <TableCell className="text-green-400 font-bold text-xs sm:text-sm">
-                            {product.production}
-                          </TableCell>
-                          <TableCell className="text-red-400 font-bold text-xs sm:text-sm">
-                            {product.rejected}
-                          </TableCell>
-                          <TableCell className={`font-bold text-xs sm:text-sm ${
-                            product.efficiency >= 90 ? 'text-green-400' :
-                            product.efficiency >= 70 ? 'text-yellow-400' : 'text-red-400'
-                          }`}>
-                            {product.efficiency.toFixed(1)}%
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </div>
-              </CardContent>
-            </Card>
+            <ProductPlanPanel rows={data.productPlanData || []} />
           </>
         ) : (
           /* Table View - Original Product Tables */
@@ -21,14 +21,18 @@ import {
   Key,
   Smartphone,
   Calendar,
-  MapPin
+  MapPin,
+  Languages
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/authStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { authService } from '@/services/api';
 import { toast } from 'sonner';
 
 export default function Profile() {
   const { user, updateUser } = useAuthStore();
+  const { t } = useTranslation();
   const navigate = useNavigate();
   const [isEditing, setIsEditing] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -313,6 +317,17 @@ export default function Profile() {
               </>
             )}
 
+            {/* Language */}
+            <Separator />
+            <div>
+              <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 flex items-center">
+                <Languages className="h-4 w-4 sm:h-5 sm:w-5 mr-2" />
+                {t('language.title')}
+              </h3>
+              <Label htmlFor="language" className="text-sm sm:text-base">{t('language.description')}</Label>
+              <LanguageSwitcher id="language" className="mt-1 w-full md:w-64" />
+            </div>
+
             {/* Activity Information */}
             <Separator />
             <div>
@@ -18,14 +18,18 @@ import {
   LogOut,
   Eye,
   EyeOff,
-  Save
+  Save,
+  Languages
 } from 'lucide-react';
 import { useAuthStore } from '@/stores/authStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { authService } from '@/services/api';
 import { toast } from 'sonner';
 
 export default function Settings() {
   const { user, logout, updateUser } = useAuthStore();
+  const { t } = useTranslation();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -268,6 +272,23 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Language */}
+        <Card className="p-3 sm:p-4 md:p-6">
+          <CardHeader className="pb-3 sm:pb-4">
+            <CardTitle className="flex items-center text-base sm:text-lg">
+              <Languages className="h-4 w-4 sm:h-5 sm:w-5 mr-2" />
+              {t('language.title')}
+            </CardTitle>
+            <CardDescription className="text-sm">
+              {t('language.description')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Label htmlFor="language" className="text-sm sm:text-base">{t('language.label')}</Label>
+            <LanguageSwitcher id="language" className="mt-1 w-full sm:w-64" />
+          </CardContent>
+        </Card>
+
         {/* Security Settings */}
         <Card className="p-3 sm:p-4 md:p-6">
           <CardHeader className="pb-3 sm:pb-4">
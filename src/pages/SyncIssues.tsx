@@ -0,0 +1,432 @@
+import { useState } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, Pencil, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useOfflineStore, OfflineData, OfflineDataType } from '@/stores/offlineStore';
+import { useAuthStore } from '@/stores/authStore';
+import { syncService, QueuedProductionSubmission, QueuedValidation } from '@/services/syncService';
+import { formatDateTime } from '@/utils/dateUtils';
+import { WorkEntry } from '@/types';
+
+const TYPE_LABELS: Record<OfflineDataType, string> = {
+  attendance: 'Check-in',
+  work_entry: 'Production entry',
+  validation: 'Work validation',
+};
+
+function describeItem(type: OfflineDataType, data: unknown): string {
+  switch (type) {
+    case 'work_entry': {
+      const { summary } = data as QueuedProductionSubmission;
+      const name = [summary?.productName, summary?.processName].filter(Boolean).join(' · ') || 'Production';
+      return `${name} — achieved ${summary?.achieved ?? 0}, rejected ${summary?.rejected ?? 0}`;
+    }
+    case 'validation': {
+      const { status, summary } = data as QueuedValidation;
+      const name = [summary?.employeeName, summary?.productName, summary?.processName].filter(Boolean).join(' · ');
+      return `${status === 'approved' ? 'Approve' : 'Reject'}${name ? ` — ${name}` : ''}`;
+    }
+    case 'attendance':
+      return 'Attendance check-in';
+    default:
+      return '';
+  }
+}
+
+// Pull whatever explanation the server sent back; error bodies vary between endpoints
+function getServerDetails(responseData: unknown): string[] {
+  if (!responseData || typeof responseData !== 'object') {
+    return typeof responseData === 'string' && responseData ? [responseData] : [];
+  }
+
+  const body = responseData as Record<string, unknown>;
+  const details: string[] = [];
+
+  if (typeof body.message === 'string') details.push(body.message);
+  if (typeof body.error === 'string' && body.error !== body.message) details.push(body.error);
+  if (typeof body.details === 'string') details.push(body.details);
+  if (Array.isArray(body.errors)) {
+    body.errors.forEach((error: string | { field?: string; message?: string }) => {
+      if (typeof error === 'string') {
+        details.push(error);
+      } else if (error?.message) {
+        details.push(error.field ? `${error.field}: ${error.message}` : error.message);
+      }
+    });
+  }
+  if (body.code) details.push(`Code: ${body.code}`);
+
+  return details;
+}
+
+// Defects, rework and lots are split against the quantities, so those can't be changed here without redoing the split
+function hasBreakdowns(submission: QueuedProductionSubmission): boolean {
+  const payload = submission.payload as { defects?: unknown[]; reworkQuantity?: number; consumedLots?: unknown[] };
+  return !!payload.defects?.length || !!payload.reworkQuantity || !!payload.consumedLots?.length;
+}
+
+// Apply edited quantities to whichever part of the submission the replay sends
+function withQuantities(submission: QueuedProductionSubmission, achieved: number, rejected: number): QueuedProductionSubmission {
+  const summary = { ...submission.summary, achieved, rejected };
+
+  if (submission.mode === 'start_complete') {
+    return {
+      ...submission,
+      // Once the start went through its target is on the server and only the completion is replayed
+      payload: submission.workEntryId ? submission.payload : { ...submission.payload, targetQuantity: achieved + rejected },
+      completion: { achieved, rejected },
+      summary,
+    };
+  }
+
+  return {
+    ...submission,
+    payload: { ...submission.payload, achieved, rejected },
+    summary,
+  };
+}
+
+const SyncIssues = () => {
+  const offlineQueue = useOfflineStore((state) => state.offlineQueue);
+  const allRecentlySynced = useOfflineStore((state) => state.recentlySynced);
+  const isOnline = useOfflineStore((state) => state.isOnline);
+  const userId = useAuthStore((state) => state.user?._id || state.user?.id);
+  const recentlySynced = allRecentlySynced.filter((record) => record.userId === userId);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editItem, setEditItem] = useState<OfflineData | null>(null);
+  const [editForm, setEditForm] = useState({ achieved: 0, rejected: 0, status: 'approved', notes: '' });
+  const [discardItem, setDiscardItem] = useState<OfflineData | null>(null);
+
+  // Items the server rejected, plus pending ones that have already failed at least once
+  const issues = offlineQueue.filter(
+    (item) =>
+      item.userId === userId && (item.status === 'dead_letter' || (item.status === 'pending' && item.lastError))
+  );
+
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Sync issue action failed:', error);
+      toast.error('Action failed. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetry = (item: OfflineData) => {
+    if (!isOnline) {
+      toast.error('No internet connection available');
+      return;
+    }
+    runAction(item.id, () => syncService.retryItem(item.id));
+  };
+
+  const openEdit = (item: OfflineData) => {
+    if (item.type === 'work_entry') {
+      const { summary } = item.data as QueuedProductionSubmission;
+      setEditForm({ achieved: summary.achieved, rejected: summary.rejected, status: 'approved', notes: '' });
+    } else if (item.type === 'validation') {
+      const validation = item.data as QueuedValidation;
+      setEditForm({ achieved: 0, rejected: 0, status: validation.status, notes: validation.notes || '' });
+    }
+    setEditItem(item);
+  };
+
+  const handleResend = async () => {
+    if (!editItem) return;
+
+    let data: QueuedProductionSubmission | QueuedValidation;
+    if (editItem.type === 'work_entry') {
+      if (editForm.achieved < 0 || editForm.rejected < 0) {
+        toast.error('Quantities cannot be negative');
+        return;
+      }
+      const { summary } = editItem.data as QueuedProductionSubmission;
+      const quantitiesChanged = editForm.achieved !== summary.achieved || editForm.rejected !== summary.rejected;
+      if (quantitiesChanged && hasBreakdowns(editItem.data as QueuedProductionSubmission)) {
+        toast.error('This entry has a defect, rework or lot breakdown - discard it and enter it again to change the quantities');
+        return;
+      }
+      data = withQuantities(editItem.data as QueuedProductionSubmission, editForm.achieved, editForm.rejected);
+    } else {
+      data = {
+        ...(editItem.data as QueuedValidation),
+        status: editForm.status as QueuedValidation['status'],
+        notes: editForm.notes || undefined,
+      };
+    }
+
+    const id = editItem.id;
+    setEditItem(null);
+    await runAction(id, () => syncService.resendItem(id, data));
+  };
+
+  const editSubmission = editItem?.type === 'work_entry' ? (editItem.data as QueuedProductionSubmission) : null;
+  const startedTarget = editSubmission?.mode === 'start_complete' && editSubmission.workEntryId
+    ? (editSubmission.payload as Partial<WorkEntry>).targetQuantity
+    : undefined;
+  const quantitiesLocked = !!editSubmission && hasBreakdowns(editSubmission);
+
+  const handleDiscard = async () => {
+    if (!discardItem) return;
+    const id = discardItem.id;
+    setDiscardItem(null);
+    await runAction(id, async () => {
+      await syncService.discardItem(id);
+      toast.success('Removed from this device');
+    });
+  };
+
+  return (
+    <Layout title="Sync Issues">
+      <div className="p-4 space-y-4 max-w-3xl mx-auto">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Needs attention
+            </CardTitle>
+            <CardDescription>
+              Work saved on this device that the server could not accept. Retry it, correct it and resend, or discard it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {issues.length === 0 ? (
+              <div className="text-center py-6 text-sm text-muted-foreground">
+                <CheckCircle2 className="h-8 w-8 mx-auto mb-2 text-green-600" />
+                Nothing to fix. All saved work has been synced or is waiting to upload.
+              </div>
+            ) : (
+              issues.map((item) => {
+                const serverDetails = getServerDetails(item.lastError?.responseData);
+                const isDeadLetter = item.status === 'dead_letter';
+                const isBusy = busyId === item.id;
+
+                return (
+                  <div key={item.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium">{TYPE_LABELS[item.type]}</div>
+                        <div className="text-sm text-muted-foreground">{describeItem(item.type, item.data)}</div>
+                      </div>
+                      {isDeadLetter ? (
+                        <Badge variant="destructive" className="shrink-0">Rejected</Badge>
+                      ) : (
+                        <Badge variant="secondary" className="shrink-0">Retrying</Badge>
+                      )}
+                    </div>
+
+                    <div className="text-xs text-muted-foreground">
+                      Saved {formatDateTime(item.timestamp)} · {item.attempts} attempt{item.attempts === 1 ? '' : 's'}
+                      {item.lastAttemptAt ? ` · last tried ${formatDateTime(new Date(item.lastAttemptAt))}` : ''}
+                    </div>
+
+                    {item.lastError && (
+                      <div className="rounded-md bg-destructive/10 p-2 text-sm text-destructive space-y-1">
+                        <div>
+                          {item.lastError.status ? `${item.lastError.status}: ` : ''}
+                          {item.lastError.message}
+                        </div>
+                        {serverDetails
+                          .filter((detail) => detail !== item.lastError?.message)
+                          .map((detail, index) => (
+                            <div key={index} className="text-xs">{detail}</div>
+                          ))}
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="outline" onClick={() => handleRetry(item)} disabled={isBusy}>
+                        {isBusy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+                        Retry
+                      </Button>
+                      {item.type !== 'attendance' && (
+                        <Button size="sm" variant="outline" onClick={() => openEdit(item)} disabled={isBusy}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit & resend
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setDiscardItem(item)}
+                        disabled={isBusy}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" />
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <CloudOff className="h-4 w-4" />
+              Recently synced from this device
+            </CardTitle>
+            <CardDescription>Queued work that reached the server after the connection returned</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {recentlySynced.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No queued work has been synced in this session.</p>
+            ) : (
+              recentlySynced.map((record) => (
+                <div key={record.id} className="flex items-start justify-between gap-2 rounded-lg border p-3 text-sm">
+                  <div className="min-w-0">
+                    <div className="font-medium">{TYPE_LABELS[record.type]}</div>
+                    <div className="text-muted-foreground truncate">{describeItem(record.type, record.data)}</div>
+                  </div>
+                  <div className="text-xs text-muted-foreground shrink-0 text-right">
+                    Synced {formatDateTime(record.syncedAt)}
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!editItem} onOpenChange={(open) => !open && setEditItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit & resend</DialogTitle>
+            <DialogDescription>
+              The corrected entry is sent as a new request. The rejected one is removed from this device.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editItem?.type === 'work_entry' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sync-achieved">Achieved</Label>
+                <Input
+                  id="sync-achieved"
+                  type="number"
+                  min={0}
+                  value={editForm.achieved}
+                  disabled={quantitiesLocked}
+                  onChange={(e) => setEditForm({ ...editForm, achieved: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sync-rejected">Rejected</Label>
+                <Input
+                  id="sync-rejected"
+                  type="number"
+                  min={0}
+                  value={editForm.rejected}
+                  disabled={quantitiesLocked}
+                  onChange={(e) => setEditForm({ ...editForm, rejected: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              {quantitiesLocked && (
+                <p className="col-span-2 text-sm text-muted-foreground">
+                  This entry has a defect, rework or lot breakdown, so its quantities can't be changed here. Resend it
+                  as it is, or discard it and enter it again on Production Entry.
+                </p>
+              )}
+              {startedTarget !== undefined && (
+                <p className="col-span-2 text-sm text-muted-foreground">
+                  This work was already started with a target of {startedTarget}. Only the completed quantities are resent.
+                </p>
+              )}
+            </div>
+          )}
+
+          {editItem?.type === 'validation' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Decision</Label>
+                <Select value={editForm.status} onValueChange={(value) => setEditForm({ ...editForm, status: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="approved">Approve</SelectItem>
+                    <SelectItem value="rejected">Reject</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sync-notes">Notes</Label>
+                <Textarea
+                  id="sync-notes"
+                  value={editForm.notes}
+                  onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditItem(null)}>Cancel</Button>
+            <Button onClick={handleResend}>Resend</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!discardItem} onOpenChange={(open) => !open && setDiscardItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard this entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {discardItem && `${TYPE_LABELS[discardItem.type]}: ${describeItem(discardItem.type, discardItem.data)}. `}
+              It will be removed from this device and never sent to the server.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDiscard}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default SyncIssues;
@@ -17,14 +17,18 @@ import {
   Package,
   Settings
 } from 'lucide-react';
-import { format as dateFnsFormat, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfYear, endOfYear } from 'date-fns';
+import { format as dateFnsFormat } from 'date-fns';
 import { toast } from 'sonner';
-import { reportsService } from '@/services/api/reports.service';
+import { getReportDateRange, reportsService } from '@/services/api/reports.service';
+import { useProductionDay } from '@/hooks/useProductionDay';
 import { productService } from '@/services/api/product.service';
 import { processService } from '@/services/api/process.service';
 import { useAuthStore } from '@/stores/authStore';
 import { Label } from '@/components/ui/label';
 import { Product, Process } from '@/types';
+import { DowntimeSummaryCard } from '@/components/downtime/DowntimeSummaryCard';
+import { DefectParetoCard } from '@/components/defects/DefectParetoCard';
+import { formatWorkHours } from '@/utils/dateUtils';
 
 interface ReportDataRow {
   date: string;
@@ -37,6 +41,8 @@ interface ReportDataRow {
   machinesUsed: string;
   efficiency: number;
   target: number;
+  // Stoppage minutes on the machines used, when the server reports them
+  downtimeMinutes?: number;
 }
 
 export default function AdminReports() {
@@ -51,12 +57,16 @@ export default function AdminReports() {
   // Filter state
   const [dateFilter, setDateFilter] = useState<'daily' | 'weekly' | 'monthly' | 'yearly' | 'all'>('all');
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+  const productionDay = useProductionDay();
+  // Dated ranges follow the factory's shifts, so wait for them rather than query calendar days
+  const rangeReady = dateFilter === 'all' || productionDay.isReady;
   
   // Data state
   const [products, setProducts] = useState<Product[]>([]);
   const [processes, setProcesses] = useState<Process[]>([]);
   const [reportData, setReportData] = useState<ReportDataRow[]>([]);
   const [searchName, setSearchName] = useState('');
+  const [reportScope, setReportScope] = useState<{ startDate?: string; endDate?: string; productId?: string; processId?: string }>({});
   
   // Loading states
   const [loading, setLoading] = useState(false);
@@ -122,31 +132,7 @@ export default function AdminReports() {
       let endDate: string | undefined;
 
       if (dateFilter !== 'all' && selectedDate) {
-        const date = selectedDate;
-        switch (dateFilter) {
-          case 'daily': {
-            startDate = new Date(date.getFullYear(), date.getMonth(), date.getDate()).toISOString();
-            const nextDay = new Date(date);
-            nextDay.setDate(nextDay.getDate() + 1);
-            endDate = nextDay.toISOString();
-            break;
-          }
-          case 'weekly': {
-            startDate = startOfWeek(date).toISOString();
-            endDate = endOfWeek(date).toISOString();
-            break;
-          }
-          case 'monthly': {
-            startDate = startOfMonth(date).toISOString();
-            endDate = endOfMonth(date).toISOString();
-            break;
-          }
-          case 'yearly': {
-            startDate = startOfYear(date).toISOString();
-            endDate = endOfYear(date).toISOString();
-            break;
-          }
-        }
+        ({ startDate, endDate } = getReportDateRange(dateFilter, selectedDate, productionDay.shifts));
       }
 
       const itemId = selectedItem._id || selectedItem.id;
@@ -167,6 +153,11 @@ export default function AdminReports() {
       const dataArray = Array.isArray(result.data) ? result.data : [];
       setReportData(dataArray);
       setSearchName(result.searchName || '');
+      setReportScope({
+        startDate,
+        endDate,
+        ...(searchType === 'product' ? { productId: itemId } : { processId: itemId }),
+      });
       
       if (dataArray.length === 0) {
         toast.warning('No data found for the selected criteria');
@@ -179,7 +170,7 @@ export default function AdminReports() {
     } finally {
       setSearchLoading(false);
     }
-  }, [selectedItem, searchType, dateFilter, selectedDate]);
+  }, [selectedItem, searchType, dateFilter, selectedDate, productionDay]);
 
   // Handle export
   const handleExport = async (format: 'pdf' | 'excel') => {
@@ -194,31 +185,7 @@ export default function AdminReports() {
       let endDate: string | undefined;
 
       if (dateFilter !== 'all' && selectedDate) {
-        const date = selectedDate;
-        switch (dateFilter) {
-          case 'daily': {
-            startDate = new Date(date.getFullYear(), date.getMonth(), date.getDate()).toISOString();
-            const nextDay = new Date(date);
-            nextDay.setDate(nextDay.getDate() + 1);
-            endDate = nextDay.toISOString();
-            break;
-          }
-          case 'weekly': {
-            startDate = startOfWeek(date).toISOString();
-            endDate = endOfWeek(date).toISOString();
-            break;
-          }
-          case 'monthly': {
-            startDate = startOfMonth(date).toISOString();
-            endDate = endOfMonth(date).toISOString();
-            break;
-          }
-          case 'yearly': {
-            startDate = startOfYear(date).toISOString();
-            endDate = endOfYear(date).toISOString();
-            break;
-          }
-        }
+        ({ startDate, endDate } = getReportDateRange(dateFilter, selectedDate, productionDay.shifts));
       }
 
       const itemId = selectedItem._id || selectedItem.id;
@@ -426,7 +393,7 @@ export default function AdminReports() {
             <div className="flex gap-2">
               <Button 
                 onClick={handleSearch} 
-                disabled={!selectedItem || searchLoading}
+                disabled={!selectedItem || searchLoading || !rangeReady}
                 className="flex-1"
               >
                 {searchLoading ? (
@@ -462,7 +429,7 @@ export default function AdminReports() {
                 <div className="flex flex-col sm:flex-row gap-2">
                   <Button
                     onClick={() => handleExport('excel')}
-                    disabled={loading}
+                    disabled={loading || !rangeReady}
                     variant="outline"
                     size="sm"
                     className="w-full sm:w-auto"
@@ -472,7 +439,7 @@ export default function AdminReports() {
                       </Button>
                   <Button
                     onClick={() => handleExport('pdf')}
-                    disabled={loading}
+                    disabled={loading || !rangeReady}
                     variant="outline"
                     size="sm"
                     className="w-full sm:w-auto"
@@ -499,6 +466,7 @@ export default function AdminReports() {
                       <TableHead className="min-w-[100px] whitespace-nowrap">Total Rejected</TableHead>
                       <TableHead className="min-w-[120px] whitespace-nowrap">Machines Used</TableHead>
                       <TableHead className="min-w-[100px]">Efficiency %</TableHead>
+                      <TableHead className="min-w-[100px] whitespace-nowrap">Machine Downtime</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -515,6 +483,9 @@ export default function AdminReports() {
                         <TableCell className="text-red-600 whitespace-nowrap">{row.totalRejected.toLocaleString()}</TableCell>
                         <TableCell className="text-sm whitespace-nowrap">{row.machinesUsed}</TableCell>
                         <TableCell className="whitespace-nowrap">{row.efficiency.toFixed(2)}%</TableCell>
+                        <TableCell className="whitespace-nowrap text-muted-foreground">
+                          {row.downtimeMinutes ? formatWorkHours(row.downtimeMinutes / 60) : '-'}
+                        </TableCell>
                             </TableRow>
                           ))}
                         </TableBody>
@@ -524,6 +495,21 @@ export default function AdminReports() {
                 </Card>
         )}
 
+        {/* Stoppages over the same period, to explain low efficiency */}
+        {reportData.length > 0 && (
+          <DowntimeSummaryCard startDate={reportScope.startDate} endDate={reportScope.endDate} />
+        )}
+
+        {/* Where the rejects in these results came from */}
+        {reportData.length > 0 && (
+          <DefectParetoCard
+            startDate={reportScope.startDate}
+            endDate={reportScope.endDate}
+            productId={reportScope.productId}
+            processId={reportScope.processId}
+          />
+        )}
+
         {/* Empty State */}
         {!searchLoading && reportData.length === 0 && selectedItem && (
             <Card>
@@ -0,0 +1,396 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { DeleteConfirmDialog } from '@/components/crud/DeleteConfirmDialog';
+import { Plus, Siren, Pencil, Trash2 } from 'lucide-react';
+import { alertService, productService, processService } from '@/services/api';
+import { AlertRuleInput, ALERT_METRIC_LABELS } from '@/services/api/alert.service';
+import { AlertRule, AlertRuleMetric, AlertSeverity, Product, Process } from '@/types';
+import { toast } from '@/hooks/use-toast';
+
+// Radix Select items can't have an empty value
+const ALL = 'all';
+
+const EMPTY_FORM: AlertRuleInput = {
+  name: '',
+  metric: 'production_vs_expected',
+  threshold: 80,
+  consecutiveHours: 2,
+  severity: 'warning',
+  enabled: true,
+};
+
+const describeRule = (rule: Pick<AlertRule, 'metric' | 'threshold' | 'consecutiveHours'>) => {
+  const hours = rule.consecutiveHours === 1 ? 'an hour' : `${rule.consecutiveHours} consecutive hours`;
+  return rule.metric === 'production_vs_expected'
+    ? `Actual below ${rule.threshold}% of expected for ${hours}`
+    : `Rejection rate above ${rule.threshold}% for ${hours}`;
+};
+
+const AlertRules = () => {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [processes, setProcesses] = useState<Process[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+  const [form, setForm] = useState<AlertRuleInput>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<AlertRule | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [ruleList, productResponse, processResponse] = await Promise.all([
+        alertService.getRules(),
+        productService.getProducts(),
+        processService.getProcesses(),
+      ]);
+      setRules(ruleList);
+      setProducts(productResponse.data || []);
+      setProcesses(processResponse.data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load alert rules',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getRuleId = (rule: AlertRule) => rule._id || rule.id || '';
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (rule: AlertRule) => {
+    setEditing(rule);
+    setForm({
+      name: rule.name,
+      metric: rule.metric,
+      threshold: rule.threshold,
+      consecutiveHours: rule.consecutiveHours,
+      productId: rule.productId,
+      processId: rule.processId,
+      severity: rule.severity,
+      enabled: rule.enabled,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      if (editing) {
+        await alertService.updateRule(getRuleId(editing), form);
+      } else {
+        await alertService.createRule(form);
+      }
+      toast({
+        title: 'Success',
+        description: editing ? 'Alert rule updated successfully' : 'Alert rule created successfully',
+      });
+      setDialogOpen(false);
+      setRules(await alertService.getRules());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save alert rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleEnabled = async (rule: AlertRule, enabled: boolean) => {
+    try {
+      await alertService.updateRule(getRuleId(rule), { enabled });
+      setRules((prev) => prev.map((r) => (getRuleId(r) === getRuleId(rule) ? { ...r, enabled } : r)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update alert rule',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setDeleteLoading(true);
+    try {
+      await alertService.deleteRule(getRuleId(deleting));
+      setRules((prev) => prev.filter((r) => getRuleId(r) !== getRuleId(deleting)));
+      setDeleting(null);
+      toast({
+        title: 'Success',
+        description: 'Alert rule deleted successfully',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete alert rule',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const getProductName = (id?: string) => (id ? products.find((p) => p._id === id)?.name || id : 'All products');
+  const getProcessName = (id?: string) => (id ? processes.find((p) => p._id === id)?.name || id : 'All processes');
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Alert Rules</h1>
+            <p className="text-muted-foreground">Raise an Andon alert when a line falls behind plan or rejects too much</p>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {rules.map((rule) => (
+            <Card key={getRuleId(rule)} className={rule.enabled ? '' : 'opacity-60'}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Siren className="h-5 w-5 shrink-0" />
+                    <span className="truncate">{rule.name}</span>
+                  </span>
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(checked) => handleToggleEnabled(rule, checked)}
+                    aria-label={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                  />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div>{describeRule(rule)}</div>
+                <div className="text-muted-foreground">
+                  {getProductName(rule.productId)} · {getProcessName(rule.processId)}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={rule.severity === 'critical' ? 'destructive' : 'secondary'} className="capitalize">
+                    {rule.severity}
+                  </Badge>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openEdit(rule)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setDeleting(rule)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {rules.length === 0 && (
+            <div className="col-span-full text-center py-8 text-muted-foreground">
+              No alert rules yet. A common starting point is actual below 80% of expected for 2 hours.
+            </div>
+          )}
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-lg" aria-describedby="alert-rule-form-description">
+            <DialogHeader>
+              <DialogTitle>{editing ? 'Edit Alert Rule' : 'Add Alert Rule'}</DialogTitle>
+              <DialogDescription id="alert-rule-form-description">
+                Rules are checked against each completed production hour.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <Label htmlFor="ruleName">Rule Name</Label>
+                <Input
+                  id="ruleName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Assembly behind plan"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label>Condition</Label>
+                <Select
+                  value={form.metric}
+                  onValueChange={(value) => setForm({ ...form, metric: value as AlertRuleMetric })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ALERT_METRIC_LABELS) as AlertRuleMetric[]).map((metric) => (
+                      <SelectItem key={metric} value={metric}>{ALERT_METRIC_LABELS[metric]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="threshold">Threshold (%)</Label>
+                  <Input
+                    id="threshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.1"
+                    value={form.threshold}
+                    onChange={(e) => setForm({ ...form, threshold: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="consecutiveHours">Consecutive hours</Label>
+                  <Input
+                    id="consecutiveHours"
+                    type="number"
+                    min={1}
+                    max={24}
+                    value={form.consecutiveHours}
+                    onChange={(e) => setForm({ ...form, consecutiveHours: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Product</Label>
+                  <Select
+                    value={form.productId || ALL}
+                    onValueChange={(value) => setForm({ ...form, productId: value === ALL ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All products</SelectItem>
+                      {products.map((product) => (
+                        <SelectItem key={product._id} value={product._id || ''}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Process</Label>
+                  <Select
+                    value={form.processId || ALL}
+                    onValueChange={(value) => setForm({ ...form, processId: value === ALL ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All processes</SelectItem>
+                      {processes.map((process) => (
+                        <SelectItem key={process._id} value={process._id || ''}>{process.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div>
+                  <Label>Severity</Label>
+                  <Select
+                    value={form.severity}
+                    onValueChange={(value) => setForm({ ...form, severity: value as AlertSeverity })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="info">Info</SelectItem>
+                      <SelectItem value="warning">Warning</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <label className="flex items-center gap-2 text-sm pb-2">
+                  <Switch
+                    checked={form.enabled}
+                    onCheckedChange={(checked) => setForm({ ...form, enabled: checked })}
+                  />
+                  Enabled
+                </label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={saving}>
+                  {editing ? 'Save Rule' : 'Create Rule'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setDialogOpen(false)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <DeleteConfirmDialog
+          open={!!deleting}
+          onOpenChange={(open) => !open && setDeleting(null)}
+          onConfirm={handleDelete}
+          isLoading={deleteLoading}
+          title="Delete Alert Rule"
+          description={`Delete "${deleting?.name}"? Alerts it already raised stay in the inbox.`}
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default AlertRules;
@@ -0,0 +1,383 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { DeleteConfirmDialog } from '@/components/crud/DeleteConfirmDialog';
+import { Plus, Monitor, Copy, RefreshCw, Pencil, Trash2, ExternalLink } from 'lucide-react';
+import { displayService, productService, processService } from '@/services/api';
+import { DisplayConfigInput, DISPLAY_PANEL_LABELS, getKioskUrl } from '@/services/api/display.service';
+import { DisplayConfig, DisplayPanel, Product, Process } from '@/types';
+import { toast } from '@/hooks/use-toast';
+
+const ALL_PANELS = Object.keys(DISPLAY_PANEL_LABELS) as DisplayPanel[];
+
+const EMPTY_FORM: DisplayConfigInput = {
+  name: '',
+  panels: [...ALL_PANELS],
+  dwellSeconds: 20,
+  productIds: [],
+  processIds: [],
+};
+
+const toggleValue = <T,>(values: T[], value: T, checked: boolean): T[] =>
+  checked ? [...values, value] : values.filter((v) => v !== value);
+
+const Displays = () => {
+  const [displays, setDisplays] = useState<DisplayConfig[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [processes, setProcesses] = useState<Process[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<DisplayConfig | null>(null);
+  const [form, setForm] = useState<DisplayConfigInput>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<DisplayConfig | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [displayList, productResponse, processResponse] = await Promise.all([
+        displayService.getDisplays(),
+        productService.getProducts(),
+        processService.getProcesses(),
+      ]);
+      setDisplays(displayList);
+      setProducts(productResponse.data || []);
+      setProcesses(processResponse.data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load displays',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getDisplayId = (display: DisplayConfig) => display._id || display.id || '';
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (display: DisplayConfig) => {
+    setEditing(display);
+    setForm({
+      name: display.name,
+      panels: display.panels,
+      dwellSeconds: display.dwellSeconds,
+      productIds: display.productIds || [],
+      processIds: display.processIds || [],
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.panels.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Select at least one panel to show',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editing) {
+        await displayService.updateDisplay(getDisplayId(editing), form);
+      } else {
+        await displayService.createDisplay(form);
+      }
+      toast({
+        title: 'Success',
+        description: editing ? 'Display updated successfully' : 'Display created successfully',
+      });
+      setDialogOpen(false);
+      setDisplays(await displayService.getDisplays());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save display',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopyUrl = async (display: DisplayConfig) => {
+    try {
+      await navigator.clipboard.writeText(getKioskUrl(display));
+      toast({
+        title: 'Copied',
+        description: 'Kiosk URL copied to clipboard',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Could not copy the URL',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRegenerateToken = async (display: DisplayConfig) => {
+    try {
+      const updated = await displayService.regenerateToken(getDisplayId(display));
+      setDisplays((prev) =>
+        prev.map((d) => (getDisplayId(d) === getDisplayId(display) ? { ...d, token: updated.token } : d))
+      );
+      toast({
+        title: 'Success',
+        description: 'New kiosk URL generated. Update the TV with the new link.',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to regenerate token',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setDeleteLoading(true);
+    try {
+      await displayService.deleteDisplay(getDisplayId(deleting));
+      setDisplays((prev) => prev.filter((d) => getDisplayId(d) !== getDisplayId(deleting)));
+      setDeleting(null);
+      toast({
+        title: 'Success',
+        description: 'Display deleted successfully',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete display',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const getProductName = (id: string) => products.find((p) => p._id === id)?.name || id;
+  const getProcessName = (id: string) => processes.find((p) => p._id === id)?.name || id;
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Kiosk Displays</h1>
+            <p className="text-muted-foreground">Configure the shop-floor TVs that show live production</p>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Display
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {displays.map((display) => (
+            <Card key={getDisplayId(display)}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Monitor className="h-5 w-5 shrink-0" />
+                    <span className="truncate">{display.name}</span>
+                  </span>
+                  <Badge variant="outline">Every {display.dwellSeconds}s</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex flex-wrap gap-1">
+                  {display.panels.map((panel) => (
+                    <Badge key={panel} variant="secondary">{DISPLAY_PANEL_LABELS[panel]}</Badge>
+                  ))}
+                </div>
+                <div className="text-muted-foreground">
+                  Products: {display.productIds?.length ? display.productIds.map(getProductName).join(', ') : 'All'}
+                </div>
+                <div className="text-muted-foreground">
+                  Processes: {display.processIds?.length ? display.processIds.map(getProcessName).join(', ') : 'All'}
+                </div>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <Button size="sm" variant="outline" onClick={() => handleCopyUrl(display)}>
+                    <Copy className="h-4 w-4 mr-1" />
+                    Copy URL
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => window.open(getKioskUrl(display), '_blank')}>
+                    <ExternalLink className="h-4 w-4 mr-1" />
+                    Open
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleRegenerateToken(display)}>
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    New URL
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openEdit(display)}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setDeleting(display)}>
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {displays.length === 0 && (
+            <div className="col-span-full text-center py-8 text-muted-foreground">
+              No displays configured. Add one for each TV on the shop floor.
+            </div>
+          )}
+        </div>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" aria-describedby="display-form-description">
+            <DialogHeader>
+              <DialogTitle>{editing ? 'Edit Display' : 'Add Display'}</DialogTitle>
+              <DialogDescription id="display-form-description">
+                Choose what this TV shows. Leave products or processes empty to show all of them.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="displayName">Display Name</Label>
+                  <Input
+                    id="displayName"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Line 1 TV"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="dwellSeconds">Seconds per panel</Label>
+                  <Input
+                    id="dwellSeconds"
+                    type="number"
+                    min={5}
+                    value={form.dwellSeconds}
+                    onChange={(e) => setForm({ ...form, dwellSeconds: Number(e.target.value) })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Panels</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2">
+                  {ALL_PANELS.map((panel) => (
+                    <label key={panel} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.panels.includes(panel)}
+                        onCheckedChange={(checked) =>
+                          setForm({ ...form, panels: toggleValue(form.panels, panel, checked === true) })
+                        }
+                      />
+                      {DISPLAY_PANEL_LABELS[panel]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label>Products</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2 max-h-40 overflow-y-auto">
+                  {products.map((product) => (
+                    <label key={product._id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.productIds.includes(product._id || '')}
+                        onCheckedChange={(checked) =>
+                          setForm({ ...form, productIds: toggleValue(form.productIds, product._id || '', checked === true) })
+                        }
+                      />
+                      {product.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label>Processes</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-2 max-h-40 overflow-y-auto">
+                  {processes.map((process) => (
+                    <label key={process._id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={form.processIds.includes(process._id || '')}
+                        onCheckedChange={(checked) =>
+                          setForm({ ...form, processIds: toggleValue(form.processIds, process._id || '', checked === true) })
+                        }
+                      />
+                      {process.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={saving}>
+                  {editing ? 'Save Display' : 'Create Display'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setDialogOpen(false)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <DeleteConfirmDialog
+          open={!!deleting}
+          onOpenChange={(open) => !open && setDeleting(null)}
+          onConfirm={handleDelete}
+          isLoading={deleteLoading}
+          title="Delete Display"
+          description={`Delete "${deleting?.name}"? Its kiosk URL will stop working.`}
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default Displays;
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Settings as SettingsIcon,
   Clock,
@@ -17,12 +18,20 @@ import {
   Trash2,
   Save,
   X,
-  MapPin
+  MapPin,
+  QrCode,
+  Languages
 } from 'lucide-react';
 import { factoryService } from '@/services/api';
+import { CHECK_IN_MODE_LABELS, getCheckInMode } from '@/services/api/attendance.service';
 import { useAuthStore } from '@/stores/authStore';
 import { toast } from 'sonner';
-import { Factory } from '@/types';
+import { CheckInMode, Factory, Language } from '@/types';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/i18n';
+import { useLanguageStore } from '@/stores/languageStore';
+import { DowntimeReasonsCard } from '@/components/downtime/DowntimeReasonsCard';
+import { DefectCatalogCard } from '@/components/defects/DefectCatalogCard';
+import { GeofenceZonesCard } from '@/components/geofence/GeofenceZonesCard';
 
 // Utility function to convert 24-hour format to 12-hour format
 const formatTimeTo12Hour = (time24: string): string => {
@@ -76,6 +85,10 @@ export default function FactorySettings() {
     radius: ''
   });
 
+  const [checkInMode, setCheckInMode] = useState<CheckInMode>('gps');
+  const [defaultLanguage, setDefaultLanguage] = useState<Language>(DEFAULT_LANGUAGE);
+  const setFactoryLanguage = useLanguageStore((state) => state.setFactoryLanguage);
+
   useEffect(() => {
     loadFactory();
     loadShifts();
@@ -91,6 +104,8 @@ export default function FactorySettings() {
       const response = await factoryService.getFactory(user.factoryId);
       const factoryData = response.data;
       setFactory(factoryData);
+      setCheckInMode(getCheckInMode(factoryData));
+      setDefaultLanguage(factoryData?.defaultLanguage || DEFAULT_LANGUAGE);
       
       // Initialize geofence form with current values
       if (factoryData?.geofence) {
@@ -298,6 +313,45 @@ export default function FactorySettings() {
     }
   };
 
+  const handleUpdateCheckInMode = async () => {
+    if (!user?.factoryId) {
+      toast.error('Factory ID not found');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await factoryService.updateFactory(user.factoryId, { checkInMode });
+      toast.success('Check-in method updated successfully');
+      loadFactory();
+    } catch (error) {
+      console.error('Failed to update check-in method:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update check-in method');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateDefaultLanguage = async () => {
+    if (!user?.factoryId) {
+      toast.error('Factory ID not found');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await factoryService.updateFactory(user.factoryId, { defaultLanguage });
+      setFactoryLanguage(defaultLanguage);
+      toast.success('Default language updated successfully');
+      loadFactory();
+    } catch (error) {
+      console.error('Failed to update default language:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update default language');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <Layout title="Factory Settings">
       <div className="space-y-4 sm:space-y-6">
@@ -480,6 +534,84 @@ export default function FactorySettings() {
           </CardContent>
         </Card>
 
+        {/* Check-in Method */}
+        <Card className="p-3 sm:p-4 md:p-6">
+          <CardHeader className="pb-3 sm:pb-4">
+            <div className="flex-1">
+              <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                <QrCode className="h-4 w-4 sm:h-5 sm:w-5" />
+                Check-in Method
+              </CardTitle>
+              <CardDescription className="text-sm">
+                How employees prove they are on site. The gate QR code is shown on a kiosk display with the "Gate check-in QR code" panel.
+              </CardDescription>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+              <Select value={checkInMode} onValueChange={(value) => setCheckInMode(value as CheckInMode)}>
+                <SelectTrigger className="w-full sm:w-64 min-h-[44px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHECK_IN_MODE_LABELS) as CheckInMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>{CHECK_IN_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                onClick={handleUpdateCheckInMode}
+                disabled={loading || checkInMode === getCheckInMode(factory)}
+                className="flex-1 sm:flex-initial min-h-[44px]"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {loading ? 'Saving...' : 'Save Check-in Method'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Default Language */}
+        <Card className="p-3 sm:p-4 md:p-6">
+          <CardHeader className="pb-3 sm:pb-4">
+            <div className="flex-1">
+              <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+                <Languages className="h-4 w-4 sm:h-5 sm:w-5" />
+                Default Language
+              </CardTitle>
+              <CardDescription className="text-sm">
+                Language employees see until they choose their own in Settings or Profile.
+              </CardDescription>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
+              <Select value={defaultLanguage} onValueChange={(value) => setDefaultLanguage(value as Language)}>
+                <SelectTrigger className="w-full sm:w-64 min-h-[44px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGES.map((language) => (
+                    <SelectItem key={language.value} value={language.value}>
+                      {language.label}{language.nativeLabel !== language.label && ` (${language.nativeLabel})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                onClick={handleUpdateDefaultLanguage}
+                disabled={loading || defaultLanguage === (factory?.defaultLanguage || DEFAULT_LANGUAGE)}
+                className="flex-1 sm:flex-initial min-h-[44px]"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                {loading ? 'Saving...' : 'Save Default Language'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Geofence Settings */}
         <Card className="p-3 sm:p-4 md:p-6">
           <CardHeader className="pb-3 sm:pb-4">
@@ -489,7 +621,7 @@ export default function FactorySettings() {
                 Geofence Settings
               </CardTitle>
               <CardDescription className="text-sm">
-                Configure the factory location and geofence radius for attendance check-in validation
+                Configure the factory location and the check-in radius used until you add geofence zones
               </CardDescription>
             </div>
           </CardHeader>
@@ -598,6 +730,17 @@ export default function FactorySettings() {
           </CardContent>
         </Card>
 
+        <GeofenceZonesCard
+          factoryId={user?.factoryId}
+          zones={factory?.geofenceZones || []}
+          onSaved={loadFactory}
+        />
+
+        {/* Downtime Reason Codes */}
+        <DowntimeReasonsCard />
+
+        <DefectCatalogCard />
+
         {/* Edit Shift Dialog */}
         <Dialog open={editDialogOpen} onOpenChange={setEditDialogOpen}>
           <DialogContent className="w-[95vw] max-w-md sm:max-w-lg p-4 sm:p-6">
@@ -0,0 +1,465 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { DeleteConfirmDialog } from '@/components/crud/DeleteConfirmDialog';
+import { Plus, Plane, Pencil, Trash2, Save } from 'lucide-react';
+import { leaveService, userService } from '@/services/api';
+import { LeaveTypeInput } from '@/services/api/leave.service';
+import { LeaveBalance, LeaveType, User } from '@/types';
+import { toast } from '@/hooks/use-toast';
+
+const EMPTY_FORM: LeaveTypeInput = {
+  name: '',
+  code: '',
+  yearlyAllowance: 12,
+  paid: true,
+  isActive: true,
+};
+
+const getLeaveTypeId = (type: LeaveType) => type._id || type.id || '';
+
+const LeaveTypes = () => {
+  const [leaveTypes, setLeaveTypes] = useState<LeaveType[]>([]);
+  const [employees, setEmployees] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<LeaveType | null>(null);
+  const [form, setForm] = useState<LeaveTypeInput>(EMPTY_FORM);
+  const [deleting, setDeleting] = useState<LeaveType | null>(null);
+  const [deleteLoading, setDeleteLoading] = useState(false);
+
+  // Per-employee balances
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [employeeId, setEmployeeId] = useState('');
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [allowances, setAllowances] = useState<Record<string, string>>({});
+  const [savingTypeId, setSavingTypeId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (!employeeId) {
+      setBalances([]);
+      return;
+    }
+    leaveService.getBalances(employeeId, year)
+      .then((list) => {
+        setBalances(list);
+        setAllowances(Object.fromEntries(list.map((balance) => [balance.leaveTypeId, String(balance.allowance)])));
+      })
+      .catch(() => {
+        setBalances([]);
+        toast({
+          title: 'Error',
+          description: 'Failed to load leave balances',
+          variant: 'destructive',
+        });
+      });
+  }, [employeeId, year]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [typeList, employeeResponse] = await Promise.all([
+        leaveService.getLeaveTypes(),
+        userService.getEmployees(),
+      ]);
+      setLeaveTypes(typeList);
+      setEmployees(employeeResponse.data || []);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load leave types',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (type: LeaveType) => {
+    setEditing(type);
+    setForm({
+      name: type.name,
+      code: type.code,
+      yearlyAllowance: type.yearlyAllowance,
+      paid: type.paid,
+      isActive: type.isActive,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = { ...form, code: form.code.trim().toUpperCase() };
+      if (editing) {
+        await leaveService.updateLeaveType(getLeaveTypeId(editing), data);
+      } else {
+        await leaveService.createLeaveType(data);
+      }
+      toast({
+        title: 'Success',
+        description: editing ? 'Leave type updated successfully' : 'Leave type created successfully',
+      });
+      setDialogOpen(false);
+      setLeaveTypes(await leaveService.getLeaveTypes());
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save leave type',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (type: LeaveType, isActive: boolean) => {
+    try {
+      await leaveService.updateLeaveType(getLeaveTypeId(type), { isActive });
+      setLeaveTypes((prev) => prev.map((t) => (getLeaveTypeId(t) === getLeaveTypeId(type) ? { ...t, isActive } : t)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update leave type',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    setDeleteLoading(true);
+    try {
+      await leaveService.deleteLeaveType(getLeaveTypeId(deleting));
+      setLeaveTypes((prev) => prev.filter((t) => getLeaveTypeId(t) !== getLeaveTypeId(deleting)));
+      setDeleting(null);
+      toast({
+        title: 'Success',
+        description: 'Leave type deleted successfully',
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete leave type',
+        variant: 'destructive',
+      });
+    } finally {
+      setDeleteLoading(false);
+    }
+  };
+
+  const handleSaveAllowance = async (balance: LeaveBalance) => {
+    const allowance = Number(allowances[balance.leaveTypeId]);
+    if (!Number.isFinite(allowance) || allowance < 0) {
+      toast({
+        title: 'Error',
+        description: 'Allowance must be zero or more days',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSavingTypeId(balance.leaveTypeId);
+    try {
+      const updated = await leaveService.setAllowance(employeeId, balance.leaveTypeId, year, allowance);
+      setBalances((prev) => prev.map((b) => (b.leaveTypeId === balance.leaveTypeId ? { ...b, ...updated } : b)));
+      toast({
+        title: 'Success',
+        description: `${balance.leaveTypeName} allowance updated`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update allowance',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingTypeId(null);
+    }
+  };
+
+  const currentYear = new Date().getFullYear();
+  const years = [currentYear - 1, currentYear, currentYear + 1];
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-64">
+          <div className="text-center">Loading...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold">Leave Types</h1>
+            <p className="text-muted-foreground">Kinds of leave employees can request and how many days they get each year</p>
+          </div>
+          <Button onClick={openCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Leave Type
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {leaveTypes.map((type) => (
+            <Card key={getLeaveTypeId(type)} className={type.isActive ? '' : 'opacity-60'}>
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between gap-2 text-lg">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Plane className="h-5 w-5 shrink-0" />
+                    <span className="truncate">{type.name}</span>
+                    <Badge variant="outline" className="font-mono">{type.code}</Badge>
+                  </span>
+                  <Switch
+                    checked={type.isActive}
+                    onCheckedChange={(checked) => handleToggleActive(type, checked)}
+                    aria-label={type.isActive ? 'Deactivate leave type' : 'Activate leave type'}
+                  />
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div>{type.yearlyAllowance} days a year</div>
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={type.paid ? 'default' : 'secondary'}>{type.paid ? 'Paid' : 'Unpaid'}</Badge>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openEdit(type)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setDeleting(type)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {leaveTypes.length === 0 && (
+            <div className="col-span-full text-center py-8 text-muted-foreground">
+              No leave types yet. Most factories start with Casual, Sick and Earned leave.
+            </div>
+          )}
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Employee Balances</CardTitle>
+            <CardDescription>
+              Every employee gets each type's yearly allowance; change it here for one employee
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="sm:col-span-2">
+                <Label>Employee</Label>
+                <Select value={employeeId} onValueChange={setEmployeeId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select employee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {employees.map((employee) => (
+                      <SelectItem key={employee._id || employee.id} value={employee._id || employee.id || ''}>
+                        {employee.profile.firstName} {employee.profile.lastName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Year</Label>
+                <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {years.map((y) => (
+                      <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {employeeId && (
+              balances.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b text-left text-muted-foreground">
+                      <tr>
+                        <th className="py-2 pr-4 font-medium">Leave Type</th>
+                        <th className="py-2 pr-4 font-medium">Allowance</th>
+                        <th className="py-2 pr-4 font-medium">Used</th>
+                        <th className="py-2 pr-4 font-medium">Pending</th>
+                        <th className="py-2 pr-4 font-medium">Remaining</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {balances.map((balance) => (
+                        <tr key={balance.leaveTypeId}>
+                          <td className="py-2 pr-4">{balance.leaveTypeName}</td>
+                          <td className="py-2 pr-4">
+                            <Input
+                              type="number"
+                              min={0}
+                              step="0.5"
+                              value={allowances[balance.leaveTypeId] ?? ''}
+                              onChange={(e) => setAllowances((prev) => ({ ...prev, [balance.leaveTypeId]: e.target.value }))}
+                              className="h-8 w-24"
+                            />
+                          </td>
+                          <td className="py-2 pr-4">{balance.used}</td>
+                          <td className="py-2 pr-4">{balance.pending}</td>
+                          <td className="py-2 pr-4 font-medium">{balance.remaining}</td>
+                          <td className="py-2 text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleSaveAllowance(balance)}
+                              disabled={
+                                savingTypeId === balance.leaveTypeId ||
+                                allowances[balance.leaveTypeId] === String(balance.allowance)
+                              }
+                            >
+                              <Save className="h-4 w-4 mr-1" />
+                              Save
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-center py-4 text-muted-foreground">No balances for this employee yet</div>
+              )
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="max-w-lg" aria-describedby="leave-type-form-description">
+            <DialogHeader>
+              <DialogTitle>{editing ? 'Edit Leave Type' : 'Add Leave Type'}</DialogTitle>
+              <DialogDescription id="leave-type-form-description">
+                Changing the allowance applies to every employee without an adjusted balance.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <Label htmlFor="leaveTypeName">Name</Label>
+                  <Input
+                    id="leaveTypeName"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g. Sick Leave"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="leaveTypeCode">Code</Label>
+                  <Input
+                    id="leaveTypeCode"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value })}
+                    placeholder="SL"
+                    maxLength={4}
+                    className="font-mono uppercase"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="yearlyAllowance">Days per year</Label>
+                <Input
+                  id="yearlyAllowance"
+                  type="number"
+                  min={0}
+                  step="0.5"
+                  value={form.yearlyAllowance}
+                  onChange={(e) => setForm({ ...form, yearlyAllowance: Number(e.target.value) })}
+                  required
+                />
+              </div>
+
+              <div className="flex gap-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={form.paid}
+                    onCheckedChange={(checked) => setForm({ ...form, paid: checked })}
+                  />
+                  Paid
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch
+                    checked={form.isActive}
+                    onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                  />
+                  Active
+                </label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={saving}>
+                  {editing ? 'Save Leave Type' : 'Create Leave Type'}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setDialogOpen(false)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <DeleteConfirmDialog
+          open={!!deleting}
+          onOpenChange={(open) => !open && setDeleting(null)}
+          onConfirm={handleDelete}
+          isLoading={deleteLoading}
+          title="Delete Leave Type"
+          description={`Delete "${deleting?.name}"? Leave already taken under it stays on record.`}
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default LeaveTypes;
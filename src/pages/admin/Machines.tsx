@@ -17,6 +17,7 @@ import { Plus, Settings } from 'lucide-react';
 import { machineService } from '@/services/api';
 import { Machine } from '@/types';
 import { toast } from '@/hooks/use-toast';
+import { PrintLabelsButton } from '@/components/labels/PrintLabelsButton';
 
 const Machines = () => {
   const [machines, setMachines] = useState<Machine[]>([]);
@@ -89,10 +90,13 @@ const Machines = () => {
         {/* Machine Management Section */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Settings className="h-5 w-5" />
-              Machines
-            </CardTitle>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Machines
+              </CardTitle>
+              <PrintLabelsButton kind="machine" />
+            </div>
           </CardHeader>
           <CardContent>
             <div className="mb-4">
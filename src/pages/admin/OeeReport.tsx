@@ -0,0 +1,274 @@
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbPage, BreadcrumbSeparator } from '@/components/ui/breadcrumb';
+import { Gauge, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { reportsService } from '@/services/api/reports.service';
+import { factoryService } from '@/services/api/factory.service';
+import { OeeGroupBy, OeeReport as OeeReportData } from '@/types';
+import { formatDateKey, formatWorkHours } from '@/utils/dateUtils';
+
+interface Shift {
+  name: string;
+  startTime: string;
+  endTime: string;
+  isActive: boolean;
+}
+
+const GROUP_BY_LABELS: Record<OeeGroupBy, string> = {
+  machine: 'Machine',
+  process: 'Process',
+  shift: 'Shift',
+  day: 'Day',
+};
+
+const ALL_SHIFTS = 'all';
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+// 85% is the usual world-class OEE benchmark; below 60% is typical of plants with large losses
+const getOeeBadgeClass = (oee: number) => {
+  if (oee >= 0.85) return 'bg-green-600 hover:bg-green-700';
+  if (oee >= 0.6) return 'bg-amber-500 hover:bg-amber-600';
+  return 'bg-red-600 hover:bg-red-700';
+};
+
+export default function OeeReport() {
+  const [startDate, setStartDate] = useState(formatDateKey(subDays(new Date(), 6)));
+  const [endDate, setEndDate] = useState(formatDateKey());
+  const [groupBy, setGroupBy] = useState<OeeGroupBy>('machine');
+  const [shift, setShift] = useState(ALL_SHIFTS);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [report, setReport] = useState<OeeReportData | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    factoryService.getShifts()
+      .then((response) => {
+        const shiftsData: Shift[] = response.data?.shifts || [];
+        setShifts(shiftsData.filter((s) => s.isActive));
+      })
+      .catch((error) => console.error('Failed to load shifts:', error));
+  }, []);
+
+  const loadReport = useCallback(async () => {
+    if (startDate > endDate) {
+      toast.error('Start date must be on or before the end date');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const data = await reportsService.getOeeReport({
+        startDate,
+        endDate,
+        groupBy,
+        shift: shift === ALL_SHIFTS ? undefined : shift,
+      });
+      setReport(data);
+    } catch (error) {
+      console.error('Failed to load OEE report:', error);
+      toast.error('Failed to load OEE report');
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate, groupBy, shift]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const totals = report?.totals;
+  // Worst performers first so the biggest losses are at the top
+  const rows = [...(report?.rows || [])].sort((a, b) => a.oee - b.oee);
+
+  return (
+    <Layout title="OEE Report">
+      <div className="space-y-6">
+        <Breadcrumb>
+          <BreadcrumbList>
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/admin">Admin Dashboard</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbLink href="/admin/reports">Reports</BreadcrumbLink>
+            </BreadcrumbItem>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              <BreadcrumbPage>OEE</BreadcrumbPage>
+            </BreadcrumbItem>
+          </BreadcrumbList>
+        </Breadcrumb>
+
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Overall Equipment Effectiveness</h1>
+            <p className="text-muted-foreground">
+              Availability × performance × quality, built from work entries, process ideal rates and logged downtime
+            </p>
+          </div>
+          <Gauge className="h-8 w-8 text-primary shrink-0" />
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="oeeStart">From</Label>
+                <Input
+                  id="oeeStart"
+                  type="date"
+                  value={startDate}
+                  max={endDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="oeeEnd">To</Label>
+                <Input
+                  id="oeeEnd"
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Group by</Label>
+                <Select value={groupBy} onValueChange={(value) => setGroupBy(value as OeeGroupBy)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(GROUP_BY_LABELS) as OeeGroupBy[]).map((key) => (
+                      <SelectItem key={key} value={key}>{GROUP_BY_LABELS[key]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Shift</Label>
+                <Select value={shift} onValueChange={setShift}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_SHIFTS}>All shifts</SelectItem>
+                    {shifts.map((s) => (
+                      <SelectItem key={s.name} value={s.name}>
+                        {s.name} ({s.startTime} - {s.endTime})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={loadReport} disabled={loading}>
+                {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+                Refresh
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {totals && (
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-muted-foreground">OEE</div>
+                <div className="text-2xl font-bold">{formatPercent(totals.oee)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-muted-foreground">Availability</div>
+                <div className="text-2xl font-bold">{formatPercent(totals.availability)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatWorkHours(totals.runMinutes / 60)} run of {formatWorkHours(totals.plannedMinutes / 60)} planned
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-muted-foreground">Performance</div>
+                <div className="text-2xl font-bold">{formatPercent(totals.performance)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {totals.totalCount} made of {Math.round(totals.idealCount)} at ideal rate
+                </div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-muted-foreground">Quality</div>
+                <div className="text-2xl font-bold">{formatPercent(totals.quality)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {totals.goodCount} good of {totals.totalCount}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>OEE by {GROUP_BY_LABELS[groupBy]}</CardTitle>
+            <CardDescription>
+              Planned time is the shift time machines had work booked; downtime counts unplanned stoppages only
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading && !report ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : rows.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No work entries in this period</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{GROUP_BY_LABELS[groupBy]}</TableHead>
+                      <TableHead className="text-right">Planned</TableHead>
+                      <TableHead className="text-right">Downtime</TableHead>
+                      <TableHead className="text-right">Availability</TableHead>
+                      <TableHead className="text-right">Performance</TableHead>
+                      <TableHead className="text-right">Quality</TableHead>
+                      <TableHead className="text-right">OEE</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell>
+                          <div className="font-medium">{row.label}</div>
+                          <div className="text-xs text-muted-foreground">{row.entries} entries</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatWorkHours(row.plannedMinutes / 60)}</TableCell>
+                        <TableCell className="text-right">{formatWorkHours(row.downtimeMinutes / 60)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.availability)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.performance)}</TableCell>
+                        <TableCell className="text-right">{formatPercent(row.quality)}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge className={getOeeBadgeClass(row.oee)}>{formatPercent(row.oee)}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+}
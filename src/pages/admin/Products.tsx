@@ -27,6 +27,9 @@ import { toast } from '@/hooks/use-toast';
 import { useAuthStore } from '@/stores/authStore';
 import { SortableProcessList } from '@/components/SortableProcessList';
 import { DeleteConfirmDialog } from '@/components/crud/DeleteConfirmDialog';
+import { ProductionOrdersBoard } from '@/components/orders/ProductionOrdersBoard';
+import { PrintLabelsButton } from '@/components/labels/PrintLabelsButton';
+import { ItemImageButton } from '@/components/crud/ItemImageButton';
 import { useDeleteProduct, useDeleteProcess, useCreateProduct, useCreateProcess } from '@/hooks/useApi';
 import { wsService } from '@/services/websocket.service';
 
@@ -577,10 +580,13 @@ const Products = () => {
         {/* Product Management Section */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Package className="h-5 w-5" />
-              Product Management
-            </CardTitle>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Product Management
+              </CardTitle>
+              <PrintLabelsButton kind="product" />
+            </div>
           </CardHeader>
           <CardContent>
             <div className="mb-4">
@@ -768,6 +774,15 @@ const Products = () => {
                         <Eye className="h-4 w-4 mr-1 sm:mr-2" />
                         <span className="sm:inline">View</span>
                       </Button>
+                      <ItemImageButton
+                        kind="product"
+                        itemId={product._id || ''}
+                        imageUrl={product.imageUrl}
+                        className="w-full sm:w-auto"
+                        onUploaded={(imageUrl) =>
+                          setProducts(prev => prev.map(p => (p._id === product._id ? { ...p, imageUrl } : p)))
+                        }
+                      />
                       <Button
                         variant="outline"
                         size="sm"
@@ -785,13 +800,19 @@ const Products = () => {
           </CardContent>
         </Card>
 
+        {/* Production Orders */}
+        <ProductionOrdersBoard products={products} />
+
         {/* Process Management Section */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Settings className="h-5 w-5" />
-              Process Management
-            </CardTitle>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Process Management
+              </CardTitle>
+              <PrintLabelsButton kind="process" />
+            </div>
           </CardHeader>
           <CardContent>
             <div className="mb-4">
@@ -882,15 +903,25 @@ const Products = () => {
                             <div className="font-medium">{process.name}</div>
                           </div>
                         </div>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                          onClick={() => handleDeleteProcess(process)}
-                        >
-                          <Trash2 className="h-4 w-4 mr-1 sm:mr-2" />
-                          <span className="sm:inline">Delete</span>
-                        </Button>
+                        <div className="flex gap-2">
+                          <ItemImageButton
+                            kind="process"
+                            itemId={process._id || ''}
+                            imageUrl={process.imageUrl}
+                            onUploaded={(imageUrl) =>
+                              setProcesses(prev => prev.map(p => (p._id === process._id ? { ...p, imageUrl } : p)))
+                            }
+                          />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={() => handleDeleteProcess(process)}
+                          >
+                            <Trash2 className="h-4 w-4 mr-1 sm:mr-2" />
+                            <span className="sm:inline">Delete</span>
+                          </Button>
+                        </div>
                       </div>
                     ))}
                 </div>
@@ -20,12 +20,21 @@ import {
   TrendingUp,
   BarChart3,
   Activity,
-  Package
+  Package,
+  Plane
 } from 'lucide-react';
-import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from 'date-fns';
+import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, parseISO } from 'date-fns';
 import { useAuthStore } from '@/stores/authStore';
-import { attendanceService, workEntryService, machineService } from '@/services/api';
-import { Attendance, WorkEntry, Machine } from '@/types';
+import { attendanceService, workEntryService, machineService, leaveService } from '@/services/api';
+import { findLeaveOnDate } from '@/services/api/leave.service';
+import { getAttendanceProductionDate, needsRegularization } from '@/services/api/attendance.service';
+import { useProductionDay } from '@/hooks/useProductionDay';
+import { useTranslation } from '@/hooks/useTranslation';
+import { getLocale } from '@/i18n';
+import { Attendance, WorkEntry, Machine, LeaveRequest, AttendanceRegularization } from '@/types';
+import { AttendanceCalendar } from '@/components/attendance/AttendanceCalendar';
+import { RegularizationDialog } from '@/components/attendance/RegularizationDialog';
+import { MyLeaveCard } from '@/components/leave/MyLeaveCard';
 import { formatDate, formatTime, formatHours, formatWorkHours, calculateHours } from '@/utils/dateUtils';
 import { toast } from 'sonner';
 import { wsService } from '@/services/websocket.service';
@@ -85,17 +94,22 @@ const getSafeStringValue = (value: any): string => {
 export default function EmployeeAttendance() {
   const { user } = useAuthStore();
   const navigate = useNavigate();
+  const { language, t, formatNumber } = useTranslation();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [todayAttendance, setTodayAttendance] = useState<Attendance | null>(null);
   const [attendanceHistory, setAttendanceHistory] = useState<Attendance[]>([]);
   const [todayWorkEntries, setTodayWorkEntries] = useState<WorkEntry[]>([]);
   const [machines, setMachines] = useState<Machine[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [regularizations, setRegularizations] = useState<AttendanceRegularization[]>([]);
+  const [fixingAttendance, setFixingAttendance] = useState<Attendance | null>(null);
   const [loading, setLoading] = useState(false);
   const [loadingHistory, setLoadingHistory] = useState(false);
   
   // Filter states
   const [attendanceFilter, setAttendanceFilter] = useState<'weekly' | 'monthly'>('weekly');
   const [activeTab, setActiveTab] = useState('overview');
+  const productionDay = useProductionDay();
 
   useEffect(() => {
     const timer = setInterval(() => {
@@ -121,7 +135,7 @@ export default function EmployeeAttendance() {
       if (attendanceData && typeof attendanceData === 'object' && '_id' in attendanceData) {
         setTodayAttendance(attendanceData);
         // Today attendance loaded
-        toast.success('Today\'s attendance loaded successfully!');
+        toast.success(t('attendance.todayLoaded'));
       } else {
         setTodayAttendance(null);
         // No attendance record for today
@@ -129,9 +143,9 @@ export default function EmployeeAttendance() {
     } catch (error) {
       // Failed to load today attendance
       setTodayAttendance(null);
-      toast.error('Failed to load today\'s attendance');
+      toast.error(t('attendance.todayLoadFailed'));
     }
-  }, [user]);
+  }, [user, t]);
 
   const loadAttendanceHistory = useCallback(async () => {
     try {
@@ -150,7 +164,7 @@ export default function EmployeeAttendance() {
       if (Array.isArray(historyData)) {
         setAttendanceHistory(historyData);
         // Attendance history loaded
-        toast.success(`Loaded ${historyData.length} attendance records`);
+        toast.success(t('attendance.historyLoaded', { count: historyData.length }));
       } else {
         setAttendanceHistory([]);
         // No attendance history found or invalid format
@@ -158,11 +172,11 @@ export default function EmployeeAttendance() {
     } catch (error) {
       // Failed to load attendance history
       setAttendanceHistory([]);
-      toast.error('Failed to load attendance history');
+      toast.error(t('attendance.historyLoadFailed'));
     } finally {
       setLoadingHistory(false);
     }
-  }, [user]);
+  }, [user, t]);
 
 
 
@@ -203,6 +217,30 @@ export default function EmployeeAttendance() {
     }
   }, []);
 
+  // Own leave requests, for the calendar and the Leave tab
+  const loadLeaveRequests = useCallback(async () => {
+    try {
+      const userId = user?.id || user?._id;
+      if (!userId) return;
+
+      setLeaveRequests(await leaveService.getRequests({ employeeId: userId }));
+    } catch (error) {
+      setLeaveRequests([]);
+    }
+  }, [user]);
+
+  // Check-out corrections already asked for
+  const loadRegularizations = useCallback(async () => {
+    try {
+      const userId = user?.id || user?._id;
+      if (!userId) return;
+
+      setRegularizations(await attendanceService.getRegularizations({ employeeId: userId }));
+    } catch (error) {
+      setRegularizations([]);
+    }
+  }, [user]);
+
   // Load today's attendance and history
   useEffect(() => {
     if (user?.id || user?._id) {
@@ -210,8 +248,10 @@ export default function EmployeeAttendance() {
       loadAttendanceHistory();
       loadAllWorkEntries();
       loadMachines();
+      loadLeaveRequests();
+      loadRegularizations();
     }
-  }, [user, loadTodayAttendance, loadAttendanceHistory, loadAllWorkEntries, loadMachines]);
+  }, [user, loadTodayAttendance, loadAttendanceHistory, loadAllWorkEntries, loadMachines, loadLeaveRequests, loadRegularizations]);
 
   // WebSocket listeners for real-time updates
   useEffect(() => {
@@ -296,9 +336,9 @@ export default function EmployeeAttendance() {
   }, [todayWorkEntries]);
 
 
-  // Filter attendance history based on selected period
+  // Filter attendance history based on selected period, by production day so night shifts stay on the day they started
   const filteredAttendanceHistory = useMemo(() => {
-    const now = new Date();
+    const now = parseISO(productionDay.getToday());
     let startDate: Date;
 
     switch (attendanceFilter) {
@@ -312,11 +352,11 @@ export default function EmployeeAttendance() {
         startDate = startOfWeek(now, { weekStartsOn: 1 }); // Default to weekly
     }
 
-    return attendanceHistory.filter(attendance => {
-      const attendanceDate = new Date(attendance.createdAt || attendance.date);
-      return attendanceDate >= startDate;
-    });
-  }, [attendanceHistory, attendanceFilter]);
+    const startKey = format(startDate, 'yyyy-MM-dd');
+    return attendanceHistory.filter(attendance =>
+      getAttendanceProductionDate(attendance, productionDay.shifts) >= startKey
+    );
+  }, [attendanceHistory, attendanceFilter, productionDay]);
 
 
   // Get the latest check-out time from completed work entries
@@ -343,7 +383,7 @@ export default function EmployeeAttendance() {
   };
 
   const getSizeName = (sizeCode: string) => {
-    return 'N/A';
+    return t('common.notAvailable');
   };
 
   // Calculate work hours from attendance (legacy method)
@@ -360,18 +400,19 @@ export default function EmployeeAttendance() {
   };
 
   const isMarked = !!todayAttendance;
+  const todayLeave = findLeaveOnDate(leaveRequests, currentTime);
   const hasCheckedOut = todayAttendance?.checkOut;
   const workHours = todayAttendance ? calculateWorkHours(todayAttendance) : 0;
 
   return (
-    <Layout title="Attendance">
+    <Layout title={t('attendance.title')}>
       <div className="space-y-4 sm:space-y-6 p-2 sm:p-0">
         {/* Header - Responsive */}
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div className="flex-1 min-w-0">
-            <h1 className="text-xl sm:text-2xl font-bold">Attendance & Work Overview</h1>
+            <h1 className="text-xl sm:text-2xl font-bold">{t('attendance.heading')}</h1>
             <p className="text-sm sm:text-base text-muted-foreground">
-              Track your attendance, work hours, and performance
+              {t('attendance.subtitle')}
             </p>
           </div>
         </div>
@@ -381,10 +422,12 @@ export default function EmployeeAttendance() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-primary">
               <Clock className="h-5 w-5" />
-              Current Status - {todayAttendance ? formatDate(todayAttendance.date || todayAttendance.createdAt) : formatDate(currentTime)}
+              {t('attendance.currentStatus', {
+                date: formatDate(parseISO(todayAttendance ? getAttendanceProductionDate(todayAttendance, productionDay.shifts) : productionDay.getDate(currentTime))),
+              })}
             </CardTitle>
             <CardDescription>
-              Real-time status as of {formatTime(currentTime)}
+              {t('attendance.statusAsOf', { time: formatTime(currentTime) })}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -393,20 +436,22 @@ export default function EmployeeAttendance() {
                 <div className="flex items-center justify-center gap-2 mb-2">
                   {isMarked ? (
                     <CheckCircle className="h-6 w-6 sm:h-8 sm:w-8 text-success" />
+                  ) : todayLeave ? (
+                    <Plane className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600" />
                   ) : (
                     <XCircle className="h-6 w-6 sm:h-8 sm:w-8 text-destructive" />
                   )}
                 </div>
                 <p className="text-sm sm:text-base lg:text-lg font-semibold break-words">
-                  {isMarked ? (todayAttendance?.status === 'present' ? 'Present' : 
-                             todayAttendance?.status === 'absent' ? 'Absent' : 
-                             todayAttendance?.status === 'half-day' ? 'Half Day' : 
-                             todayAttendance?.status || 'Present') : 'Not Marked'}
+                  {isMarked ? (todayAttendance?.status === 'present' ? t('common.present') : 
+                             todayAttendance?.status === 'absent' ? t('common.absent') : 
+                             todayAttendance?.status === 'half-day' ? t('common.halfDay') : 
+                             todayAttendance?.status || t('common.present')) : todayLeave ? t('common.onLeave') : t('common.notMarked')}
                 </p>
                 <p className="text-xs sm:text-sm text-gray-700 mt-1">
                   {isMarked && todayAttendance?.checkIn 
-                    ? `Check-in: ${formatTime(todayAttendance.checkIn.time)}`
-                    : 'No check-in today'
+                    ? t('attendance.checkInAt', { time: formatTime(todayAttendance.checkIn.time) })
+                    : todayLeave?.leaveTypeName || t('attendance.noCheckInToday')
                   }
                 </p>
               </div>
@@ -418,7 +463,7 @@ export default function EmployeeAttendance() {
                 <p className="text-xl sm:text-2xl font-bold text-primary">
                   {formatWorkHours(calculateTotalWorkHours)}
                 </p>
-                <p className="text-xs sm:text-sm text-gray-700">Total Hours</p>
+                <p className="text-xs sm:text-sm text-gray-700">{t('attendance.totalHours')}</p>
               </div>
               
               <div className="text-center p-3 sm:p-4 bg-white rounded-lg shadow-sm">
@@ -426,9 +471,9 @@ export default function EmployeeAttendance() {
                   <Target className="h-6 w-6 sm:h-8 sm:w-8 text-green-600" />
                 </div>
                 <p className="text-xl sm:text-2xl font-bold text-green-600">
-                  {calculateTotalProduction.achieved}
+                  {formatNumber(calculateTotalProduction.achieved)}
                 </p>
-                <p className="text-xs sm:text-sm text-gray-700">Achieved</p>
+                <p className="text-xs sm:text-sm text-gray-700">{t('attendance.achieved')}</p>
               </div>
               
               <div className="text-center p-3 sm:p-4 bg-white rounded-lg shadow-sm">
@@ -436,38 +481,38 @@ export default function EmployeeAttendance() {
                   <BarChart3 className="h-6 w-6 sm:h-8 sm:w-8 text-orange-600" />
                 </div>
                 <p className="text-xl sm:text-2xl font-bold text-orange-600">
-                  {todayWorkEntries.length}
+                  {formatNumber(todayWorkEntries.length)}
                 </p>
-                <p className="text-xs sm:text-sm text-gray-700">Work Entries</p>
+                <p className="text-xs sm:text-sm text-gray-700">{t('attendance.workEntries')}</p>
               </div>
             </div>
           </CardContent>
         </Card>
 
         {/* Automatic Attendance Notice */}
-        {!isMarked && (
+        {!isMarked && !todayLeave && (
           <Card className="shadow-md border-blue-200 bg-gradient-to-r from-blue-50 to-cyan-50">
             <CardHeader>
               <CardTitle className="flex items-center gap-2 text-blue-800">
                 <MapPin className="h-5 w-5" />
-                Automatic Attendance System
+                {t('attendance.autoTitle')}
               </CardTitle>
               <CardDescription className="text-blue-700">
-                Your attendance is automatically marked when you start work from the Dashboard
+                {t('attendance.autoHint')}
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="text-center py-4">
                 <div className="bg-white rounded-lg p-4 mb-4">
                   <p className="text-blue-700 mb-3">
-                    To mark attendance, go to the <strong>Dashboard</strong> tab and click "Start Work & Mark Attendance"
+                    {t('attendance.autoInstructions')}
                   </p>
                   <Button 
                     onClick={() => navigate('/employee/')}
                     variant="outline"
                     className="border-blue-300 text-blue-700 hover:bg-blue-100"
                   >
-                    Go to Dashboard
+                    {t('common.goToDashboard')}
                   </Button>
                 </div>
               </div>
@@ -477,16 +522,20 @@ export default function EmployeeAttendance() {
 
         {/* Main Content Tabs - Responsive */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="overview" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm">
               <Activity className="h-3 w-3 sm:h-4 sm:w-4" />
-              <span className="hidden sm:inline">Overview</span>
-              <span className="sm:hidden">Overview</span>
+              <span className="hidden sm:inline">{t('attendance.tabOverview')}</span>
+              <span className="sm:hidden">{t('attendance.tabOverview')}</span>
             </TabsTrigger>
             <TabsTrigger value="attendance-history" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm">
               <Calendar className="h-3 w-3 sm:h-4 sm:w-4" />
-              <span className="hidden sm:inline">Attendance</span>
-              <span className="sm:hidden">Attend.</span>
+              <span className="hidden sm:inline">{t('attendance.tabAttendance')}</span>
+              <span className="sm:hidden">{t('attendance.tabAttendanceShort')}</span>
+            </TabsTrigger>
+            <TabsTrigger value="leave" className="flex items-center gap-1 sm:gap-2 text-xs sm:text-sm">
+              <Plane className="h-3 w-3 sm:h-4 sm:w-4" />
+              {t('attendance.tabLeave')}
             </TabsTrigger>
           </TabsList>
 
@@ -499,10 +548,10 @@ export default function EmployeeAttendance() {
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
                     <Target className="h-4 w-4 sm:h-5 sm:w-5" />
-                    Today's Work Entries
+                    {t('attendance.todayEntries')}
                   </CardTitle>
                   <CardDescription className="text-xs sm:text-sm">
-                    All work entries for today ({todayWorkEntries.length} total)
+                    {t('attendance.todayEntriesHint', { count: todayWorkEntries.length })}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -517,42 +566,42 @@ export default function EmployeeAttendance() {
                           <div key={entry._id || index} className="p-3 sm:p-4 border rounded-lg bg-gradient-to-r from-gray-50 to-white hover:shadow-md transition-shadow">
                             {/* Header with entry number and status */}
                             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-3 gap-2">
-                              <span className="font-medium text-base sm:text-lg">Work Entry #{index + 1}</span>
+                              <span className="font-medium text-base sm:text-lg">{t('attendance.entryNumber', { number: index + 1 })}</span>
                               <Badge 
                                 variant={entry.achieved > 0 || entry.rejected > 0 ? "default" : "secondary"}
                                 className="text-xs w-fit"
                               >
-                                {entry.achieved > 0 || entry.rejected > 0 ? "Completed" : "In Progress"}
+                                {entry.achieved > 0 || entry.rejected > 0 ? t('common.completed') : t('common.inProgress')}
                               </Badge>
                             </div>
                             
                             {/* Responsive grid - stacks on mobile */}
                             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 sm:gap-3 text-xs sm:text-sm">
                               <div className="bg-white p-2 rounded border">
-                                <span className="text-gray-700">Machine:</span> <span className="font-medium text-gray-900">{getMachineName(entry.machineCode || '')}</span>
+                                <span className="text-gray-700">{t('attendance.machine')}</span> <span className="font-medium text-gray-900">{getMachineName(entry.machineCode || '')}</span>
                               </div>
                               <div className="bg-white p-2 rounded border">
-                                <span className="text-gray-700">Target:</span> <span className="font-medium text-gray-900">{entry.targetQuantity}</span>
+                                <span className="text-gray-700">{t('attendance.target')}</span> <span className="font-medium text-gray-900">{formatNumber(entry.targetQuantity)}</span>
                               </div>
                               <div className="bg-white p-2 rounded border">
-                                <span className="text-gray-700">Started:</span> <span className="font-medium text-gray-900">{entry.startTime ? formatTime(entry.startTime) : 'N/A'}</span>
+                                <span className="text-gray-700">{t('attendance.started')}</span> <span className="font-medium text-gray-900">{entry.startTime ? formatTime(entry.startTime) : t('common.notAvailable')}</span>
                               </div>
                               <div className="bg-white p-2 rounded border">
-                                <span className="text-gray-700">Ended:</span> <span className="font-medium text-gray-900">{(entry.achieved > 0 || entry.rejected > 0) ? formatTime(entry.endTime) : 'In Progress'}</span>
+                                <span className="text-gray-700">{t('attendance.ended')}</span> <span className="font-medium text-gray-900">{(entry.achieved > 0 || entry.rejected > 0) ? formatTime(entry.endTime) : t('common.inProgress')}</span>
                               </div>
                               {entry.endTime && entry.startTime && (
                                 <div className="bg-blue-50 p-2 rounded border border-blue-200">
-                                  <span className="text-blue-700 font-medium">Duration:</span> <span className="font-semibold">{duration}</span>
+                                  <span className="text-blue-700 font-medium">{t('attendance.duration')}</span> <span className="font-semibold">{duration}</span>
                                 </div>
                               )}
                               {entry.achieved && (
                                 <div className="bg-green-50 p-2 rounded border border-green-200">
-                                  <span className="text-green-700 font-medium">Achieved:</span> <span className="font-semibold">{entry.achieved}</span>
+                                  <span className="text-green-700 font-medium">{t('attendance.achievedLabel')}</span> <span className="font-semibold">{formatNumber(entry.achieved)}</span>
                                 </div>
                               )}
                               {entry.rejected && (
                                 <div className="bg-red-50 p-2 rounded border border-red-200">
-                                  <span className="text-red-700 font-medium">Rejected:</span> <span className="font-semibold">{entry.rejected}</span>
+                                  <span className="text-red-700 font-medium">{t('attendance.rejectedLabel')}</span> <span className="font-semibold">{formatNumber(entry.rejected)}</span>
                                 </div>
                               )}
                             </div>
@@ -563,8 +612,8 @@ export default function EmployeeAttendance() {
                   ) : (
                     <div className="text-center py-8">
                       <Target className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                      <p className="text-lg font-medium text-muted-foreground">No work entries for today</p>
-                      <p className="text-sm text-muted-foreground">Start your first work entry from the Dashboard</p>
+                      <p className="text-lg font-medium text-muted-foreground">{t('attendance.noEntriesToday')}</p>
+                      <p className="text-sm text-muted-foreground">{t('attendance.startFromDashboard')}</p>
                     </div>
                   )}
                 </CardContent>
@@ -574,16 +623,31 @@ export default function EmployeeAttendance() {
 
           {/* Attendance History Tab */}
           <TabsContent value="attendance-history" className="space-y-6">
+            <Card className="shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+                  <Calendar className="h-4 w-4 sm:h-5 sm:w-5" />
+                  {t('attendance.calendar')}
+                </CardTitle>
+                <CardDescription className="text-xs sm:text-sm">
+                  {t('attendance.calendarHint')}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AttendanceCalendar attendance={attendanceHistory} leaveRequests={leaveRequests} />
+              </CardContent>
+            </Card>
+
             <Card className="shadow-lg">
               <CardHeader>
                 <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
                   <div className="flex-1">
                     <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
                       <Calendar className="h-4 w-4 sm:h-5 sm:w-5" />
-                      Attendance History
+                      {t('attendance.history')}
                     </CardTitle>
                     <CardDescription className="text-xs sm:text-sm">
-                      Your attendance records with work hours
+                      {t('attendance.historyHint')}
                     </CardDescription>
                   </div>
                   <div className="flex items-center gap-2">
@@ -593,8 +657,8 @@ export default function EmployeeAttendance() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="weekly">Weekly</SelectItem>
-                        <SelectItem value="monthly">Monthly</SelectItem>
+                        <SelectItem value="weekly">{t('attendance.weekly')}</SelectItem>
+                        <SelectItem value="monthly">{t('attendance.monthly')}</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -604,29 +668,33 @@ export default function EmployeeAttendance() {
                 {loadingHistory ? (
                   <div className="flex items-center justify-center py-8">
                     <Loader2 className="h-6 w-6 animate-spin mr-2" />
-                    <span>Loading attendance history...</span>
+                    <span>{t('attendance.loadingHistory')}</span>
                   </div>
                 ) : filteredAttendanceHistory.length > 0 ? (
                   <div className="overflow-x-auto">
                     <table className="w-full">
                       <thead className="bg-gray-50 border-b">
                         <tr>
-                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
-                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Day</th>
-                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Check-in</th>
-                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Check-out</th>
-                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Work Hours</th>
-                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.date')}</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.day')}</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.checkIn')}</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.checkOut')}</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.workHours')}</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('attendance.status')}</th>
                         </tr>
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
                         {filteredAttendanceHistory
-                          .sort((a, b) => new Date(b.date || b.createdAt).getTime() - new Date(a.date || a.createdAt).getTime())
+                          .sort((a, b) => new Date(b.checkIn?.time || b.createdAt).getTime() - new Date(a.checkIn?.time || a.createdAt).getTime())
                           .map((attendance, index) => {
-                            const attendanceDate = new Date(attendance.date || attendance.createdAt);
+                            const attendanceDate = parseISO(getAttendanceProductionDate(attendance, productionDay.shifts));
                             const checkInTime = attendance.checkIn?.time ? new Date(attendance.checkIn.time) : null;
                             const checkOutTime = attendance.checkOut?.time ? new Date(attendance.checkOut.time) : null;
                             const status = attendance.status || 'present';
+                            const leave = status === 'absent' ? findLeaveOnDate(leaveRequests, attendanceDate) : undefined;
+                            const pendingCorrection = regularizations.some((r) =>
+                              r.attendanceId === attendance._id && r.status === 'pending'
+                            );
                             
                             // Extract workHours from API (handle both string and number)
                             let workHours: number | null = null;
@@ -652,10 +720,9 @@ export default function EmployeeAttendance() {
                                 workHours = calculated; // Even if 0, use calculated for consistency
                               }
                             } else if (checkInTime && !checkOutTime) {
-                              // If no checkout time but it's today, calculate from checkin to now
+                              // If no checkout time but it's today's production day, calculate from checkin to now
                               const today = new Date();
-                              const checkInDate = new Date(checkInTime);
-                              const isToday = checkInDate.toDateString() === today.toDateString();
+                              const isToday = getAttendanceProductionDate(attendance, productionDay.shifts) === productionDay.getToday();
                               if (isToday) {
                                 const calculated = calculateHours(checkInTime, today);
                                 // Use calculated value if API workHours is missing/invalid/zero
@@ -671,25 +738,43 @@ export default function EmployeeAttendance() {
                                   {formatDate(attendanceDate)}
                                 </td>
                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
-                                  {attendanceDate.toLocaleDateString('en-US', { weekday: 'long' })}
+                                  {attendanceDate.toLocaleDateString(getLocale(language), { weekday: 'long' })}
                                 </td>
                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                   {checkInTime ? formatTime(checkInTime) : '-'}
                                 </td>
                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
-                                  {checkOutTime ? formatTime(checkOutTime) : 'On duty'}
+                                  {checkOutTime ? formatTime(checkOutTime) : needsRegularization(attendance) ? t('attendance.missed') : t('attendance.onDuty')}
+                                  {attendance.checkOut?.regularizationId ? (
+                                    <div className="text-xs text-blue-600">{t('attendance.regularized')}</div>
+                                  ) : attendance.checkOut?.autoClosed && (
+                                    <div className="text-xs text-orange-600">{t('attendance.autoClosed')}</div>
+                                  )}
+                                  {pendingCorrection ? (
+                                    <div className="text-xs text-muted-foreground">{t('attendance.correctionPending')}</div>
+                                  ) : needsRegularization(attendance) && (
+                                    <Button
+                                      size="sm"
+                                      variant="link"
+                                      className="h-auto p-0 text-xs"
+                                      onClick={() => setFixingAttendance(attendance)}
+                                    >
+                                      {t('attendance.fixCheckOut')}
+                                    </Button>
+                                  )}
                                 </td>
                                 <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 font-medium">
                                   {workHours !== null && workHours !== undefined && !isNaN(workHours) ? formatWorkHours(workHours) : '-'}
                                 </td>
                                 <td className="px-4 py-3 whitespace-nowrap">
                                   <Badge 
-                                    variant={status === 'present' ? 'default' : status === 'absent' ? 'destructive' : 'secondary'}
+                                    variant={leave ? 'outline' : status === 'present' ? 'default' : status === 'absent' ? 'destructive' : 'secondary'}
                                     className="text-xs"
                                   >
-                                    {status === 'present' ? 'Present' : 
-                                     status === 'absent' ? 'Absent' : 
-                                     status === 'half-day' ? 'Half Day' : 'Present'}
+                                    {leave ? (leave.leaveTypeName ? t('common.onLeaveWithType', { type: leave.leaveTypeName }) : t('common.onLeave')) :
+                                     status === 'present' ? t('common.present') : 
+                                     status === 'absent' ? t('common.absent') : 
+                                     status === 'half-day' ? t('common.halfDay') : t('common.present')}
                                   </Badge>
                                 </td>
                               </tr>
@@ -701,15 +786,26 @@ export default function EmployeeAttendance() {
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
                     <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p>No attendance records found for selected period</p>
-                    <p className="text-sm">Your attendance history will appear here</p>
+                    <p>{t('attendance.noRecords')}</p>
+                    <p className="text-sm">{t('attendance.historyEmpty')}</p>
                   </div>
                 )}
               </CardContent>
             </Card>
           </TabsContent>
 
+          {/* Leave Tab */}
+          <TabsContent value="leave" className="space-y-6">
+            <MyLeaveCard requests={leaveRequests} onChange={loadLeaveRequests} />
+          </TabsContent>
+
         </Tabs>
+
+        <RegularizationDialog
+          attendance={fixingAttendance}
+          onClose={() => setFixingAttendance(null)}
+          onSubmitted={loadRegularizations}
+        />
       </div>
     </Layout>
   );
@@ -1,4 +1,5 @@
-import { useEffect, useState, useMemo, useCallback } from 'react';
+import { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import { addDays, format } from 'date-fns';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,10 +9,15 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { attendanceService, workEntryService, processService, machineService, factoryService, productService } from '@/services/api';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { attendanceService, workEntryService, processService, machineService, factoryService, productService, rosterService, orderService, lotService } from '@/services/api';
 import { apiClient } from '@/services/api/client';
 
-import { Attendance, Process, Machine, WorkEntry, Product } from '@/types';
+import { Attendance, CheckInMode, CheckInRisk, Process, Machine, WorkEntry, Product, RosterAssignment, ProductionOrder, Lot, LotConsumption } from '@/types';
+import { checkInNeedsGateCode, checkInNeedsGps, getCheckInMode, getShiftAt } from '@/services/api/attendance.service';
+import { getConsumedTotal, getLotConsumption, getOldestFirstConsumption } from '@/services/api/lot.service';
+import { BOOKABLE_ORDER_STATUSES, getOrderId, sortOrdersByUrgency } from '@/services/api/order.service';
+import { assessCheckInRisk } from '@/services/checkInRisk.service';
 
 interface Shift {
   name: string;
@@ -35,15 +41,35 @@ import {
 import { toast } from 'sonner';
 import { useAuthStore } from '@/stores/authStore';
 import { useNavigate } from 'react-router-dom';
-import { formatDate, formatTime, formatHours, formatWorkHours, calculateHours } from '@/utils/dateUtils';
+import { formatDate, formatTime, formatHours, formatWorkHours, calculateHours, getProductionDate, getProductionDayRange } from '@/utils/dateUtils';
 import { PWAInstallPrompt } from '@/components/PWAInstallPrompt';
 import { CameraCapture } from '@/components/CameraCapture';
-import { wsService } from '@/services/websocket.service';
+import { PendingSyncSubmissions } from '@/components/employee/PendingSyncSubmissions';
+import { MachineDowntimeCard } from '@/components/employee/MachineDowntimeCard';
+import { MyRosterCard } from '@/components/employee/MyRosterCard';
+import { ScanLabelButton } from '@/components/employee/ScanLabelButton';
+import { SimpleEmployeeMode } from '@/components/employee/SimpleEmployeeMode';
+import { LotConsumptionInput } from '@/components/lots/LotConsumptionInput';
+import { resolveScanCode } from '@/services/api/label.service';
+import { wsService, WSTopic, ProductionDataUpdatedPayload, WorkEntrySubmittedPayload } from '@/services/websocket.service';
+import { syncService, isNetworkError, QueuedProductionSubmission } from '@/services/syncService';
+import { fileUploadService } from '@/services/fileUpload.service';
+import { useOfflineStore, generateClientKey } from '@/stores/offlineStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useTenant } from '@/contexts/TenantContext';
+import { getLocale } from '@/i18n';
+
+const NO_ORDER = 'none';
 
 export default function EmployeeDashboard() {
-  const { user, updateUser, refreshUser, isAuthenticated } = useAuthStore();
+  const { user, updateUser, refreshUser, isAuthenticated, deviceId } = useAuthStore();
   const navigate = useNavigate();
+  const { language, t, formatNumber } = useTranslation();
+  // Day boundaries are on the factory's clock, so the memos below recompute once its zone loads
+  const { timezone } = useTenant();
+  const formatHoursValue = (hours: number) => formatNumber(hours, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
   const [attendance, setAttendance] = useState<Attendance | null>(null);
+  const isOnline = useOfflineStore((state) => state.isOnline);
   const [machines, setMachines] = useState<Machine[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [processes, setProcesses] = useState<Process[]>([]);
@@ -54,8 +80,18 @@ export default function EmployeeDashboard() {
   const [selectedProcess, setSelectedProcess] = useState('');
   const [achievedQuantity, setAchievedQuantity] = useState('');
   const [rejectedQuantity, setRejectedQuantity] = useState('');
+  const [orders, setOrders] = useState<ProductionOrder[]>([]);
+  const [selectedOrder, setSelectedOrder] = useState(NO_ORDER);
+  const [lotNumber, setLotNumber] = useState('');
+  const [availableLots, setAvailableLots] = useState<Lot[]>([]);
+  const [consumedLots, setConsumedLots] = useState<LotConsumption[]>([]);
   const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
   const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [checkInMode, setCheckInMode] = useState<CheckInMode>('gps');
+  const [isGateScanOpen, setIsGateScanOpen] = useState(false);
+  const [rosterAssignments, setRosterAssignments] = useState<RosterAssignment[]>([]);
+  // Rostered defaults are applied once, so the employee can still change them
+  const rosterDefaultsApplied = useRef(false);
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -152,6 +188,12 @@ export default function EmployeeDashboard() {
     return filtered;
   }, [selectedProduct, products, processes]);
 
+  // The first stage starts a lot; later stages take pieces from the previous stage's lots
+  const isFirstStageSelected = useMemo(() => {
+    const product = products.find(p => String(p._id) === String(selectedProduct));
+    return product?.processes?.find(p => String(p?.processId) === String(selectedProcess))?.order === 1;
+  }, [products, selectedProduct, selectedProcess]);
+
   // Clear process selection when product changes
   useEffect(() => {
     if (selectedProduct) {
@@ -239,8 +281,69 @@ export default function EmployeeDashboard() {
     }
   }, [selectedMachine, machines]);
 
+  // Upcoming roster for the next seven days, from yesterday for a night shift still running after midnight
+  useEffect(() => {
+    if (!user) return;
+    const today = new Date();
+    rosterService.getMyRoster(format(addDays(today, -1), 'yyyy-MM-dd'), format(addDays(today, 6), 'yyyy-MM-dd'))
+      .then(setRosterAssignments)
+      .catch((error) => console.error('Failed to load roster:', error));
+  }, [user]);
+
+  // A night shift is still "today" after midnight
+  const upcomingRosterAssignments = useMemo(() => {
+    const productionDate = getProductionDate(new Date(), shifts, timezone);
+    return rosterAssignments.filter((assignment) => assignment.date >= productionDate);
+  }, [rosterAssignments, shifts, timezone]);
+
+  const todayRosterAssignment = useMemo(
+    () => upcomingRosterAssignments.find((assignment) => assignment.date === getProductionDate(new Date(), shifts, timezone)),
+    [upcomingRosterAssignments, shifts, timezone]
+  );
+
+  // Check-in defaults to the shift, process and machine the supervisor rostered for today
+  useEffect(() => {
+    if (rosterDefaultsApplied.current || !todayRosterAssignment || attendance) return;
+    if (products.length === 0 || shifts.length === 0) return;
+    rosterDefaultsApplied.current = true;
+
+    if (shifts.some(s => s.name === todayRosterAssignment.shiftName)) {
+      setSelectedShift(todayRosterAssignment.shiftName);
+    }
+    if (todayRosterAssignment.machineId && machines.some(m => String(m._id) === todayRosterAssignment.machineId)) {
+      setSelectedMachine(todayRosterAssignment.machineId);
+    }
+
+    // The process is picked through its product; saving it first lets the restore effect select it once the product changes
+    const product = products.find(p =>
+      (p.processes || []).some(pp => pp != null && String(pp.processId) === todayRosterAssignment.processId)
+    );
+    if (product) {
+      saveSelectionToStorage('employee_selected_process', todayRosterAssignment.processId);
+      setSelectedProduct(String(product._id));
+      setSelectedProcess(todayRosterAssignment.processId);
+    }
+  }, [todayRosterAssignment, attendance, products, shifts, machines]);
+
+  // Simple mode has no shift picker: book to the shift checked in for, else the rostered one, else the one running now
+  useEffect(() => {
+    if (!user?.simpleMode || shifts.length === 0) return;
+    const shiftName = attendance?.shiftName || todayRosterAssignment?.shiftName || getShiftAt(new Date(), shifts)?.name;
+    if (shiftName && shifts.some(s => s.name === shiftName)) {
+      setSelectedShift(shiftName);
+    }
+  }, [user?.simpleMode, attendance?.shiftName, todayRosterAssignment, shifts]);
+
   // Location tracking removed for now - will be implemented later
 
+  // The factory decides whether check-in needs GPS, the gate QR code or both
+  useEffect(() => {
+    if (!user?.factoryId) return;
+    factoryService.getFactory(user.factoryId)
+      .then((response) => setCheckInMode(getCheckInMode(response.data)))
+      .catch((error) => console.error('Failed to load check-in method:', error));
+  }, [user?.factoryId]);
+
 
   // Set initializing to false after authentication is complete
   useEffect(() => {
@@ -612,6 +715,51 @@ export default function EmployeeDashboard() {
       }, 500);
     };
 
+    // Production events carry the changed stage totals - patch the selected stage instead of refetching
+    const handleProductionDataUpdate = (update: ProductionDataUpdatedPayload) => {
+      if (!update?.stages) {
+        handleProductionUpdate();
+        return;
+      }
+
+      const stage = update.stages.find(s => s.processId === selectedProcess && s.productId === selectedProduct);
+      if (!stage) return;
+
+      setProcessQuantityStatus((prev: typeof processQuantityStatus) => ({
+        ...prev,
+        availableQuantity: stage.availableQuantity,
+        totalAchieved: stage.achievedQuantity,
+        totalRejected: stage.rejectedQuantity,
+        ...(stage.isLocked !== undefined ? { isLocked: stage.isLocked } : {}),
+        ...(stage.remainingQuantity !== undefined ? { remainingQuantity: stage.remainingQuantity } : {})
+      }));
+    };
+
+    // Own entries are merged into today's list; other employees' entries only move stage totals,
+    // which arrive through production_data_updated
+    const userId = user.id || user._id;
+    const handleWorkEntryEvent = (event: WorkEntrySubmittedPayload) => {
+      if (!event?.employeeId) {
+        handleProductionUpdate();
+        return;
+      }
+      if (event.employeeId !== userId) return;
+
+      const incoming = event.workEntry;
+      if (!incoming) {
+        handleProductionUpdate();
+        return;
+      }
+
+      const incomingId = incoming._id || incoming.id;
+      setAllWorkEntries(prev => {
+        const exists = prev.some(entry => (entry._id || entry.id) === incomingId);
+        return exists
+          ? prev.map(entry => ((entry._id || entry.id) === incomingId ? { ...entry, ...incoming } : entry))
+          : [...prev, incoming];
+      });
+    };
+
     // Debounced handler for product/process updates (less critical, can batch)
     let productProcessDebounceTimer: NodeJS.Timeout | null = null;
     const handleProductProcessUpdate = () => {
@@ -631,9 +779,21 @@ export default function EmployeeDashboard() {
       wsService.subscribe('process_created', handleProductProcessUpdate),
       wsService.subscribe('process_updated', handleProductProcessUpdate),
       wsService.subscribe('process_deleted', handleProductProcessUpdate),
-      wsService.subscribe('production_data_updated', handleProductionUpdate),
-      wsService.subscribe('work_entry_submitted', handleProductionUpdate),
-      wsService.subscribe('work_entry_validated', handleProductionUpdate)
+      wsService.subscribe('production_data_updated', handleProductionDataUpdate),
+      wsService.subscribe('work_entry_submitted', handleWorkEntryEvent),
+      wsService.subscribe('work_entry_validated', handleWorkEntryEvent),
+      // Events missed while disconnected could not be replayed
+      wsService.subscribe('sync_required', handleProductionUpdate),
+      // Production queued while offline reconciles like any other production update once the server answers
+      syncService.onItemSettled((item, outcome) => {
+        if (item.type !== 'work_entry') return;
+        if (outcome === 'synced') {
+          apiClient.clearCache('/work-entries/employee/');
+          handleProductionUpdate();
+        } else {
+          toast.error(t('dashboard.queuedRejected', { message: item.lastError?.message || t('common.unknownError') }));
+        }
+      })
     ];
 
     return () => {
@@ -646,7 +806,16 @@ export default function EmployeeDashboard() {
         clearTimeout(productProcessDebounceTimer);
       }
     };
-  }, [user, loadDashboardData, selectedProcess, selectedProduct]);
+  }, [user, loadDashboardData, selectedProcess, selectedProduct, t]);
+
+  // Scope production events to the product/process being worked on
+  useEffect(() => {
+    const topics: WSTopic[] = [];
+    if (selectedProduct) topics.push({ kind: 'product', id: selectedProduct });
+    if (selectedProcess) topics.push({ kind: 'process', id: selectedProcess });
+    if (topics.length === 0) return;
+    return wsService.subscribeTopics(topics);
+  }, [selectedProduct, selectedProcess]);
 
   // Load quantity status when process or product is selected
   useEffect(() => {
@@ -663,6 +832,27 @@ export default function EmployeeDashboard() {
     setRejectedQuantity('');
   }, [selectedProduct, selectedProcess, selectedMachine]);
 
+  // Load the orders the work can be booked against when the product changes
+  useEffect(() => {
+    setSelectedOrder(NO_ORDER);
+    if (selectedProduct) {
+      loadOrders(selectedProduct);
+    } else {
+      setOrders([]);
+    }
+  }, [selectedProduct]);
+
+  // Load the previous-stage lots when the stage changes
+  useEffect(() => {
+    setLotNumber('');
+    setConsumedLots([]);
+    if (selectedProduct && selectedProcess) {
+      loadAvailableLots(selectedProduct, selectedProcess);
+    } else {
+      setAvailableLots([]);
+    }
+  }, [selectedProduct, selectedProcess]);
+
   // All products are shown - no filtering based on process
   // Products are filtered by factory at the backend level
 
@@ -735,26 +925,26 @@ export default function EmployeeDashboard() {
   // Helper function to get product name by ID
   const getProductNameById = (productId: string) => {
     const product = products.find(p => p._id === productId);
-    return product?.name || 'Unknown Product';
+    return product?.name || t('dashboard.unknownProduct');
   };
 
   // Helper function to get process name by ID
   const getProcessNameById = (processId: string) => {
     const process = processes.find(p => p._id === processId);
-    return process?.name || 'Unknown Process';
+    return process?.name || t('dashboard.unknownProcess');
   };
 
   // Helper function to get machine name by ID
   const getMachineNameById = (machineId: string) => {
-    if (!machineId) return 'Not selected';
+    if (!machineId) return t('dashboard.notSelected');
     
     const machine = machines.find(m => m._id === machineId);
     if (!machine) {
       // Machine not found for ID
       // Available machines debug info removed
-      return 'Unknown Machine';
+      return t('dashboard.unknownMachine');
     }
-    return machine.name || 'Unknown Machine';
+    return machine.name || t('dashboard.unknownMachine');
   };
 
   const getCurrentShift = () => {
@@ -840,6 +1030,27 @@ export default function EmployeeDashboard() {
     }
   };
 
+  const loadOrders = async (productId: string) => {
+    try {
+      const productOrders = await orderService.getOrders({ productId, status: BOOKABLE_ORDER_STATUSES });
+      setOrders(sortOrdersByUrgency(productOrders));
+    } catch (error) {
+      // Orders are optional; the entry can still be booked against the product
+      console.error('Failed to load production orders:', error);
+      setOrders([]);
+    }
+  };
+
+  const loadAvailableLots = async (productId: string, processId: string) => {
+    try {
+      setAvailableLots(await lotService.getAvailableLots(productId, processId));
+    } catch (error) {
+      // Without lots the entry still books against the stage; traceability just has a gap
+      console.error('Failed to load lots:', error);
+      setAvailableLots([]);
+    }
+  };
+
   // Calculate total work hours - prioritize attendance.workHours from backend, then work entries, then check-in/check-out times
   const calculateTotalWorkHours = useMemo(() => {
     // First, check if attendance has workHours calculated by backend (after check-out)
@@ -849,9 +1060,7 @@ export default function EmployeeDashboard() {
     
     // Second, calculate from work entries
     let totalHours = 0;
-    const today = new Date();
-    const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 0, 0, 0, 0);
-    const todayEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999);
+    const { start: todayStart, end: todayEnd } = getProductionDayRange(getProductionDate(new Date(), shifts, timezone), shifts, timezone);
     
     allWorkEntries.forEach(entry => {
       // Use startTime if available, otherwise fallback to createdAt
@@ -860,7 +1069,7 @@ export default function EmployeeDashboard() {
         : (entry.createdAt ? new Date(entry.createdAt) : null);
       
       // Only count entries from today
-      if (entryDate && entryDate >= todayStart && entryDate <= todayEnd) {
+      if (entryDate && entryDate >= todayStart && entryDate < todayEnd) {
         if (entry.startTime && entry.endTime) {
           const startTime = new Date(entry.startTime);
           const endTime = entry.endTime ? new Date(entry.endTime) : new Date();
@@ -895,17 +1104,15 @@ export default function EmployeeDashboard() {
     }
 
     return 0;
-  }, [attendance, allWorkEntries]);
+  }, [attendance, allWorkEntries, shifts, timezone]);
 
   // Calculate total achieved and rejected quantities for the day
   const calculateTotalProduction = useMemo(() => {
     let totalAchieved = 0;
     let totalRejected = 0;
     
-    // Filter to today's entries only
-    const today = new Date();
-    const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 0, 0, 0, 0);
-    const todayEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999);
+    // Filter to today's entries only; the production day keeps a night shift's entries together
+    const { start: todayStart, end: todayEnd } = getProductionDayRange(getProductionDate(new Date(), shifts, timezone), shifts, timezone);
     
     allWorkEntries.forEach(entry => {
       // Use startTime if available, otherwise fallback to createdAt
@@ -914,7 +1121,7 @@ export default function EmployeeDashboard() {
         : (entry.createdAt ? new Date(entry.createdAt) : null);
       
       // Only count entries from today
-      if (entryDate && entryDate >= todayStart && entryDate <= todayEnd) {
+      if (entryDate && entryDate >= todayStart && entryDate < todayEnd) {
         if (entry.achieved) {
           totalAchieved += entry.achieved;
         }
@@ -929,14 +1136,12 @@ export default function EmployeeDashboard() {
       rejected: totalRejected,
       total: totalAchieved + totalRejected
     };
-  }, [allWorkEntries]);
+  }, [allWorkEntries, shifts, timezone]);
 
   // Get unique machines from today's work entries
   const getTodayWorkSummary = useMemo(() => {
     // Use consistent date filtering with backend - match startTime (preferred) or createdAt
-    const today = new Date();
-    const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 0, 0, 0, 0);
-    const todayEnd = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999);
+    const { start: todayStart, end: todayEnd } = getProductionDayRange(getProductionDate(new Date(), shifts, timezone), shifts, timezone);
     
     // Filter entries by startTime (preferred) or createdAt (fallback) to match backend logic
     const todayEntries = allWorkEntries.filter(entry => {
@@ -948,7 +1153,7 @@ export default function EmployeeDashboard() {
       if (!entryDate) return false;
       
       // Compare dates (ignore time for day comparison)
-      return entryDate >= todayStart && entryDate <= todayEnd;
+      return entryDate >= todayStart && entryDate < todayEnd;
     });
 
     const uniqueMachines = new Set<string>();
@@ -957,23 +1162,23 @@ export default function EmployeeDashboard() {
 
     // Helper function to get machine name from machine ID
     const getMachineName = (machineId: string) => {
-      if (!machineId) return 'Unknown Machine';
+      if (!machineId) return t('dashboard.unknownMachine');
       const machine = machines.find(m => m._id === machineId);
-      return machine ? machine.name : `Unknown Machine (ID: ${machineId})`;
+      return machine ? machine.name : t('dashboard.unknownMachineWithId', { id: machineId });
     };
 
     // Helper function to get product name from product ID
     const getProductName = (productId: string) => {
-      if (!productId) return 'Unknown Product';
+      if (!productId) return t('dashboard.unknownProduct');
       const product = products.find(p => p._id === productId);
-      return product ? product.name : 'Unknown Product';
+      return product ? product.name : t('dashboard.unknownProduct');
     };
 
     // Helper function to get process name from process ID
     const getProcessName = (processId: string) => {
-      if (!processId) return 'Unknown Process';
+      if (!processId) return t('dashboard.unknownProcess');
       const process = processes.find(p => p._id === processId);
-      return process ? process.name : 'Unknown Process';
+      return process ? process.name : t('dashboard.unknownProcess');
     };
 
     // Group by process and product for process breakdown
@@ -996,9 +1201,9 @@ export default function EmployeeDashboard() {
       const productId = getSafeId(entry.productId);
       const processId = getSafeId(entry.processId);
       
-      const machineName = machineId ? getMachineName(machineId) : 'Unknown';
-      const productName = productId ? getProductName(productId) : 'Unknown';
-      const processName = processId ? getProcessName(processId) : 'Unknown';
+      const machineName = machineId ? getMachineName(machineId) : t('common.unknown');
+      const productName = productId ? getProductName(productId) : t('common.unknown');
+      const processName = processId ? getProcessName(processId) : t('common.unknown');
       
       if (machineId) uniqueMachines.add(machineName);
       if (productId) uniqueProducts.add(productName);
@@ -1050,7 +1255,7 @@ export default function EmployeeDashboard() {
       processSummary: Array.from(processGroups.values()),
       totalEntries: todayEntries.length
     };
-  }, [allWorkEntries, machines, products, processes]);
+  }, [allWorkEntries, machines, products, processes, shifts, timezone, t]);
 
   // Get active work entry (not completed)
   const getActiveWorkEntry = () => {
@@ -1069,47 +1274,65 @@ export default function EmployeeDashboard() {
 
   // Handle completing work - removed (using direct production submission now)
 
-  const handleCheckIn = async () => {
+  const handleCheckIn = async (gateToken?: string) => {
     let checkInData: any = null;
+
+    // Gate QR check-in scans the code first and comes back here with its token
+    if (checkInNeedsGateCode(checkInMode) && !gateToken) {
+      if (!selectedProcess || !selectedShift) {
+        toast.error(t('dashboard.selectProcessAndShift'));
+        return;
+      }
+      setIsGateScanOpen(true);
+      return;
+    }
     
     try {
       setLoading(true);
       
-      // Get current location
-      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 0
+      // Get current location, unless the factory checks in by gate QR only
+      let location: { latitude: number; longitude: number } | undefined;
+      let risk: CheckInRisk | undefined;
+      if (checkInNeedsGps(checkInMode)) {
+        const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+          navigator.geolocation.getCurrentPosition(resolve, reject, {
+            enableHighAccuracy: true,
+            timeout: 10000,
+            maximumAge: 0
+          });
         });
-      });
 
-      const location = {
-        latitude: position.coords.latitude,
-        longitude: position.coords.longitude
-      };
+        location = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude
+        };
+        risk = assessCheckInRisk(
+          { ...location, accuracy: position.coords.accuracy, timestamp: position.timestamp },
+          { deviceId, registeredDeviceId: user?.deviceId }
+        );
+      }
 
       // Ensure user ID is available
       const userId = user?._id || user?.id;
       if (!userId) {
-        toast.error('User ID not found. Please log in again.');
+        toast.error(t('errors.userIdNotFound'));
         return;
       }
 
       // Validate all required fields
       if (!selectedProcess) {
-        toast.error('Please select a process before checking in');
+        toast.error(t('dashboard.selectProcessBeforeCheckIn'));
         return;
       }
 
       if (!selectedShift) {
-        toast.error('Please select a shift before checking in');
+        toast.error(t('dashboard.selectShiftBeforeCheckIn'));
         return;
       }
 
       // Validate location coordinates
-      if (isNaN(location.latitude) || isNaN(location.longitude)) {
-        toast.error('Invalid location coordinates. Please enable location services.');
+      if (location && (isNaN(location.latitude) || isNaN(location.longitude))) {
+        toast.error(t('dashboard.invalidLocation'));
         return;
       }
 
@@ -1123,20 +1346,20 @@ export default function EmployeeDashboard() {
       } else if (shiftLower.includes('night') || shiftLower === 'night') {
         normalizedShiftType = 'night';
       } else {
-        toast.error('Invalid shift type. Please select a valid shift.');
+        toast.error(t('dashboard.invalidShift'));
         return;
       }
 
       // Prepare check-in data with explicit type validation
       // Ensure employeeId is a valid string (MongoDB ObjectId format)
       if (!userId || typeof userId !== 'string' || userId.trim() === '') {
-        toast.error('Invalid user ID. Please log in again.');
+        toast.error(t('dashboard.invalidUserId'));
         setLoading(false);
         return;
       }
 
       if (!selectedProcess || typeof selectedProcess !== 'string' || selectedProcess.trim() === '') {
-        toast.error('Invalid process ID. Please select a process.');
+        toast.error(t('dashboard.invalidProcessId'));
         setLoading(false);
         return;
       }
@@ -1144,19 +1367,26 @@ export default function EmployeeDashboard() {
       checkInData = {
         employeeId: String(userId).trim(),
         processId: String(selectedProcess).trim(),
-        location: {
-          latitude: Number(location.latitude),
-          longitude: Number(location.longitude)
-        },
+        ...(location && {
+          location: {
+            latitude: Number(location.latitude),
+            longitude: Number(location.longitude)
+          }
+        }),
+        ...(gateToken && { gateToken }),
+        ...(risk && { risk }),
+        method: checkInMode,
+        shiftName: selectedShift,
+        ...(todayRosterAssignment && { rosterAssignmentId: todayRosterAssignment._id || todayRosterAssignment.id }),
         shiftType: normalizedShiftType,
         target: Number(0)
       };
 
       // Validate all required fields are present
-      if (!checkInData.employeeId || !checkInData.processId || !checkInData.location || 
-          isNaN(checkInData.location.latitude) || isNaN(checkInData.location.longitude)) {
+      if (!checkInData.employeeId || !checkInData.processId ||
+          (checkInData.location && (isNaN(checkInData.location.latitude) || isNaN(checkInData.location.longitude)))) {
         console.error('❌ Invalid check-in data:', checkInData);
-        toast.error('Invalid check-in data. Please try again.');
+        toast.error(t('dashboard.invalidCheckIn'));
         setLoading(false);
         return;
       }
@@ -1168,7 +1398,11 @@ export default function EmployeeDashboard() {
       const attendanceData = await attendanceService.checkIn(checkInData);
       setAttendance(attendanceData.data);
       
-      toast.success('Checked in successfully');
+      if (attendanceData.data?.checkIn?.risk?.review === 'pending') {
+        toast.warning(t('dashboard.checkInUnderReview'));
+      } else {
+        toast.success(t('dashboard.checkInSuccess'));
+      }
     } catch (error: any) {
       console.error('Check-in error:', error);
       
@@ -1176,7 +1410,7 @@ export default function EmployeeDashboard() {
       const errorMessage = error?.responseData?.error || 
                           error?.responseData?.message || 
                           error?.message || 
-                          'Failed to check in';
+                          t('dashboard.checkInFailed');
       
       const errorDetails = {
         message: errorMessage,
@@ -1189,7 +1423,7 @@ export default function EmployeeDashboard() {
       
       // Show more specific error message
       if (error?.status === 500) {
-        toast.error(`Server error: ${errorMessage}. Please check backend logs or contact support.`);
+        toast.error(t('dashboard.serverError', { message: errorMessage }));
       } else if (error?.status === 400) {
         // Check if it's a geofence validation error
         if (errorMessage.includes('factory premises') || errorMessage.includes('geofence')) {
@@ -1197,7 +1431,7 @@ export default function EmployeeDashboard() {
             duration: 5000, // Show longer for important message
           });
         } else {
-          toast.error(`Validation error: ${errorMessage}`);
+          toast.error(t('dashboard.validationError', { message: errorMessage }));
         }
       } else {
         toast.error(errorMessage);
@@ -1212,13 +1446,50 @@ export default function EmployeeDashboard() {
   const handleCameraCapture = (photoDataUrl: string) => {
     setCapturedPhoto(photoDataUrl);
     setIsCameraOpen(false);
-    toast.success('Photo captured successfully!');
+    toast.success(t('dashboard.photoCaptured'));
   };
 
   const handleCameraCancel = () => {
     setIsCameraOpen(false);
   };
 
+  // A scanned label fills in one selection; processes need their product picked first
+  const handleScan = (value: string) => {
+    const code = resolveScanCode(value, products);
+    if (!code) {
+      toast.error(t('scan.notALabel'));
+      return;
+    }
+
+    if (code.kind === 'product') {
+      const product = products.find(p => String(p._id) === code.id);
+      if (!product) {
+        toast.error(t('scan.productUnavailable'));
+        return;
+      }
+      setSelectedProduct(code.id);
+      toast.success(t('scan.productScanned', { name: product.name }));
+    } else if (code.kind === 'process') {
+      const process = filteredProcesses.find(p => String(p._id) === code.id);
+      if (!selectedProduct) {
+        toast.error(t('scan.scanProductFirst'));
+      } else if (!process) {
+        toast.error(t('scan.processNotInProduct'));
+      } else {
+        setSelectedProcess(code.id);
+        toast.success(t('scan.processScanned', { name: process.name }));
+      }
+    } else {
+      const machine = machines.find(m => String(m._id) === code.id);
+      if (!machine) {
+        toast.error(t('scan.machineUnavailable'));
+        return;
+      }
+      setSelectedMachine(code.id);
+      toast.success(t('scan.machineScanned', { name: machine.name }));
+    }
+  };
+
   const handleSubmitProduction = async (e?: React.MouseEvent) => {
     if (e) {
       e.preventDefault();
@@ -1235,24 +1506,27 @@ export default function EmployeeDashboard() {
       shiftType: selectedShift,
       achieved: parseInt(achievedQuantity) || 0,
       rejected: parseInt(rejectedQuantity) || 0,
+      orderId: selectedOrder === NO_ORDER ? undefined : selectedOrder,
+      lotNumber: lotNumber.trim() || undefined,
+      consumedLots,
       photo: capturedPhoto
     };
     
     
     // Validate required fields
     if (!formData.productId || !formData.processId || !formData.machineId || !formData.shiftType) {
-      toast.error('Please fill in all required fields');
+      toast.error(t('errors.fillRequired'));
       return;
     }
     
     if (!formData.achieved || formData.achieved <= 0) {
-      toast.error('Please enter a valid achieved quantity');
+      toast.error(t('errors.invalidAchieved'));
       return;
     }
 
     // Validate photo is captured
     if (!formData.photo || formData.photo.trim() === '') {
-      toast.error('Please capture a photo before submitting production data');
+      toast.error(t('dashboard.photoRequired'));
       return;
     }
 
@@ -1288,25 +1562,115 @@ export default function EmployeeDashboard() {
       selectedProduct: selectedProductData?.name
     });
     
+    // Later stages record the previous-stage lots they took from; simple mode has no lot picker,
+    // so it takes from the oldest lots the same way the "Oldest first" button does
+    const lotsToRecord = !isFirstProcess && availableLots.length > 0;
+    const lotsUsed = user?.simpleMode
+      ? getOldestFirstConsumption(availableLots, formData.achieved + formData.rejected)
+      : formData.consumedLots;
+    if (lotsToRecord && getConsumedTotal(lotsUsed) !== formData.achieved + formData.rejected) {
+      toast.error(t('production.assignLots', { count: formData.achieved + formData.rejected }));
+      return;
+    }
+    const lotFields = {
+      orderId: formData.orderId,
+      lotNumber: isFirstProcess ? formData.lotNumber : undefined,
+      consumedLots: lotsToRecord ? getLotConsumption(lotsUsed) : undefined
+    };
+
     if (!isFirstProcess && processQuantityStatus) {
       // For non-first stages, check if there's enough available quantity to consume
       // We need to check total consumption (achieved + rejected)
       const totalToConsume = formData.achieved + formData.rejected;
       if (processQuantityStatus.availableQuantity < totalToConsume) {
-        toast.error(`Insufficient quantity available for consumption. Available: ${processQuantityStatus.availableQuantity}, Required: ${totalToConsume}`);
+        toast.error(t('dashboard.insufficientQuantity', { available: processQuantityStatus.availableQuantity, required: totalToConsume }));
         return;
       }
       
       // Check if consumption would lock the stage
       const remainingAfterConsumption = processQuantityStatus.availableQuantity - totalToConsume;
       if (remainingAfterConsumption <= 0) {
-        toast.warning(`This will consume all available units and lock the stage. Remaining after consumption: ${remainingAfterConsumption}`);
+        toast.warning(t('dashboard.willLockStage', { remaining: remainingAfterConsumption }));
       }
     }
 
     // Check user role before attempting to submit
     if (!user) {
-      toast.error('User not found. Please log in again.');
+      toast.error(t('errors.userNotFound'));
+      return;
+    }
+
+    // Sent with the online attempt and reused by the queue, so a request that landed
+    // before the connection dropped is not recorded twice when it is replayed
+    const clientKey = generateClientKey();
+    let startedWorkEntryId: string | undefined;
+
+    const queueSubmissionOffline = async () => {
+      const processName = processes.find(p => p._id === formData.processId)?.name;
+      const machineCode = machines.find(machine => machine._id === formData.machineId)?.name;
+      const location = attendance?.checkIn?.location || undefined;
+
+      const summary = {
+        productName: selectedProductData?.name,
+        processName,
+        achieved: formData.achieved,
+        rejected: formData.rejected
+      };
+
+      const submission: QueuedProductionSubmission = isFirstProcess
+        ? {
+            mode: 'direct',
+            payload: {
+              processId: formData.processId,
+              productId: formData.productId,
+              achieved: formData.achieved,
+              rejected: formData.rejected,
+              shiftType: formData.shiftType,
+              machineId: formData.machineId,
+              location,
+              ...lotFields
+            },
+            photo: formData.photo ? fileUploadService.base64ToBlob(formData.photo) : null,
+            summary
+          }
+        : {
+            mode: 'start_complete',
+            payload: {
+              processId: formData.processId,
+              productId: formData.productId,
+              targetQuantity: formData.achieved + formData.rejected,
+              location,
+              machineId: formData.machineId,
+              machineCode,
+              shiftType: formData.shiftType,
+              ...lotFields
+            },
+            completion: { achieved: formData.achieved, rejected: formData.rejected },
+            photo: formData.photo ? fileUploadService.base64ToBlob(formData.photo) : null,
+            workEntryId: startedWorkEntryId,
+            summary
+          };
+
+      await syncService.queueWorkEntry(submission, clientKey);
+
+      setAchievedQuantity('');
+      setRejectedQuantity('');
+      setLotNumber('');
+      setConsumedLots([]);
+      setCapturedPhoto(null);
+      toast.info(t('dashboard.savedOffline'));
+    };
+
+    if (!isOnline) {
+      try {
+        setLoading(true);
+        await queueSubmissionOffline();
+      } catch (queueError) {
+        console.error('Failed to queue production offline:', queueError);
+        toast.error(t('dashboard.saveOfflineFailed'));
+      } finally {
+        setLoading(false);
+      }
       return;
     }
 
@@ -1353,12 +1717,13 @@ export default function EmployeeDashboard() {
             photo: formData.photo || 'default_photo_placeholder',
             shiftType: formData.shiftType,
             machineId: formData.machineId,
-            location: attendance?.checkIn?.location || undefined
+            location: attendance?.checkIn?.location || undefined,
+            ...lotFields
           };
           
           console.log('📤 Direct work entry request payload:', directWorkEntryData);
           
-          const response = await workEntryService.createDirectWorkEntry(directWorkEntryData);
+          const response = await workEntryService.createDirectWorkEntry(directWorkEntryData, { idempotencyKey: clientKey });
           
           console.log('📥 Direct work entry response:', response);
           
@@ -1372,7 +1737,7 @@ export default function EmployeeDashboard() {
           // Validate work entry has required fields (service already validated, but double-check)
           if (!newWorkEntry || typeof newWorkEntry !== 'object' || (!('_id' in newWorkEntry) && !('id' in newWorkEntry))) {
             console.error('Invalid work entry response:', { response, newWorkEntry });
-            toast.error('Failed to submit production: Invalid response from server');
+            toast.error(t('dashboard.invalidSubmitResponse'));
             return;
           }
           
@@ -1454,7 +1819,7 @@ export default function EmployeeDashboard() {
                   setAttendance(updatedAttendance);
                   // Use workHours from backend response if available
                   const workHoursFromBackend = (updatedAttendance as any)?.workHours || totalHours;
-                  toast.success(`Production submitted and checked out successfully! Work hours: ${workHoursFromBackend.toFixed(2)}h`);
+                  toast.success(t('dashboard.submittedAndCheckedOut', { hours: formatHoursValue(workHoursFromBackend) }));
                 } else {
                   // Fallback: reload attendance data to get updated workHours
                   try {
@@ -1468,11 +1833,11 @@ export default function EmployeeDashboard() {
                   } catch (refreshError) {
                     console.warn('Failed to refresh attendance after check-out', refreshError);
                   }
-                  toast.success(`Production submitted and checked out successfully! Work hours: ${totalHours.toFixed(2)}h`);
+                  toast.success(t('dashboard.submittedAndCheckedOut', { hours: formatHoursValue(totalHours) }));
                 }
               } catch (checkoutError: any) {
                 console.error('Checkout error:', checkoutError);
-                const errorMessage = checkoutError?.responseData?.error || checkoutError?.message || 'Unknown error';
+                const errorMessage = checkoutError?.responseData?.error || checkoutError?.message || t('common.unknownError');
                 
                 // If already checked out, refresh attendance and show success
                 if (checkoutError?.status === 409 || errorMessage.includes('already checked out')) {
@@ -1488,9 +1853,9 @@ export default function EmployeeDashboard() {
                   } catch (refreshError) {
                     console.warn('Failed to refresh attendance', refreshError);
                   }
-                  toast.success(`Production submitted successfully! Work hours: ${totalHours.toFixed(2)}h (Already checked out)`);
+                  toast.success(t('dashboard.submittedAlreadyCheckedOut', { hours: formatHoursValue(totalHours) }));
                 } else {
-                  toast.warning(`Production submitted successfully. However, checkout failed: ${errorMessage}`);
+                  toast.warning(t('dashboard.submittedCheckOutFailed', { message: errorMessage }));
                 }
               }
             } else {
@@ -1506,11 +1871,11 @@ export default function EmployeeDashboard() {
               } catch (refreshError) {
                 console.warn('Failed to refresh attendance', refreshError);
               }
-              toast.success(`Production submitted successfully! Work hours: ${totalHours.toFixed(2)}h`);
+              toast.success(t('dashboard.submittedWithHours', { hours: formatHoursValue(totalHours) }));
             }
           } else {
             // No attendance or no check-in - work entry submitted but can't check-out
-            toast.success('Production submitted successfully!');
+            toast.success(t('dashboard.submitted'));
             if (!attendanceForCheckout) {
               console.warn('No attendance record found for check-out');
             }
@@ -1519,7 +1884,11 @@ export default function EmployeeDashboard() {
           // Reset form first (immediate UI feedback)
           setAchievedQuantity('');
           setRejectedQuantity('');
+          setLotNumber('');
+          setConsumedLots([]);
           setCapturedPhoto(null);
+          // The lots just used now have fewer pieces left
+          loadAvailableLots(formData.productId, formData.processId);
           // Keep Product, Process, Machine, and Shift selections
           
           // Immediately reload work entries to ensure UI shows the new entry
@@ -1558,6 +1927,10 @@ export default function EmployeeDashboard() {
           
           return;
         } catch (error: any) {
+          if (isNetworkError(error)) {
+            await queueSubmissionOffline();
+            return;
+          }
           console.error('❌ Direct work entry error:', {
             error,
             message: error?.message,
@@ -1566,8 +1939,8 @@ export default function EmployeeDashboard() {
             data: error?.data,
             stack: error?.stack
           });
-          const errorMessage = error?.message || error?.response?.data?.error || 'Failed to submit production. Please try again.';
-          toast.error(`Failed to submit production: ${errorMessage}`);
+          const errorMessage = error?.message || error?.response?.data?.error || t('dashboard.submitRetry');
+          toast.error(t('dashboard.submitFailed', { message: errorMessage }));
           return;
         }
       } else {
@@ -1578,7 +1951,7 @@ export default function EmployeeDashboard() {
       // Get machine data for machineId and machineCode
       const selectedMachineData = machines.find(machine => machine._id === formData.machineId);
       if (!selectedMachineData) {
-        toast.error('Selected machine not found');
+        toast.error(t('errors.machineNotFound'));
         setLoading(false);
         return;
       }
@@ -1590,10 +1963,11 @@ export default function EmployeeDashboard() {
         location: attendance?.checkIn?.location || undefined,
         machineId: formData.machineId,
         machineCode: selectedMachineData.name,
-        shiftType: formData.shiftType
+        shiftType: formData.shiftType,
+        ...lotFields
       };
       
-      const startResponse = await workEntryService.startWork(startWorkData);
+      const startResponse = await workEntryService.startWork(startWorkData, { idempotencyKey: `${clientKey}:start` });
       
       console.log('📥 Start work response structure:', {
         startResponse,
@@ -1607,7 +1981,7 @@ export default function EmployeeDashboard() {
       
       if (!startWorkEntry || typeof startWorkEntry !== 'object') {
         console.error('❌ Invalid start work response:', startResponse);
-        toast.error('Failed to start work entry. Invalid response from server.');
+        toast.error(t('dashboard.startInvalidResponse'));
         setLoading(false);
         return;
       }
@@ -1616,12 +1990,13 @@ export default function EmployeeDashboard() {
       
       if (!workEntryId) {
         console.error('❌ Failed to extract work entry ID from start response:', startResponse);
-        toast.error('Failed to start work entry. Please try again.');
+        toast.error(t('dashboard.startRetry'));
         setLoading(false);
         return;
       }
       
       console.log('✅ Extracted work entry ID:', workEntryId);
+      startedWorkEntryId = workEntryId;
       
       const completeWorkData = {
         achieved: formData.achieved,
@@ -1629,7 +2004,7 @@ export default function EmployeeDashboard() {
         photo: formData.photo || 'default_photo_placeholder'
       };
       
-      const response = await workEntryService.completeWork(workEntryId, completeWorkData);
+      const response = await workEntryService.completeWork(workEntryId, completeWorkData, { idempotencyKey: `${clientKey}:complete` });
       
       // Clear frontend cache for work entries to ensure fresh data is fetched
       apiClient.clearCache('/work-entries/employee/');
@@ -1692,7 +2067,7 @@ export default function EmployeeDashboard() {
           response,
           error: 'Work entry missing _id or id field'
         });
-        toast.warning('Work entry submitted but UI update failed. Refreshing...');
+        toast.warning(t('dashboard.uiUpdateFailed'));
       }
       
       // Get attendance for check-out - use existing or fetch today's attendance
@@ -1741,7 +2116,7 @@ export default function EmployeeDashboard() {
               setAttendance(updatedAttendance);
               // Use workHours from backend response if available
               const workHoursFromBackend = (updatedAttendance as any)?.workHours || totalHours;
-              toast.success(`Production submitted and checked out successfully! Work hours: ${workHoursFromBackend.toFixed(2)}h`);
+              toast.success(t('dashboard.submittedAndCheckedOut', { hours: formatHoursValue(workHoursFromBackend) }));
             } else {
               // Fallback: reload attendance data to get updated workHours
               try {
@@ -1755,11 +2130,11 @@ export default function EmployeeDashboard() {
               } catch (refreshError) {
                 console.warn('Failed to refresh attendance after check-out', refreshError);
               }
-              toast.success(`Production submitted and checked out successfully! Work hours: ${totalHours.toFixed(2)}h`);
+              toast.success(t('dashboard.submittedAndCheckedOut', { hours: formatHoursValue(totalHours) }));
             }
           } catch (checkoutError: any) {
             console.error('Checkout error:', checkoutError);
-            const errorMessage = checkoutError?.responseData?.error || checkoutError?.message || 'Unknown error';
+            const errorMessage = checkoutError?.responseData?.error || checkoutError?.message || t('common.unknownError');
             
             // If already checked out, refresh attendance and show success
             if (checkoutError?.status === 409 || errorMessage.includes('already checked out')) {
@@ -1775,9 +2150,9 @@ export default function EmployeeDashboard() {
               } catch (refreshError) {
                 console.warn('Failed to refresh attendance', refreshError);
               }
-              toast.success(`Production submitted successfully! Work hours: ${totalHours.toFixed(2)}h (Already checked out)`);
+              toast.success(t('dashboard.submittedAlreadyCheckedOut', { hours: formatHoursValue(totalHours) }));
             } else {
-              toast.warning(`Production submitted successfully. However, checkout failed: ${errorMessage}`);
+              toast.warning(t('dashboard.submittedCheckOutFailed', { message: errorMessage }));
             }
           }
         } else {
@@ -1793,11 +2168,11 @@ export default function EmployeeDashboard() {
           } catch (refreshError) {
             console.warn('Failed to refresh attendance', refreshError);
           }
-          toast.success(`Production submitted successfully! Work hours: ${totalHours.toFixed(2)}h`);
+          toast.success(t('dashboard.submittedWithHours', { hours: formatHoursValue(totalHours) }));
         }
       } else {
         // No attendance or no check-in - work entry submitted but can't check-out
-        toast.success('Production data submitted successfully');
+        toast.success(t('dashboard.submittedData'));
         if (!attendanceForCheckout) {
           console.warn('No attendance record found for check-out');
         }
@@ -1806,7 +2181,11 @@ export default function EmployeeDashboard() {
       // Reset form first (immediate UI feedback)
       setAchievedQuantity('');
       setRejectedQuantity('');
+      setLotNumber('');
+      setConsumedLots([]);
       setCapturedPhoto(null);
+      // The lots just used now have fewer pieces left
+      loadAvailableLots(formData.productId, formData.processId);
       
       // Immediately reload work entries to ensure UI shows the new entry
       // This doesn't set loading state, so UI won't be disrupted
@@ -1865,6 +2244,10 @@ export default function EmployeeDashboard() {
       }, 1000); // Increased initial delay from 300ms to 1000ms
       
     } catch (error: any) {
+      if (isNetworkError(error)) {
+        await queueSubmissionOffline();
+        return;
+      }
       console.error('❌ Production submission error:', {
         error: error.message,
         stack: error.stack,
@@ -1886,7 +2269,7 @@ export default function EmployeeDashboard() {
           return matchingProcess?.order === 1;
         })()
       });
-      toast.error(`Failed to submit production: ${error.message}`);
+      toast.error(t('dashboard.submitFailed', { message: error.message }));
     } finally {
       setLoading(false);
     }
@@ -1900,18 +2283,18 @@ export default function EmployeeDashboard() {
     }
     
     if (!selectedProduct || !selectedMachine || !selectedShift || !achievedQuantity) {
-      toast.error('Please select product, machine, shift, and enter achieved quantity');
+      toast.error(t('dashboard.selectAllToStart'));
       return;
     }
 
     // Check user role before attempting to start work
     if (!user) {
-      toast.error('User not found. Please log in again.');
+      toast.error(t('errors.userNotFound'));
       return;
     }
 
     if (user.role !== 'employee' && user.role !== 'supervisor') {
-      toast.error(`Access denied. Employee or supervisor role required. Current role: ${user.role}`);
+      toast.error(t('dashboard.roleRequired', { role: user.role }));
       return;
     }
 
@@ -1919,7 +2302,7 @@ export default function EmployeeDashboard() {
     try {
       const userId = user?.id || user?._id;
       if (!userId) {
-        toast.error('User ID not found. Please log in again.');
+        toast.error(t('errors.userIdNotFound'));
         return;
       }
 
@@ -1927,34 +2310,34 @@ export default function EmployeeDashboard() {
       const selectedMachineData = machines.find(machine => machine._id === selectedMachine);
       
       if (!selectedMachineData) {
-        toast.error('Selected machine not found');
+        toast.error(t('errors.machineNotFound'));
         return;
       }
 
       if (!selectedProcess) {
-        toast.error('Please select a process.');
+        toast.error(t('dashboard.selectProcess_'));
         return;
       }
 
       // Check quantity status before starting work
       if (processQuantityStatus) {
         if (processQuantityStatus.isLocked) {
-          toast.error('This process stage is locked. Please wait for supervisor to unlock it.');
+          toast.error(t('dashboard.stageLocked'));
           return;
         }
         if (processQuantityStatus.remainingQuantity <= 0) {
-          toast.error('No quantity available for this stage. Please wait for the previous stage to complete.');
+          toast.error(t('dashboard.noQuantityForStage'));
           return;
         }
       }
 
       if (!selectedMachine) {
-        toast.error('Please select a machine.');
+        toast.error(t('dashboard.selectMachine_'));
         return;
       }
 
       if (!achievedQuantity || parseInt(achievedQuantity) <= 0) {
-        toast.error('Please enter a valid achieved quantity.');
+        toast.error(t('errors.invalidAchieved'));
         return;
       }
 
@@ -1981,7 +2364,7 @@ export default function EmployeeDashboard() {
         const workEntryResponse = await workEntryService.startWork(workEntryData);
         
         // Show success message
-        toast.success('Work started successfully! Attendance marked automatically.');
+        toast.success(t('dashboard.workStarted'));
         
         // Immediately update UI state
         setRefreshingAfterWorkEntry(true);
@@ -2000,9 +2383,9 @@ export default function EmployeeDashboard() {
         
         // Handle specific error types
         if (workEntryError.message?.includes('401') || workEntryError.message?.includes('Unauthorized')) {
-          toast.error('Authentication failed. Please log in again.');
+          toast.error(t('dashboard.authFailed'));
         } else if (workEntryError.message?.includes('403') || workEntryError.message?.includes('Forbidden')) {
-          toast.error('Access denied. Please contact your supervisor.');
+          toast.error(t('dashboard.accessDenied'));
         } else if (workEntryError.message?.includes('Validation failed') || workEntryError.response?.status === 400) {
           // Show validation errors
           const errorMessage = workEntryError.response?.data?.error || workEntryError.message || 'Validation failed';
@@ -2011,11 +2394,11 @@ export default function EmployeeDashboard() {
             data: workEntryError.response?.data,
             message: workEntryError.message
           });
-          toast.error(`Validation failed: ${errorMessage}`);
+          toast.error(t('dashboard.validationFailed', { message: errorMessage }));
           
           if (workEntryError.data?.errors) {
             const errorMessages = workEntryError.data.errors.map((err: any) => err.msg).join(', ');
-            toast.error(`Validation details: ${errorMessages}`);
+            toast.error(t('dashboard.validationDetails', { details: errorMessages }));
           }
         } else {
           const errorMessage = workEntryError.response?.data?.error || workEntryError.message || 'Failed to start work entry';
@@ -2024,7 +2407,7 @@ export default function EmployeeDashboard() {
             data: workEntryError.response?.data,
             message: workEntryError.message
           });
-          toast.error(`Failed to start work: ${errorMessage}`);
+          toast.error(t('dashboard.startWorkFailed', { message: errorMessage }));
         }
       }
 
@@ -2034,15 +2417,15 @@ export default function EmployeeDashboard() {
       
       // Handle specific error types
       if (error.message?.includes('403') || error.message?.includes('Forbidden')) {
-        toast.error('Access denied. Please ensure you have employee role and are properly authenticated.');
+        toast.error(t('dashboard.employeeRoleRequired'));
       } else if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
-        toast.error('Authentication failed. Please log in again.');
+        toast.error(t('dashboard.authFailed'));
       } else if (error.message?.includes('You are not assigned to this process')) {
-        toast.error('You are not assigned to this process. Please contact your supervisor.');
+        toast.error(t('dashboard.notAssignedToProcess'));
       } else if (error.message?.includes('Process does not belong to your factory')) {
-        toast.error('Process access denied. Please contact your supervisor.');
+        toast.error(t('dashboard.processAccessDenied'));
       } else {
-        toast.error(error.message || 'Failed to start work. Please try again.');
+        toast.error(error.message || t('dashboard.startWorkRetry'));
       }
     } finally {
       setLoading(false);
@@ -2061,14 +2444,67 @@ export default function EmployeeDashboard() {
         <div className="flex items-center justify-center h-64">
           <div className="text-center">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-            <span className="text-lg">Initializing...</span>
-            <p className="text-sm text-muted-foreground mt-2">Please wait while we restore your session</p>
+            <span className="text-lg">{t('dashboard.initializing')}</span>
+            <p className="text-sm text-muted-foreground mt-2">{t('dashboard.restoringSession')}</p>
           </div>
         </div>
       </Layout>
     );
   }
 
+  // Gate QR check-in
+  const gateScanDialog = (
+    <Dialog open={isGateScanOpen} onOpenChange={setIsGateScanOpen}>
+      <DialogContent className="w-[95vw] max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('dashboard.scanGateCode')}</DialogTitle>
+          <DialogDescription>
+            {t('dashboard.scanGateCodeHint')}
+          </DialogDescription>
+        </DialogHeader>
+        {isGateScanOpen && (
+          <CameraCapture
+            mode="scan"
+            onScan={(value) => {
+              setIsGateScanOpen(false);
+              handleCheckIn(value);
+            }}
+            onCancel={() => setIsGateScanOpen(false)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+
+  // Supervisors can switch an employee to the big-button flow; it keeps showing through loads so a step isn't lost mid-submit
+  if (user?.simpleMode) {
+    return (
+      <Layout>
+        <PendingSyncSubmissions className="mb-6" />
+        <SimpleEmployeeMode
+          products={products}
+          processes={filteredProcesses}
+          attendance={attendance}
+          selectedProduct={selectedProduct}
+          selectedProcess={selectedProcess}
+          onSelectProduct={setSelectedProduct}
+          onSelectProcess={setSelectedProcess}
+          machines={machines}
+          selectedMachine={selectedMachine}
+          onSelectMachine={setSelectedMachine}
+          quantity={achievedQuantity}
+          onQuantityChange={setAchievedQuantity}
+          photo={capturedPhoto}
+          onPhotoChange={setCapturedPhoto}
+          loading={loading}
+          onCheckIn={() => handleCheckIn()}
+          onSubmit={() => handleSubmitProduction()}
+        />
+        {gateScanDialog}
+      </Layout>
+    );
+  }
+
   // Show loading state while data is being loaded
   if (loading) {
     return (
@@ -2076,8 +2512,8 @@ export default function EmployeeDashboard() {
         <div className="flex items-center justify-center h-64">
           <div className="text-center">
             <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4" />
-            <span className="text-lg">Loading dashboard...</span>
-            <p className="text-sm text-muted-foreground mt-2">Please wait while we load your data</p>
+            <span className="text-lg">{t('dashboard.loading')}</span>
+            <p className="text-sm text-muted-foreground mt-2">{t('dashboard.loadingData')}</p>
           </div>
         </div>
       </Layout>
@@ -2091,27 +2527,27 @@ export default function EmployeeDashboard() {
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold">Employee Dashboard</h1>
-            <p className="text-muted-foreground">Welcome back, {user?.profile?.firstName}!</p>
+            <h1 className="text-2xl font-bold">{t('dashboard.title')}</h1>
+            <p className="text-muted-foreground">{t('dashboard.welcome', { name: user?.profile?.firstName || '' })}</p>
           </div>
           <div className="flex items-center gap-2">
             {refreshingAfterWorkEntry && (
               <div className="flex items-center gap-2 text-blue-600">
                 <Loader2 className="h-4 w-4 animate-spin" />
-                <span className="text-sm">Refreshing...</span>
+                <span className="text-sm">{t('common.refreshing')}</span>
               </div>
             )}
             <Badge variant={attendance ? "default" : "secondary"}>
-              {attendance ? (attendance.status === 'present' ? 'Present' : 
-                           attendance.status === 'absent' ? 'Absent' : 
-                           attendance.status === 'half-day' ? 'Half Day' : 
-                           attendance.status || 'Unknown') : "Not Marked"}
+              {attendance ? (attendance.status === 'present' ? t('common.present') : 
+                           attendance.status === 'absent' ? t('common.absent') : 
+                           attendance.status === 'half-day' ? t('common.halfDay') : 
+                           attendance.status || t('common.unknown')) : t('common.notMarked')}
             </Badge>
             {attendance && (
               <Badge variant="outline">
-                Check-in: {attendance.checkIn?.time ? 
-                  formatTime(attendance.checkIn.time) : 
-                  'Time not available'}
+                {attendance.checkIn?.time ? 
+                  t('dashboard.checkInBadge', { time: formatTime(attendance.checkIn.time) }) : 
+                  t('dashboard.timeNotAvailable')}
               </Badge>
             )}
           </div>
@@ -2120,13 +2556,19 @@ export default function EmployeeDashboard() {
         {/* PWA Install Prompt */}
         <PWAInstallPrompt />
 
+        <PendingSyncSubmissions />
+
+        <MachineDowntimeCard machines={machines} defaultMachineId={selectedMachine} />
+
+        <MyRosterCard assignments={upcomingRosterAssignments} processes={processes} machines={machines} today={getProductionDate(new Date(), shifts, timezone)} />
+
 
         {/* Attendance Status Card */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Clock className="h-5 w-5" />
-              Today's Summary
+              {t('dashboard.todaySummary')}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -2135,7 +2577,7 @@ export default function EmployeeDashboard() {
                 {attendance && (
                   <>
                     <div className="flex items-center justify-between">
-                      <span className="font-medium">Status:</span>
+                      <span className="font-medium">{t('dashboard.status')}</span>
                       {(() => {
                         return (
                           <Badge 
@@ -2146,31 +2588,31 @@ export default function EmployeeDashboard() {
                                      attendance.status === 'absent' ? 'bg-red-100 text-red-800' : 
                                      attendance.status === 'half-day' ? 'bg-yellow-100 text-yellow-800' : ''}
                           >
-                            {attendance.status === 'present' ? 'Present' : 
-                             attendance.status === 'absent' ? 'Absent' : 
-                             attendance.status === 'half-day' ? 'Half Day' : 
-                             attendance.status || 'Unknown'}
+                            {attendance.status === 'present' ? t('common.present') : 
+                             attendance.status === 'absent' ? t('common.absent') : 
+                             attendance.status === 'half-day' ? t('common.halfDay') : 
+                             attendance.status || t('common.unknown')}
                           </Badge>
                         );
                       })()}
                     </div>
                     <div className="flex items-center justify-between">
-                      <span className="font-medium">Check-in Time:</span>
+                      <span className="font-medium">{t('dashboard.checkInTime')}</span>
                       <span className="text-sm text-gray-700">
                         {attendance.checkIn?.time ? 
-                          new Date(attendance.checkIn.time).toLocaleString('en-US', {
+                          new Date(attendance.checkIn.time).toLocaleString(getLocale(language), {
                             hour: 'numeric',
                             minute: '2-digit',
                             hour12: true
                           }) : 
-                          'Time not available'}
+                          t('dashboard.timeNotAvailable')}
                       </span>
                     </div>
                     {attendance.checkOut?.time && (
                       <div className="flex items-center justify-between">
-                        <span className="font-medium">Check-out Time:</span>
+                        <span className="font-medium">{t('dashboard.checkOutTime')}</span>
                         <span className="text-sm text-gray-700">
-                          {new Date(attendance.checkOut.time).toLocaleString('en-US', {
+                          {new Date(attendance.checkOut.time).toLocaleString(getLocale(language), {
                             hour: 'numeric',
                             minute: '2-digit',
                             hour12: true
@@ -2181,60 +2623,60 @@ export default function EmployeeDashboard() {
                   </>
                 )}
                 <div className="flex items-center justify-between">
-                  <span className="font-medium">Total Work Hours:</span>
+                  <span className="font-medium">{t('dashboard.totalWorkHours')}</span>
                   <span className="text-sm text-gray-700">
                     {formatWorkHours(calculateTotalWorkHours)}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="font-medium">Work Entries:</span>
+                  <span className="font-medium">{t('dashboard.workEntries')}</span>
                   <span className="text-sm text-gray-700">
-                    {getTodayWorkSummary.totalEntries} today
+                    {t('dashboard.entriesToday', { count: getTodayWorkSummary.totalEntries })}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="font-medium">Products Used:</span>
+                  <span className="font-medium">{t('dashboard.productsUsed')}</span>
                   <span className="text-sm text-gray-700">
                     {getTodayWorkSummary.uniqueProducts && getTodayWorkSummary.uniqueProducts.length > 0 ? 
                       getTodayWorkSummary.uniqueProducts.join(', ') : 
-                      'None'}
+                      t('common.none')}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="font-medium">Machines Used:</span>
+                  <span className="font-medium">{t('dashboard.machinesUsed')}</span>
                   <span className="text-sm text-gray-700">
                     {getTodayWorkSummary.uniqueMachines.length > 0 ? 
                       getTodayWorkSummary.uniqueMachines.join(', ') : 
-                      'None'}
+                      t('common.none')}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="font-medium">Total Achieved:</span>
+                  <span className="font-medium">{t('dashboard.totalAchieved')}</span>
                   <span className="text-sm text-green-600 font-medium">
-                    {calculateTotalProduction.achieved} units
+                    {t('common.units', { count: calculateTotalProduction.achieved })}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
-                  <span className="font-medium">Total Rejected:</span>
+                  <span className="font-medium">{t('dashboard.totalRejected')}</span>
                   <span className="text-sm text-red-600 font-medium">
-                    {calculateTotalProduction.rejected} units
+                    {t('common.units', { count: calculateTotalProduction.rejected })}
                   </span>
                 </div>
                 
                 {/* Product and Machine Breakdown */}
                 {getTodayWorkSummary.machineStats && getTodayWorkSummary.machineStats.length > 0 && (
                   <div className="mt-4 pt-4 border-t">
-                    <h4 className="font-medium mb-2">Machine Breakdown:</h4>
+                    <h4 className="font-medium mb-2">{t('dashboard.machineBreakdown')}</h4>
                     <div className="space-y-2">
                       {getTodayWorkSummary.machineStats.map((stat, index) => (
                         <div key={index} className="bg-gray-50 p-2 rounded text-sm">
                           <div className="flex justify-between items-center">
                             <span className="font-medium">{stat.machine}</span>
-                            <span className="text-xs text-gray-700">{stat.entries} entries</span>
+                            <span className="text-xs text-gray-700">{t('common.entries', { count: stat.entries })}</span>
                           </div>
                           <div className="flex justify-between text-xs mt-1">
-                            <span className="text-green-600">✓ {stat.achieved}</span>
-                            <span className="text-red-600">✗ {stat.rejected}</span>
+                            <span className="text-green-600">✓ {formatNumber(stat.achieved)}</span>
+                            <span className="text-red-600">✗ {formatNumber(stat.rejected)}</span>
                           </div>
                         </div>
                       ))}
@@ -2245,15 +2687,15 @@ export default function EmployeeDashboard() {
                 {/* Process Breakdown */}
                 {getTodayWorkSummary.processSummary && getTodayWorkSummary.processSummary.length > 0 && (
                   <div className="mt-4 pt-4 border-t">
-                    <h4 className="font-medium mb-2">Process Breakdown:</h4>
+                    <h4 className="font-medium mb-2">{t('dashboard.processBreakdown')}</h4>
                     <div className="space-y-2">
                       {getTodayWorkSummary.processSummary.map((stat, index) => (
                         <div key={index} className="bg-gray-50 p-2 rounded text-sm">
                           <div className="font-medium">{stat.processName}</div>
                           <div className="text-xs text-gray-700 font-medium">{stat.productName}</div>
                           <div className="flex justify-between text-xs mt-1">
-                            <span className="text-green-600">Achieved: {stat.achieved}</span>
-                            <span className="text-red-600">Rejected: {stat.rejected}</span>
+                            <span className="text-green-600">{t('dashboard.achievedCount', { count: stat.achieved })}</span>
+                            <span className="text-red-600">{t('dashboard.rejectedCount', { count: stat.rejected })}</span>
                           </div>
                         </div>
                       ))}
@@ -2264,8 +2706,8 @@ export default function EmployeeDashboard() {
             ) : (
               <div className="text-center py-4">
                 <Clock className="h-8 w-8 mx-auto text-muted-foreground mb-2" />
-                <p className="text-muted-foreground">No work started today</p>
-                <p className="text-sm text-muted-foreground">Start your first work entry above</p>
+                <p className="text-muted-foreground">{t('dashboard.noWorkToday')}</p>
+                <p className="text-sm text-muted-foreground">{t('dashboard.startFirstEntry')}</p>
               </div>
             )}
           </CardContent>
@@ -2277,12 +2719,12 @@ export default function EmployeeDashboard() {
         {products.length === 0 && machines.length === 0 && !loading && processes.length === 0 && (
           <Card className="border-red-200 bg-red-50">
             <CardHeader>
-              <CardTitle className="text-red-800">⚠️ Connection Error</CardTitle>
+              <CardTitle className="text-red-800">{t('dashboard.connectionError')}</CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-red-700">Cannot connect to server. Please ensure the backend server is running.</p>
+              <p className="text-red-700">{t('dashboard.cannotConnect')}</p>
               <p className="text-sm text-red-600 mt-2">
-                Backend API: {import.meta.env.VITE_API_URL || 'Not configured'}
+                {t('dashboard.backendApi', { url: import.meta.env.VITE_API_URL || t('dashboard.notConfigured') })}
               </p>
             </CardContent>
           </Card>
@@ -2292,12 +2734,12 @@ export default function EmployeeDashboard() {
         {selectedMachine && !machines.find(m => m._id === selectedMachine) && (
           <Card className="border-red-200 bg-red-50">
             <CardHeader>
-              <CardTitle className="text-red-800">⚠️ Machine Not Found</CardTitle>
+              <CardTitle className="text-red-800">{t('dashboard.machineMissingTitle')}</CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-red-700">Selected machine ID: {selectedMachine}</p>
-              <p className="text-red-700">Available machine IDs: {machines.map(m => typeof m._id === 'string' ? m._id : String(m._id)).join(', ')}</p>
-              <p className="text-red-700">Please reselect a machine from the dropdown.</p>
+              <p className="text-red-700">{t('dashboard.selectedMachineId', { id: selectedMachine })}</p>
+              <p className="text-red-700">{t('dashboard.availableMachineIds', { ids: machines.map(m => typeof m._id === 'string' ? m._id : String(m._id)).join(', ') })}</p>
+              <p className="text-red-700">{t('dashboard.reselectMachine')}</p>
             </CardContent>
           </Card>
         )}
@@ -2309,10 +2751,14 @@ export default function EmployeeDashboard() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Clock className="h-5 w-5" />
-              Attendance
+              {t('dashboard.attendance')}
             </CardTitle>
             <CardDescription>
-              Mark your attendance using geofence location
+              {checkInMode === 'gps'
+                ? t('dashboard.attendanceByGps')
+                : checkInMode === 'qr'
+                  ? t('dashboard.attendanceByQr')
+                  : t('dashboard.attendanceByGpsAndQr')}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -2320,19 +2766,19 @@ export default function EmployeeDashboard() {
               {!attendance ? (
                 <div className="text-center py-6">
                   <Button 
-                    onClick={handleCheckIn}
+                    onClick={() => handleCheckIn()}
                     disabled={loading}
                     className="w-full h-12 text-base"
                   >
                     {loading ? (
                       <>
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Checking In...
+                        {t('common.checkingIn')}
                       </>
                     ) : (
                       <>
                         <Clock className="h-4 w-4 mr-2" />
-                        Check In
+                        {t('common.checkIn')}
                       </>
                     )}
                   </Button>
@@ -2342,13 +2788,18 @@ export default function EmployeeDashboard() {
                   <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
                     <div className="flex items-center gap-2 text-green-800 mb-2">
                       <CheckCircle className="h-4 w-4" />
-                      <span className="font-medium">Checked In</span>
+                      <span className="font-medium">{t('dashboard.checkedIn')}</span>
                     </div>
                     <div className="text-sm text-green-600">
-                      Time: {new Date(attendance.checkIn.time).toLocaleTimeString()}
+                      {t('dashboard.checkedInTime', { time: new Date(attendance.checkIn.time).toLocaleTimeString(getLocale(language)) })}
                     </div>
+                    {attendance.checkIn.zoneName && (
+                      <div className="text-sm text-green-600">
+                        {t('dashboard.checkedInZone', { zone: attendance.checkIn.zoneName })}
+                      </div>
+                    )}
                     <div className="text-sm text-blue-600 mt-2">
-                      💡 Submit production to automatically check out
+                      {t('dashboard.submitToCheckOut')}
                     </div>
                   </div>
                 </div>
@@ -2360,25 +2811,30 @@ export default function EmployeeDashboard() {
         {/* Daily Task Card */}
         <Card>
           <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Target className="h-5 w-5" />
-              Production Entry
-            </CardTitle>
-            <CardDescription>
-              Enter your achieved and rejected quantities
-            </CardDescription>
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Target className="h-5 w-5" />
+                  {t('dashboard.productionEntry')}
+                </CardTitle>
+                <CardDescription>
+                  {t('dashboard.productionEntryHint')}
+                </CardDescription>
+              </div>
+              <ScanLabelButton onScan={handleScan} className="h-12 sm:h-10" />
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
               <div className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="product-select">Select Product</Label>
+                    <Label htmlFor="product-select">{t('dashboard.selectProduct')}</Label>
                     <Select 
                       value={typeof selectedProduct === 'string' ? selectedProduct : (selectedProduct ? String(selectedProduct) : '')} 
                       onValueChange={(value) => setSelectedProduct(value)}
                     >
                       <SelectTrigger id="product-select" className="h-12 sm:h-10">
-                        <SelectValue placeholder="Choose product" />
+                        <SelectValue placeholder={t('dashboard.chooseProduct')} />
                       </SelectTrigger>
                       <SelectContent>
                         {products.length > 0 ? (
@@ -2389,7 +2845,7 @@ export default function EmployeeDashboard() {
                           ))
                         ) : (
                           <SelectItem value="no-products" disabled>
-                            No products available
+                            {t('dashboard.noProducts')}
                           </SelectItem>
                         )}
                       </SelectContent>
@@ -2397,14 +2853,14 @@ export default function EmployeeDashboard() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="process-select">Select Process</Label>
+                    <Label htmlFor="process-select">{t('dashboard.selectProcess')}</Label>
                     <Select 
                       value={typeof selectedProcess === 'string' ? selectedProcess : (selectedProcess ? String(selectedProcess) : '')} 
                       onValueChange={(value) => setSelectedProcess(value)}
                       disabled={!selectedProduct}
                     >
                       <SelectTrigger id="process-select" className="h-12 sm:h-10">
-                        <SelectValue placeholder={selectedProduct ? "Choose process" : "Select product first"} />
+                        <SelectValue placeholder={selectedProduct ? t('dashboard.chooseProcess') : t('dashboard.selectProductFirst')} />
                       </SelectTrigger>
                       <SelectContent>
                         {filteredProcesses.length > 0 ? (
@@ -2415,11 +2871,11 @@ export default function EmployeeDashboard() {
                           ))
                         ) : selectedProduct ? (
                           <SelectItem value="no-processes" disabled>
-                            No processes available for this product
+                            {t('dashboard.noProcessesForProduct')}
                           </SelectItem>
                         ) : (
                           <SelectItem value="no-product" disabled>
-                            Select a product first
+                            {t('dashboard.selectAProductFirst')}
                           </SelectItem>
                         )}
                       </SelectContent>
@@ -2427,13 +2883,13 @@ export default function EmployeeDashboard() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="machine-select">Select Machine</Label>
+                    <Label htmlFor="machine-select">{t('dashboard.selectMachine')}</Label>
                     <Select 
                       value={typeof selectedMachine === 'string' ? selectedMachine : (selectedMachine ? String(selectedMachine) : '')} 
                       onValueChange={(value) => setSelectedMachine(value)}
                     >
                       <SelectTrigger id="machine-select" className="h-12 sm:h-10">
-                        <SelectValue placeholder="Choose machine" />
+                        <SelectValue placeholder={t('dashboard.chooseMachine')} />
                       </SelectTrigger>
                       <SelectContent>
                         {machines.length > 0 ? (
@@ -2444,7 +2900,7 @@ export default function EmployeeDashboard() {
                           ))
                         ) : (
                           <SelectItem value="no-machines" disabled>
-                            No machines available
+                            {t('dashboard.noMachines')}
                           </SelectItem>
                         )}
                       </SelectContent>
@@ -2452,10 +2908,10 @@ export default function EmployeeDashboard() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="shift-select">Select Shift</Label>
+                    <Label htmlFor="shift-select">{t('dashboard.selectShift')}</Label>
                     <Select value={selectedShift} onValueChange={setSelectedShift}>
                       <SelectTrigger id="shift-select" className="h-12 sm:h-10">
-                        <SelectValue placeholder="Choose shift" />
+                        <SelectValue placeholder={t('dashboard.chooseShift')} />
                       </SelectTrigger>
                       <SelectContent>
                         {shifts.length > 0 ? (
@@ -2466,7 +2922,7 @@ export default function EmployeeDashboard() {
                           ))
                         ) : (
                           <SelectItem value="no-shifts" disabled>
-                            No shifts available
+                            {t('dashboard.noShifts')}
                           </SelectItem>
                         )}
                       </SelectContent>
@@ -2474,21 +2930,46 @@ export default function EmployeeDashboard() {
                   </div>
                 </div>
 
+                {/* Production Order Selection */}
+                {selectedProduct && orders.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="order-select">{t('production.order')}</Label>
+                    <Select value={selectedOrder} onValueChange={setSelectedOrder}>
+                      <SelectTrigger id="order-select" className="h-12 sm:h-10">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ORDER}>{t('production.noOrder')}</SelectItem>
+                        {orders.map((order) => (
+                          <SelectItem key={getOrderId(order)} value={getOrderId(order)}>
+                            {t('production.orderOption', {
+                              number: order.orderNumber,
+                              completed: order.completedQuantity,
+                              quantity: order.quantity,
+                              date: formatDate(order.dueDate),
+                            })}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 {/* Process Quantity Status */}
                 {selectedProcess && processQuantityStatus && (
                   <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
                     <div className="flex items-center gap-2 mb-2">
                       <Target className="h-4 w-4 text-blue-600" />
-                      <span className="font-medium text-blue-900">Process Status</span>
+                      <span className="font-medium text-blue-900">{t('dashboard.processStatus')}</span>
                     </div>
                     <div className="text-sm">
-                      <span className="text-gray-600">Available:</span>
-                      <span className="ml-1 font-medium text-blue-600 text-lg">{processQuantityStatus.availableQuantity || 0}</span>
-                      <span className="text-xs text-gray-500 block mt-1">Remaining from previous stage</span>
+                      <span className="text-gray-600">{t('dashboard.available')}</span>
+                      <span className="ml-1 font-medium text-blue-600 text-lg">{formatNumber(processQuantityStatus.availableQuantity || 0)}</span>
+                      <span className="text-xs text-gray-500 block mt-1">{t('dashboard.remainingFromPrevious')}</span>
                     </div>
                     {processQuantityStatus.isLocked && (
                       <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-red-700 text-sm">
-                        ⚠️ This process stage is locked. No work can be started until it's unlocked by a supervisor.
+                        {t('dashboard.stageLockedNotice')}
                       </div>
                     )}
                   </div>
@@ -2496,22 +2977,22 @@ export default function EmployeeDashboard() {
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                    <Label htmlFor="achieved-quantity">Achieved Quantity</Label>
+                    <Label htmlFor="achieved-quantity">{t('dashboard.achievedQuantity')}</Label>
                   <Input
                       id="achieved-quantity"
                     type="number"
-                      placeholder="Enter achieved quantity"
+                      placeholder={t('dashboard.enterAchieved')}
                       value={achievedQuantity}
                       onChange={(e) => setAchievedQuantity(e.target.value)}
                     className="h-12 sm:h-10"
                   />
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="rejected-quantity">Rejected Quantity</Label>
+                    <Label htmlFor="rejected-quantity">{t('dashboard.rejectedQuantity')}</Label>
                     <Input
                       id="rejected-quantity"
                       type="number"
-                      placeholder="Enter rejected quantity"
+                      placeholder={t('dashboard.enterRejected')}
                       value={rejectedQuantity}
                       onChange={(e) => setRejectedQuantity(e.target.value)}
                       className="h-12 sm:h-10"
@@ -2519,10 +3000,32 @@ export default function EmployeeDashboard() {
                   </div>
                 </div>
 
+                {/* Lot traceability */}
+                {selectedProcess && isFirstStageSelected && (
+                  <div className="space-y-2">
+                    <Label htmlFor="lot-number">{t('production.lotNumber')}</Label>
+                    <Input
+                      id="lot-number"
+                      value={lotNumber}
+                      onChange={(e) => setLotNumber(e.target.value.toUpperCase())}
+                      placeholder={t('production.lotPlaceholder')}
+                      className="h-12 sm:h-10 font-mono"
+                    />
+                  </div>
+                )}
+                {selectedProcess && !isFirstStageSelected && (
+                  <LotConsumptionInput
+                    lots={availableLots}
+                    required={(parseInt(achievedQuantity) || 0) + (parseInt(rejectedQuantity) || 0)}
+                    value={consumedLots}
+                    onChange={setConsumedLots}
+                  />
+                )}
+
                 {/* Photo Capture Section */}
                 <div className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="photo-capture">Production Photo (Optional)</Label>
+                    <Label htmlFor="photo-capture">{t('dashboard.photoOptional')}</Label>
                     {!capturedPhoto && !isCameraOpen && (
                       <Button 
                         type="button"
@@ -2532,7 +3035,7 @@ export default function EmployeeDashboard() {
                         className="w-full"
                       >
                         <Camera className="h-4 w-4 mr-2" />
-                        Capture Photo
+                        {t('common.capturePhoto')}
                       </Button>
                     )}
                     {isCameraOpen && (
@@ -2546,7 +3049,7 @@ export default function EmployeeDashboard() {
                         <div className="relative">
                           <img 
                             src={capturedPhoto} 
-                            alt="Captured production photo" 
+                            alt={t('dashboard.photoAlt')} 
                             className="w-full max-w-xs h-auto rounded-lg border"
                           />
                           <Button
@@ -2566,7 +3069,7 @@ export default function EmployeeDashboard() {
                           className="w-full"
                         >
                           <Camera className="h-4 w-4 mr-2" />
-                          Retake Photo
+                          {t('dashboard.retakePhoto')}
                         </Button>
                       </div>
                     )}
@@ -2592,12 +3095,12 @@ export default function EmployeeDashboard() {
                   {loading ? (
                     <>
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Submitting...
+                      {t('common.submitting')}
                     </>
                   ) : (
                     <>
                       <Target className="h-4 w-4 mr-2" />
-                      Submit Production
+                      {t('common.submitProduction')}
                     </>
                   )}
                 </Button>
@@ -2607,6 +3110,8 @@ export default function EmployeeDashboard() {
 
         {/* Location tracking UI removed - will be implemented later */}
 
+        {gateScanDialog}
+
       </div>
     </Layout>
   );
@@ -1,11 +1,25 @@
 import { useCallback, useEffect, useState } from 'react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { CameraCapture } from '@/components/CameraCapture';
-import { productionService, productService, machineService, factoryService } from '@/services/api';
-import { Product, Machine } from '@/types';
+import { PendingSyncSubmissions } from '@/components/employee/PendingSyncSubmissions';
+import { DefectBreakdownInput } from '@/components/defects/DefectBreakdownInput';
+import { LotConsumptionInput } from '@/components/lots/LotConsumptionInput';
+import { ScanLabelButton } from '@/components/employee/ScanLabelButton';
+import { productionService, productService, machineService, factoryService, defectService, orderService, lotService } from '@/services/api';
+import { getConsumedTotal, getLotConsumption } from '@/services/api/lot.service';
+import { BOOKABLE_ORDER_STATUSES, getOrderId, sortOrdersByUrgency } from '@/services/api/order.service';
+import { getDefectBreakdown, getDefectBreakdownError, getDefectCodesForProcess } from '@/services/api/defect.service';
+import { resolveScanCode } from '@/services/api/label.service';
+import { syncService, isNetworkError } from '@/services/syncService';
+import { fileUploadService } from '@/services/fileUpload.service';
+import { useOfflineStore, generateClientKey } from '@/stores/offlineStore';
+import { Product, Machine, DefectCode, WorkEntryDefect, ProductionOrder, Lot, LotConsumption } from '@/types';
 import { Camera, Loader2, CheckCircle, Clock } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuthStore } from '@/stores/authStore';
+import { formatDate } from '@/utils/dateUtils';
+import { translateNow, useTranslation } from '@/hooks/useTranslation';
+import { getLocale } from '@/i18n';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -29,8 +43,12 @@ interface ProcessStatus {
   availableQuantity: number;
   stageOrder: number;
   isFirstStage: boolean;
+  reworkQuantity?: number;
 }
 
+// Select needs a non-empty value for "not booked against an order"
+const NO_ORDER = 'none';
+
 const getErrorMessage = (error: unknown, fallback: string) =>
   error instanceof Error && error.message ? error.message : fallback;
 
@@ -107,6 +125,8 @@ const normalizeShifts = (shiftsData: unknown): Shift[] => {
 export default function ProductionEntry() {
   console.log('🚀 ProductionEntry component mounted');
   const { user } = useAuthStore();
+  const { language, t, formatNumber } = useTranslation();
+  const isOnline = useOfflineStore((state) => state.isOnline);
   const [checkinTime, setCheckinTime] = useState<string | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [processStages, setProcessStages] = useState<ProcessStage[]>([]);
@@ -115,10 +135,19 @@ export default function ProductionEntry() {
   
   const [selectedProduct, setSelectedProduct] = useState('');
   const [selectedProcess, setSelectedProcess] = useState('');
+  const [orders, setOrders] = useState<ProductionOrder[]>([]);
+  const [selectedOrder, setSelectedOrder] = useState(NO_ORDER);
   const [selectedMachine, setSelectedMachine] = useState('');
   const [selectedShift, setSelectedShift] = useState('');
   const [achievedQuantity, setAchievedQuantity] = useState('');
   const [rejectedQuantity, setRejectedQuantity] = useState('');
+  const [defectCodes, setDefectCodes] = useState<DefectCode[]>([]);
+  const [defects, setDefects] = useState<WorkEntryDefect[]>([]);
+  const [reworkQuantity, setReworkQuantity] = useState('');
+  const [reworkProcessId, setReworkProcessId] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [availableLots, setAvailableLots] = useState<Lot[]>([]);
+  const [consumedLots, setConsumedLots] = useState<LotConsumption[]>([]);
   const [capturedPhoto, setCapturedPhoto] = useState<string | null>(null);
   const [processStatus, setProcessStatus] = useState<ProcessStatus | null>(null);
   
@@ -130,22 +159,33 @@ export default function ProductionEntry() {
 
   // Load process stages when product changes
   useEffect(() => {
+    setSelectedOrder(NO_ORDER);
     if (selectedProduct) {
       loadProcessStages(selectedProduct);
+      loadOrders(selectedProduct);
       setSelectedProcess(''); // Reset process selection
       setProcessStatus(null); // Reset status
     } else {
       setProcessStages([]);
+      setOrders([]);
       setProcessStatus(null);
     }
   }, [selectedProduct]);
 
   // Load process status when process changes
   useEffect(() => {
+    setDefects([]);
+    setReworkQuantity('');
+    // Rework goes back through the same stage unless the employee picks an earlier one
+    setReworkProcessId(selectedProcess);
+    setLotNumber('');
+    setConsumedLots([]);
     if (selectedProduct && selectedProcess) {
       loadProcessStatus(selectedProduct, selectedProcess);
+      loadAvailableLots(selectedProduct, selectedProcess);
     } else {
       setProcessStatus(null);
+      setAvailableLots([]);
     }
   }, [selectedProduct, selectedProcess]);
 
@@ -155,7 +195,7 @@ export default function ProductionEntry() {
       setProducts(response.data);
     } catch (error) {
       console.error('Failed to load products:', error);
-      toast.error(getErrorMessage(error, 'Failed to load products'));
+      toast.error(getErrorMessage(error, translateNow('production.loadProductsFailed')));
     }
   };
 
@@ -166,20 +206,31 @@ export default function ProductionEntry() {
       setProcessStages(response.data.stages || []);
     } catch (error) {
       console.error('Failed to load process stages:', error);
-      toast.error(getErrorMessage(error, 'Failed to load process stages'));
+      toast.error(getErrorMessage(error, translateNow('production.loadStagesFailed')));
       setProcessStages([]);
     } finally {
       setLoadingStages(false);
     }
   };
 
+  const loadOrders = async (productId: string) => {
+    try {
+      const productOrders = await orderService.getOrders({ productId, status: BOOKABLE_ORDER_STATUSES });
+      setOrders(sortOrdersByUrgency(productOrders));
+    } catch (error) {
+      // Orders are optional; the entry can still be booked against the product
+      console.error('Failed to load production orders:', error);
+      setOrders([]);
+    }
+  };
+
   const loadMachines = async () => {
     try {
       const response = await machineService.getMachines();
       setMachines(response.data);
     } catch (error) {
       console.error('Failed to load machines:', error);
-      toast.error(getErrorMessage(error, 'Failed to load machines'));
+      toast.error(getErrorMessage(error, translateNow('production.loadMachinesFailed')));
     }
   };
 
@@ -218,21 +269,36 @@ export default function ProductionEntry() {
       setShifts(normalizedShifts);
     } catch (fallbackError) {
       console.error('Fallback shift load failed:', fallbackError);
-      toast.error(getErrorMessage(fallbackError, 'Failed to load shifts'));
+      toast.error(getErrorMessage(fallbackError, t('production.loadShiftsFailed')));
       setShifts([]);
     }
-  }, [user?.factoryId]);
+  }, [user?.factoryId, t]);
 
   // Load initial data
   useEffect(() => {
     loadProducts();
     loadMachines();
+    defectService.getDefectCodes()
+      .then(setDefectCodes)
+      .catch((error) => console.error('Failed to load defect codes:', error));
   }, []);
 
   useEffect(() => {
     loadShifts();
   }, [loadShifts]);
 
+  // Surface the server's verdict on entries that were queued while offline
+  useEffect(() => {
+    return syncService.onItemSettled((item, outcome) => {
+      if (item.type !== 'work_entry') return;
+      if (outcome === 'synced') {
+        toast.success(t('production.offlineSynced'));
+      } else {
+        toast.error(t('production.offlineRejected', { message: item.lastError?.message || t('production.seePendingEntries') }));
+      }
+    });
+  }, [t]);
+
   const loadProcessStatus = async (productId: string, stageId: string) => {
     setLoadingStatus(true);
     try {
@@ -240,22 +306,38 @@ export default function ProductionEntry() {
       setProcessStatus(response.data);
     } catch (error) {
       console.error('Failed to load process status:', error);
-      toast.error(getErrorMessage(error, 'Failed to load process status'));
+      toast.error(getErrorMessage(error, translateNow('production.loadStatusFailed')));
       setProcessStatus(null);
     } finally {
       setLoadingStatus(false);
     }
   };
 
+  const loadAvailableLots = async (productId: string, processId: string) => {
+    try {
+      setAvailableLots(await lotService.getAvailableLots(productId, processId));
+    } catch (error) {
+      // Without lots the entry still books against the stage; traceability just has a gap
+      console.error('Failed to load lots:', error);
+      setAvailableLots([]);
+    }
+  };
+
   const handleCheckIn = async () => {
     setCheckingIn(true);
     try {
       const response = await productionService.checkIn();
       setCheckinTime(response.data.checkinTime);
-      toast.success('Check-in successful');
+      toast.success(t('production.checkInSuccess'));
     } catch (error) {
+      if (isNetworkError(error)) {
+        // The check-in time travels with the queued submission, so a local timestamp is enough offline
+        setCheckinTime(new Date().toISOString());
+        toast.info(t('production.checkedInOffline'));
+        return;
+      }
       console.error('Check-in failed:', error);
-      toast.error(getErrorMessage(error, 'Failed to check in'));
+      toast.error(getErrorMessage(error, t('production.checkInFailed')));
     } finally {
       setCheckingIn(false);
     }
@@ -270,14 +352,60 @@ export default function ProductionEntry() {
     setIsCameraOpen(false);
   };
 
+  // A scanned label fills in one selection; processes need their product picked first
+  const handleScan = (value: string) => {
+    const code = resolveScanCode(value, products);
+    if (!code) {
+      toast.error(t('scan.notALabel'));
+      return;
+    }
+
+    if (code.kind === 'product') {
+      const product = products.find((p) => String(p._id || p.id) === code.id);
+      if (!product) {
+        toast.error(t('scan.productUnavailable'));
+        return;
+      }
+      setSelectedProduct(code.id);
+      toast.success(t('scan.productScanned', { name: product.name }));
+    } else if (code.kind === 'process') {
+      const stage = processStages.find((s) => s.processId === code.id);
+      if (!selectedProduct) {
+        toast.error(t('scan.scanProductFirst'));
+      } else if (!stage) {
+        toast.error(t('scan.processNotAStage'));
+      } else {
+        setSelectedProcess(code.id);
+        toast.success(t('scan.processScanned', { name: stage.processName }));
+      }
+    } else {
+      const machine = machines.find((m) => String(m._id) === code.id);
+      if (!machine) {
+        toast.error(t('scan.machineUnavailable'));
+        return;
+      }
+      setSelectedMachine(code.id);
+      toast.success(t('scan.machineScanned', { name: machine.name }));
+    }
+  };
+
+  const processDefectCodes = selectedProcess ? getDefectCodesForProcess(defectCodes, selectedProcess) : [];
+  const currentStage = processStages.find((stage) => stage.processId === selectedProcess);
+  // Rework can only re-enter this stage or one before it
+  const reworkStages = currentStage
+    ? processStages.filter((stage) => stage.stageOrder <= currentStage.stageOrder)
+    : [];
+  const enteredRejected = parseInt(rejectedQuantity || '0') || 0;
+  const enteredRework = parseInt(reworkQuantity || '0') || 0;
+
   const handleSubmit = async () => {
     if (!checkinTime) {
-      toast.error('Please check in first');
+      toast.error(t('production.checkInFirst'));
       return;
     }
 
     if (!selectedProduct || !selectedProcess || !selectedMachine || !selectedShift) {
-      toast.error('Please fill in all required fields');
+      toast.error(t('errors.fillRequired'));
       return;
     }
 
@@ -285,17 +413,41 @@ export default function ProductionEntry() {
     const numericRejected = parseInt(rejectedQuantity || '0');
 
     if (isNaN(numericAchieved) || numericAchieved <= 0) {
-      toast.error('Please enter a valid achieved quantity');
+      toast.error(t('errors.invalidAchieved'));
       return;
     }
 
     if (isNaN(numericRejected) || numericRejected < 0) {
-      toast.error('Please enter a valid rejected quantity');
+      toast.error(t('production.invalidRejected'));
+      return;
+    }
+
+    const numericRework = parseInt(reworkQuantity || '0');
+    if (isNaN(numericRework) || numericRework < 0 || numericRework > numericRejected) {
+      toast.error(t('production.reworkOutOfRange'));
+      return;
+    }
+
+    if (numericRework > 0 && !reworkProcessId) {
+      toast.error(t('production.chooseReworkStage'));
+      return;
+    }
+
+    const isFirstStage = processStatus?.isFirstStage ?? false;
+    const lotsToRecord = !isFirstStage && availableLots.length > 0;
+    if (lotsToRecord && getConsumedTotal(consumedLots) !== numericAchieved + numericRejected) {
+      toast.error(t('production.assignLots', { count: numericAchieved + numericRejected }));
+      return;
+    }
+
+    const defectError = getDefectBreakdownError(processDefectCodes, numericRejected, defects);
+    if (defectError) {
+      toast.error(t(defectError.key, defectError.params));
       return;
     }
 
     if (!capturedPhoto) {
-      toast.error('Please capture a photo');
+      toast.error(t('production.photoRequired'));
       return;
     }
 
@@ -303,39 +455,88 @@ export default function ProductionEntry() {
     if (processStatus && !processStatus.isFirstStage) {
       const totalToConsume = numericAchieved + numericRejected;
       if (totalToConsume > processStatus.availableQuantity) {
-        toast.error(`Insufficient quantity available. Available: ${processStatus.availableQuantity}, Required: ${totalToConsume}`);
+        toast.error(t('production.insufficientQuantity', { available: processStatus.availableQuantity, required: totalToConsume }));
         return;
       }
     }
 
+    const submission = {
+      checkinTime,
+      productId: selectedProduct,
+      processId: selectedProcess,
+      orderId: selectedOrder === NO_ORDER ? undefined : selectedOrder,
+      lotNumber: isFirstStage ? lotNumber.trim() || undefined : undefined,
+      consumedLots: lotsToRecord ? getLotConsumption(consumedLots) : undefined,
+      machineId: selectedMachine,
+      shiftType: selectedShift,
+      achieved: numericAchieved,
+      rejected: numericRejected,
+      defects: numericRejected > 0 ? getDefectBreakdown(defects) : [],
+      reworkQuantity: numericRework,
+      reworkProcessId: numericRework > 0 ? reworkProcessId : undefined
+    };
+
+    // Same key online and in the queue, so a timed-out request that did land is not recorded twice
+    const clientKey = generateClientKey();
+
+    const queueSubmission = async () => {
+      const product = products.find((p) => String(p._id || p.id) === selectedProduct);
+      const stage = processStages.find((s) => s.processId === selectedProcess);
+      await syncService.queueWorkEntry({
+        mode: 'production',
+        payload: submission,
+        photo: fileUploadService.base64ToBlob(capturedPhoto),
+        summary: {
+          productName: product?.name,
+          processName: stage?.processName,
+          achieved: numericAchieved,
+          rejected: numericRejected
+        }
+      }, clientKey);
+      toast.info(t('production.savedOffline'));
+    };
+
     setLoading(true);
     try {
-      await productionService.submitProduction({
-        checkinTime,
-        productId: selectedProduct,
-        processId: selectedProcess,
-        machineId: selectedMachine,
-        shiftType: selectedShift,
-        achieved: numericAchieved,
-        rejected: numericRejected,
-        photo: capturedPhoto
-      });
-
-      toast.success('Production entry submitted successfully');
+      if (isOnline) {
+        try {
+          const result = await productionService.submitProduction(
+            { ...submission, photo: capturedPhoto },
+            { idempotencyKey: clientKey }
+          );
+          toast.success(
+            result.data?.lotNumber
+              ? t('production.submittedWithLot', { lot: result.data.lotNumber })
+              : t('production.submitted')
+          );
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          await queueSubmission();
+        }
+      } else {
+        await queueSubmission();
+      }
       
       // Reset form
       setCheckinTime(null);
       setSelectedProduct('');
       setSelectedProcess('');
+      setSelectedOrder(NO_ORDER);
       setSelectedMachine('');
       setSelectedShift('');
       setAchievedQuantity('');
       setRejectedQuantity('');
+      setDefects([]);
+      setReworkQuantity('');
+      setReworkProcessId(selectedProcess);
+      setLotNumber('');
+      setConsumedLots([]);
+      setAvailableLots([]);
       setCapturedPhoto(null);
       setProcessStatus(null);
     } catch (error) {
       console.error('Submit failed:', error);
-      toast.error(getErrorMessage(error, 'Failed to submit production entry'));
+      toast.error(getErrorMessage(error, t('production.submitFailed')));
     } finally {
       setLoading(false);
     }
@@ -346,16 +547,18 @@ export default function ProductionEntry() {
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-3xl font-bold">Production Entry</h1>
-            <p className="text-muted-foreground">Enter your production data</p>
+            <h1 className="text-3xl font-bold">{t('production.title')}</h1>
+            <p className="text-muted-foreground">{t('production.subtitle')}</p>
           </div>
         </div>
 
+        <PendingSyncSubmissions />
+
         {/* Check-in Section */}
         <Card>
           <CardHeader>
-            <CardTitle>Check-in</CardTitle>
-            <CardDescription>Start your production session</CardDescription>
+            <CardTitle>{t('production.checkIn')}</CardTitle>
+            <CardDescription>{t('production.checkInHint')}</CardDescription>
           </CardHeader>
           <CardContent>
             {!checkinTime ? (
@@ -368,12 +571,12 @@ export default function ProductionEntry() {
                 {checkingIn ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Checking in...
+                    {t('common.checkingIn')}
                   </>
                 ) : (
                   <>
                     <Clock className="mr-2 h-4 w-4" />
-                    Check In
+                    {t('common.checkIn')}
                   </>
                 )}
               </Button>
@@ -381,7 +584,7 @@ export default function ProductionEntry() {
               <div className="flex items-center justify-between p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
                 <div className="flex items-center gap-2">
                   <CheckCircle className="h-5 w-5 text-green-600" />
-                  <span className="font-medium">Checked in at {new Date(checkinTime).toLocaleTimeString()}</span>
+                  <span className="font-medium">{t('production.checkedInAt', { time: new Date(checkinTime).toLocaleTimeString(getLocale(language)) })}</span>
                 </div>
               </div>
             )}
@@ -392,16 +595,21 @@ export default function ProductionEntry() {
         {checkinTime && (
           <Card>
             <CardHeader>
-              <CardTitle>Production Details</CardTitle>
-              <CardDescription>Fill in the production information</CardDescription>
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                <div>
+                  <CardTitle>{t('production.details')}</CardTitle>
+                  <CardDescription>{t('production.detailsHint')}</CardDescription>
+                </div>
+                <ScanLabelButton onScan={handleScan} />
+              </div>
             </CardHeader>
             <CardContent className="space-y-6">
               {/* Product Selection */}
               <div className="space-y-2">
-                <Label htmlFor="product">Product *</Label>
+                <Label htmlFor="product">{t('production.product')}</Label>
                 <Select value={selectedProduct} onValueChange={setSelectedProduct}>
                   <SelectTrigger id="product">
-                    <SelectValue placeholder="Select a product" />
+                    <SelectValue placeholder={t('production.selectProduct')} />
                   </SelectTrigger>
                   <SelectContent>
                     {products.map((product) => (
@@ -413,22 +621,47 @@ export default function ProductionEntry() {
                 </Select>
               </div>
 
+              {/* Production Order Selection */}
+              {selectedProduct && orders.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="order">{t('production.order')}</Label>
+                  <Select value={selectedOrder} onValueChange={setSelectedOrder}>
+                    <SelectTrigger id="order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ORDER}>{t('production.noOrder')}</SelectItem>
+                      {orders.map((order) => (
+                        <SelectItem key={getOrderId(order)} value={getOrderId(order)}>
+                          {t('production.orderOption', {
+                            number: order.orderNumber,
+                            completed: order.completedQuantity,
+                            quantity: order.quantity,
+                            date: formatDate(order.dueDate),
+                          })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Process Stage Selection */}
               {selectedProduct && (
                 <div className="space-y-2">
-                  <Label htmlFor="process">Process Stage *</Label>
+                  <Label htmlFor="process">{t('production.processStage')}</Label>
                   <Select 
                     value={selectedProcess} 
                     onValueChange={setSelectedProcess}
                     disabled={loadingStages}
                   >
                     <SelectTrigger id="process">
-                      <SelectValue placeholder={loadingStages ? "Loading stages..." : "Select a process stage"} />
+                      <SelectValue placeholder={loadingStages ? t('production.loadingStages') : t('production.selectStage')} />
                     </SelectTrigger>
                     <SelectContent>
                       {processStages.map((stage) => (
                         <SelectItem key={stage.processId} value={stage.processId}>
-                          Stage {stage.stageOrder}: {stage.processName}
+                          {t('production.stageOption', { order: stage.stageOrder, name: stage.processName })}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -440,15 +673,20 @@ export default function ProductionEntry() {
               {selectedProcess && processStatus && (
                 <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
                   <div className="flex items-center justify-between">
-                    <span className="font-medium">Available from Previous Stage:</span>
+                    <span className="font-medium">{t('production.availableFromPrevious')}</span>
                     <span className="text-2xl font-bold">
-                      {processStatus.isFirstStage ? 'Unlimited' : processStatus.availableQuantity}
+                      {processStatus.isFirstStage ? t('production.unlimited') : formatNumber(processStatus.availableQuantity)}
                     </span>
                   </div>
+                  {!!processStatus.reworkQuantity && processStatus.reworkQuantity > 0 && (
+                    <div className="mt-1 text-sm text-amber-700 dark:text-amber-400">
+                      {t('production.includesRework', { count: processStatus.reworkQuantity })}
+                    </div>
+                  )}
                   {loadingStatus && (
                     <div className="mt-2 text-sm text-muted-foreground">
                       <Loader2 className="inline h-3 w-3 animate-spin mr-1" />
-                      Calculating...
+                      {t('production.calculating')}
                     </div>
                   )}
                 </div>
@@ -456,10 +694,10 @@ export default function ProductionEntry() {
 
               {/* Machine Selection */}
               <div className="space-y-2">
-                <Label htmlFor="machine">Machine *</Label>
+                <Label htmlFor="machine">{t('production.machine')}</Label>
                 <Select value={selectedMachine} onValueChange={setSelectedMachine}>
                   <SelectTrigger id="machine">
-                    <SelectValue placeholder="Select a machine" />
+                    <SelectValue placeholder={t('production.selectMachine')} />
                   </SelectTrigger>
                   <SelectContent>
                     {machines.map((machine) => {
@@ -476,10 +714,10 @@ export default function ProductionEntry() {
 
               {/* Shift Selection */}
               <div className="space-y-2">
-                <Label htmlFor="shift">Shift *</Label>
+                <Label htmlFor="shift">{t('production.shift')}</Label>
                 <Select value={selectedShift} onValueChange={setSelectedShift}>
                   <SelectTrigger id="shift">
-                    <SelectValue placeholder="Select a shift" />
+                    <SelectValue placeholder={t('production.selectShift')} />
                   </SelectTrigger>
                   <SelectContent>
                     {shifts.map((shift) => (
@@ -494,7 +732,7 @@ export default function ProductionEntry() {
               {/* Quantity Inputs */}
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="achieved">Achieved Quantity *</Label>
+                  <Label htmlFor="achieved">{t('production.achieved')}</Label>
                   <Input
                     id="achieved"
                     type="number"
@@ -505,7 +743,7 @@ export default function ProductionEntry() {
                   />
                 </div>
                 <div className="space-y-2">
-                  <Label htmlFor="rejected">Rejected Quantity</Label>
+                  <Label htmlFor="rejected">{t('production.rejected')}</Label>
                   <Input
                     id="rejected"
                     type="number"
@@ -517,21 +755,93 @@ export default function ProductionEntry() {
                 </div>
               </div>
 
+              {/* Lot traceability */}
+              {selectedProcess && processStatus?.isFirstStage && (
+                <div className="space-y-2">
+                  <Label htmlFor="lotNumber">{t('production.lotNumber')}</Label>
+                  <Input
+                    id="lotNumber"
+                    value={lotNumber}
+                    onChange={(e) => setLotNumber(e.target.value.toUpperCase())}
+                    placeholder={t('production.lotPlaceholder')}
+                    className="font-mono"
+                  />
+                </div>
+              )}
+              {selectedProcess && processStatus && !processStatus.isFirstStage && (
+                <LotConsumptionInput
+                  lots={availableLots}
+                  required={(parseInt(achievedQuantity) || 0) + enteredRejected}
+                  value={consumedLots}
+                  onChange={setConsumedLots}
+                />
+              )}
+
+              <DefectBreakdownInput
+                codes={processDefectCodes}
+                rejected={enteredRejected}
+                value={defects}
+                onChange={setDefects}
+              />
+
+              {/* Rework routing */}
+              {enteredRejected > 0 && (
+                <div className="space-y-3 rounded-lg border p-3">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="rework">{t('production.canRework')}</Label>
+                      <Input
+                        id="rework"
+                        type="number"
+                        min="0"
+                        max={enteredRejected}
+                        value={reworkQuantity}
+                        onChange={(e) => setReworkQuantity(e.target.value)}
+                        placeholder="0"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="reworkStage">{t('production.sendReworkTo')}</Label>
+                      <Select
+                        value={reworkProcessId}
+                        onValueChange={setReworkProcessId}
+                        disabled={enteredRework <= 0}
+                      >
+                        <SelectTrigger id="reworkStage">
+                          <SelectValue placeholder={t('production.selectReworkStage')} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {reworkStages.map((stage) => (
+                            <SelectItem key={stage.processId} value={stage.processId}>
+                              {t('production.stageOption', { order: stage.stageOrder, name: stage.processName })}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {t('production.scrapped', { count: Math.max(0, enteredRejected - enteredRework) })}
+                    {enteredRework > 0 && t('production.backForRework', { count: enteredRework })}
+                  </p>
+                </div>
+              )}
+
               {/* Photo Capture */}
               <div className="space-y-2">
-                <Label>Photo *</Label>
+                <Label>{t('production.photo')}</Label>
                 {capturedPhoto ? (
                   <div className="space-y-2">
                     <img 
                       src={capturedPhoto} 
-                      alt="Captured" 
+                      alt={t('production.photoAlt')} 
                       className="w-full max-w-md rounded-lg border"
                     />
                     <Button
                       variant="outline"
                       onClick={() => setCapturedPhoto(null)}
                     >
-                      Remove Photo
+                      {t('production.removePhoto')}
                     </Button>
                   </div>
                 ) : (
@@ -542,7 +852,7 @@ export default function ProductionEntry() {
                     className="w-full"
                   >
                     <Camera className="mr-2 h-4 w-4" />
-                    Capture Photo
+                    {t('common.capturePhoto')}
                   </Button>
                 )}
               </div>
@@ -557,10 +867,10 @@ export default function ProductionEntry() {
                 {loading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Submitting...
+                    {t('common.submitting')}
                   </>
                 ) : (
-                  'Submit Production'
+                  t('common.submitProduction')
                 )}
               </Button>
             </CardContent>
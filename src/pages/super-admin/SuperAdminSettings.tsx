@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -14,21 +14,14 @@ import {
   Database,
   Bell,
   Mail,
-  Save
+  Save,
+  Clock
 } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface SystemSettings {
-  timezone: string;
-  currency: string;
-  defaultLanguage: string;
-  emailNotifications: boolean;
-  smsNotifications: boolean;
-  systemMaintenance: boolean;
-  autoApproveFactories: boolean;
-  maxFactoriesPerAdmin: number;
-  sessionTimeout: number;
-}
+import { factoryService, settingsService } from '@/services/api';
+import { Factory, SystemSettings } from '@/types';
+import { getViewerTimezone, TIMEZONE_OPTIONS } from '@/utils/dateUtils';
+import { LANGUAGES } from '@/i18n';
 
 export default function SuperAdminSettings() {
   const [settings, setSettings] = useState<SystemSettings>({
@@ -44,20 +37,44 @@ export default function SuperAdminSettings() {
   });
 
   const [loading, setLoading] = useState(false);
+  const [factories, setFactories] = useState<Factory[]>([]);
+  const [savingFactoryId, setSavingFactoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    settingsService.getSystemSettings()
+      .then((saved) => setSettings(prev => ({ ...prev, ...saved })))
+      .catch((error) => console.error('Failed to load system settings:', error));
+    factoryService.getFactories()
+      .then((response) => setFactories(response.data || []))
+      .catch((error) => console.error('Failed to load factories:', error));
+  }, []);
 
   const handleSave = async () => {
     setLoading(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      setSettings(await settingsService.updateSystemSettings(settings));
       toast.success('Settings saved successfully');
     } catch (error) {
-      toast.error('Failed to save settings');
+      toast.error(error instanceof Error ? error.message : 'Failed to save settings');
     } finally {
       setLoading(false);
     }
   };
 
+  // Each factory keeps its own zone; shifts, dates and report ranges follow it
+  const handleFactoryTimezoneChange = async (factory: Factory, timezone: string) => {
+    setSavingFactoryId(factory.id);
+    try {
+      await factoryService.updateFactory(factory.id, { timezone });
+      setFactories(prev => prev.map(f => (f.id === factory.id ? { ...f, timezone } : f)));
+      toast.success(`${factory.name} now uses ${timezone}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update factory timezone');
+    } finally {
+      setSavingFactoryId(null);
+    }
+  };
+
   const updateSetting = (key: keyof SystemSettings, value: any) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
@@ -93,12 +110,12 @@ export default function SuperAdminSettings() {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="UTC">UTC</SelectItem>
-                    <SelectItem value="EST">Eastern Standard Time</SelectItem>
-                    <SelectItem value="PST">Pacific Standard Time</SelectItem>
-                    <SelectItem value="GMT">Greenwich Mean Time</SelectItem>
+                    {TIMEZONE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-muted-foreground mt-1">Used for new factories</p>
               </div>
               <div>
                 <Label htmlFor="currency" className="text-sm sm:text-base">Default Currency</Label>
@@ -114,10 +131,64 @@ export default function SuperAdminSettings() {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="defaultLanguage" className="text-sm sm:text-base">Default Language</Label>
+                <Select value={settings.defaultLanguage} onValueChange={(value) => updateSetting('defaultLanguage', value)}>
+                  <SelectTrigger id="defaultLanguage" className="mt-1 text-sm sm:text-base min-h-[44px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LANGUAGES.map((language) => (
+                      <SelectItem key={language.value} value={language.value}>
+                        {language.label}{language.nativeLabel !== language.label && ` (${language.nativeLabel})`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">Used by factories without their own language</p>
+              </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Factory Timezones */}
+        <Card className="shadow-md p-3 sm:p-4 md:p-6">
+          <CardHeader className="pb-3 sm:pb-4">
+            <CardTitle className="flex items-center gap-2 text-base sm:text-lg">
+              <Clock className="h-4 w-4 sm:h-5 sm:w-5" />
+              Factory Timezones
+            </CardTitle>
+            <CardDescription className="text-sm">
+              Dates, shift times and reports for each factory are shown on its own clock. Your timezone is {getViewerTimezone()}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {factories.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No factories yet</p>
+            ) : (
+              factories.map((factory) => (
+                <div key={factory.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                  <Label className="text-sm sm:text-base">{factory.name}</Label>
+                  <Select
+                    value={factory.timezone || ''}
+                    onValueChange={(value) => handleFactoryTimezoneChange(factory, value)}
+                    disabled={savingFactoryId === factory.id}
+                  >
+                    <SelectTrigger className="w-full sm:w-64 text-sm min-h-[44px]">
+                      <SelectValue placeholder="Browser timezone" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIMEZONE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
         {/* Security Settings */}
         <Card className="shadow-md p-3 sm:p-4 md:p-6">
           <CardHeader className="pb-3 sm:pb-4">
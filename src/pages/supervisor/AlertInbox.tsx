@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Bell, CheckCircle, Eye, Loader2, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { alertService } from '@/services/api';
+import { wsService } from '@/services/websocket.service';
+import { AlertSeverity, AlertStatus, ProductionAlert } from '@/types';
+import { formatDateTime, getRelativeTime } from '@/utils/dateUtils';
+
+const SEVERITY_BADGE: Record<AlertSeverity, 'destructive' | 'default' | 'secondary'> = {
+  critical: 'destructive',
+  warning: 'default',
+  info: 'secondary',
+};
+
+const getAlertId = (alert: ProductionAlert) => alert._id || alert.id || '';
+
+const getUserName = (user?: ProductionAlert['acknowledgedBy']) =>
+  user ? `${user.profile?.firstName || ''} ${user.profile?.lastName || ''}`.trim() || user.email : '';
+
+// Alerts raised by the factory's Andon rules, worked from open -> acknowledged -> resolved
+const AlertInbox = () => {
+  const [status, setStatus] = useState<AlertStatus>('open');
+  const [alerts, setAlerts] = useState<ProductionAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<ProductionAlert | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const loadAlerts = useCallback(async () => {
+    setLoading(true);
+    try {
+      setAlerts(await alertService.getAlerts({ status }));
+    } catch (error) {
+      console.error('Failed to load alerts:', error);
+      toast.error('Failed to load alerts');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  useEffect(() => {
+    const unsubscribe = [
+      wsService.subscribe('alert_created', loadAlerts),
+      wsService.subscribe('alert_updated', loadAlerts),
+      wsService.subscribe('sync_required', loadAlerts),
+    ];
+    return () => unsubscribe.forEach((unsub) => unsub());
+  }, [loadAlerts]);
+
+  const handleAcknowledge = async (alert: ProductionAlert) => {
+    setBusyId(getAlertId(alert));
+    try {
+      await alertService.acknowledgeAlert(getAlertId(alert));
+      toast.success('Alert acknowledged');
+      loadAlerts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to acknowledge alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    setBusyId(getAlertId(resolving));
+    try {
+      await alertService.resolveAlert(getAlertId(resolving), resolutionNote.trim() || undefined);
+      toast.success('Alert resolved');
+      setResolving(null);
+      setResolutionNote('');
+      loadAlerts();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Layout title="Alerts">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-2">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Production Alerts</h1>
+            <p className="text-muted-foreground">Lines falling behind plan or rejecting too much</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadAlerts} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as AlertStatus)}>
+          <TabsList>
+            <TabsTrigger value="open">Open</TabsTrigger>
+            <TabsTrigger value="acknowledged">Acknowledged</TabsTrigger>
+            <TabsTrigger value="resolved">Resolved</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : alerts.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <Bell className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              No {status} alerts
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {alerts.map((alert) => (
+              <Card key={getAlertId(alert)} className={alert.status === 'open' && alert.severity === 'critical' ? 'border-destructive' : ''}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="text-base">{alert.message}</CardTitle>
+                      <CardDescription>
+                        {alert.ruleName}
+                        {alert.productName ? ` · ${alert.productName}` : ''}
+                        {alert.processName ? ` · ${alert.processName}` : ''}
+                      </CardDescription>
+                    </div>
+                    <Badge variant={SEVERITY_BADGE[alert.severity]} className="shrink-0 capitalize">
+                      {alert.severity}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="text-muted-foreground space-y-1">
+                    <div>Raised {getRelativeTime(alert.createdAt)} ({formatDateTime(alert.createdAt)})</div>
+                    {alert.acknowledgedAt && (
+                      <div>Acknowledged by {getUserName(alert.acknowledgedBy) || 'a supervisor'} at {formatDateTime(alert.acknowledgedAt)}</div>
+                    )}
+                    {alert.resolvedAt && (
+                      <div>Resolved by {getUserName(alert.resolvedBy) || 'a supervisor'} at {formatDateTime(alert.resolvedAt)}</div>
+                    )}
+                    {alert.resolutionNote && <div>Note: {alert.resolutionNote}</div>}
+                  </div>
+                  {alert.status !== 'resolved' && (
+                    <div className="flex gap-2">
+                      {alert.status === 'open' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleAcknowledge(alert)}
+                          disabled={busyId === getAlertId(alert)}
+                        >
+                          <Eye className="h-4 w-4 mr-1" />
+                          Acknowledge
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        onClick={() => setResolving(alert)}
+                        disabled={busyId === getAlertId(alert)}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Resolve
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={!!resolving} onOpenChange={(open) => !open && setResolving(null)}>
+          <DialogContent aria-describedby="resolve-alert-description">
+            <DialogHeader>
+              <DialogTitle>Resolve Alert</DialogTitle>
+              <DialogDescription id="resolve-alert-description">
+                {resolving?.message}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="resolutionNote">What was done? (optional)</Label>
+              <Textarea
+                id="resolutionNote"
+                value={resolutionNote}
+                onChange={(e) => setResolutionNote(e.target.value)}
+                placeholder="e.g. Replaced worn die on press 3"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button className="flex-1" onClick={handleResolve} disabled={!!busyId}>
+                Resolve
+              </Button>
+              <Button variant="outline" className="flex-1" onClick={() => setResolving(null)}>
+                Cancel
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default AlertInbox;
@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ArrowDown, ArrowUp, GitBranch, Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { lotService } from '@/services/api';
+import { LotGenealogy, LotTraceEntry } from '@/types';
+import { formatDateTime } from '@/utils/dateUtils';
+
+// Group entries by stage, in process order
+const groupByStage = (entries: LotTraceEntry[]) => {
+  const stages = new Map<string, { processName: string; stageOrder: number; entries: LotTraceEntry[] }>();
+  entries.forEach((entry) => {
+    const stage = stages.get(entry.processId) || { processName: entry.processName, stageOrder: entry.stageOrder, entries: [] };
+    stage.entries.push(entry);
+    stages.set(entry.processId, stage);
+  });
+  return Array.from(stages.values()).sort((a, b) => a.stageOrder - b.stageOrder);
+};
+
+const LotTraceability = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tracedLot = searchParams.get('lot') || '';
+  const [query, setQuery] = useState(tracedLot);
+  const [genealogy, setGenealogy] = useState<LotGenealogy | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [photo, setPhoto] = useState<string | null>(null);
+
+  useEffect(() => {
+    setQuery(tracedLot);
+    if (!tracedLot) {
+      setGenealogy(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    lotService.getGenealogy(tracedLot)
+      .then((data) => {
+        if (!cancelled) setGenealogy(data);
+      })
+      .catch((error) => {
+        console.error('Failed to trace lot:', error);
+        if (!cancelled) {
+          setGenealogy(null);
+          toast.error(error instanceof Error ? error.message : `Lot ${tracedLot} not found`);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tracedLot]);
+
+  const traceLot = (lotNumber: string) => {
+    const trimmed = lotNumber.trim().toUpperCase();
+    if (trimmed) setSearchParams({ lot: trimmed });
+  };
+
+  const renderLotLink = (lotNumber: string) => (
+    <button
+      type="button"
+      key={lotNumber}
+      className="font-mono text-primary underline-offset-2 hover:underline"
+      onClick={() => traceLot(lotNumber)}
+    >
+      {lotNumber}
+    </button>
+  );
+
+  const renderEntry = (entry: LotTraceEntry) => (
+    <div key={entry.workEntryId} className="flex gap-3 rounded-lg border p-3 text-sm">
+      {entry.photo && (
+        <button type="button" className="shrink-0" onClick={() => setPhoto(entry.photo || null)}>
+          <img src={entry.photo} alt="Work photo" className="h-16 w-16 rounded object-cover" />
+        </button>
+      )}
+      <div className="min-w-0 flex-1 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{entry.employeeName}</span>
+          {entry.machineName && <Badge variant="outline">{entry.machineName}</Badge>}
+          <span className="text-muted-foreground">
+            Lot {entry.lotNumber === genealogy?.lotNumber ? <span className="font-mono">{entry.lotNumber}</span> : renderLotLink(entry.lotNumber)}
+          </span>
+        </div>
+        <div className="text-muted-foreground">
+          {formatDateTime(entry.startTime)}
+          {entry.endTime && ` - ${formatDateTime(entry.endTime)}`}
+        </div>
+        <div>
+          <span className="text-green-600">{entry.achieved} achieved</span>
+          {entry.rejected > 0 && <span className="text-red-600">, {entry.rejected} rejected</span>}
+        </div>
+        {entry.consumedLots.length > 0 && (
+          <div className="flex flex-wrap gap-x-2 text-muted-foreground">
+            From:
+            {entry.consumedLots.map((lot) => (
+              <span key={lot.lotNumber}>
+                {renderLotLink(lot.lotNumber)} ({lot.quantity})
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderStages = (entries: LotTraceEntry[], emptyText: string) => {
+    if (entries.length === 0) {
+      return <div className="text-center py-4 text-muted-foreground">{emptyText}</div>;
+    }
+    return (
+      <div className="space-y-4">
+        {groupByStage(entries).map((stage) => (
+          <div key={`${stage.stageOrder}-${stage.processName}`} className="space-y-2">
+            <div className="text-sm font-semibold">
+              Stage {stage.stageOrder}: {stage.processName}
+            </div>
+            {stage.entries.map(renderEntry)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Layout title="Lot Traceability">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold">Lot Traceability</h1>
+          <p className="text-muted-foreground">
+            Trace a lot back to who made it, on which machine and when - and forward to everything made from it
+          </p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                traceLot(query);
+              }}
+            >
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Enter a lot number"
+                className="font-mono"
+              />
+              <Button type="submit" disabled={loading || !query.trim()}>
+                {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                <span className="ml-2">Trace</span>
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {genealogy && !loading && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <ArrowUp className="h-5 w-5" />
+                  Made from
+                </CardTitle>
+                <CardDescription>Earlier stages and the lots this one was made from</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderStages(genealogy.backward, 'Nothing upstream - this lot started here')}
+              </CardContent>
+            </Card>
+
+            <Card className="border-primary">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <GitBranch className="h-5 w-5" />
+                  Lot <span className="font-mono">{genealogy.lotNumber}</span>
+                </CardTitle>
+                {genealogy.productName && <CardDescription>{genealogy.productName}</CardDescription>}
+              </CardHeader>
+              <CardContent>
+                {renderStages(genealogy.entries, 'No work entries recorded for this lot')}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <ArrowDown className="h-5 w-5" />
+                  Used in
+                </CardTitle>
+                <CardDescription>Later stages that consumed this lot</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {renderStages(genealogy.forward, 'Not used by a later stage yet')}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        <Dialog open={!!photo} onOpenChange={(open) => !open && setPhoto(null)}>
+          <DialogContent className="w-[95vw] max-w-2xl" aria-describedby={undefined}>
+            <DialogHeader>
+              <DialogTitle>Work Photo</DialogTitle>
+            </DialogHeader>
+            {photo && <img src={photo} alt="Work photo" className="w-full rounded-lg" />}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default LotTraceability;
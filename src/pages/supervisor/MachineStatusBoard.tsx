@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Cog, PlayCircle, RefreshCw, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { downtimeService } from '@/services/api';
+import { DowntimeSummaryCard } from '@/components/downtime/DowntimeSummaryCard';
+import { wsService } from '@/services/websocket.service';
+import { DowntimeEvent, MachineStatus } from '@/types';
+import { formatDateKey, formatTime, formatWorkHours } from '@/utils/dateUtils';
+
+const getDowntimeId = (event: DowntimeEvent) => event._id || event.id || '';
+
+const getMinutesSince = (date: Date | string) =>
+  Math.max(0, Math.round((Date.now() - new Date(date).getTime()) / 60000));
+
+const MachineStatusBoard = () => {
+  const [statuses, setStatuses] = useState<MachineStatus[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [endingId, setEndingId] = useState<string | null>(null);
+  // Re-render every minute so "down for" stays current between events
+  const [, setTick] = useState(0);
+
+  const loadBoard = useCallback(async () => {
+    try {
+      setStatuses(await downtimeService.getMachineStatus());
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error('Failed to load machine status:', error);
+      toast.error('Failed to load machine status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBoard();
+    const unsubscribe = [
+      wsService.subscribe('machine_status_changed', loadBoard),
+      wsService.subscribe('sync_required', loadBoard),
+    ];
+    const ticker = setInterval(() => setTick((tick) => tick + 1), 60000);
+    return () => {
+      unsubscribe.forEach((unsub) => unsub());
+      clearInterval(ticker);
+    };
+  }, [loadBoard]);
+
+  const handleMarkRunning = async (event: DowntimeEvent) => {
+    setEndingId(getDowntimeId(event));
+    try {
+      await downtimeService.endDowntime(getDowntimeId(event));
+      toast.success('Machine marked as running');
+      loadBoard();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to end stoppage');
+    } finally {
+      setEndingId(null);
+    }
+  };
+
+  const today = formatDateKey();
+  const downCount = statuses.filter((status) => status.status === 'down').length;
+  const totalDowntimeMinutes = statuses.reduce((total, status) => total + status.downtimeMinutesToday, 0);
+
+  // Down machines first, longest stoppage at the top
+  const sortedStatuses = [...statuses].sort((a, b) => {
+    if (a.status !== b.status) return a.status === 'down' ? -1 : 1;
+    if (a.currentDowntime && b.currentDowntime) {
+      return new Date(a.currentDowntime.startTime).getTime() - new Date(b.currentDowntime.startTime).getTime();
+    }
+    return a.machine.name.localeCompare(b.machine.name);
+  });
+
+  if (loading) {
+    return (
+      <Layout title="Machine Status">
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout title="Machine Status">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-2">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Machine Status</h1>
+            <p className="text-muted-foreground">Live running and stopped machines on the floor</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadBoard}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">Running</div>
+              <div className="text-2xl font-bold text-green-600">{statuses.length - downCount}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">Down</div>
+              <div className="text-2xl font-bold text-destructive">{downCount}</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <div className="text-sm text-muted-foreground">Downtime today</div>
+              <div className="text-2xl font-bold">{formatWorkHours(totalDowntimeMinutes / 60)}</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {sortedStatuses.map(({ machine, status, currentDowntime, downtimeMinutesToday }) => (
+            <Card key={machine._id} className={status === 'down' ? 'border-destructive bg-destructive/5' : 'border-green-500/50'}>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center justify-between gap-2 text-base">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <Cog className="h-4 w-4 shrink-0" />
+                    <span className="truncate">{machine.name}</span>
+                  </span>
+                  {status === 'down' ? (
+                    <Badge variant="destructive">Down</Badge>
+                  ) : (
+                    <Badge className="bg-green-600 hover:bg-green-700">Running</Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {currentDowntime ? (
+                  <>
+                    <div className="font-medium">
+                      {currentDowntime.reasonCode} - {currentDowntime.reasonLabel || 'Stopped'}
+                    </div>
+                    <div className="text-muted-foreground">
+                      Since {formatTime(currentDowntime.startTime)} ({formatWorkHours(getMinutesSince(currentDowntime.startTime) / 60)})
+                    </div>
+                    {currentDowntime.notes && <div className="text-muted-foreground">{currentDowntime.notes}</div>}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleMarkRunning(currentDowntime)}
+                      disabled={endingId === getDowntimeId(currentDowntime)}
+                    >
+                      <PlayCircle className="h-4 w-4 mr-1" />
+                      Mark running
+                    </Button>
+                  </>
+                ) : (
+                  <div className="text-muted-foreground">
+                    {downtimeMinutesToday > 0 ? `${formatWorkHours(downtimeMinutesToday / 60)} down today` : 'No stoppages today'}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+          {statuses.length === 0 && (
+            <div className="col-span-full text-center py-8 text-muted-foreground">
+              No machines found for this factory.
+            </div>
+          )}
+        </div>
+
+        <DowntimeSummaryCard
+          startDate={today}
+          endDate={today}
+          title="Today's Stoppages by Reason"
+          description="Where today's machine time went"
+          refreshKey={refreshKey}
+        />
+      </div>
+    </Layout>
+  );
+};
+
+export default MachineStatusBoard;
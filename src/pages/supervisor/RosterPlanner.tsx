@@ -0,0 +1,539 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { addDays, addWeeks, format, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import {
+  DndContext,
+  DragEndEvent,
+  DragOverlay,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CalendarRange, ChevronLeft, ChevronRight, Copy, Loader2, Search, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { factoryService, leaveService, machineService, processService, rosterService, userService } from '@/services/api';
+import { ShiftWindow } from '@/services/api/attendance.service';
+import { findRosterIssues, ROSTER_ISSUE_LABELS } from '@/services/api/roster.service';
+import { LeaveRequest, Machine, Process, RosterAssignment, RosterIssue, User } from '@/types';
+import { cn } from '@/lib/utils';
+
+// Radix Select items can't have an empty value
+const NO_MACHINE = 'none';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const getId = (item: { _id?: string; id?: string }) => item._id || item.id || '';
+
+const getEmployeeName = (employee?: User) =>
+  employee ? `${employee.profile.firstName} ${employee.profile.lastName}` : 'Unknown employee';
+
+const slotId = (shiftName: string, processId: string) => `slot|${shiftName}|${processId}`;
+
+interface DraggableEmployeeProps {
+  employee: User;
+  picked: boolean;
+  onLeave: boolean;
+  shiftCount: number;
+  onPick: () => void;
+}
+
+// Employee in the side list; drag onto a slot, or tap it and then tap a slot
+const DraggableEmployee: React.FC<DraggableEmployeeProps> = ({ employee, picked, onLeave, shiftCount, onPick }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: `employee|${getId(employee)}` });
+
+  return (
+    <button
+      type="button"
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      onClick={onPick}
+      className={cn(
+        'flex w-full items-center justify-between gap-2 rounded-md border px-3 py-2 text-left text-sm touch-none',
+        picked ? 'border-primary bg-primary/10' : 'bg-white hover:bg-gray-50',
+        isDragging && 'opacity-50'
+      )}
+    >
+      <span className="truncate">{getEmployeeName(employee)}</span>
+      <span className="flex shrink-0 items-center gap-1">
+        {onLeave && <Badge variant="outline" className="text-xs">Leave</Badge>}
+        <Badge variant="secondary" className="text-xs">{shiftCount}</Badge>
+      </span>
+    </button>
+  );
+};
+
+interface AssignmentChipProps {
+  assignment: RosterAssignment;
+  name: string;
+  machines: Machine[];
+  issues: RosterIssue[];
+  onMachineChange: (machineId?: string) => void;
+  onRemove: () => void;
+}
+
+const AssignmentChip: React.FC<AssignmentChipProps> = ({ assignment, name, machines, issues, onMachineChange, onRemove }) => {
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: `assignment|${getId(assignment)}` });
+  const hasConflict = issues.some((issue) => issue.severity === 'conflict');
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'space-y-1 rounded-md border bg-white p-2 text-xs',
+        hasConflict ? 'border-red-400' : issues.length > 0 ? 'border-amber-400' : '',
+        isDragging && 'opacity-50'
+      )}
+      title={issues.map((issue) => issue.message).join('\n') || undefined}
+    >
+      <div className="flex items-center justify-between gap-1">
+        <span {...attributes} {...listeners} className="flex-1 cursor-grab truncate font-medium touch-none">
+          {name}
+        </span>
+        <button type="button" onClick={onRemove} className="text-muted-foreground hover:text-destructive" aria-label={`Remove ${name}`}>
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+      <Select
+        value={assignment.machineId || NO_MACHINE}
+        onValueChange={(value) => onMachineChange(value === NO_MACHINE ? undefined : value)}
+      >
+        <SelectTrigger className="h-7 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_MACHINE}>No machine</SelectItem>
+          {machines.map((machine) => (
+            <SelectItem key={machine._id} value={machine._id}>{machine.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+interface RosterSlotProps {
+  id: string;
+  uncovered: boolean;
+  highlight: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const RosterSlot: React.FC<RosterSlotProps> = ({ id, uncovered, highlight, onClick, children }) => {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={onClick}
+      className={cn(
+        'min-h-[72px] space-y-1 rounded-md border p-1.5 transition-colors',
+        uncovered && 'border-dashed border-amber-300 bg-amber-50/50',
+        highlight && 'cursor-pointer hover:bg-primary/5',
+        isOver && 'border-primary bg-primary/10'
+      )}
+    >
+      {children}
+    </div>
+  );
+};
+
+const RosterPlanner = () => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [selectedDate, setSelectedDate] = useState(() => format(new Date(), DATE_FORMAT));
+  const [shifts, setShifts] = useState<ShiftWindow[]>([]);
+  const [processes, setProcesses] = useState<Process[]>([]);
+  const [machines, setMachines] = useState<Machine[]>([]);
+  const [employees, setEmployees] = useState<User[]>([]);
+  const [assignments, setAssignments] = useState<RosterAssignment[]>([]);
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [copying, setCopying] = useState(false);
+  const [search, setSearch] = useState('');
+  const [pickedEmployeeId, setPickedEmployeeId] = useState<string | null>(null);
+  const [draggingLabel, setDraggingLabel] = useState<string | null>(null);
+
+  const sensors = useSensors(
+    // A short drag threshold keeps taps working as taps
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const dates = useMemo(
+    () => Array.from({ length: 7 }, (_, i) => format(addDays(weekStart, i), DATE_FORMAT)),
+    [weekStart]
+  );
+  const weekFrom = dates[0];
+  const weekTo = dates[6];
+
+  useEffect(() => {
+    Promise.all([
+      factoryService.getShifts(),
+      processService.getProcesses(),
+      machineService.getMachines(),
+      userService.getEmployees(),
+    ])
+      .then(([shiftResponse, processResponse, machineResponse, employeeResponse]) => {
+        const shiftList: ShiftWindow[] = shiftResponse.data?.shifts || [];
+        setShifts(shiftList.filter((shift) => shift.isActive !== false));
+        setProcesses((processResponse.data || []).filter((process) => process.isActive));
+        setMachines(machineResponse.data || []);
+        setEmployees((employeeResponse.data || []).filter((employee) => employee.isActive !== false));
+      })
+      .catch((error) => {
+        console.error('Failed to load roster data:', error);
+        toast.error('Failed to load shifts, processes and employees');
+      });
+  }, []);
+
+  const loadWeek = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [roster, leave] = await Promise.all([
+        rosterService.getRoster(weekFrom, weekTo),
+        leaveService.getRequests({ status: 'approved', from: weekFrom, to: weekTo }).catch(() => []),
+      ]);
+      setAssignments(roster);
+      setLeaveRequests(leave);
+    } catch (error) {
+      console.error('Failed to load roster:', error);
+      toast.error('Failed to load roster');
+    } finally {
+      setLoading(false);
+    }
+  }, [weekFrom, weekTo]);
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek]);
+
+  const shiftNames = useMemo(() => shifts.map((shift) => shift.name), [shifts]);
+
+  const issues = useMemo(
+    () => findRosterIssues(assignments, { dates, shiftNames, processes, employees, leaveRequests }),
+    [assignments, dates, shiftNames, processes, employees, leaveRequests]
+  );
+
+  const dayAssignments = assignments.filter((assignment) => assignment.date === selectedDate);
+  const dayIssues = issues.filter((issue) => issue.date === selectedDate);
+
+  const isOnLeave = (employeeId: string, date: string) =>
+    issues.some((issue) => issue.kind === 'on_leave' && issue.employeeId === employeeId && issue.date === date) ||
+    leaveRequests.some((request) =>
+      request.employeeId === employeeId &&
+      format(new Date(request.startDate), DATE_FORMAT) <= date &&
+      format(new Date(request.endDate), DATE_FORMAT) >= date
+    );
+
+  const filteredEmployees = employees.filter((employee) =>
+    getEmployeeName(employee).toLowerCase().includes(search.toLowerCase())
+  );
+
+  const assign = async (employeeId: string, shiftName: string, processId: string) => {
+    if (dayAssignments.some((a) => a.employeeId === employeeId && a.shiftName === shiftName && a.processId === processId)) {
+      return;
+    }
+    try {
+      const created = await rosterService.createAssignment({ date: selectedDate, shiftName, processId, employeeId });
+      setAssignments((prev) => [...prev, created]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add to roster');
+    }
+  };
+
+  const move = async (assignment: RosterAssignment, shiftName: string, processId: string) => {
+    if (assignment.shiftName === shiftName && assignment.processId === processId) return;
+    const id = getId(assignment);
+    const previous = assignment;
+    // Move first so the chip doesn't jump back while the request is in flight
+    setAssignments((prev) => prev.map((a) => (getId(a) === id ? { ...a, shiftName, processId } : a)));
+    try {
+      const updated = await rosterService.updateAssignment(id, { shiftName, processId });
+      setAssignments((prev) => prev.map((a) => (getId(a) === id ? { ...a, ...updated } : a)));
+    } catch (error) {
+      setAssignments((prev) => prev.map((a) => (getId(a) === id ? previous : a)));
+      toast.error(error instanceof Error ? error.message : 'Failed to move roster slot');
+    }
+  };
+
+  const setMachine = async (assignment: RosterAssignment, machineId?: string) => {
+    const id = getId(assignment);
+    try {
+      const updated = await rosterService.updateAssignment(id, { machineId });
+      setAssignments((prev) => prev.map((a) => (getId(a) === id ? { ...a, ...updated, machineId } : a)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to set machine');
+    }
+  };
+
+  const remove = async (assignment: RosterAssignment) => {
+    const id = getId(assignment);
+    try {
+      await rosterService.deleteAssignment(id);
+      setAssignments((prev) => prev.filter((a) => getId(a) !== id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove from roster');
+    }
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const [kind, id] = String(event.active.id).split('|');
+    const employeeId = kind === 'employee' ? id : assignments.find((a) => getId(a) === id)?.employeeId;
+    setDraggingLabel(getEmployeeName(employees.find((e) => getId(e) === employeeId)));
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setDraggingLabel(null);
+    if (!event.over) return;
+    const [, shiftName, processId] = String(event.over.id).split('|');
+    const [kind, id] = String(event.active.id).split('|');
+
+    if (kind === 'employee') {
+      assign(id, shiftName, processId);
+    } else {
+      const assignment = assignments.find((a) => getId(a) === id);
+      if (assignment) move(assignment, shiftName, processId);
+    }
+  };
+
+  const handleSlotClick = (shiftName: string, processId: string) => {
+    if (!pickedEmployeeId) return;
+    assign(pickedEmployeeId, shiftName, processId);
+  };
+
+  const handleCopyPreviousWeek = async () => {
+    setCopying(true);
+    try {
+      const { copied } = await rosterService.copyWeek(format(subWeeks(weekStart, 1), DATE_FORMAT), weekFrom);
+      toast.success(`Copied ${copied} ${copied === 1 ? 'slot' : 'slots'} from last week`);
+      loadWeek();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to copy last week');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  const changeWeek = (next: Date) => {
+    setWeekStart(next);
+    setSelectedDate(format(next, DATE_FORMAT));
+  };
+
+  const getEmployeeLabel = (assignment: RosterAssignment) =>
+    assignment.employeeName || getEmployeeName(employees.find((e) => getId(e) === assignment.employeeId));
+
+  const getChipIssues = (assignment: RosterAssignment) =>
+    dayIssues.filter((issue) =>
+      issue.shiftName === assignment.shiftName &&
+      (issue.employeeId === assignment.employeeId ||
+        (issue.kind === 'machine_clash' && issue.processId === assignment.processId && !!assignment.machineId))
+    );
+
+  return (
+    <Layout title="Shift Roster">
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold">Shift Roster</h1>
+            <p className="text-muted-foreground">Drag employees onto a shift and process; tap a name and then a slot on a phone</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => changeWeek(subWeeks(weekStart, 1))} aria-label="Previous week">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium whitespace-nowrap">
+              {format(weekStart, 'd MMM')} - {format(addDays(weekStart, 6), 'd MMM yyyy')}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => changeWeek(addWeeks(weekStart, 1))} aria-label="Next week">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={handleCopyPreviousWeek} disabled={copying}>
+              {copying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Copy className="h-4 w-4 mr-2" />}
+              Copy last week
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+          {dates.map((date) => {
+            const conflicts = issues.filter((issue) => issue.date === date && issue.severity === 'conflict').length;
+            const uncovered = issues.filter((issue) => issue.date === date && issue.kind === 'uncovered_process').length;
+            return (
+              <button
+                key={date}
+                type="button"
+                onClick={() => setSelectedDate(date)}
+                className={cn(
+                  'rounded-lg border p-2 text-center text-sm',
+                  date === selectedDate ? 'border-primary bg-primary/10 font-semibold' : 'bg-white hover:bg-gray-50'
+                )}
+              >
+                <div>{format(parseISO(date), 'EEE d')}</div>
+                <div className="mt-1 flex justify-center gap-1">
+                  {conflicts > 0 && <Badge variant="destructive" className="px-1.5 text-xs">{conflicts}</Badge>}
+                  {uncovered > 0 && <Badge variant="outline" className="border-amber-400 px-1.5 text-xs text-amber-700">{uncovered}</Badge>}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setDraggingLabel(null)}>
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <Card className="lg:col-span-1">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Employees</CardTitle>
+                <CardDescription>Count is shifts rostered this week</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search" className="pl-9" />
+                </div>
+                <div className="max-h-[480px] space-y-1 overflow-y-auto">
+                  {filteredEmployees.map((employee) => {
+                    const employeeId = getId(employee);
+                    return (
+                      <DraggableEmployee
+                        key={employeeId}
+                        employee={employee}
+                        picked={pickedEmployeeId === employeeId}
+                        onLeave={isOnLeave(employeeId, selectedDate)}
+                        shiftCount={assignments.filter((a) => a.employeeId === employeeId).length}
+                        onPick={() => setPickedEmployeeId((current) => (current === employeeId ? null : employeeId))}
+                      />
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-3">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <CalendarRange className="h-5 w-5" />
+                  {format(parseISO(selectedDate), 'EEEE d MMMM')}
+                </CardTitle>
+                {pickedEmployeeId && (
+                  <CardDescription>
+                    Tap a slot to add {getEmployeeName(employees.find((e) => getId(e) === pickedEmployeeId))}
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : shifts.length === 0 || processes.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    Add shifts in Factory Settings and active processes before planning a roster
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full border-separate border-spacing-1">
+                      <thead>
+                        <tr>
+                          <th className="w-32 text-left text-xs font-medium text-muted-foreground">Process</th>
+                          {shifts.map((shift) => (
+                            <th key={shift.name} className="min-w-[160px] text-left text-xs font-medium text-muted-foreground">
+                              {shift.name}
+                              <span className="ml-1 font-normal">{shift.startTime}-{shift.endTime}</span>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {processes.map((process) => {
+                          const processId = getId(process);
+                          return (
+                            <tr key={processId}>
+                              <td className="align-top text-sm font-medium">{process.name}</td>
+                              {shifts.map((shift) => {
+                                const slotAssignments = dayAssignments.filter(
+                                  (a) => a.shiftName === shift.name && a.processId === processId
+                                );
+                                return (
+                                  <td key={shift.name} className="align-top">
+                                    <RosterSlot
+                                      id={slotId(shift.name, processId)}
+                                      uncovered={slotAssignments.length === 0}
+                                      highlight={!!pickedEmployeeId}
+                                      onClick={() => handleSlotClick(shift.name, processId)}
+                                    >
+                                      {slotAssignments.map((assignment) => (
+                                        <AssignmentChip
+                                          key={getId(assignment)}
+                                          assignment={assignment}
+                                          name={getEmployeeLabel(assignment)}
+                                          machines={machines}
+                                          issues={getChipIssues(assignment)}
+                                          onMachineChange={(machineId) => setMachine(assignment, machineId)}
+                                          onRemove={() => remove(assignment)}
+                                        />
+                                      ))}
+                                    </RosterSlot>
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <DragOverlay>
+            {draggingLabel && (
+              <div className="rounded-md border border-primary bg-white px-3 py-2 text-sm shadow-lg">{draggingLabel}</div>
+            )}
+          </DragOverlay>
+        </DndContext>
+
+        {dayIssues.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <AlertTriangle className="h-5 w-5 text-amber-600" />
+                Roster Warnings
+              </CardTitle>
+              <CardDescription>Conflicts first, then gaps, for {format(parseISO(selectedDate), 'EEEE')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {[...dayIssues]
+                .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'conflict' ? -1 : 1))
+                .map((issue, index) => (
+                  <div key={`${issue.kind}-${issue.shiftName}-${issue.employeeId || issue.processId}-${index}`} className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge
+                      variant={issue.severity === 'conflict' ? 'destructive' : 'outline'}
+                      className="text-xs"
+                    >
+                      {ROSTER_ISSUE_LABELS[issue.kind]}
+                    </Badge>
+                    <span className="text-muted-foreground">{issue.shiftName}</span>
+                    <span>{issue.message}</span>
+                  </div>
+                ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default RosterPlanner;
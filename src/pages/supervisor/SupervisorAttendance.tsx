@@ -1,12 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 
-import { attendanceService, userService } from '@/services/api';
-import { Attendance, User } from '@/types';
+import { attendanceService, leaveService, userService } from '@/services/api';
+import { CHECK_IN_MODE_LABELS, getAttendanceProductionDate } from '@/services/api/attendance.service';
+import { useProductionDay } from '@/hooks/useProductionDay';
+import { CHECK_IN_REVIEW_LABELS, CHECK_IN_RISK_LEVEL_LABELS } from '@/services/checkInRisk.service';
+import { findLeaveOnDate } from '@/services/api/leave.service';
+import { FlaggedCheckInsCard } from '@/components/attendance/FlaggedCheckInsCard';
+import { AttendanceCalendar } from '@/components/attendance/AttendanceCalendar';
+import { LeaveApprovalsCard } from '@/components/leave/LeaveApprovalsCard';
+import { RegularizationRequestsCard } from '@/components/attendance/RegularizationRequestsCard';
+import { RegularizationHistoryCard } from '@/components/attendance/RegularizationHistoryCard';
+import { Attendance, LeaveRequest, User } from '@/types';
 import { formatDate, formatTime, formatHours, calculateHours } from '@/utils/dateUtils';
 import { useAuthStore } from '@/stores/authStore';
 import { 
@@ -24,9 +33,10 @@ import {
   Download,
   ArrowLeft,
   User as UserIcon,
-  FileText
+  FileText,
+  Plane
 } from 'lucide-react';
-import { format as dateFnsFormat, startOfDay, endOfDay, isToday, subDays } from 'date-fns';
+import { format as dateFnsFormat, startOfDay, endOfDay, isToday, parseISO, subDays } from 'date-fns';
 import { toast } from 'sonner';
 
 export default function SupervisorAttendance() {
@@ -41,12 +51,27 @@ export default function SupervisorAttendance() {
     end: endOfDay(new Date()),
   });
   const [filterType, setFilterType] = useState<'last7days' | 'custom'>('last7days');
-  const [todayAttendance, setTodayAttendance] = useState<Attendance[]>([]);
+  const [recentAttendance, setRecentAttendance] = useState<Attendance[]>([]);
+  const [recentLeave, setRecentLeave] = useState<LeaveRequest[]>([]);
+  const [employeeLeave, setEmployeeLeave] = useState<LeaveRequest[]>([]);
+  const productionDay = useProductionDay();
+
+  // Today is the production day, so the night shift still counts after midnight
+  const todayAttendance = useMemo(() => {
+    const today = productionDay.getToday();
+    return recentAttendance.filter(attendance => getAttendanceProductionDate(attendance, productionDay.shifts) === today);
+  }, [recentAttendance, productionDay]);
+
+  const todayLeave = useMemo(() => {
+    const today = `${productionDay.getToday()}T12:00:00`;
+    return recentLeave.filter(leave => findLeaveOnDate([leave], today));
+  }, [recentLeave, productionDay]);
 
   useEffect(() => {
     if (user?.factoryId) {
       loadEmployees();
       loadTodayAttendance();
+      loadTodayLeave();
     }
   }, [user?.factoryId]);
 
@@ -54,7 +79,7 @@ export default function SupervisorAttendance() {
     if (selectedEmployee) {
       loadEmployeeAttendance();
     }
-  }, [selectedEmployee, dateRange, filterType]);
+  }, [selectedEmployee, dateRange, filterType, productionDay]);
 
   const loadEmployees = async () => {
     if (!user?.factoryId) {
@@ -112,18 +137,20 @@ export default function SupervisorAttendance() {
       }
       
       // Filter by date range if specified
+      // Approved leave, so those days show as leave rather than absences
+      const leaveRequests = await leaveService.getRequests({
+        employeeId: selectedEmployee._id || selectedEmployee.id,
+        status: 'approved',
+      }).catch(() => []);
+      setEmployeeLeave(leaveRequests);
+
       if (dateRange.start && dateRange.end) {
-        const startDate = startOfDay(dateRange.start);
-        const endDate = endOfDay(dateRange.end);
+        // Compare production days, so a night shift is in range on the day it started
+        const startDate = dateFnsFormat(dateRange.start, 'yyyy-MM-dd');
+        const endDate = dateFnsFormat(dateRange.end, 'yyyy-MM-dd');
         
         attendanceData = attendanceData.filter(attendance => {
-          // Handle different date field structures
-          const attendanceDate = new Date(
-            attendance.date || 
-            attendance.checkIn?.date || 
-            attendance.createdAt || 
-            attendance.updatedAt
-          );
+          const attendanceDate = getAttendanceProductionDate(attendance, productionDay.shifts);
           return attendanceDate >= startDate && attendanceDate <= endDate;
         });
       }
@@ -143,26 +170,28 @@ export default function SupervisorAttendance() {
     try {
       const response = await attendanceService.getAttendance();
       
-      const allAttendance = response.data || [];
-      
-      // Filter for today's attendance
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      
-      const todayRecords = allAttendance.filter(attendance => {
-        const attendanceDate = new Date(attendance.date || attendance.checkIn?.date || attendance.createdAt);
-        return attendanceDate >= today && attendanceDate < tomorrow;
-      });
-      
-      setTodayAttendance(todayRecords);
+      // Narrowed to today's production day by todayAttendance
+      setRecentAttendance(response.data || []);
       
          } catch (error: any) {
-       setTodayAttendance([]);
+       setRecentAttendance([]);
      }
   };
 
+  // From yesterday, as the production day is still yesterday during a night shift; narrowed by todayLeave
+  const loadTodayLeave = async () => {
+    const today = new Date();
+    try {
+      setRecentLeave(await leaveService.getRequests({
+        status: 'approved',
+        from: dateFnsFormat(subDays(today, 1), 'yyyy-MM-dd'),
+        to: dateFnsFormat(today, 'yyyy-MM-dd'),
+      }));
+    } catch (error) {
+      setRecentLeave([]);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     // Handle different status formats and nested structures
     const normalizedStatus = status?.toLowerCase() || 'unknown';
@@ -194,12 +223,14 @@ export default function SupervisorAttendance() {
       return status === 'present';
     }).length;
     
+    // Employees on approved leave today aren't absent
+    const onLeaveIds = new Set(todayLeave.map(leave => leave.employeeId));
     const absent = todayAttendance.filter(a => {
       const status = a.status || a.checkIn?.status;
-      return status === 'absent';
+      return status === 'absent' && !onLeaveIds.has(a.employeeId);
     }).length;
 
-    return { totalEmployees, present, absent };
+    return { totalEmployees, present, absent, onLeave: onLeaveIds.size };
   };
 
   const filteredEmployees = employees.filter(employee => {
@@ -224,6 +255,7 @@ export default function SupervisorAttendance() {
   const handleBackToEmployees = () => {
     setSelectedEmployee(null);
     setEmployeeAttendance([]);
+    setEmployeeLeave([]);
   };
 
      const handleEmployeeClick = (employee: User) => {
@@ -236,12 +268,14 @@ export default function SupervisorAttendance() {
     if (!selectedEmployee) return;
 
     // Create CSV content
-    const headers = ['Date', 'Status', 'Check-in Time', 'Check-out Time', 'Total Hours'];
+    const headers = ['Date', 'Status', 'Check-in Time', 'Check-in Method', 'Check-in Zone', 'Check-out Time', 'Check-out Flag', 'Total Hours'];
     const csvContent = [
       headers.join(','),
       ...employeeAttendance.map(attendance => {
-        const date = dateFnsFormat(new Date(attendance.date || attendance.checkIn?.date || attendance.createdAt), 'yyyy-MM-dd');
-        const status = attendance.status || attendance.checkIn?.status || 'Unknown';
+        const date = getAttendanceProductionDate(attendance, productionDay.shifts);
+        const recordStatus = attendance.status || attendance.checkIn?.status || 'Unknown';
+        const leave = recordStatus === 'absent' ? findLeaveOnDate(employeeLeave, `${date}T12:00:00`) : undefined;
+        const status = leave ? `On Leave${leave.leaveTypeName ? ` (${leave.leaveTypeName})` : ''}` : recordStatus;
         const checkInTime = attendance.checkIn?.time ? dateFnsFormat(new Date(attendance.checkIn.time), 'HH:mm') : 'N/A';
         const checkOutTime = attendance.checkOut?.time ? dateFnsFormat(new Date(attendance.checkOut.time), 'HH:mm') : 'N/A';
         
@@ -253,7 +287,11 @@ export default function SupervisorAttendance() {
           totalHours = ((new Date(attendance.checkOut.time).getTime() - new Date(attendance.checkIn.time).getTime()) / (1000 * 60 * 60)).toFixed(2);
         }
         
-        return [date, status, checkInTime, checkOutTime, totalHours].join(',');
+        const checkInMethod = attendance.checkIn?.method ? CHECK_IN_MODE_LABELS[attendance.checkIn.method] : 'N/A';
+        const checkInZone = attendance.checkIn?.zoneName || 'N/A';
+        const checkOutFlag = attendance.checkOut?.regularizationId ? 'Regularized' : attendance.checkOut?.autoClosed ? 'Auto-closed' : '';
+
+        return [date, status, checkInTime, checkInMethod, checkInZone, checkOutTime, checkOutFlag, totalHours].join(',');
       })
     ].join('\n');
 
@@ -364,7 +402,7 @@ export default function SupervisorAttendance() {
           </Card>
 
           {/* Summary Cards - Mobile Optimized */}
-          <div className="grid grid-cols-3 gap-3 sm:gap-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
             <Card className="shadow-sm hover:shadow-md transition-shadow duration-200">
               <CardContent className="p-3 sm:p-4">
                 <div className="flex flex-col items-center text-center">
@@ -400,12 +438,35 @@ export default function SupervisorAttendance() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="shadow-sm hover:shadow-md transition-shadow duration-200">
+              <CardContent className="p-3 sm:p-4">
+                <div className="flex flex-col items-center text-center">
+                  <div className="p-2 bg-blue-100 rounded-lg mb-2">
+                    <Plane className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600" />
+                  </div>
+                  <p className="text-xs sm:text-sm text-muted-foreground font-medium mb-1">On Leave</p>
+                  <p className="text-xl sm:text-3xl font-extrabold text-blue-700">{stats.onLeave}</p>
+                </div>
+              </CardContent>
+            </Card>
           </div>
 
           
 
 
 
+           {/* Attendance Calendar */}
+           <Card className="shadow-sm">
+             <CardHeader className="pb-3">
+               <CardTitle className="text-lg">Calendar</CardTitle>
+               <CardDescription className="text-sm">Attendance and approved leave by day</CardDescription>
+             </CardHeader>
+             <CardContent>
+               <AttendanceCalendar attendance={employeeAttendance} leaveRequests={employeeLeave} />
+             </CardContent>
+           </Card>
+
            {/* Detailed Attendance Table */}
            <Card className="shadow-sm border border-gray-200">
              <CardHeader className="pb-3 bg-gray-50 rounded-t-lg">
@@ -430,12 +491,13 @@ export default function SupervisorAttendance() {
                    <tbody className="bg-white divide-y divide-gray-200">
                      {employeeAttendance.length > 0 ? (
                        employeeAttendance
-                         .sort((a, b) => new Date(b.date || b.createdAt).getTime() - new Date(a.date || a.createdAt).getTime())
+                         .sort((a, b) => new Date(b.checkIn?.time || b.createdAt).getTime() - new Date(a.checkIn?.time || a.createdAt).getTime())
                          .map((attendance, index) => {
-                          const attendanceDate = new Date(attendance.date || attendance.checkIn?.date || attendance.createdAt);
+                          const attendanceDate = parseISO(getAttendanceProductionDate(attendance, productionDay.shifts));
                           const checkInTime = attendance.checkIn?.time ? new Date(attendance.checkIn.time) : null;
                           const checkOutTime = attendance.checkOut?.time ? new Date(attendance.checkOut.time) : null;
                           const status = attendance.status || attendance.checkIn?.status || 'present';
+                          const leave = status === 'absent' ? findLeaveOnDate(employeeLeave, attendanceDate) : undefined;
                           
                           // Calculate hours worked - prefer workHours from API (calculated from WorkEntry data)
                           // Fallback to checkIn/checkOut calculation if not available
@@ -448,10 +510,9 @@ export default function SupervisorAttendance() {
                             // Fallback to checkIn/checkOut calculation
                             hoursWorked = calculateHours(checkInTime, checkOutTime);
                           } else if (checkInTime && !checkOutTime) {
-                            // If no checkout time but it's today, calculate from checkin to now
+                            // If no checkout time but it's today's production day, calculate from checkin to now
                             const today = new Date();
-                            const checkInDate = new Date(checkInTime);
-                            const isToday = checkInDate.toDateString() === today.toDateString();
+                            const isToday = getAttendanceProductionDate(attendance, productionDay.shifts) === productionDay.getToday();
                             if (isToday) {
                               hoursWorked = calculateHours(checkInTime, today);
                             }
@@ -467,25 +528,48 @@ export default function SupervisorAttendance() {
                                </td>
                                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                  {checkInTime ? formatTime(checkInTime) : '-'}
+                                 {attendance.checkIn?.method && (
+                                   <div className="text-xs text-gray-400">{CHECK_IN_MODE_LABELS[attendance.checkIn.method]}</div>
+                                 )}
+                                 {attendance.checkIn?.zoneName && (
+                                   <div className="text-xs text-gray-400">{attendance.checkIn.zoneName}</div>
+                                 )}
                                </td>
                                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                  {checkOutTime ? formatTime(checkOutTime) : 'On duty'}
+                                 {attendance.checkOut?.regularizationId ? (
+                                   <div className="text-xs text-blue-600">Regularized</div>
+                                 ) : attendance.checkOut?.autoClosed && (
+                                   <div className="text-xs text-orange-600">Auto-closed</div>
+                                 )}
                                </td>
                                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                  {formatHours(hoursWorked)}
                                </td>
                                <td className="px-4 py-3 whitespace-nowrap">
                                  <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                                   status === 'present' 
+                                   leave
+                                     ? 'bg-blue-100 text-blue-800'
+                                     : status === 'present' 
                                      ? 'bg-green-100 text-green-800' 
                                      : status === 'absent'
                                      ? 'bg-red-100 text-red-800'
                                      : 'bg-yellow-100 text-yellow-800'
                                  }`}>
-                                   {status === 'present' ? 'Present' : 
+                                   {leave ? 'On Leave' :
+                                    status === 'present' ? 'Present' : 
                                     status === 'absent' ? 'Absent' : 
                                     status === 'half-day' ? 'Half Day' : 'Present'}
                                  </span>
+                                 {leave?.leaveTypeName && (
+                                   <div className="mt-1 text-xs text-blue-700">{leave.leaveTypeName}</div>
+                                 )}
+                                 {attendance.checkIn?.risk && attendance.checkIn.risk.level !== 'low' && (
+                                   <div className={`mt-1 text-xs ${attendance.checkIn.risk.level === 'high' ? 'text-red-600' : 'text-amber-600'}`}>
+                                     {CHECK_IN_RISK_LEVEL_LABELS[attendance.checkIn.risk.level]}
+                                     {attendance.checkIn.risk.review && ` · ${CHECK_IN_REVIEW_LABELS[attendance.checkIn.risk.review]}`}
+                                   </div>
+                                 )}
                                </td>
                              </tr>
                            );
@@ -503,8 +587,7 @@ export default function SupervisorAttendance() {
              </CardContent>
            </Card>
 
-
-
+           <RegularizationHistoryCard employeeId={selectedEmployee._id || selectedEmployee.id || ''} />
                      
         </div>
       </Layout>
@@ -555,7 +638,7 @@ export default function SupervisorAttendance() {
         
 
         {/* Summary Cards - Mobile Optimized */}
-        <div className="grid grid-cols-3 gap-3 sm:gap-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 sm:gap-4">
           <Card className="shadow-sm hover:shadow-md transition-shadow duration-200">
             <CardContent className="p-3 sm:p-4">
               <div className="flex flex-col items-center text-center">
@@ -591,8 +674,26 @@ export default function SupervisorAttendance() {
               </div>
             </CardContent>
           </Card>
+
+          <Card className="shadow-sm hover:shadow-md transition-shadow duration-200">
+            <CardContent className="p-3 sm:p-4">
+              <div className="flex flex-col items-center text-center">
+                <div className="p-2 bg-blue-100 rounded-lg mb-2">
+                  <Plane className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600" />
+                </div>
+                <p className="text-xs sm:text-sm text-muted-foreground font-medium mb-1">On Leave</p>
+                <p className="text-xl sm:text-3xl font-extrabold text-blue-700">{stats.onLeave}</p>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
+        <FlaggedCheckInsCard employees={employees} />
+
+        <LeaveApprovalsCard employees={employees} onReviewed={loadTodayLeave} />
+
+        <RegularizationRequestsCard employees={employees} onReviewed={loadTodayAttendance} />
+
         {/* Employee List - Mobile Optimized */}
         <Card className="shadow-sm">
           <CardHeader className="pb-3">
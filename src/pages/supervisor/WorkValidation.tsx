@@ -27,9 +27,34 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { workEntryService } from '@/services/api/workEntry.service';
-import { WorkEntry } from '@/types';
+import { downtimeService, getDowntimeMachineId, getOverlappingDowntimeMinutes } from '@/services/api/downtime.service';
+import { DowntimeEvent, WorkEntry } from '@/types';
 import { format } from 'date-fns';
+import { formatWorkHours } from '@/utils/dateUtils';
 import { wsService } from '@/services/websocket.service';
+import { useAuthStore } from '@/stores/authStore';
+import { syncService, isNetworkError } from '@/services/syncService';
+import { generateClientKey } from '@/stores/offlineStore';
+
+// Stoppages during these entries explain low efficiency that isn't down to the operator
+const fetchEntryDowntime = async (workEntries: WorkEntry[]): Promise<DowntimeEvent[]> => {
+  const startTimes = workEntries
+    .map(entry => new Date(entry.startTime || entry.createdAt).getTime())
+    .filter(time => !isNaN(time));
+  if (startTimes.length === 0) {
+    return [];
+  }
+
+  try {
+    return await downtimeService.getDowntime({
+      startDate: format(new Date(Math.min(...startTimes)), 'yyyy-MM-dd'),
+      endDate: format(new Date(), 'yyyy-MM-dd'),
+    });
+  } catch (error) {
+    console.error('Failed to load machine downtime:', error);
+    return [];
+  }
+};
 
 /**
  * Safely extracts a string value from a potentially nested object structure.
@@ -85,12 +110,15 @@ const getSafeStringValue = (value: any): string => {
 
 export default function WorkValidation() {
   const [entries, setEntries] = useState<WorkEntry[]>([]);
+  const [downtime, setDowntime] = useState<DowntimeEvent[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [selectedEntry, setSelectedEntry] = useState<WorkEntry | null>(null);
   const [validationNotes, setValidationNotes] = useState('');
   const [loading, setLoading] = useState(false);
   const [dataLoading, setDataLoading] = useState(true);
+  const { user } = useAuthStore();
+  const supervisorId = user?.id || user?._id;
 
   useEffect(() => {
     loadWorkEntries();
@@ -101,20 +129,29 @@ export default function WorkValidation() {
     const unsubscribeSubmitted = wsService.subscribe('work_entry_submitted', loadWorkEntries);
     const unsubscribeValidated = wsService.subscribe('work_entry_validated', loadWorkEntries);
     const unsubscribeProduction = wsService.subscribe('production_data_updated', loadWorkEntries);
+    const unsubscribeSyncRequired = wsService.subscribe('sync_required', loadWorkEntries);
 
     return () => {
       unsubscribeSubmitted();
       unsubscribeValidated();
       unsubscribeProduction();
+      unsubscribeSyncRequired();
     };
   }, []);
 
+  // Only this supervisor's team's work entry events
+  useEffect(() => {
+    if (!supervisorId) return;
+    return wsService.subscribeTopics([{ kind: 'team', supervisorId }]);
+  }, [supervisorId]);
+
   const loadWorkEntries = async () => {
     setDataLoading(true);
     try {
       const response = await workEntryService.getWorkEntries();
       const workEntries = response.workEntries || [];
       setEntries(workEntries);
+      fetchEntryDowntime(workEntries).then(setDowntime);
     } catch (error) {
       console.error('Failed to load work entries:', error);
       toast.error('Failed to load work entries');
@@ -123,6 +160,24 @@ export default function WorkValidation() {
     }
   };
 
+  const getEntryDowntime = (entry: WorkEntry) => {
+    const machine: unknown = entry.machineId;
+    const machineId = machine && typeof machine === 'object' && '_id' in machine
+      ? String((machine as { _id: string })._id)
+      : entry.machineId;
+    if (!machineId || !entry.startTime) {
+      return { minutes: 0, reasons: [] as string[] };
+    }
+
+    const machineEvents = downtime.filter(event => getDowntimeMachineId(event) === machineId);
+    const end = entry.endTime || new Date();
+    const overlapping = machineEvents.filter(event => getOverlappingDowntimeMinutes([event], entry.startTime, end) > 0);
+    return {
+      minutes: getOverlappingDowntimeMinutes(overlapping, entry.startTime, end),
+      reasons: Array.from(new Set(overlapping.map(event => event.reasonLabel || event.reasonCode))),
+    };
+  };
+
   const filteredEntries = entries.filter(entry => {
     const employeeName = `${entry.employeeId?.profile?.firstName || ''} ${entry.employeeId?.profile?.lastName || ''}`.toLowerCase();
     const processName = getSafeStringValue(entry.processId).toLowerCase();
@@ -140,8 +195,32 @@ export default function WorkValidation() {
 
   const handleValidate = async (entryId: string, status: 'approved' | 'rejected', notes: string) => {
     setLoading(true);
+    // Reused if the validation has to be queued, so a request that did land is not applied twice
+    const clientKey = generateClientKey();
     try {
-      await workEntryService.validateWorkEntry(entryId, status, notes);
+      try {
+        await workEntryService.validateWorkEntry(entryId, status, notes, { idempotencyKey: clientKey });
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+
+        const entry = entries.find(e => e._id === entryId);
+        const employee = typeof entry?.employeeId === 'object' ? entry.employeeId : undefined;
+        await syncService.queueValidation({
+          id: entryId,
+          status,
+          notes,
+          summary: {
+            employeeName: `${employee?.profile?.firstName || ''} ${employee?.profile?.lastName || ''}`.trim(),
+            productName: getSafeStringValue(entry?.productId),
+            processName: getSafeStringValue(entry?.processId),
+          },
+        }, clientKey);
+        setEntries(prev => prev.map(e => e._id === entryId ? { ...e, validationStatus: status, validationNotes: notes } : e));
+        toast.info('No connection - validation saved on this device and will sync automatically');
+        setValidationNotes('');
+        setSelectedEntry(null);
+        return;
+      }
       
       // Optimistic update - update local state immediately
       setEntries(prev => prev.map(entry => 
@@ -346,6 +425,18 @@ export default function WorkValidation() {
                         )}
                       </div>
 
+                      {(() => {
+                        const entryDowntime = getEntryDowntime(entry);
+                        return entryDowntime.minutes > 0 && (
+                          <div className="text-xs sm:text-sm md:text-base">
+                            <span className="text-muted-foreground block mb-1">Machine downtime during this entry:</span>
+                            <p className="text-blue-700 bg-blue-50 p-2 rounded break-words leading-relaxed">
+                              {formatWorkHours(entryDowntime.minutes / 60)} stopped ({entryDowntime.reasons.join(', ')})
+                            </p>
+                          </div>
+                        );
+                      })()}
+
                       {entry.reasonForLessProduction && (
                         <div className="text-xs sm:text-sm md:text-base">
                           <span className="text-muted-foreground block mb-1">Reason for less production:</span>
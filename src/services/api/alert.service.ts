@@ -0,0 +1,61 @@
+import { apiClient } from './client';
+import { AlertRule, AlertRuleMetric, AlertStatus, ProductionAlert } from '@/types';
+
+export type AlertRuleInput = Pick<
+  AlertRule,
+  'name' | 'metric' | 'threshold' | 'consecutiveHours' | 'productId' | 'processId' | 'severity' | 'enabled'
+>;
+
+export interface AlertFilters {
+  status?: AlertStatus;
+  productId?: string;
+  processId?: string;
+}
+
+export const ALERT_METRIC_LABELS: Record<AlertRuleMetric, string> = {
+  production_vs_expected: 'Actual below % of expected',
+  rejection_rate: 'Rejection rate above %',
+};
+
+export const alertService = {
+  // Rules (factory admin)
+  async getRules(): Promise<AlertRule[]> {
+    apiClient.clearCache('/alerts/rules');
+    const response = await apiClient.get('/alerts/rules');
+    const responseData = response.data || response;
+    return responseData.rules || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async createRule(data: AlertRuleInput): Promise<AlertRule> {
+    const response = await apiClient.post('/alerts/rules', data);
+    return response.data || response;
+  },
+
+  async updateRule(id: string, data: Partial<AlertRuleInput>): Promise<AlertRule> {
+    const response = await apiClient.put(`/alerts/rules/${id}`, data);
+    return response.data || response;
+  },
+
+  async deleteRule(id: string): Promise<void> {
+    await apiClient.delete(`/alerts/rules/${id}`);
+  },
+
+  // Alerts raised by the rules
+  async getAlerts(filters: AlertFilters = {}): Promise<ProductionAlert[]> {
+    // Alert state changes from other screens and via WebSocket, so always read it fresh
+    apiClient.clearCache('/alerts');
+    const response = await apiClient.get('/alerts', filters);
+    const responseData = response.data || response;
+    return responseData.alerts || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async acknowledgeAlert(id: string): Promise<ProductionAlert> {
+    const response = await apiClient.post(`/alerts/${id}/acknowledge`);
+    return response.data || response;
+  },
+
+  async resolveAlert(id: string, note?: string): Promise<ProductionAlert> {
+    const response = await apiClient.post(`/alerts/${id}/resolve`, { note });
+    return response.data || response;
+  },
+};
@@ -1,6 +1,7 @@
 // Attendance Service
-import { Attendance } from '@/types';
-import { apiClient } from './client';
+import { Attendance, AttendanceRegularization, AttendanceSnapshot, CheckInMode, CheckInRisk, Factory, GateCheckInCode, RegularizationStatus } from '@/types';
+import { apiClient, RequestConfig } from './client';
+import { atTimeOfDay, EARLY_CHECK_IN_MINUTES, formatDateTime, getMinutesOfDay, getProductionDate, parseTimeOfDay } from '@/utils/dateUtils';
 
 export const attendanceService = {
   async getAttendance(): Promise<{ data: Attendance[] }> {
@@ -40,6 +41,7 @@ export const attendanceService = {
     };
   },
 
+  // "Today" is the current production day, so a night shift still finds its check-in after midnight
   async getTodayAttendance(employeeId: string): Promise<{ data: Attendance }> {
     const response = await apiClient.get(`/attendance/today/${employeeId}`);
     const responseData = response.data || response;
@@ -61,12 +63,21 @@ export const attendanceService = {
   async checkIn(data: {
     employeeId: string;
     processId: string;
-    location: { latitude: number; longitude: number };
+    // Left out when the factory checks in by gate QR only
+    location?: { latitude: number; longitude: number };
+    // Token read from the gate display's QR code
+    gateToken?: string;
+    method?: CheckInMode;
+    // Device-side spoofing score; the server adds its own checks before storing it
+    risk?: CheckInRisk;
+    // Shift the employee picked, and the roster slot it came from when they were rostered
+    shiftName?: string;
+    rosterAssignmentId?: string;
     shiftType: 'morning' | 'evening' | 'night';
     target: number;
-  }): Promise<{ data: Attendance }> {
+  }, config?: RequestConfig): Promise<{ data: Attendance }> {
     try {
-      const response = await apiClient.post('/attendance/check-in', data);
+      const response = await apiClient.post('/attendance/check-in', data, config);
       return response.data || response;
     } catch (error: any) {
       // Log detailed error for debugging
@@ -131,4 +142,145 @@ export const attendanceService = {
     const response = await apiClient.post('/attendance/mark-absent');
     return response.data || response;
   },
-};
\ No newline at end of file
+
+  // Check-ins waiting for supervisor review because of a high spoofing risk
+  async getFlaggedCheckIns(): Promise<Attendance[]> {
+    apiClient.clearCache('/attendance/flagged');
+    const response = await apiClient.get('/attendance/flagged');
+    const responseData = response.data || response;
+    return responseData.attendance || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async reviewCheckIn(attendanceId: string, review: 'approved' | 'rejected', note?: string): Promise<{ data: Attendance }> {
+    const response = await apiClient.patch(`/attendance/${attendanceId}/review`, { review, note });
+    return response.data || response;
+  },
+
+  // Current gate check-in code (kiosk display token); a new one is issued before this one expires
+  async getGateCode(): Promise<GateCheckInCode> {
+    apiClient.clearCache('/attendance/gate-code');
+    const response = await apiClient.get('/attendance/gate-code');
+    return response.data || response;
+  },
+
+  // Check-out corrections; the employee's own unless the caller is a supervisor
+  async getRegularizations(filters: { status?: RegularizationStatus; employeeId?: string } = {}): Promise<AttendanceRegularization[]> {
+    apiClient.clearCache('/attendance/regularizations');
+    const response = await apiClient.get('/attendance/regularizations', filters);
+    const responseData = response.data || response;
+    return responseData.regularizations || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async requestRegularization(attendanceId: string, data: { proposedCheckOut: Date; reason: string }): Promise<AttendanceRegularization> {
+    const response = await apiClient.post(`/attendance/${attendanceId}/regularizations`, data);
+    return response.data || response;
+  },
+
+  async reviewRegularization(id: string, status: 'approved' | 'rejected', note?: string): Promise<AttendanceRegularization> {
+    const response = await apiClient.patch(`/attendance/regularizations/${id}/review`, { status, note });
+    return response.data || response;
+  },
+};
+
+// Shift as configured in factory settings, times as HH:mm
+export interface ShiftWindow {
+  name: string;
+  startTime: string;
+  endTime: string;
+  isActive?: boolean;
+}
+
+export const REGULARIZATION_STATUS_LABELS: Record<RegularizationStatus, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export const CHECK_IN_MODE_LABELS: Record<CheckInMode, string> = {
+  gps: 'GPS location',
+  qr: 'Gate QR code',
+  both: 'GPS and gate QR code',
+};
+
+export function getCheckInMode(factory?: Pick<Factory, 'checkInMode'> | null): CheckInMode {
+  return factory?.checkInMode || 'gps';
+}
+
+export function checkInNeedsGps(mode: CheckInMode): boolean {
+  return mode !== 'qr';
+}
+
+export function checkInNeedsGateCode(mode: CheckInMode): boolean {
+  return mode !== 'gps';
+}
+
+const EARLY_CHECK_IN_MS = EARLY_CHECK_IN_MINUTES * 60 * 1000;
+
+// Longer than any shift; an open check-in this old was never checked out
+const MAX_OPEN_CHECK_IN_MS = 16 * 60 * 60 * 1000;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string) => parseTimeOfDay(time) ?? 0;
+
+// Active shift running at a moment on the factory's clock, with when it ends; a shift ending at or before its start runs past midnight
+function findShiftAt(at: Date, shifts: ShiftWindow[]): { shift: ShiftWindow; end: Date } | null {
+  const minutes = getMinutesOfDay(at);
+  for (const shift of shifts.filter((s) => s.isActive !== false)) {
+    const start = toMinutes(shift.startTime);
+    const end = toMinutes(shift.endTime);
+    const overnight = end <= start;
+    const inShift = overnight ? minutes >= start || minutes < end : minutes >= start && minutes < end;
+    if (inShift) {
+      return { shift, end: atTimeOfDay(at, end, overnight && minutes >= start ? 1 : 0) };
+    }
+  }
+  return null;
+}
+
+// Shift a check-in at this moment belongs to, counting the early check-in window before a shift starts
+export function getShiftAt(time: Date | string, shifts: ShiftWindow[]): ShiftWindow | null {
+  const at = new Date(time);
+  return (findShiftAt(at, shifts) || findShiftAt(new Date(at.getTime() + EARLY_CHECK_IN_MS), shifts))?.shift ?? null;
+}
+
+// End of the shift a check-in belongs to
+export function getShiftEnd(checkInTime: Date | string, shifts: ShiftWindow[]): Date | null {
+  const checkIn = new Date(checkInTime);
+  return (findShiftAt(checkIn, shifts) || findShiftAt(new Date(checkIn.getTime() + EARLY_CHECK_IN_MS), shifts))?.end ?? null;
+}
+
+// Start of the run of a shift a check-in at this moment belongs to, counting the early check-in window
+function getShiftRunStart(at: Date, shift: ShiftWindow): Date | null {
+  const start = toMinutes(shift.startTime);
+  const length = (((toMinutes(shift.endTime) - start) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY || MINUTES_PER_DAY;
+  for (const addDays of [0, -1, 1]) {
+    const startsAt = atTimeOfDay(at, start, addDays);
+    if (at.getTime() >= startsAt.getTime() - EARLY_CHECK_IN_MS && at.getTime() < startsAt.getTime() + length * 60 * 1000) {
+      return startsAt;
+    }
+  }
+  return null;
+}
+
+// Production day an attendance record counts towards; records the server has stamped keep their date.
+// An early check-in before the day turns over still counts towards the day its shift starts on.
+export function getAttendanceProductionDate(attendance: Attendance, shifts: ShiftWindow[]): string {
+  if (attendance.productionDate) return attendance.productionDate;
+  const time = attendance.checkIn?.time || attendance.date || attendance.createdAt;
+  const shift = attendance.shiftName ? shifts.find((s) => s.name === attendance.shiftName) : undefined;
+  const runStart = shift && attendance.checkIn?.time ? getShiftRunStart(new Date(attendance.checkIn.time), shift) : null;
+  return getProductionDate(runStart || time, shifts);
+}
+
+// Check-outs the employee should correct: auto-closed at shift end, or never made at all
+export function needsRegularization(attendance: Attendance, now: Date = new Date()): boolean {
+  if (attendance.checkOut?.autoClosed) return true;
+  if (attendance.checkOut || !attendance.checkIn?.time) return false;
+  return now.getTime() - new Date(attendance.checkIn.time).getTime() > MAX_OPEN_CHECK_IN_MS;
+}
+
+export function describeCheckOut(snapshot?: AttendanceSnapshot): string {
+  if (!snapshot?.checkOut) return 'No check-out';
+  return `${formatDateTime(snapshot.checkOut)}${snapshot.autoClosed ? ' (auto-closed)' : ''}`;
+}
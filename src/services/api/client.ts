@@ -80,6 +80,8 @@ export interface RequestConfig extends RequestInit {
   retries?: number;
   retryDelay?: number;
   responseType?: 'json' | 'blob';
+  // Sent as Idempotency-Key so the server can deduplicate replayed writes (offline sync, retries)
+  idempotencyKey?: string;
 }
 
 class ApiClient {
@@ -90,6 +92,8 @@ class ApiClient {
   private connectionTestInterval: NodeJS.Timeout | null = null;
   private cache: Map<string, { data: unknown; timestamp: number }> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  // Read-only token of a kiosk display; takes the place of a user session while set
+  private displayToken: string | null = null;
 
   constructor() {
     this.baseURL = API_URL;
@@ -253,11 +257,12 @@ class ApiClient {
   private getHeaders(config?: RequestConfig): HeadersInit {
     const headers: HeadersInit = {
       'Content-Type': 'application/json',
+      ...(config?.idempotencyKey ? { 'Idempotency-Key': config.idempotencyKey } : {}),
       ...config?.headers,
     };
 
     if (!config?.skipAuth) {
-      const { accessToken } = useAuthStore.getState();
+      const accessToken = this.getAccessToken();
       if (accessToken) {
         headers['Authorization'] = `Bearer ${accessToken}`;
       }
@@ -441,8 +446,8 @@ class ApiClient {
           throw fetchError;
         }
 
-        // Handle token expiration
-        if (response && response.status === 401 && !config?.skipAuth) {
+        // Handle token expiration (display tokens have no refresh - a 401 means it was revoked)
+        if (response && response.status === 401 && !config?.skipAuth && !this.displayToken) {
           try {
             await this.refreshToken();
             requestConfig.headers = this.getHeaders(config);
@@ -810,7 +815,17 @@ class ApiClient {
   }
 
   private getAccessToken(): string | null {
-    return useAuthStore.getState().accessToken;
+    return this.displayToken || useAuthStore.getState().accessToken;
+  }
+
+  // Kiosk displays authenticate with a display token from their URL instead of logging in
+  setDisplayToken(token: string | null) {
+    this.displayToken = token;
+    this.clearCache();
+  }
+
+  hasDisplayToken(): boolean {
+    return this.displayToken !== null;
   }
 
   // WebSocket connection
@@ -822,6 +837,13 @@ class ApiClient {
     return new WebSocket(`${this.wsURL}${separator}token=${token}`);
   }
 
+  // Server-sent events stream, used when WebSocket upgrades are blocked.
+  // EventSource can't set headers, so the token goes in the query string like the WebSocket URL.
+  createEventSource(endpoint: string, params: Record<string, string> = {}): EventSource {
+    const query = new URLSearchParams({ ...params, token: this.getAccessToken() || '' });
+    return new EventSource(`${this.baseURL}${endpoint}?${query.toString()}`);
+  }
+
   // Cleanup method
   destroy() {
     if (this.connectionTestInterval) {
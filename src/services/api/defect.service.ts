@@ -0,0 +1,103 @@
+import { apiClient } from './client';
+import { DefectCode, DefectParetoGroupBy, DefectParetoRow, DefectSeverity, WorkEntryDefect } from '@/types';
+import { MessageKey, MessageParams } from '@/i18n';
+
+export type DefectCodeInput = Pick<DefectCode, 'code' | 'label' | 'category' | 'severity' | 'processIds' | 'isActive'>;
+
+export interface DefectParetoFilters {
+  startDate?: string;
+  endDate?: string;
+  productId?: string;
+  processId?: string;
+  machineId?: string;
+  employeeId?: string;
+  groupBy?: DefectParetoGroupBy;
+}
+
+export const DEFECT_SEVERITY_LABELS: Record<DefectSeverity, string> = {
+  minor: 'Minor',
+  major: 'Major',
+  critical: 'Critical',
+};
+
+const toList = <T>(responseData: { [key: string]: unknown } | T[], key: string): T[] => {
+  if (Array.isArray(responseData)) return responseData;
+  const list = responseData?.[key];
+  return Array.isArray(list) ? (list as T[]) : [];
+};
+
+export const defectService = {
+  // Defect catalog (configured per factory in Factory Settings)
+  async getDefectCodes(): Promise<DefectCode[]> {
+    const response = await apiClient.get('/defects');
+    return toList<DefectCode>(response.data || response, 'defects');
+  },
+
+  async createDefectCode(data: DefectCodeInput): Promise<DefectCode> {
+    const response = await apiClient.post('/defects', data);
+    apiClient.clearCache('/defects');
+    return response.data || response;
+  },
+
+  async updateDefectCode(id: string, data: Partial<DefectCodeInput>): Promise<DefectCode> {
+    const response = await apiClient.put(`/defects/${id}`, data);
+    apiClient.clearCache('/defects');
+    return response.data || response;
+  },
+
+  async deleteDefectCode(id: string): Promise<void> {
+    await apiClient.delete(`/defects/${id}`);
+    apiClient.clearCache('/defects');
+  },
+
+  // Rejected quantity per defect code (or per product/process/machine/employee), largest first
+  async getPareto(filters: DefectParetoFilters = {}): Promise<DefectParetoRow[]> {
+    const response = await apiClient.get('/reports/defect-pareto', filters);
+    const rows = toList<DefectParetoRow>(response.data || response, 'rows');
+    return withCumulativePercentages(rows);
+  },
+};
+
+// Sort by quantity and fill in the running share the Pareto line is drawn from
+function withCumulativePercentages(rows: DefectParetoRow[]): DefectParetoRow[] {
+  const total = rows.reduce((sum, row) => sum + row.quantity, 0);
+  let running = 0;
+  return [...rows]
+    .sort((a, b) => b.quantity - a.quantity)
+    .map((row) => {
+      running += row.quantity;
+      return {
+        ...row,
+        percentage: total > 0 ? (row.quantity / total) * 100 : 0,
+        cumulativePercentage: total > 0 ? (running / total) * 100 : 0,
+      };
+    });
+}
+
+// Active codes an employee can pick for a process
+export function getDefectCodesForProcess(codes: DefectCode[], processId: string): DefectCode[] {
+  return codes.filter(
+    (code) => code.isActive && (code.processIds.length === 0 || code.processIds.includes(processId))
+  );
+}
+
+// Drops empty lines so only codes with a quantity are sent
+export function getDefectBreakdown(defects: WorkEntryDefect[]): WorkEntryDefect[] {
+  return defects.filter((defect) => defect.quantity > 0);
+}
+
+export function getDefectTotal(defects: WorkEntryDefect[]): number {
+  return defects.reduce((total, defect) => total + (defect.quantity || 0), 0);
+}
+
+// Every rejected piece needs a code once the process has any configured; returns the message to translate
+export function getDefectBreakdownError(
+  codes: DefectCode[],
+  rejected: number,
+  defects: WorkEntryDefect[]
+): { key: MessageKey; params: MessageParams } | null {
+  if (rejected <= 0 || codes.length === 0) return null;
+  const assigned = getDefectTotal(defects);
+  if (assigned === rejected) return null;
+  return { key: 'production.splitDefects', params: { rejected, assigned } };
+}
@@ -0,0 +1,54 @@
+import { apiClient } from './client';
+import { DisplayConfig, DisplayPanel } from '@/types';
+
+export type DisplayConfigInput = Pick<DisplayConfig, 'name' | 'panels' | 'dwellSeconds' | 'productIds' | 'processIds'>;
+
+export const DISPLAY_PANEL_LABELS: Record<DisplayPanel, string> = {
+  hourly_chart: 'Hourly production chart',
+  product_plan: 'Product plan table',
+  process_stages: 'Process stages',
+  top_performers: 'Top performers',
+  gate_checkin: 'Gate check-in QR code',
+};
+
+export const displayService = {
+  // Kiosk displays configured for the factory (factory admin)
+  async getDisplays(): Promise<DisplayConfig[]> {
+    // Edited from the same screen that lists them, so never serve a cached list
+    apiClient.clearCache('/displays');
+    const response = await apiClient.get('/displays');
+    const responseData = response.data || response;
+    return responseData.displays || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async createDisplay(data: DisplayConfigInput): Promise<DisplayConfig> {
+    const response = await apiClient.post('/displays', data);
+    return response.data || response;
+  },
+
+  async updateDisplay(id: string, data: DisplayConfigInput): Promise<DisplayConfig> {
+    const response = await apiClient.put(`/displays/${id}`, data);
+    return response.data || response;
+  },
+
+  async deleteDisplay(id: string): Promise<void> {
+    await apiClient.delete(`/displays/${id}`);
+  },
+
+  // Issues a new display token; the old kiosk URL stops working
+  async regenerateToken(id: string): Promise<DisplayConfig> {
+    const response = await apiClient.post(`/displays/${id}/token`);
+    return response.data || response;
+  },
+
+  // Config for the display the current display token belongs to (kiosk, no login)
+  async getKioskConfig(): Promise<DisplayConfig> {
+    apiClient.clearCache('/displays/kiosk');
+    const response = await apiClient.get('/displays/kiosk');
+    return response.data || response;
+  },
+};
+
+export function getKioskUrl(display: Pick<DisplayConfig, 'token'>): string {
+  return `${window.location.origin}/display?token=${encodeURIComponent(display.token)}`;
+}
@@ -0,0 +1,113 @@
+import { apiClient } from './client';
+import { DowntimeCategory, DowntimeEvent, DowntimeReason, DowntimeSummary, MachineStatus } from '@/types';
+
+export type DowntimeReasonInput = Pick<DowntimeReason, 'code' | 'label' | 'category' | 'isActive'>;
+
+export interface DowntimeInput {
+  machineId: string;
+  reasonCode: string;
+  startTime: string;
+  // Leave out to open a stoppage that is still ongoing
+  endTime?: string;
+  notes?: string;
+}
+
+export interface DowntimeFilters {
+  machineId?: string;
+  startDate?: string;
+  endDate?: string;
+  open?: boolean;
+}
+
+export const DOWNTIME_CATEGORY_LABELS: Record<DowntimeCategory, string> = {
+  breakdown: 'Breakdown',
+  changeover: 'Changeover / setup',
+  material: 'Material shortage',
+  quality: 'Quality issue',
+  planned: 'Planned stop',
+  other: 'Other',
+};
+
+const toList = <T>(responseData: { [key: string]: unknown } | T[], key: string): T[] => {
+  if (Array.isArray(responseData)) return responseData;
+  const list = responseData?.[key];
+  return Array.isArray(list) ? (list as T[]) : [];
+};
+
+export const downtimeService = {
+  // Reason codes (configured per factory in Factory Settings)
+  async getReasons(): Promise<DowntimeReason[]> {
+    const response = await apiClient.get('/downtime/reasons');
+    return toList<DowntimeReason>(response.data || response, 'reasons');
+  },
+
+  async createReason(data: DowntimeReasonInput): Promise<DowntimeReason> {
+    const response = await apiClient.post('/downtime/reasons', data);
+    apiClient.clearCache('/downtime/reasons');
+    return response.data || response;
+  },
+
+  async updateReason(id: string, data: Partial<DowntimeReasonInput>): Promise<DowntimeReason> {
+    const response = await apiClient.put(`/downtime/reasons/${id}`, data);
+    apiClient.clearCache('/downtime/reasons');
+    return response.data || response;
+  },
+
+  async deleteReason(id: string): Promise<void> {
+    await apiClient.delete(`/downtime/reasons/${id}`);
+    apiClient.clearCache('/downtime/reasons');
+  },
+
+  // Stoppages
+  async getDowntime(filters: DowntimeFilters = {}): Promise<DowntimeEvent[]> {
+    apiClient.clearCache('/downtime');
+    const response = await apiClient.get('/downtime', filters);
+    return toList<DowntimeEvent>(response.data || response, 'downtime');
+  },
+
+  async logDowntime(data: DowntimeInput): Promise<DowntimeEvent> {
+    const response = await apiClient.post('/downtime', data);
+    apiClient.clearCache('/downtime');
+    return response.data || response;
+  },
+
+  // Machine is running again
+  async endDowntime(id: string, endTime: string = new Date().toISOString()): Promise<DowntimeEvent> {
+    const response = await apiClient.post(`/downtime/${id}/end`, { endTime });
+    apiClient.clearCache('/downtime');
+    return response.data || response;
+  },
+
+  // Current state of every machine, for the supervisor board
+  async getMachineStatus(): Promise<MachineStatus[]> {
+    apiClient.clearCache('/downtime/machine-status');
+    const response = await apiClient.get('/downtime/machine-status');
+    return toList<MachineStatus>(response.data || response, 'machines');
+  },
+
+  // Minutes lost per reason code over a date range
+  async getSummary(filters: DowntimeFilters = {}): Promise<DowntimeSummary[]> {
+    const response = await apiClient.get('/downtime/summary', filters);
+    return toList<DowntimeSummary>(response.data || response, 'summary');
+  },
+};
+
+// Stoppage minutes inside [start, end]; open stoppages count up to now
+export function getOverlappingDowntimeMinutes(
+  events: DowntimeEvent[],
+  start: Date | string,
+  end: Date | string
+): number {
+  const rangeStart = new Date(start).getTime();
+  const rangeEnd = new Date(end).getTime();
+  const overlapMs = events.reduce((total, event) => {
+    const eventStart = new Date(event.startTime).getTime();
+    const eventEnd = event.endTime ? new Date(event.endTime).getTime() : Date.now();
+    return total + Math.max(0, Math.min(eventEnd, rangeEnd) - Math.max(eventStart, rangeStart));
+  }, 0);
+  return Math.round(overlapMs / 60000);
+}
+
+export function getDowntimeMachineId(event: DowntimeEvent): string {
+  return typeof event.machineId === 'object' ? event.machineId._id : event.machineId;
+}
@@ -11,6 +11,16 @@ export { workEntryService } from './workEntry.service';
 export { dashboardService } from './dashboard.service';
 export { reportsService } from './reports.service';
 export { productionService } from './production.service';
+export { displayService } from './display.service';
+export { alertService } from './alert.service';
+export { downtimeService } from './downtime.service';
+export { defectService } from './defect.service';
+export { orderService } from './order.service';
+export { lotService } from './lot.service';
+export { labelService } from './label.service';
+export { leaveService } from './leave.service';
+export { rosterService } from './roster.service';
+export { settingsService } from './settings.service';
 
 // Re-export types for convenience
 export type { ApiResponse, RequestConfig } from './client';
\ No newline at end of file
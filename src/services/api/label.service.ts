@@ -0,0 +1,48 @@
+import { apiClient } from './client';
+import { LabelKind, Product, ScanCode } from '@/types';
+
+// Printed labels encode `MFMS:<kind>:<id>` so a scan can't be mistaken for another barcode
+const SCAN_CODE_PREFIX = 'MFMS';
+
+const LABEL_KINDS: LabelKind[] = ['product', 'process', 'machine'];
+
+export const LABEL_KIND_LABELS: Record<LabelKind, string> = {
+  product: 'Product',
+  process: 'Process',
+  machine: 'Machine',
+};
+
+export const labelService = {
+  // Printable sheet of QR labels, one per item; every active item when no ids are given
+  async getLabelSheet(kind: LabelKind, ids?: string[]): Promise<Blob> {
+    const blob = await apiClient.get<Blob>(`/labels/${kind}/pdf`, { ids: ids?.join(',') }, {
+      responseType: 'blob'
+    });
+
+    if (!(blob instanceof Blob)) {
+      console.error('Invalid blob response:', blob);
+      throw new Error('Invalid file response from server');
+    }
+
+    return blob;
+  },
+};
+
+export function parseScanCode(raw: string): ScanCode | null {
+  const [prefix, kind, ...rest] = raw.trim().split(':');
+  const id = rest.join(':');
+  if (prefix.toUpperCase() !== SCAN_CODE_PREFIX || !id) return null;
+  const labelKind = kind.toLowerCase() as LabelKind;
+  return LABEL_KINDS.includes(labelKind) ? { kind: labelKind, id } : null;
+}
+
+// Our own labels first; a plain barcode is taken as a product code, as printed on most packaging
+export function resolveScanCode(raw: string, products: Product[]): ScanCode | null {
+  const code = parseScanCode(raw);
+  if (code) return code;
+
+  const value = raw.trim().toUpperCase();
+  const product = products.find((p) => p.code && p.code.toUpperCase() === value);
+  const productId = product && (product._id || product.id);
+  return productId ? { kind: 'product', id: String(productId) } : null;
+}
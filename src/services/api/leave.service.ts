@@ -0,0 +1,99 @@
+import { apiClient } from './client';
+import { LeaveBalance, LeaveRequest, LeaveRequestStatus, LeaveType } from '@/types';
+import { differenceInCalendarDays, endOfDay, startOfDay } from 'date-fns';
+
+export type LeaveTypeInput = Pick<LeaveType, 'name' | 'code' | 'yearlyAllowance' | 'paid' | 'isActive'>;
+
+export type LeaveRequestInput = Pick<LeaveRequest, 'leaveTypeId' | 'startDate' | 'endDate' | 'halfDay' | 'reason'>;
+
+export interface LeaveRequestFilters {
+  employeeId?: string;
+  status?: LeaveRequestStatus;
+  // Requests overlapping this range
+  from?: string;
+  to?: string;
+}
+
+export const LEAVE_STATUS_LABELS: Record<LeaveRequestStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+};
+
+export const leaveService = {
+  // Leave types (factory admin)
+  async getLeaveTypes(): Promise<LeaveType[]> {
+    apiClient.clearCache('/leave/types');
+    const response = await apiClient.get('/leave/types');
+    const responseData = response.data || response;
+    return responseData.leaveTypes || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async createLeaveType(data: LeaveTypeInput): Promise<LeaveType> {
+    const response = await apiClient.post('/leave/types', data);
+    return response.data || response;
+  },
+
+  async updateLeaveType(id: string, data: Partial<LeaveTypeInput>): Promise<LeaveType> {
+    const response = await apiClient.put(`/leave/types/${id}`, data);
+    return response.data || response;
+  },
+
+  async deleteLeaveType(id: string): Promise<void> {
+    await apiClient.delete(`/leave/types/${id}`);
+  },
+
+  // Balances; the signed-in employee's own when no employee is given
+  async getBalances(employeeId?: string, year: number = new Date().getFullYear()): Promise<LeaveBalance[]> {
+    apiClient.clearCache('/leave/balances');
+    const response = await apiClient.get('/leave/balances', { employeeId, year });
+    const responseData = response.data || response;
+    return responseData.balances || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  // Overrides the leave type's yearly allowance for one employee
+  async setAllowance(employeeId: string, leaveTypeId: string, year: number, allowance: number): Promise<LeaveBalance> {
+    const response = await apiClient.put(`/leave/balances/${employeeId}`, { leaveTypeId, year, allowance });
+    return response.data || response;
+  },
+
+  // Requests
+  async getRequests(filters: LeaveRequestFilters = {}): Promise<LeaveRequest[]> {
+    apiClient.clearCache('/leave/requests');
+    const response = await apiClient.get('/leave/requests', filters);
+    const responseData = response.data || response;
+    return responseData.requests || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async createRequest(data: LeaveRequestInput): Promise<LeaveRequest> {
+    const response = await apiClient.post('/leave/requests', data);
+    return response.data || response;
+  },
+
+  async reviewRequest(id: string, status: 'approved' | 'declined', note?: string): Promise<LeaveRequest> {
+    const response = await apiClient.patch(`/leave/requests/${id}/review`, { status, note });
+    return response.data || response;
+  },
+
+  async cancelRequest(id: string): Promise<LeaveRequest> {
+    const response = await apiClient.post(`/leave/requests/${id}/cancel`);
+    return response.data || response;
+  },
+};
+
+// Calendar days a request spans; the server takes weekly offs and holidays out when it charges the balance
+export function countLeaveDays(startDate: Date | string, endDate: Date | string, halfDay?: boolean): number {
+  if (halfDay) return 0.5;
+  return Math.max(0, differenceInCalendarDays(new Date(endDate), new Date(startDate)) + 1);
+}
+
+// Approved leave covering the given day, if any
+export function findLeaveOnDate(requests: LeaveRequest[], date: Date | string): LeaveRequest | undefined {
+  const day = new Date(date);
+  return requests.find((request) =>
+    request.status === 'approved' &&
+    day >= startOfDay(new Date(request.startDate)) &&
+    day <= endOfDay(new Date(request.endDate))
+  );
+}
@@ -0,0 +1,52 @@
+import { apiClient } from './client';
+import { Lot, LotConsumption, LotGenealogy } from '@/types';
+
+const toList = <T>(responseData: { [key: string]: unknown } | T[], key: string): T[] => {
+  if (Array.isArray(responseData)) return responseData;
+  const list = responseData?.[key];
+  return Array.isArray(list) ? (list as T[]) : [];
+};
+
+export const lotService = {
+  // Previous-stage lots with pieces left for this stage to consume, oldest first
+  async getAvailableLots(productId: string, processId: string): Promise<Lot[]> {
+    apiClient.clearCache('/lots/available');
+    const response = await apiClient.get('/lots/available', { productId, processId });
+    return toList<Lot>(response.data || response, 'lots');
+  },
+
+  // Full history of a lot: the entries that made it, what it was made from and what was made from it
+  async getGenealogy(lotNumber: string): Promise<LotGenealogy> {
+    const response = await apiClient.get(`/lots/${encodeURIComponent(lotNumber)}/genealogy`);
+    const genealogy = response.data?.data || response.data || response;
+    return {
+      lotNumber: genealogy.lotNumber || lotNumber,
+      productName: genealogy.productName,
+      entries: genealogy.entries || [],
+      backward: genealogy.backward || [],
+      forward: genealogy.forward || [],
+    };
+  },
+};
+
+// Drops empty lines so only lots with a quantity are sent
+export function getLotConsumption(consumed: LotConsumption[]): LotConsumption[] {
+  return consumed.filter((lot) => lot.quantity > 0);
+}
+
+export function getConsumedTotal(consumed: LotConsumption[]): number {
+  return consumed.reduce((total, lot) => total + (lot.quantity || 0), 0);
+}
+
+// First in, first out: takes from the oldest lots until the quantity is covered
+export function getOldestFirstConsumption(lots: Lot[], required: number): LotConsumption[] {
+  let remaining = required;
+  const consumed: LotConsumption[] = [];
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const quantity = Math.min(lot.remainingQuantity, remaining);
+    consumed.push({ lotNumber: lot.lotNumber, quantity });
+    remaining -= quantity;
+  }
+  return consumed;
+}
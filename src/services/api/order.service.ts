@@ -0,0 +1,116 @@
+import { apiClient } from './client';
+import { ProductionOrder, ProductionOrderPriority, ProductionOrderStatus } from '@/types';
+
+export interface ProductionOrderInput {
+  productId: string;
+  quantity: number;
+  dueDate: string;
+  priority: ProductionOrderPriority;
+  notes?: string;
+  // Generated by the server when left out
+  orderNumber?: string;
+}
+
+export interface ProductionOrderFilters {
+  productId?: string;
+  status?: ProductionOrderStatus | ProductionOrderStatus[];
+}
+
+export const ORDER_STATUS_LABELS: Record<ProductionOrderStatus, string> = {
+  planned: 'Planned',
+  released: 'Released',
+  in_progress: 'In progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const ORDER_PRIORITY_LABELS: Record<ProductionOrderPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+// Orders employees can still book work against
+export const BOOKABLE_ORDER_STATUSES: ProductionOrderStatus[] = ['released', 'in_progress'];
+
+const PRIORITY_RANK: Record<ProductionOrderPriority, number> = { urgent: 0, high: 1, normal: 2, low: 3 };
+
+const toList = <T>(responseData: { [key: string]: unknown } | T[], key: string): T[] => {
+  if (Array.isArray(responseData)) return responseData;
+  const list = responseData?.[key];
+  return Array.isArray(list) ? (list as T[]) : [];
+};
+
+export const orderService = {
+  async getOrders(filters: ProductionOrderFilters = {}): Promise<ProductionOrder[]> {
+    apiClient.clearCache('/orders');
+    const params = {
+      ...filters,
+      status: Array.isArray(filters.status) ? filters.status.join(',') : filters.status,
+    };
+    const response = await apiClient.get('/orders', params);
+    return toList<ProductionOrder>(response.data || response, 'orders');
+  },
+
+  async getOrder(id: string): Promise<ProductionOrder> {
+    const response = await apiClient.get(`/orders/${id}`);
+    return response.data || response;
+  },
+
+  async createOrder(data: ProductionOrderInput): Promise<ProductionOrder> {
+    const response = await apiClient.post('/orders', data);
+    apiClient.clearCache('/orders');
+    return response.data || response;
+  },
+
+  async updateOrder(id: string, data: Partial<ProductionOrderInput> & { status?: ProductionOrderStatus }): Promise<ProductionOrder> {
+    const response = await apiClient.put(`/orders/${id}`, data);
+    apiClient.clearCache('/orders');
+    return response.data || response;
+  },
+
+  async deleteOrder(id: string): Promise<void> {
+    await apiClient.delete(`/orders/${id}`);
+    apiClient.clearCache('/orders');
+  },
+};
+
+export function getOrderId(order: ProductionOrder): string {
+  return order._id || order.id || '';
+}
+
+export function getOrderProductId(order: ProductionOrder): string {
+  return typeof order.productId === 'object' ? order.productId._id : order.productId;
+}
+
+// Most urgent first, then earliest due date
+export function sortOrdersByUrgency(orders: ProductionOrder[]): ProductionOrder[] {
+  return [...orders].sort(
+    (a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+  );
+}
+
+// Falls back to the order's average daily output when the server has not projected a date
+export function getExpectedCompletionDate(order: ProductionOrder): Date | null {
+  if (order.completedAt) return new Date(order.completedAt);
+  if (order.expectedCompletionDate) return new Date(order.expectedCompletionDate);
+  if (!order.startedAt || order.completedQuantity <= 0) return null;
+
+  const elapsedDays = Math.max(1, (Date.now() - new Date(order.startedAt).getTime()) / 86400000);
+  const perDay = order.completedQuantity / elapsedDays;
+  const remaining = Math.max(0, order.quantity - order.completedQuantity);
+  return new Date(Date.now() + (remaining / perDay) * 86400000);
+}
+
+// Pieces per day still needed to finish by the due date (the due day itself counts)
+export function getRequiredDailyRate(order: ProductionOrder): number {
+  const remaining = Math.max(0, order.quantity - order.completedQuantity);
+  if (remaining === 0) return 0;
+  const due = new Date(order.dueDate);
+  due.setHours(23, 59, 59, 999);
+  const daysLeft = Math.max(1, Math.ceil((due.getTime() - Date.now()) / 86400000));
+  return Math.ceil(remaining / daysLeft);
+}
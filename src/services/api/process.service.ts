@@ -1,5 +1,5 @@
 // Process Service
-import { Process } from '@/types';
+import { Process, ProcessWaterfallView } from '@/types';
 import { apiClient } from './client';
 
 export const processService = {
@@ -62,6 +62,13 @@ export const processService = {
     return response.data || response;
   },
 
+  async uploadImage(id: string, file: File): Promise<{ imageUrl: string }> {
+    const formData = new FormData();
+    formData.append('image', file);
+    const response = await apiClient.upload(`/processes/${id}/image`, formData);
+    return response.data || response;
+  },
+
   async assignEmployee(processId: string, employeeId: string): Promise<{ data: Process }> {
     const response = await apiClient.post(`/processes/${processId}/assign-employee`, { employeeId });
     return response.data || response;
@@ -107,7 +114,8 @@ export const processService = {
     return response.data || response;
   },
 
-  async getWaterfallView(productId: string): Promise<any> {
+  // Stage-by-stage flow for a product, including scrap and rework routed back to earlier stages
+  async getWaterfallView(productId: string): Promise<ProcessWaterfallView> {
     const response = await apiClient.get(`/processes/waterfall/${productId}`);
     return response.data || response;
   },
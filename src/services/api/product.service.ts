@@ -71,6 +71,13 @@ export const productService = {
     return response.data || response;
   },
 
+  async uploadImage(id: string, file: File): Promise<{ imageUrl: string }> {
+    const formData = new FormData();
+    formData.append('image', file);
+    const response = await apiClient.upload(`/products/${id}/image`, formData);
+    return response.data || response;
+  },
+
   async updateStock(id: string, quantity: number, operation: 'add' | 'subtract'): Promise<{ data: Product }> {
     const response = await apiClient.patch(`/products/${id}/stock`, { quantity, operation });
     return response.data || response;
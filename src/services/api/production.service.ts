@@ -1,5 +1,6 @@
 // Production Service
-import { apiClient } from './client';
+import { apiClient, RequestConfig } from './client';
+import { LotConsumption, WorkEntryDefect } from '@/types';
 
 export interface CheckInResponse {
   checkinTime: string;
@@ -18,6 +19,8 @@ export interface ProcessStatus {
   isFirstStage: boolean;
   previousStageAchieved?: number;
   currentStageConsumed?: number;
+  // Rework routed back to this stage; already counted in availableQuantity
+  reworkQuantity?: number;
 }
 
 export interface ProductionSubmitData {
@@ -28,6 +31,15 @@ export interface ProductionSubmitData {
   shiftType?: string;
   achieved: number;
   rejected: number;
+  defects?: WorkEntryDefect[];
+  orderId?: string;
+  // First stage: lot to add the output to (a new lot is created when left out)
+  lotNumber?: string;
+  // Later stages: previous-stage lots the pieces were taken from
+  consumedLots?: LotConsumption[];
+  // Part of `rejected` sent back for rework; the rest is scrapped
+  reworkQuantity?: number;
+  reworkProcessId?: string;
   photo: string;
 }
 
@@ -98,10 +110,11 @@ export const productionService = {
   },
 
   // Submit production entry
-  async submitProduction(data: ProductionSubmitData): Promise<{ data: any }> {
+  async submitProduction(data: ProductionSubmitData, config?: RequestConfig): Promise<{ data: any }> {
     const response = await apiClient.post<{ success: boolean; data: any; message?: string }>(
       '/production/submit',
-      data
+      data,
+      config
     );
     
     const responseData = response.data || response;
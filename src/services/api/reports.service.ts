@@ -1,5 +1,7 @@
+import { endOfMonth, endOfWeek, endOfYear, startOfMonth, startOfWeek, startOfYear } from 'date-fns';
 import { apiClient } from './client';
-import { ProcessStagesSummaryReport, ProductProcessStagesReport, DisplayAnalyticsReport } from '@/types';
+import { ProcessStagesSummaryReport, ProductProcessStagesReport, DisplayAnalyticsReport, OeeGroupBy, OeeMetrics, OeeReport, OeeRow } from '@/types';
+import { formatDateKey, getProductionDayRange, ShiftStart } from '@/utils/dateUtils';
 
 export interface ReportFilters {
   startDate?: string;
@@ -9,6 +11,7 @@ export interface ReportFilters {
   employeeId?: string;
   factoryId?: string;
   viewType?: 'product' | 'process';
+  // Daily periods are production days: a night shift is reported with the day it started
   periodType?: 'daily' | 'weekly' | 'monthly';
   period?: string;
 }
@@ -18,6 +21,64 @@ export interface DetailedReportFilters extends ReportFilters {
   period: string;
 }
 
+export interface OeeFilters {
+  startDate: string;
+  endDate: string;
+  groupBy: OeeGroupBy;
+  machineId?: string;
+  processId?: string;
+  shift?: string;
+}
+
+export type ReportDateFilter = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Report range around a date, on production-day boundaries so a night shift isn't split across two periods
+export const getReportDateRange = (
+  filter: ReportDateFilter,
+  date: Date,
+  shifts: ShiftStart[]
+): { startDate: string; endDate: string } => {
+  const bounds: Record<ReportDateFilter, [Date, Date]> = {
+    daily: [date, date],
+    weekly: [startOfWeek(date), endOfWeek(date)],
+    monthly: [startOfMonth(date), endOfMonth(date)],
+    yearly: [startOfYear(date), endOfYear(date)],
+  };
+  const [first, last] = bounds[filter];
+  return {
+    startDate: getProductionDayRange(first, shifts).start.toISOString(),
+    endDate: getProductionDayRange(last, shifts).end.toISOString(),
+  };
+};
+
+// Combine rows from their minutes and counts; averaging the ratios would overweight short runs
+export const summarizeOee = (rows: OeeMetrics[]): OeeMetrics => {
+  const sum = (pick: (row: OeeMetrics) => number) => rows.reduce((total, row) => total + (pick(row) || 0), 0);
+  const plannedMinutes = sum((row) => row.plannedMinutes);
+  const downtimeMinutes = sum((row) => row.downtimeMinutes);
+  const runMinutes = sum((row) => row.runMinutes);
+  const idealCount = sum((row) => row.idealCount);
+  const totalCount = sum((row) => row.totalCount);
+  const goodCount = sum((row) => row.goodCount);
+
+  const availability = plannedMinutes > 0 ? runMinutes / plannedMinutes : 0;
+  const performance = idealCount > 0 ? totalCount / idealCount : 0;
+  const quality = totalCount > 0 ? goodCount / totalCount : 0;
+
+  return {
+    plannedMinutes,
+    downtimeMinutes,
+    runMinutes,
+    idealCount,
+    totalCount,
+    goodCount,
+    availability,
+    performance,
+    quality,
+    oee: availability * performance * quality,
+  };
+};
+
 export interface DetailedProductionData {
   date: Date;
   employee: {
@@ -212,8 +273,8 @@ export const reportsService = {
         totalAvailable: 0
       },
       dateRange: {
-        startDate: new Date().toISOString().split('T')[0],
-        endDate: new Date().toISOString().split('T')[0]
+        startDate: formatDateKey(),
+        endDate: formatDateKey()
       }
     };
   },
@@ -286,6 +347,19 @@ export const reportsService = {
     return response.data;
   },
 
+  // Get OEE (availability x performance x quality) grouped by machine, process, shift or day
+  async getOeeReport(filters: OeeFilters): Promise<OeeReport> {
+    const response = await apiClient.get('/reports/oee', filters);
+    const report = response.data?.data || response.data || {};
+    const rows: OeeRow[] = Array.isArray(report.rows) ? report.rows : [];
+    return {
+      groupBy: report.groupBy || filters.groupBy,
+      rows,
+      totals: report.totals || summarizeOee(rows),
+      dateRange: report.dateRange || { startDate: filters.startDate, endDate: filters.endDate },
+    };
+  },
+
   // Get detailed production data
   async getProductionDetailed(filters: DetailedReportFilters): Promise<DetailedProductionData[]> {
     const response = await apiClient.get('/reports/production-detailed', filters);
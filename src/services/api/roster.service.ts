@@ -0,0 +1,171 @@
+import { apiClient } from './client';
+import { findLeaveOnDate } from './leave.service';
+import { LeaveRequest, Process, RosterAssignment, RosterIssue, RosterIssueKind, User } from '@/types';
+
+export type RosterAssignmentInput = Pick<RosterAssignment, 'date' | 'shiftName' | 'processId' | 'machineId' | 'employeeId'>;
+
+export const ROSTER_ISSUE_LABELS: Record<RosterIssueKind, string> = {
+  double_booked: 'Double-booked',
+  machine_clash: 'Machine clash',
+  on_leave: 'On leave',
+  not_trained: 'Not assigned to process',
+  uncovered_process: 'Uncovered process',
+};
+
+export const rosterService = {
+  // Factory roster between two dates (yyyy-MM-dd, inclusive)
+  async getRoster(from: string, to: string): Promise<RosterAssignment[]> {
+    apiClient.clearCache('/roster');
+    const response = await apiClient.get('/roster', { from, to });
+    const responseData = response.data || response;
+    return responseData.assignments || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  // The signed-in employee's own slots
+  async getMyRoster(from: string, to: string): Promise<RosterAssignment[]> {
+    apiClient.clearCache('/roster/me');
+    const response = await apiClient.get('/roster/me', { from, to });
+    const responseData = response.data || response;
+    return responseData.assignments || (Array.isArray(responseData) ? responseData : []);
+  },
+
+  async createAssignment(data: RosterAssignmentInput): Promise<RosterAssignment> {
+    const response = await apiClient.post('/roster', data);
+    return response.data || response;
+  },
+
+  async updateAssignment(id: string, data: Partial<RosterAssignmentInput>): Promise<RosterAssignment> {
+    const response = await apiClient.put(`/roster/${id}`, data);
+    return response.data || response;
+  },
+
+  async deleteAssignment(id: string): Promise<void> {
+    await apiClient.delete(`/roster/${id}`);
+  },
+
+  // Repeats one week's roster in another, leaving slots already filled there alone
+  async copyWeek(fromWeekStart: string, toWeekStart: string): Promise<{ copied: number }> {
+    const response = await apiClient.post('/roster/copy-week', { fromWeekStart, toWeekStart });
+    return response.data || response;
+  },
+};
+
+export interface RosterContext {
+  dates: string[];
+  shiftNames: string[];
+  processes: Process[];
+  employees: User[];
+  // Approved leave overlapping the dates
+  leaveRequests: LeaveRequest[];
+}
+
+const getId = (item: { _id?: string; id?: string }) => item._id || item.id || '';
+
+const getEmployeeName = (employees: User[], employeeId: string) => {
+  const employee = employees.find((e) => getId(e) === employeeId);
+  return employee ? `${employee.profile.firstName} ${employee.profile.lastName}` : 'Unknown employee';
+};
+
+// Conflicts and gaps in a roster, worked out on the client so the planner can flag them while dragging
+export function findRosterIssues(assignments: RosterAssignment[], context: RosterContext): RosterIssue[] {
+  const issues: RosterIssue[] = [];
+  const processName = (processId: string) => context.processes.find((p) => getId(p) === processId)?.name || 'Process';
+
+  const bySlot = new Map<string, RosterAssignment[]>();
+  assignments.forEach((assignment) => {
+    const key = `${assignment.date}|${assignment.shiftName}`;
+    bySlot.set(key, [...(bySlot.get(key) || []), assignment]);
+  });
+
+  bySlot.forEach((slotAssignments, key) => {
+    const [date, shiftName] = key.split('|');
+
+    const seenEmployees = new Set<string>();
+    const seenMachines = new Map<string, string>();
+    slotAssignments.forEach((assignment) => {
+      const name = assignment.employeeName || getEmployeeName(context.employees, assignment.employeeId);
+      if (seenEmployees.has(assignment.employeeId)) {
+        issues.push({
+          kind: 'double_booked',
+          severity: 'conflict',
+          date,
+          shiftName,
+          employeeId: assignment.employeeId,
+          message: `${name} is on more than one process in the ${shiftName} shift`,
+        });
+      }
+      seenEmployees.add(assignment.employeeId);
+
+      if (assignment.machineId) {
+        const holder = seenMachines.get(assignment.machineId);
+        if (holder && holder !== assignment.employeeId) {
+          issues.push({
+            kind: 'machine_clash',
+            severity: 'conflict',
+            date,
+            shiftName,
+            processId: assignment.processId,
+            message: `${assignment.machineName || 'A machine'} is given to two people in the ${shiftName} shift`,
+          });
+        }
+        seenMachines.set(assignment.machineId, assignment.employeeId);
+      }
+    });
+  });
+
+  assignments.forEach((assignment) => {
+    const employee = context.employees.find((e) => getId(e) === assignment.employeeId);
+    const name = assignment.employeeName || getEmployeeName(context.employees, assignment.employeeId);
+
+    const leave = findLeaveOnDate(
+      context.leaveRequests.filter((request) => request.employeeId === assignment.employeeId),
+      `${assignment.date}T12:00:00`
+    );
+    if (leave) {
+      issues.push({
+        kind: 'on_leave',
+        severity: 'conflict',
+        date: assignment.date,
+        shiftName: assignment.shiftName,
+        employeeId: assignment.employeeId,
+        message: `${name} is on approved leave`,
+      });
+    }
+
+    // Employees without assigned processes can work anywhere
+    const assigned = (employee?.assignedProcesses || []).map((process) =>
+      typeof process === 'string' ? process : getId(process)
+    );
+    if (assigned.length > 0 && !assigned.includes(assignment.processId)) {
+      issues.push({
+        kind: 'not_trained',
+        severity: 'warning',
+        date: assignment.date,
+        shiftName: assignment.shiftName,
+        processId: assignment.processId,
+        employeeId: assignment.employeeId,
+        message: `${name} isn't assigned to ${assignment.processName || processName(assignment.processId)}`,
+      });
+    }
+  });
+
+  context.dates.forEach((date) => {
+    context.shiftNames.forEach((shiftName) => {
+      const covered = new Set((bySlot.get(`${date}|${shiftName}`) || []).map((a) => a.processId));
+      context.processes
+        .filter((process) => process.isActive && !covered.has(getId(process)))
+        .forEach((process) => {
+          issues.push({
+            kind: 'uncovered_process',
+            severity: 'warning',
+            date,
+            shiftName,
+            processId: getId(process),
+            message: `Nobody on ${process.name} in the ${shiftName} shift`,
+          });
+        });
+    });
+  });
+
+  return issues;
+}
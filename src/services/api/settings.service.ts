@@ -0,0 +1,17 @@
+import { apiClient } from './client';
+import { SystemSettings } from '@/types';
+
+export const settingsService = {
+  async getSystemSettings(): Promise<SystemSettings> {
+    apiClient.clearCache('/settings/system');
+    const response = await apiClient.get('/settings/system');
+    const responseData = response.data || response;
+    return responseData.settings || responseData;
+  },
+
+  async updateSystemSettings(settings: Partial<SystemSettings>): Promise<SystemSettings> {
+    const response = await apiClient.put('/settings/system', settings);
+    const responseData = response.data || response;
+    return responseData.settings || responseData;
+  },
+};
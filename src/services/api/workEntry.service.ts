@@ -1,6 +1,6 @@
 // Work Entry Service
 import { WorkEntry } from '@/types';
-import { apiClient } from './client';
+import { apiClient, RequestConfig } from './client';
 
 export const workEntryService = {
   async getActiveWorkEntry(): Promise<{ data: WorkEntry | null }> {
@@ -18,8 +18,8 @@ export const workEntryService = {
     return response.data || response;
   },
 
-  async startWork(data: Partial<WorkEntry>): Promise<{ data: WorkEntry }> {
-    const response = await apiClient.post('/work-entries/start', data);
+  async startWork(data: Partial<WorkEntry>, config?: RequestConfig): Promise<{ data: WorkEntry }> {
+    const response = await apiClient.post('/work-entries/start', data, config);
     
     // Backend returns { success: true, message: '...', status: 201, data: WorkEntry }
     // Extract work entry from response
@@ -47,8 +47,8 @@ export const workEntryService = {
     return { data: workEntryData as WorkEntry };
   },
 
-  async completeWork(id: string, data: Partial<WorkEntry>): Promise<{ data: WorkEntry }> {
-    const response = await apiClient.post(`/work-entries/complete/${id}`, data);
+  async completeWork(id: string, data: Partial<WorkEntry>, config?: RequestConfig): Promise<{ data: WorkEntry }> {
+    const response = await apiClient.post(`/work-entries/complete/${id}`, data, config);
     
     // Backend returns { success: true, message: '...', status: 200, data: WorkEntry }
     // Extract work entry from response
@@ -188,8 +188,8 @@ export const workEntryService = {
     }
   },
 
-  async validateWorkEntry(id: string, status: 'approved' | 'rejected', notes?: string): Promise<{ data: WorkEntry }> {
-    const response = await apiClient.post(`/work-entries/${id}/validate`, { status, notes });
+  async validateWorkEntry(id: string, status: 'approved' | 'rejected', notes?: string, config?: RequestConfig): Promise<{ data: WorkEntry }> {
+    const response = await apiClient.post(`/work-entries/${id}/validate`, { status, notes }, config);
     return response.data || response;
   },
 
@@ -204,8 +204,8 @@ export const workEntryService = {
     return response.data || response;
   },
 
-  async createDirectWorkEntry(data: Partial<WorkEntry>): Promise<{ data: WorkEntry }> {
-    const response = await apiClient.post('/work-entries/direct', data);
+  async createDirectWorkEntry(data: Partial<WorkEntry>, config?: RequestConfig): Promise<{ data: WorkEntry }> {
+    const response = await apiClient.post('/work-entries/direct', data, config);
     
     // Validate response structure
     const responseData = response.data || response;
@@ -0,0 +1,134 @@
+import { CheckInReviewStatus, CheckInRisk, CheckInRiskLevel, CheckInRiskSignal } from '@/types';
+import { locationService } from './location.service';
+
+// Location reading a check-in is made with
+export interface CheckInFix {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  // When the reading was taken (ms since epoch)
+  timestamp: number;
+}
+
+export interface CheckInRiskContext {
+  // Device this session logged in from
+  deviceId: string | null;
+  // Device registered to the employee
+  registeredDeviceId?: string | null;
+}
+
+const RECENT_FIXES_KEY = 'checkin_recent_fixes';
+const RECENT_FIXES_LIMIT = 10;
+
+// Points each signal adds to the 0-100 score
+const SIGNAL_WEIGHTS: Record<CheckInRiskSignal, number> = {
+  poor_accuracy: 20,
+  stale_fix: 15,
+  impossible_travel: 40,
+  mock_location: 35,
+  repeated_coordinates: 30,
+  device_change: 30,
+};
+
+const HIGH_RISK_SCORE = 60;
+const MEDIUM_RISK_SCORE = 30;
+
+// Faster than this between two fixes (about 180 km/h) is not someone walking to the gate
+const MAX_PLAUSIBLE_SPEED_MPS = 50;
+const STALE_FIX_MS = 2 * 60 * 1000;
+// Wi-Fi and cell positioning report tens of metres and snap to the same rounded point for a
+// given access point, so coordinate patterns only mean something on a satellite fix
+const GPS_GRADE_ACCURACY_M = 20;
+
+export const CHECK_IN_RISK_SIGNAL_LABELS: Record<CheckInRiskSignal, string> = {
+  poor_accuracy: 'Poor GPS accuracy',
+  stale_fix: 'Old location reading',
+  impossible_travel: 'Impossible travel since last fix',
+  mock_location: 'Possible mock location',
+  repeated_coordinates: 'Identical coordinates repeated',
+  device_change: 'Different device',
+};
+
+export const CHECK_IN_RISK_LEVEL_LABELS: Record<CheckInRiskLevel, string> = {
+  low: 'Low risk',
+  medium: 'Medium risk',
+  high: 'High risk',
+};
+
+export const CHECK_IN_REVIEW_LABELS: Record<CheckInReviewStatus, string> = {
+  pending: 'Awaiting review',
+  approved: 'Accepted',
+  rejected: 'Rejected',
+};
+
+export function getCheckInRiskLevel(score: number): CheckInRiskLevel {
+  if (score >= HIGH_RISK_SCORE) return 'high';
+  if (score >= MEDIUM_RISK_SCORE) return 'medium';
+  return 'low';
+}
+
+const loadRecentFixes = (): CheckInFix[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_FIXES_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveRecentFixes = (fixes: CheckInFix[]) => {
+  try {
+    localStorage.setItem(RECENT_FIXES_KEY, JSON.stringify(fixes.slice(-RECENT_FIXES_LIMIT)));
+  } catch (error) {
+    console.warn('Failed to save recent location fixes:', error);
+  }
+};
+
+const countDecimals = (value: number) => (String(value).split('.')[1] || '').length;
+
+const isGpsGrade = (fix: CheckInFix) => fix.accuracy <= GPS_GRADE_ACCURACY_M;
+
+// Real GPS readings carry sub-metre noise; mock apps and emulators tend to report
+// perfect accuracy or hand-typed coordinates with only a few decimals
+const looksMocked = (fix: CheckInFix) =>
+  fix.accuracy < 1 || (isGpsGrade(fix) && countDecimals(fix.latitude) <= 4 && countDecimals(fix.longitude) <= 4);
+
+// Scores a check-in from what the device can see; the server re-checks travel and device against its own history
+export function assessCheckInRisk(fix: CheckInFix, context: CheckInRiskContext): CheckInRisk {
+  const signals: CheckInRiskSignal[] = [];
+  const recentFixes = loadRecentFixes();
+  const lastFix = recentFixes[recentFixes.length - 1];
+
+  if (locationService.getAccuracyLevel(fix.accuracy) === 'Poor') {
+    signals.push('poor_accuracy');
+  }
+  if (Date.now() - fix.timestamp > STALE_FIX_MS) {
+    signals.push('stale_fix');
+  }
+  if (looksMocked(fix)) {
+    signals.push('mock_location');
+  }
+  if (lastFix) {
+    const seconds = (fix.timestamp - lastFix.timestamp) / 1000;
+    const meters = locationService.calculateDistance(lastFix, fix);
+    // Readings that overlap within their accuracy are the same place, however close in time
+    if (seconds > 0 && meters > fix.accuracy + lastFix.accuracy && meters / seconds > MAX_PLAUSIBLE_SPEED_MPS) {
+      signals.push('impossible_travel');
+    }
+  }
+  if (isGpsGrade(fix) && recentFixes.some((previous) =>
+    previous.timestamp !== fix.timestamp &&
+    previous.latitude === fix.latitude &&
+    previous.longitude === fix.longitude
+  )) {
+    signals.push('repeated_coordinates');
+  }
+  if (context.registeredDeviceId && context.deviceId !== context.registeredDeviceId) {
+    signals.push('device_change');
+  }
+
+  saveRecentFixes([...recentFixes, fix]);
+
+  const score = Math.min(100, signals.reduce((total, signal) => total + SIGNAL_WEIGHTS[signal], 0));
+  return { score, level: getCheckInRiskLevel(score), signals };
+}
@@ -254,7 +254,7 @@ class FileUploadService {
     });
   }
 
-  private base64ToBlob(base64: string): Blob {
+  base64ToBlob(base64: string): Blob {
     const parts = base64.split(',');
     const contentType = parts[0].match(/:(.*?);/)?.[1] || 'application/octet-stream';
     const raw = atob(parts[1]);
@@ -268,6 +268,15 @@ class FileUploadService {
     return new Blob([uInt8Array], { type: contentType });
   }
 
+  blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  }
+
   private formatBytes(bytes: number): string {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
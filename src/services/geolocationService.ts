@@ -1,3 +1,5 @@
+import { GeofenceZone, GeoPoint } from '@/types';
+
 // Geolocation service for attendance validation
 export interface Location {
   latitude: number;
@@ -112,12 +114,33 @@ class GeolocationService {
     return R * c; // Distance in meters
   }
 
-  isWithinGeofence(currentLocation: Location, geofence: GeofenceArea): boolean {
-    const distance = this.calculateDistance(currentLocation, {
-      latitude: geofence.latitude,
-      longitude: geofence.longitude,
-    });
-    return distance <= geofence.radius;
+  // Ray casting on plain lat/lng - fine at factory scale, away from the poles and the date line
+  isPointInPolygon(point: Location, polygon: GeoPoint[]): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      const crossesEdge =
+        a.latitude > point.latitude !== b.latitude > point.latitude &&
+        point.longitude <
+          ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+      if (crossesEdge) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  findGeofenceZone(currentLocation: Location, zones: GeofenceZone[]): GeofenceZone | null {
+    return zones.find((zone) => zone.points.length >= 3 && this.isPointInPolygon(currentLocation, zone.points)) || null;
+  }
+
+  // Drawn zones replace the factory's circle; until there are any, the circle still applies
+  isWithinGeofence(currentLocation: Location, zones: GeofenceZone[], geofence?: GeofenceArea): boolean {
+    if (zones.some((zone) => zone.points.length >= 3)) {
+      return this.findGeofenceZone(currentLocation, zones) !== null;
+    }
+    return !!geofence && this.calculateDistance(currentLocation, geofence) <= geofence.radius;
   }
 
   async requestPermissions(): Promise<boolean> {
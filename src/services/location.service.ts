@@ -1,3 +1,6 @@
+import { GeofenceZone } from '@/types';
+import { geolocationService } from './geolocationService';
+
 export interface LocationCoordinates {
   latitude: number;
   longitude: number;
@@ -35,6 +38,8 @@ export interface LocationResult {
   accuracyLevel?: 'Excellent' | 'Good' | 'Fair' | 'Poor';
   isWithinGeofence?: boolean;
   distance?: number;
+  // Zone the location fell in, when it is within the geofence
+  zone?: GeofenceZone;
 }
 
 class LocationService {
@@ -123,26 +128,26 @@ class LocationService {
   }
 
   /**
-   * Check if current location is within a geofence
+   * Check if current location is within the factory's geofence zones, or its circle when none are drawn
    */
-  async isWithinGeofence(geofence: GeofenceLocation): Promise<LocationResult> {
+  async isWithinGeofence(zones: GeofenceZone[], geofence?: GeofenceLocation): Promise<LocationResult> {
     const locationResult = await this.getCurrentLocation();
     
     if (!locationResult.success || !locationResult.location) {
       return locationResult;
     }
 
-    const distance = this.calculateDistance(
+    const zone = geolocationService.findGeofenceZone(locationResult.location, zones);
+    const distance = geofence && this.calculateDistance(
       locationResult.location,
       { latitude: geofence.latitude, longitude: geofence.longitude }
     );
 
-    const isWithin = distance <= geofence.radius;
-
     return {
       success: true,
       location: locationResult.location,
-      isWithinGeofence: isWithin,
+      isWithinGeofence: geolocationService.isWithinGeofence(locationResult.location, zones, geofence),
+      zone: zone || undefined,
       distance
     };
   }
@@ -334,28 +339,28 @@ class LocationService {
   }
 
   /**
-   * Check if current location is within a geofence with high accuracy
+   * Check if current location is within the factory's geofence zones, or its circle when none are drawn, with high accuracy
    */
-  async isWithinGeofenceHighAccuracy(geofence: GeofenceLocation): Promise<LocationResult> {
+  async isWithinGeofenceHighAccuracy(zones: GeofenceZone[], geofence?: GeofenceLocation): Promise<LocationResult> {
     const locationResult = await this.getHighAccuracyLocation();
     
     if (!locationResult.success || !locationResult.location) {
       return locationResult;
     }
 
-    const distance = this.calculateDistance(
+    const zone = geolocationService.findGeofenceZone(locationResult.location, zones);
+    const distance = geofence && this.calculateDistance(
       locationResult.location,
       { latitude: geofence.latitude, longitude: geofence.longitude }
     );
 
-    const isWithin = distance <= geofence.radius;
-
     return {
       success: true,
       location: locationResult.location,
       accuracy: locationResult.accuracy,
       accuracyLevel: locationResult.accuracyLevel,
-      isWithinGeofence: isWithin,
+      isWithinGeofence: geolocationService.isWithinGeofence(locationResult.location, zones, geofence),
+      zone: zone || undefined,
       distance
     };
   }
@@ -0,0 +1,79 @@
+// IndexedDB persistence for the offline sync queue
+// localStorage cannot hold Blobs (camera photos) and is capped at a few MB,
+// so queued work is kept in its own object store instead.
+
+const DB_NAME = 'operion-offline';
+const DB_VERSION = 1;
+const QUEUE_STORE = 'syncQueue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const store = db.createObjectStore(QUEUE_STORE, { keyPath: 'id' });
+        store.createIndex('status', 'status', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema - drop our handle so the next call reopens
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDatabase().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(QUEUE_STORE, mode);
+        const request = operation(tx.objectStore(QUEUE_STORE));
+        // Resolve on transaction completion so writes are durable before callers continue
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+export const offlineDb = {
+  async getAll<T>(): Promise<T[]> {
+    return runTransaction<T[]>('readonly', (store) => store.getAll() as IDBRequest<T[]>);
+  },
+
+  async put<T extends { id: string }>(item: T): Promise<void> {
+    await runTransaction('readwrite', (store) => store.put(item));
+  },
+
+  async delete(id: string): Promise<void> {
+    await runTransaction('readwrite', (store) => store.delete(id));
+  },
+};
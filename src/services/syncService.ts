@@ -1,13 +1,140 @@
 // Sync service for offline-first functionality
-import { useOfflineStore } from '@/stores/offlineStore';
+import { useOfflineStore, OfflineData, OfflineSyncError, getCurrentUserId } from '@/stores/offlineStore';
 import * as api from './api';
+import { ApiError, RequestConfig } from './api/client';
+import { ProductionSubmitData } from './api/production.service';
+import { fileUploadService } from './fileUpload.service';
+import { WorkEntry } from '@/types';
+import { useAuthStore } from '@/stores/authStore';
 import { toast } from 'sonner';
 
+// direct: first process stage (/work-entries/direct)
+// start_complete: later stages (/work-entries/start then /work-entries/complete/:id)
+// production: ProductionEntry flow (/production/submit)
+export type ProductionSubmissionMode = 'direct' | 'start_complete' | 'production';
+
+export interface QueuedProductionSubmission {
+  mode: ProductionSubmissionMode;
+  // Request body without the photo
+  payload: Partial<WorkEntry> | Omit<ProductionSubmitData, 'photo'>;
+  // Only used by start_complete
+  completion?: { achieved: number; rejected: number };
+  // Kept as a Blob so IndexedDB stores the image compactly; encoded back to base64 on replay
+  photo: Blob | null;
+  // Set once /work-entries/start succeeded so a retry only replays the completion
+  workEntryId?: string;
+  summary: {
+    productName?: string;
+    processName?: string;
+    achieved: number;
+    rejected: number;
+  };
+}
+
+export interface QueuedValidation {
+  id: string;
+  status: 'approved' | 'rejected';
+  notes?: string;
+  summary?: {
+    employeeName?: string;
+    productName?: string;
+    processName?: string;
+  };
+}
+
+export type SyncOutcome = 'synced' | 'dead_letter';
+type SyncListener = (item: OfflineData, outcome: SyncOutcome) => void;
+
+// Errors that mean the request never reached the server, as opposed to a server-side rejection
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  // The client reports a fetch that never got a response as status 0 (flagged corsError, since the two look alike)
+  if (error instanceof ApiError) {
+    return error.status === 0 || Boolean(error.responseData?.corsError);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return (
+    message === 'No internet connection' ||
+    message === 'Failed to fetch' ||
+    message.includes('NetworkError') ||
+    message.includes('Server connection failed') ||
+    message.includes('Request timeout')
+  );
+}
+
+// Retry policy for queued items: exponential backoff with jitter, then dead-letter
+const MAX_SYNC_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+// Items held back by an expired session are retried this often, or as soon as the token changes
+const SESSION_RETRY_MS = 60 * 1000;
+
+function getBackoffDelay(attempts: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempts - 1), MAX_BACKOFF_MS);
+  // +/-20% jitter so devices coming back online together don't hit the server in lockstep
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+// Expired access token, or a CSRF token that went stale while the device was offline; both clear once the session is refreshed
+function isSessionError(error: { status?: number; responseData?: any }): boolean {
+  if (error.status === 401) {
+    return true;
+  }
+  const reason = error.responseData?.error || error.responseData?.message;
+  return error.status === 403 && typeof reason === 'string' && reason.includes('CSRF');
+}
+
+// 4xx responses (other than timeout/rate limiting) will fail the same way on every replay
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof ApiError && error.status) {
+    if (isSessionError(error)) {
+      return true;
+    }
+    if (error.status === 408 || error.status === 425 || error.status === 429) {
+      return true;
+    }
+    return error.status < 400 || error.status >= 500;
+  }
+  return true;
+}
+
+function toSyncError(error: unknown): OfflineSyncError {
+  if (error instanceof ApiError) {
+    return { message: error.message, status: error.status, responseData: error.responseData };
+  }
+  return { message: error instanceof Error ? error.message : String(error) };
+}
+
 class SyncService {
   private syncInProgress = false;
   private syncInterval: NodeJS.Timeout | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private listeners = new Set<SyncListener>();
+
+  // Notified when a queued item is accepted or dead-lettered, so pages can reconcile their views
+  onItemSettled(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(item: OfflineData, outcome: SyncOutcome) {
+    // Hand listeners the stored copy so they see the latest attempt's error
+    const current = useOfflineStore.getState().offlineQueue.find((queued) => queued.id === item.id) || item;
+    this.listeners.forEach((listener) => {
+      try {
+        listener(current, outcome);
+      } catch (error) {
+        console.error('Error in sync listener:', error);
+      }
+    });
+  }
 
   startAutoSync(intervalMs: number = 30000) {
+    this.stopAutoSync();
     this.syncInterval = setInterval(() => {
       this.syncPendingData();
     }, intervalMs);
@@ -18,6 +145,10 @@ class SyncService {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
   }
 
   async syncPendingData() {
@@ -25,67 +156,244 @@ class SyncService {
       return;
     }
 
-    const { isOnline, offlineQueue, markAsSynced, removeFromQueue } = useOfflineStore.getState();
-    
-    if (!isOnline || offlineQueue.length === 0) {
+    const { isOnline, isHydrated, offlineQueue, markAsSynced, updateItem } = useOfflineStore.getState();
+
+    // Queued writes go out under the signed-in user's token, so only that user's items are replayed
+    const userId = getCurrentUserId();
+    if (!isOnline || !isHydrated || !useAuthStore.getState().isAuthenticated || !userId) {
+      return;
+    }
+
+    const now = Date.now();
+    const dueItems = offlineQueue.filter(
+      (item) => item.userId === userId && item.status === 'pending' && item.nextAttemptAt <= now
+    );
+
+    if (dueItems.length === 0) {
+      this.scheduleNextAttempt();
       return;
     }
 
     this.syncInProgress = true;
     let syncedCount = 0;
-    let failedCount = 0;
+    let retryCount = 0;
+    let deadLetterCount = 0;
+    let sessionExpired = false;
+
+    try {
+      for (const item of dueItems) {
+        // Connection dropped mid-run - stop without burning attempts on the remaining items
+        if (!navigator.onLine) {
+          break;
+        }
 
+        const attempts = item.attempts + 1;
+        try {
+          await this.syncItem(item);
+          await markAsSynced(item.id);
+          syncedCount++;
+          this.notify(item, 'synced');
+        } catch (error) {
+          const lastError = toSyncError(error);
 
+          // Not the item's fault: keep it without spending an attempt, and stop - the rest would fail the same way
+          if (error instanceof ApiError && isSessionError(error)) {
+            await updateItem(item.id, {
+              lastAttemptAt: Date.now(),
+              nextAttemptAt: Date.now() + SESSION_RETRY_MS,
+              lastError,
+            });
+            sessionExpired = true;
+            break;
+          }
 
-    for (const item of offlineQueue.filter(item => !item.synced)) {
-      try {
-        await this.syncItem(item);
-        markAsSynced(item.id);
-        syncedCount++;
-              } catch (error) {
-          failedCount++;
+          if (!isRetryableError(error) || attempts >= MAX_SYNC_ATTEMPTS) {
+            await updateItem(item.id, {
+              status: 'dead_letter',
+              attempts,
+              lastAttemptAt: Date.now(),
+              lastError,
+            });
+            deadLetterCount++;
+            this.notify(item, 'dead_letter');
+          } else {
+            await updateItem(item.id, {
+              attempts,
+              lastAttemptAt: Date.now(),
+              nextAttemptAt: Date.now() + getBackoffDelay(attempts),
+              lastError,
+            });
+            retryCount++;
+          }
         }
-    }
+      }
 
-    // Remove successfully synced items
-    useOfflineStore.getState().clearSyncedItems();
-
-    this.syncInProgress = false;
+      // Remove successfully synced items
+      await useOfflineStore.getState().clearSyncedItems();
+    } finally {
+      this.syncInProgress = false;
+    }
 
     if (syncedCount > 0) {
       toast.success(`Synced ${syncedCount} items successfully`);
     }
 
-    if (failedCount > 0) {
-      toast.error(`Failed to sync ${failedCount} items`);
+    if (retryCount > 0) {
+      toast.warning(`${retryCount} items could not be synced yet and will be retried`);
+    }
+
+    if (deadLetterCount > 0) {
+      toast.error(`${deadLetterCount} items were rejected and need attention`);
     }
 
+    if (sessionExpired) {
+      toast.warning('Your session has expired. Queued items will sync after you sign in again');
+    }
 
+    this.scheduleNextAttempt();
   }
 
-  private async syncItem(item: any) {
+  // Wake up when the earliest backed-off item becomes due instead of waiting for the next interval tick
+  private scheduleNextAttempt() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const userId = getCurrentUserId();
+    const pending = useOfflineStore
+      .getState()
+      .offlineQueue.filter((item) => item.userId === userId && item.status === 'pending');
+    if (pending.length === 0) {
+      return;
+    }
+
+    const nextAttemptAt = Math.min(...pending.map((item) => item.nextAttemptAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.syncPendingData();
+    }, Math.max(nextAttemptAt - Date.now(), 1000));
+  }
+
+  private async syncItem(item: OfflineData) {
+    // Our own backoff handles retries, so let the request fail fast
+    const config: RequestConfig = { idempotencyKey: item.id, retries: 0 };
+
     switch (item.type) {
       case 'attendance':
-        return await api.attendanceService.markAttendance(item.data);
-      
+        return await api.attendanceService.checkIn(item.data, config);
+
       case 'work_entry':
-        return await api.workEntryService.submitWork(item.data);
-      
+        return await this.syncProductionSubmission(item, config);
+
       case 'validation':
-        return await api.workEntryService.validateEntry(
+        return await api.workEntryService.validateWorkEntry(
           item.data.id,
           item.data.status,
-          item.data.notes
+          item.data.notes,
+          config
         );
-      
+
       default:
         throw new Error(`Unknown sync item type: ${item.type}`);
     }
   }
 
+  private async syncProductionSubmission(item: OfflineData, config: RequestConfig) {
+    const submission = item.data as QueuedProductionSubmission;
+    const photo = submission.photo
+      ? await fileUploadService.blobToBase64(submission.photo)
+      : 'default_photo_placeholder';
+
+    switch (submission.mode) {
+      case 'direct':
+        return await api.workEntryService.createDirectWorkEntry(
+          { ...(submission.payload as Partial<WorkEntry>), photo },
+          config
+        );
+
+      case 'production':
+        return await api.productionService.submitProduction(
+          { ...(submission.payload as Omit<ProductionSubmitData, 'photo'>), photo },
+          config
+        );
+
+      case 'start_complete': {
+        let workEntryId = submission.workEntryId;
+
+        // Two requests, so each gets its own key derived from the item's key
+        if (!workEntryId) {
+          const started = await api.workEntryService.startWork(
+            submission.payload as Partial<WorkEntry>,
+            { ...config, idempotencyKey: `${item.id}:start` }
+          );
+          workEntryId = started.data._id || started.data.id;
+          if (!workEntryId) {
+            throw new Error('Invalid response: work entry ID not found');
+          }
+          await useOfflineStore.getState().updateItem(item.id, {
+            data: { ...submission, workEntryId },
+          });
+        }
+
+        return await api.workEntryService.completeWork(
+          workEntryId,
+          { ...submission.completion, photo },
+          { ...config, idempotencyKey: `${item.id}:complete` }
+        );
+      }
+
+      default:
+        throw new Error(`Unknown production submission mode: ${submission.mode}`);
+    }
+  }
+
+  // A refreshed or new token lets the items an expired session held back go straight away
+  async resumeAfterSessionRefresh() {
+    const { offlineQueue, updateItem } = useOfflineStore.getState();
+    const userId = getCurrentUserId();
+    const held = offlineQueue.filter(
+      (item) =>
+        item.userId === userId && item.status === 'pending' && item.lastError && isSessionError(item.lastError)
+    );
+    for (const item of held) {
+      await updateItem(item.id, { nextAttemptAt: Date.now() });
+    }
+    await this.syncPendingData();
+  }
+
+  // Sync Issues actions
+
+  // Replay with the same payload and Idempotency-Key, starting the backoff over
+  async retryItem(id: string) {
+    await useOfflineStore.getState().updateItem(id, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    });
+    await this.syncPendingData();
+  }
+
+  // An edited payload is a different request, so it is queued under a fresh Idempotency-Key
+  async resendItem(id: string, data: unknown) {
+    const { offlineQueue, removeFromQueue, addToQueue } = useOfflineStore.getState();
+    const item = offlineQueue.find((queued) => queued.id === id);
+    if (!item) {
+      return;
+    }
+
+    await addToQueue({ type: item.type, data, timestamp: item.timestamp, userId: item.userId });
+    await removeFromQueue(id);
+    await this.syncPendingData();
+  }
+
+  async discardItem(id: string) {
+    await useOfflineStore.getState().removeFromQueue(id);
+  }
+
   async forceSync() {
     const { isOnline } = useOfflineStore.getState();
-    
+
     if (!isOnline) {
       toast.error('No internet connection available');
       return;
@@ -97,25 +405,27 @@ class SyncService {
   // Queue operations for offline mode
   queueAttendance(data: any) {
     const { addToQueue } = useOfflineStore.getState();
-    addToQueue({
+    return addToQueue({
       type: 'attendance',
       data,
       timestamp: new Date(),
     });
   }
 
-  queueWorkEntry(data: any) {
+  queueWorkEntry(data: QueuedProductionSubmission, clientKey?: string) {
     const { addToQueue } = useOfflineStore.getState();
-    addToQueue({
+    return addToQueue({
+      id: clientKey,
       type: 'work_entry',
       data,
       timestamp: new Date(),
     });
   }
 
-  queueValidation(data: any) {
+  queueValidation(data: QueuedValidation, clientKey?: string) {
     const { addToQueue } = useOfflineStore.getState();
-    addToQueue({
+    return addToQueue({
+      id: clientKey,
       type: 'validation',
       data,
       timestamp: new Date(),
@@ -128,6 +438,21 @@ export const syncService = new SyncService();
 // Initialize auto-sync when online
 if (typeof window !== 'undefined') {
   window.addEventListener('online', () => {
-    syncService.syncPendingData();
+    if (useAuthStore.getState().isAuthenticated) {
+      syncService.syncPendingData();
+    }
+  });
+
+  useAuthStore.subscribe((state, prevState) => {
+    if (state.accessToken && state.accessToken !== prevState.accessToken) {
+      syncService.resumeAfterSessionRefresh();
+    }
+  });
+
+  // Replay anything left over from a previous session once the queue is loaded from IndexedDB
+  useOfflineStore.subscribe((state, prevState) => {
+    if (state.isHydrated && !prevState.isHydrated && useAuthStore.getState().isAuthenticated) {
+      syncService.syncPendingData();
+    }
   });
-}
\ No newline at end of file
+}
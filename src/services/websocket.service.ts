@@ -2,6 +2,7 @@
 import { useEffect, useCallback, useState } from 'react';
 import { useAuthStore } from '@/stores/authStore';
 import { apiClient } from './api/client';
+import { AlertSeverity, AlertStatus, Factory, MachineRunState, Process, Product, ProductionOrder, User, WorkEntry } from '@/types';
 
 export type WSEvent = 
   | 'attendance_marked'
@@ -20,15 +21,157 @@ export type WSEvent =
   | 'factory_approved'
   | 'factory_updated'
   | 'alert_created'
+  | 'alert_updated'
+  | 'machine_status_changed'
+  | 'order_updated'
   | 'sync_required';
 
-export interface WSMessage {
+// Payloads
+
+// created/updated events carry the saved entity; deleted events only the id
+export interface EntityChangedPayload<T> {
+  id: string;
+  entity?: T;
+}
+
+export interface AttendanceMarkedPayload {
+  attendanceId: string;
+  employeeId: string;
+  supervisorId?: string;
+  action: 'check_in' | 'check_out';
+  timestamp: string;
+}
+
+export interface WorkEntrySubmittedPayload {
+  workEntryId: string;
+  employeeId: string;
+  supervisorId?: string;
+  productId: string;
+  processId: string;
+  workEntry?: WorkEntry;
+}
+
+export interface WorkEntryValidatedPayload extends WorkEntrySubmittedPayload {
+  validationStatus: 'approved' | 'rejected';
+  validatedBy?: string;
+}
+
+// Totals of one product/process stage after a change, so clients can patch instead of refetching
+export interface ProcessStageSnapshot {
+  productId: string;
+  processId: string;
+  achievedQuantity: number;
+  rejectedQuantity: number;
+  availableQuantity: number;
+  targetQuantity?: number;
+  efficiency?: number;
+  isLocked?: boolean;
+  remainingQuantity?: number;
+}
+
+export interface ProductionDataUpdatedPayload {
+  productId: string;
+  processId: string;
+  workEntryId?: string;
+  employeeId?: string;
+  supervisorId?: string;
+  // Set when the work was booked against a production order
+  orderId?: string;
+  achievedDelta: number;
+  rejectedDelta: number;
+  // Every stage whose totals changed (the producing stage and the stage it feeds).
+  // Missing from servers that predate incremental updates - clients fall back to a refetch.
+  stages?: ProcessStageSnapshot[];
+}
+
+export interface AlertCreatedPayload {
+  alertId: string;
+  severity: AlertSeverity;
+  message: string;
+  ruleId?: string;
+  productId?: string;
+  processId?: string;
+}
+
+// An alert was acknowledged or resolved
+export interface AlertUpdatedPayload {
+  alertId: string;
+  status: AlertStatus;
+  productId?: string;
+  processId?: string;
+}
+
+// A stoppage was logged or ended on a machine
+export interface MachineStatusChangedPayload {
+  machineId: string;
+  status: MachineRunState;
+  downtimeId: string;
+  reasonCode?: string;
+}
+
+export interface SyncRequiredPayload {
+  // 'replay_gap': the connection was down longer than events can be replayed for
+  reason?: 'replay_gap' | string;
+}
+
+export interface WSEventPayloadMap {
+  attendance_marked: AttendanceMarkedPayload;
+  work_entry_submitted: WorkEntrySubmittedPayload;
+  work_entry_validated: WorkEntryValidatedPayload;
+  production_data_updated: ProductionDataUpdatedPayload;
+  user_created: EntityChangedPayload<User>;
+  user_updated: EntityChangedPayload<User>;
+  user_deleted: EntityChangedPayload<User>;
+  product_created: EntityChangedPayload<Product>;
+  product_updated: EntityChangedPayload<Product>;
+  product_deleted: EntityChangedPayload<Product>;
+  process_created: EntityChangedPayload<Process>;
+  process_updated: EntityChangedPayload<Process>;
+  process_deleted: EntityChangedPayload<Process>;
+  factory_approved: EntityChangedPayload<Factory>;
+  factory_updated: EntityChangedPayload<Factory>;
+  alert_created: AlertCreatedPayload;
+  alert_updated: AlertUpdatedPayload;
+  machine_status_changed: MachineStatusChangedPayload;
+  order_updated: EntityChangedPayload<ProductionOrder>;
+  sync_required: SyncRequiredPayload;
+}
+
+export type WSPayload = WSEventPayloadMap[WSEvent];
+export type WSListener<E extends WSEvent> = (data: WSEventPayloadMap[E]) => void;
+
+interface WSMessageBase {
   id: string;
-  type: WSEvent;
-  data: any;
   timestamp: string;
   factoryId?: string;
   userId?: string;
+  // Topic keys the server tagged the event with (see getTopicKey)
+  topics?: string[];
+}
+
+// Discriminated on `type`, so narrowing the event narrows `data`
+export type WSMessage = {
+  [E in WSEvent]: WSMessageBase & { type: E; data: WSEventPayloadMap[E] };
+}[WSEvent];
+
+// Topics
+
+// Events tagged with topics (production, work entries, attendance) are only delivered to sockets
+// subscribed to one of them. A socket with no topic subscriptions still receives the whole factory.
+export type WSTopic =
+  | { kind: 'product'; id: string }
+  | { kind: 'process'; id: string }
+  | { kind: 'team'; supervisorId: string };
+
+export function getTopicKey(topic: WSTopic): string {
+  switch (topic.kind) {
+    case 'product':
+      return `product:${topic.id}`;
+    case 'process':
+      return `process:${topic.id}`;
+    case 'team':
+      return `team:${topic.supervisorId}`;
+  }
 }
 
 interface WSOptions {
@@ -36,17 +179,40 @@ interface WSOptions {
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
   heartbeatInterval?: number;
+  // Longest outage the server is asked to replay; anything longer triggers sync_required instead
+  maxReplayGap?: number;
 }
 
+// Ids of recently handled events, to drop duplicates when a replay overlaps live delivery
+const SEEN_EVENT_HISTORY = 200;
+
+// websocket: the normal path. sse: a one-way EventSource stream of the same WSMessage envelope,
+// for sites whose proxies kill WebSocket upgrades.
+export type WSTransport = 'websocket' | 'sse';
+
+// Handshakes that fail before ever opening, in a row, before switching to SSE for the session
+const WS_FAILURES_BEFORE_SSE = 2;
+
 class WebSocketService {
   private ws: WebSocket | null = null;
+  private eventSource: EventSource | null = null;
+  private transport: WSTransport = 'websocket';
+  private wsHandshakeFailures = 0;
+  private streamReopenTimer: NodeJS.Timeout | null = null;
   private reconnectAttempts = 0;
   private options: Required<WSOptions>;
-  private listeners: Map<WSEvent, Set<(data: any) => void>> = new Map();
+  private listeners: Map<WSEvent, Set<(data: WSPayload) => void>> = new Map();
+  // Topic key -> number of active subscribers, so components showing the same topic share it
+  private topicRefs: Map<string, number> = new Map();
   private messageQueue: WSMessage[] = [];
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private reconnectTimer: NodeJS.Timeout | null = null;
   private isConnecting = false;
+  // Replay bookkeeping: the last event seen and when the previous connection dropped
+  private lastEventId: string | null = null;
+  private lastEventTimestamp: string | null = null;
+  private disconnectedAt: number | null = null;
+  private seenEventIds: string[] = [];
 
   constructor(options: WSOptions = {}) {
     this.options = {
@@ -54,6 +220,7 @@ class WebSocketService {
       reconnectInterval: 1000,
       maxReconnectAttempts: 10,
       heartbeatInterval: 30000,
+      maxReplayGap: 15 * 60 * 1000,
       ...options,
     };
   }
@@ -61,7 +228,7 @@ class WebSocketService {
   connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       // If already connected, resolve immediately
-      if (this.ws?.readyState === WebSocket.OPEN) {
+      if (this.isOpen()) {
         resolve();
         return;
       }
@@ -70,7 +237,7 @@ class WebSocketService {
       if (this.isConnecting) {
         // Wait for connection to complete (max 5 seconds)
         const checkInterval = setInterval(() => {
-          if (this.ws?.readyState === WebSocket.OPEN) {
+          if (this.isOpen()) {
             clearInterval(checkInterval);
             resolve();
           } else if (!this.isConnecting && this.ws?.readyState !== WebSocket.CONNECTING) {
@@ -82,7 +249,7 @@ class WebSocketService {
         
         setTimeout(() => {
           clearInterval(checkInterval);
-          if (this.ws?.readyState === WebSocket.OPEN) {
+          if (this.isOpen()) {
         resolve();
           } else {
             reject(new Error('Connection timeout'));
@@ -91,33 +258,46 @@ class WebSocketService {
         return;
       }
 
+      // Kiosk displays connect with their display token instead of a user session
+      const isDisplaySession = apiClient.hasDisplayToken();
       const { user } = useAuthStore.getState();
-      if (!user) {
+      if (!user && !isDisplaySession) {
         reject(new Error('No authenticated user'));
         return;
       }
 
       // Use _id if id is not available
-      const userId = user.id || user._id;
-      if (!userId) {
+      const userId = user?.id || user?._id || '';
+      if (!userId && !isDisplaySession) {
         reject(new Error('User ID not available'));
         return;
       }
 
       this.isConnecting = true;
 
+      if (this.transport === 'sse') {
+        this.openEventStream(resolve, reject);
+        return;
+      }
+
       try {
         // Close existing connection if it exists but is not open
         if (this.ws && this.ws.readyState !== WebSocket.OPEN && this.ws.readyState !== WebSocket.CLOSED) {
           this.ws.close();
         }
         
-        this.ws = apiClient.createWebSocket(userId);
+        const socket = apiClient.createWebSocket(userId);
+        this.ws = socket;
+        let opened = false;
         
         this.ws.onopen = () => {
+          opened = true;
+          this.wsHandshakeFailures = 0;
           this.isConnecting = false;
           this.reconnectAttempts = 0;
           this.startHeartbeat();
+          this.resubscribeTopics();
+          this.recoverMissedEvents(true);
           this.flushMessageQueue();
           resolve();
         };
@@ -139,8 +319,14 @@ class WebSocketService {
         };
 
         this.ws.onclose = (event) => {
+          // Socket was abandoned for the SSE fallback
+          if (this.ws !== socket) return;
+
           this.isConnecting = false;
           this.stopHeartbeat();
+          if (this.disconnectedAt === null) {
+            this.disconnectedAt = Date.now();
+          }
           
           if (this.options.reconnect && !event.wasClean) {
             this.attemptReconnect();
@@ -149,6 +335,17 @@ class WebSocketService {
 
         this.ws.onerror = (error) => {
           this.isConnecting = false;
+
+          // A proxy that blocks the upgrade fails every handshake - stop retrying and stream instead
+          if (!opened && ++this.wsHandshakeFailures >= WS_FAILURES_BEFORE_SSE && typeof EventSource !== 'undefined') {
+            this.ws = null;
+            this.stopHeartbeat();
+            this.transport = 'sse';
+            this.isConnecting = true;
+            this.openEventStream(resolve, reject);
+            return;
+          }
+
           reject(error);
         };
       } catch (error) {
@@ -171,14 +368,48 @@ class WebSocketService {
       this.ws.close(1000, 'Client disconnect');
       this.ws = null;
     }
+
+    if (this.streamReopenTimer) {
+      clearTimeout(this.streamReopenTimer);
+      this.streamReopenTimer = null;
+    }
+
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+    this.transport = 'websocket';
+    this.wsHandshakeFailures = 0;
+
+    // A deliberate disconnect (logout) starts the next session from scratch
+    this.lastEventId = null;
+    this.lastEventTimestamp = null;
+    this.disconnectedAt = null;
+    this.seenEventIds = [];
   }
 
   private handleMessage(message: WSMessage) {
-    const listeners = this.listeners.get(message.type);
+    if (message.id) {
+      if (this.seenEventIds.includes(message.id)) {
+        return;
+      }
+      this.seenEventIds.push(message.id);
+      if (this.seenEventIds.length > SEEN_EVENT_HISTORY) {
+        this.seenEventIds.shift();
+      }
+      this.lastEventId = message.id;
+      this.lastEventTimestamp = message.timestamp || this.lastEventTimestamp;
+    }
+
+    this.dispatch(message.type, message.data);
+  }
+
+  private dispatch<E extends WSEvent>(event: E, data: WSEventPayloadMap[E]) {
+    const listeners = this.listeners.get(event);
     if (listeners) {
       listeners.forEach(listener => {
         try {
-          listener(message.data);
+          listener(data);
         } catch (error) {
           // Error in WebSocket listener
         }
@@ -186,6 +417,123 @@ class WebSocketService {
     }
   }
 
+  private isReplayGapTooLong(): boolean {
+    return this.disconnectedAt !== null && Date.now() - this.disconnectedAt > this.options.maxReplayGap;
+  }
+
+  // What to ask the server to resend; null when there was no outage or it was too long to replay
+  private getReplayRequest(): { lastEventId: string | null; since: string } | null {
+    if (this.disconnectedAt === null || this.isReplayGapTooLong()) {
+      return null;
+    }
+    return {
+      lastEventId: this.lastEventId,
+      since: this.lastEventTimestamp || new Date(this.disconnectedAt).toISOString(),
+    };
+  }
+
+  // After a reconnect, ask the server to resend what was broadcast while we were away.
+  // Past maxReplayGap the server may no longer have those events, so pages reload instead.
+  // The event stream passes its replay request when opening, so it only needs the gap check.
+  private recoverMissedEvents(requestReplay: boolean) {
+    if (this.disconnectedAt === null) {
+      return;
+    }
+
+    if (this.isReplayGapTooLong()) {
+      this.dispatch('sync_required', { reason: 'replay_gap' });
+    } else if (requestReplay) {
+      this.sendMessage({ type: 'replay', ...this.getReplayRequest() });
+    }
+    this.disconnectedAt = null;
+  }
+
+  // SSE fallback. Topics and the replay position go in the URL since the stream is one-way;
+  // messages emitted meanwhile stay queued until a WebSocket is available again.
+  private openEventStream(resolve: () => void, reject: (reason?: unknown) => void) {
+    const params: Record<string, string> = {};
+    const replay = this.getReplayRequest();
+    if (replay) {
+      if (replay.lastEventId) params.lastEventId = replay.lastEventId;
+      params.since = replay.since;
+    }
+    if (this.topicRefs.size > 0) {
+      params.topics = Array.from(this.topicRefs.keys()).join(',');
+    }
+
+    let source: EventSource;
+    try {
+      source = apiClient.createEventSource('/realtime/stream', params);
+    } catch (error) {
+      this.isConnecting = false;
+      reject(error);
+      return;
+    }
+    this.eventSource = source;
+    let opened = false;
+
+    source.onopen = () => {
+      if (this.eventSource !== source) return;
+      opened = true;
+      this.isConnecting = false;
+      this.reconnectAttempts = 0;
+      this.recoverMissedEvents(false);
+      resolve();
+    };
+
+    source.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        // Failed to parse event stream message
+      }
+    };
+
+    source.onerror = () => {
+      if (this.eventSource !== source) return;
+      if (this.disconnectedAt === null) {
+        this.disconnectedAt = Date.now();
+      }
+
+      // Still CONNECTING: the browser retries on its own and resumes from Last-Event-ID
+      if (source.readyState !== EventSource.CLOSED) {
+        return;
+      }
+
+      this.isConnecting = false;
+      this.eventSource = null;
+      if (!opened) {
+        reject(new Error('Event stream connection failed'));
+      }
+      if (this.options.reconnect) {
+        this.attemptReconnect();
+      }
+    };
+  }
+
+  // A stream can't be told about new topics, so reopen it with the current set, resuming after the last event
+  private scheduleStreamReopen() {
+    if (this.streamReopenTimer) return;
+    this.streamReopenTimer = setTimeout(() => {
+      this.streamReopenTimer = null;
+      if (!this.eventSource) return;
+
+      this.eventSource.close();
+      this.eventSource = null;
+      this.disconnectedAt = Date.now();
+      this.isConnecting = true;
+      this.openEventStream(() => {}, () => {});
+    }, 0);
+  }
+
+  private sendTopicChange(type: 'subscribe' | 'unsubscribe', topics: string[]) {
+    if (this.transport === 'sse') {
+      this.scheduleStreamReopen();
+    } else {
+      this.sendMessage({ type, topics });
+    }
+  }
+
   private attemptReconnect() {
     if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
       return;
@@ -227,17 +575,18 @@ class WebSocketService {
     }
   }
 
-  subscribe(event: WSEvent, callback: (data: any) => void): () => void {
+  subscribe<E extends WSEvent>(event: E, callback: WSListener<E>): () => void {
     if (!this.listeners.has(event)) {
       this.listeners.set(event, new Set());
     }
-    this.listeners.get(event)!.add(callback);
+    const listener = callback as (data: WSPayload) => void;
+    this.listeners.get(event)!.add(listener);
 
     // Return unsubscribe function
     return () => {
       const listeners = this.listeners.get(event);
       if (listeners) {
-        listeners.delete(callback);
+        listeners.delete(listener);
         if (listeners.size === 0) {
           this.listeners.delete(event);
         }
@@ -245,18 +594,58 @@ class WebSocketService {
     };
   }
 
-  emit(event: WSEvent, data: any) {
+  // Ask the server for topic-scoped events; returns a function that releases the topics again
+  subscribeTopics(topics: WSTopic[]): () => void {
+    const keys = Array.from(new Set(topics.map(getTopicKey)));
+
+    const added = keys.filter((key) => {
+      const count = this.topicRefs.get(key) || 0;
+      this.topicRefs.set(key, count + 1);
+      return count === 0;
+    });
+    if (added.length > 0) {
+      this.sendTopicChange('subscribe', added);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+
+      const removed = keys.filter((key) => {
+        const count = (this.topicRefs.get(key) || 1) - 1;
+        if (count <= 0) {
+          this.topicRefs.delete(key);
+          return true;
+        }
+        this.topicRefs.set(key, count);
+        return false;
+      });
+      if (removed.length > 0) {
+        this.sendTopicChange('unsubscribe', removed);
+      }
+    };
+  }
+
+  // Subscriptions live on the socket, so a new connection has to ask again
+  private resubscribeTopics() {
+    if (this.topicRefs.size > 0) {
+      this.sendMessage({ type: 'subscribe', topics: Array.from(this.topicRefs.keys()) });
+    }
+  }
+
+  emit<E extends WSEvent>(event: E, data: WSEventPayloadMap[E]) {
     const user = useAuthStore.getState().user;
     const userId = user?.id || user?._id;
     
-    const message: WSMessage = {
+    const message = {
       id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       type: event,
       data,
       timestamp: new Date().toISOString(),
       factoryId: user?.factoryId,
       userId: userId,
-    };
+    } as WSMessage;
 
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.sendMessage(message);
@@ -272,17 +661,25 @@ class WebSocketService {
     }
   }
 
+  private isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN || this.eventSource?.readyState === EventSource.OPEN;
+  }
+
   getConnectionState(): 'connecting' | 'connected' | 'disconnected' {
     if (this.isConnecting) return 'connecting';
-    if (this.ws?.readyState === WebSocket.OPEN) return 'connected';
+    if (this.isOpen()) return 'connected';
     return 'disconnected';
   }
+
+  getTransport(): WSTransport {
+    return this.transport;
+  }
 }
 
 export const wsService = new WebSocketService();
 
 // React Hook for WebSocket
-export function useWebSocket(event: WSEvent, handler: (data: any) => void) {
+export function useWebSocket<E extends WSEvent>(event: E, handler: WSListener<E>) {
   const [connectionState, setConnectionState] = useState<'connecting' | 'connected' | 'disconnected'>('disconnected');
 
   useEffect(() => {
@@ -305,7 +702,7 @@ export function useWebSocket(event: WSEvent, handler: (data: any) => void) {
     return unsubscribe;
   }, [event, handler]);
 
-  const emit = useCallback((data: any) => {
+  const emit = useCallback((data: WSEventPayloadMap[E]) => {
     wsService.emit(event, data);
   }, [event]);
 
@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Language } from '@/types';
+
+interface LanguageState {
+  // Default of the signed-in user's factory; kept across reloads so the first paint is already translated
+  factoryLanguage: Language | null;
+  setFactoryLanguage: (language?: Language | null) => void;
+}
+
+export const useLanguageStore = create<LanguageState>()(
+  persist(
+    (set) => ({
+      factoryLanguage: null,
+
+      setFactoryLanguage: (language) =>
+        set({ factoryLanguage: language || null }),
+    }),
+    {
+      name: 'language-storage',
+    }
+  )
+);
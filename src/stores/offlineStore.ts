@@ -1,75 +1,251 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { offlineDb, isIndexedDbAvailable } from '@/services/offlineDb';
+import { useAuthStore } from './authStore';
 
-interface OfflineData {
+export type OfflineDataType = 'attendance' | 'work_entry' | 'validation';
+
+// pending: waiting for (re)delivery, synced: accepted by the server,
+// dead_letter: gave up after too many attempts or a non-retryable rejection
+export type OfflineDataStatus = 'pending' | 'synced' | 'dead_letter';
+
+export interface OfflineSyncError {
+  message: string;
+  status?: number;
+  // Body of the server's error response (ApiError.responseData), kept for the Sync Issues screen
+  responseData?: unknown;
+}
+
+export interface OfflineData {
+  // Client-generated UUID, also sent as the Idempotency-Key so replays are deduplicated server-side
   id: string;
-  type: 'attendance' | 'work_entry' | 'validation';
+  type: OfflineDataType;
   data: any;
   timestamp: Date;
-  synced: boolean;
+  // Who queued it; on a shared device only their session replays it
+  userId?: string;
+  status: OfflineDataStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastAttemptAt?: number;
+  lastError?: OfflineSyncError;
+}
+
+// Lightweight record of an item the server accepted, so users can confirm queued work landed
+export interface SyncedRecord {
+  id: string;
+  type: OfflineDataType;
+  data: unknown;
+  userId?: string;
+  queuedAt: Date;
+  syncedAt: Date;
 }
 
+const MAX_SYNCED_HISTORY = 50;
+
 interface OfflineState {
   isOnline: boolean;
+  isHydrated: boolean;
   offlineQueue: OfflineData[];
+  recentlySynced: SyncedRecord[];
   setOnlineStatus: (status: boolean) => void;
-  addToQueue: (data: Omit<OfflineData, 'id' | 'synced'>) => void;
-  markAsSynced: (id: string) => void;
-  removeFromQueue: (id: string) => void;
-  clearSyncedItems: () => void;
+  hydrate: () => Promise<void>;
+  // Pass `id` when the write was already attempted online with that Idempotency-Key
+  addToQueue: (data: Pick<OfflineData, 'type' | 'data' | 'timestamp' | 'userId'> & { id?: string }) => Promise<OfflineData>;
+  updateItem: (id: string, changes: Partial<Omit<OfflineData, 'id'>>) => Promise<void>;
+  markAsSynced: (id: string) => Promise<void>;
+  removeFromQueue: (id: string) => Promise<void>;
+  clearSyncedItems: () => Promise<void>;
+}
+
+// Drop the photo Blob from history entries; only the summary is needed after the server accepted it
+function toSyncedRecord(item: OfflineData): SyncedRecord {
+  const data = item.data && typeof item.data === 'object' && 'photo' in item.data
+    ? { ...item.data, photo: null }
+    : item.data;
+  return { id: item.id, type: item.type, data, userId: item.userId, queuedAt: item.timestamp, syncedAt: new Date() };
+}
+
+export function getCurrentUserId(): string | undefined {
+  const { user } = useAuthStore.getState();
+  return user?._id || user?.id || undefined;
 }
 
-export const useOfflineStore = create<OfflineState>()(
-  persist(
-    (set) => ({
-      isOnline: navigator.onLine,
-      offlineQueue: [],
-      
-      setOnlineStatus: (status) =>
-        set({ isOnline: status }),
-        
-      addToQueue: (data) =>
-        set((state) => ({
-          offlineQueue: [
-            ...state.offlineQueue,
-            {
-              ...data,
-              id: Date.now().toString(),
-              synced: false,
-            },
-          ],
-        })),
-        
-      markAsSynced: (id) =>
-        set((state) => ({
-          offlineQueue: state.offlineQueue.map((item) =>
-            item.id === id ? { ...item, synced: true } : item
-          ),
-        })),
-        
-      removeFromQueue: (id) =>
-        set((state) => ({
-          offlineQueue: state.offlineQueue.filter((item) => item.id !== id),
-        })),
-        
-      clearSyncedItems: () =>
-        set((state) => ({
-          offlineQueue: state.offlineQueue.filter((item) => !item.synced),
-        })),
-    }),
-    {
-      name: 'offline-storage',
+// Legacy queue persisted by zustand/persist before the move to IndexedDB
+const LEGACY_STORAGE_KEY = 'offline-storage';
+
+export function generateClientKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  // randomUUID is only exposed in secure contexts; factory LAN deployments may be plain http
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+async function persistItem(item: OfflineData) {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await offlineDb.put(item);
+  } catch (error) {
+    console.error('Failed to persist offline queue item:', error);
+  }
+}
+
+async function deleteItem(id: string) {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await offlineDb.delete(id);
+  } catch (error) {
+    console.error('Failed to delete offline queue item:', error);
+  }
+}
+
+async function migrateLegacyQueue(): Promise<OfflineData[]> {
+  const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    const legacyItems: Array<{ type: OfflineDataType; data: unknown; timestamp: string; synced?: boolean }> =
+      parsed?.state?.offlineQueue || [];
+
+    const migrated = legacyItems
+      .filter((item) => !item.synced)
+      .map<OfflineData>((item) => ({
+        id: generateClientKey(),
+        type: item.type,
+        data: item.data,
+        timestamp: new Date(item.timestamp),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: Date.now(),
+      }));
+
+    for (const item of migrated) {
+      await offlineDb.put(item);
     }
-  )
-);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return migrated;
+  } catch (error) {
+    console.error('Failed to migrate legacy offline queue:', error);
+    return [];
+  }
+}
+
+export const useOfflineStore = create<OfflineState>()((set, get) => ({
+  isOnline: navigator.onLine,
+  isHydrated: false,
+  offlineQueue: [],
+  recentlySynced: [],
+
+  setOnlineStatus: (status) =>
+    set({ isOnline: status }),
+
+  hydrate: async () => {
+    if (!isIndexedDbAvailable()) {
+      set({ isHydrated: true });
+      return;
+    }
+
+    try {
+      const stored = await offlineDb.getAll<OfflineData>();
+      const migrated = await migrateLegacyQueue();
+      // Items queued before owners were recorded belong to the session that was open when the app last ran
+      const ownerId = getCurrentUserId();
+      const unowned = ownerId ? [...stored, ...migrated].filter((item) => !item.userId) : [];
+      const claimed = unowned.map((item) => ({ ...item, userId: ownerId }));
+      await Promise.all(claimed.map(persistItem));
+
+      const claimedIds = new Set(claimed.map((item) => item.id));
+      const queue = [...stored, ...migrated]
+        .filter((item) => !claimedIds.has(item.id))
+        .concat(claimed)
+        .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+      // Keep anything queued while hydration was in flight
+      set((state) => {
+        const loadedIds = new Set(queue.map((item) => item.id));
+        return {
+          offlineQueue: [...queue, ...state.offlineQueue.filter((item) => !loadedIds.has(item.id))],
+          isHydrated: true,
+        };
+      });
+    } catch (error) {
+      console.error('Failed to load offline queue from IndexedDB:', error);
+      set({ isHydrated: true });
+    }
+  },
+
+  addToQueue: async (data) => {
+    const item: OfflineData = {
+      ...data,
+      id: data.id || generateClientKey(),
+      userId: data.userId ?? getCurrentUserId(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    };
+
+    set((state) => ({
+      offlineQueue: [...state.offlineQueue, item],
+    }));
+    await persistItem(item);
+    return item;
+  },
+
+  updateItem: async (id, changes) => {
+    set((state) => ({
+      offlineQueue: state.offlineQueue.map((item) =>
+        item.id === id ? { ...item, ...changes } : item
+      ),
+    }));
+
+    const updated = get().offlineQueue.find((item) => item.id === id);
+    if (updated) {
+      await persistItem(updated);
+    }
+  },
+
+  markAsSynced: async (id) => {
+    await get().updateItem(id, { status: 'synced', lastError: undefined });
+
+    const synced = get().offlineQueue.find((item) => item.id === id);
+    if (synced) {
+      set((state) => ({
+        recentlySynced: [toSyncedRecord(synced), ...state.recentlySynced].slice(0, MAX_SYNCED_HISTORY),
+      }));
+    }
+  },
+
+  removeFromQueue: async (id) => {
+    set((state) => ({
+      offlineQueue: state.offlineQueue.filter((item) => item.id !== id),
+    }));
+    await deleteItem(id);
+  },
+
+  clearSyncedItems: async () => {
+    const synced = get().offlineQueue.filter((item) => item.status === 'synced');
+    set((state) => ({
+      offlineQueue: state.offlineQueue.filter((item) => item.status !== 'synced'),
+    }));
+    await Promise.all(synced.map((item) => deleteItem(item.id)));
+  },
+}));
 
 // Listen for online/offline events
 if (typeof window !== 'undefined') {
+  useOfflineStore.getState().hydrate();
+
   window.addEventListener('online', () => {
     useOfflineStore.getState().setOnlineStatus(true);
   });
-  
+
   window.addEventListener('offline', () => {
     useOfflineStore.getState().setOnlineStatus(false);
   });
-}
\ No newline at end of file
+}
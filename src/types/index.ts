@@ -1,6 +1,9 @@
 // User Types
 export type UserRole = 'super_admin' | 'factory_admin' | 'supervisor' | 'employee';
 
+// Languages the interface is translated into
+export type Language = 'en' | 'hi' | 'ta' | 'mr';
+
 export interface User {
   id?: string;
   _id?: string;
@@ -14,10 +17,14 @@ export interface User {
     lastName: string;
     phone: string;
     avatar?: string;
+    // Chosen in Settings or Profile; falls back to the factory's language
+    language?: Language;
   };
   assignedProcesses?: (string | Process)[];
   deviceId?: string | null;
   isActive: boolean;
+  // Set by a supervisor to give the employee the big-button dashboard
+  simpleMode?: boolean;
   emailVerified?: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -39,6 +46,14 @@ export interface Factory {
     longitude: number;
     radius: number;
   };
+  // Named polygon areas check-ins are accepted in; when empty the `geofence` circle is used
+  geofenceZones?: GeofenceZone[];
+  // How employees prove they are on site when checking in; GPS when unset
+  checkInMode?: CheckInMode;
+  // IANA zone (e.g. "Asia/Kolkata") dates, shifts and report ranges are shown in
+  timezone?: string;
+  // Language employees see until they pick their own; the server fills in the system default when unset
+  defaultLanguage?: Language;
   adminId?: string;
   subscription?: {
     plan: 'basic' | 'pro' | 'enterprise';
@@ -51,6 +66,45 @@ export interface Factory {
   updatedAt: Date;
 }
 
+// GPS geofence, a rotating QR code shown at the gate, or both
+export type CheckInMode = 'gps' | 'qr' | 'both';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export type CheckInRiskLevel = 'low' | 'medium' | 'high';
+
+export type CheckInRiskSignal =
+  | 'poor_accuracy'
+  | 'stale_fix'
+  | 'impossible_travel'
+  | 'mock_location'
+  | 'repeated_coordinates'
+  | 'device_change';
+
+export type CheckInReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface CheckInRisk {
+  // 0 (clean) to 100
+  score: number;
+  level: CheckInRiskLevel;
+  signals: CheckInRiskSignal[];
+  review?: CheckInReviewStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+}
+
+export interface GeofenceZone {
+  id?: string;
+  _id?: string;
+  name: string;
+  // Polygon corners in order around the edge; the last joins back to the first
+  points: GeoPoint[];
+}
+
 // Product Types
 export interface Product {
   id?: string;
@@ -62,6 +116,8 @@ export interface Product {
   category: string;
   isActive: boolean;
   dailyTarget?: number;
+  // Picture shown on the job tiles in simple mode
+  imageUrl?: string;
   processes?: Array<{
     processId: string;
     order: number;
@@ -85,6 +141,7 @@ export interface Process {
   isLocked?: boolean;
   lockedAt?: Date;
   dailyTarget?: number;
+  imageUrl?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -106,6 +163,8 @@ export interface Attendance {
   employeeId: string;
   factoryId: string;
   date?: Date;
+  // Production day (yyyy-MM-dd) the record counts towards; a night shift keeps the date it started on
+  productionDate?: string;
   checkIn: {
     time: Date;
     date?: Date;
@@ -114,16 +173,32 @@ export interface Attendance {
       longitude: number;
     };
     isWithinGeofence: boolean;
+    // How presence was proven, recorded with the check-in
+    method?: CheckInMode;
+    // Geofence zone the check-in location fell in
+    zoneId?: string;
+    zoneName?: string;
+    // Spoofing risk; high-risk check-ins wait for supervisor review
+    risk?: CheckInRisk;
     status: 'present' | 'absent' | 'half-day';
   };
   checkOut?: {
     time: Date;
-    location: {
+    // Missing when the check-out was auto-closed or regularized
+    location?: {
       latitude: number;
       longitude: number;
     };
+    // Closed by the server at shift end because the employee never checked out
+    autoClosed?: boolean;
+    // Approved correction that set this check-out
+    regularizationId?: string;
   };
   shiftType: 'morning' | 'evening' | 'night';
+  // Factory shift name checked in for; shiftType only knows the three built-in shifts
+  shiftName?: string;
+  // Roster slot the check-in fulfilled
+  rosterAssignmentId?: string;
   processId: string;
   target: number;
   status?: 'present' | 'absent' | 'half-day'; // Keep for backward compatibility
@@ -153,9 +228,22 @@ export interface WorkEntry {
   validatedAt?: Date;
   validationNotes?: string;
   reasonForLessProduction?: string;
+  // How `rejected` splits across the factory's defect codes
+  defects?: WorkEntryDefect[];
+  // Production order the work was booked against
+  orderId?: string | { _id: string; orderNumber: string };
+  // Lot the output was booked to, and the previous-stage lots it was made from
+  lotNumber?: string;
+  consumedLots?: LotConsumption[];
+  // Part of `rejected` that can be reworked; the rest is scrap
+  reworkQuantity?: number;
+  // Stage the rework re-enters (this stage or an earlier one)
+  reworkProcessId?: string | { _id: string; name: string };
   targetQuantity: number;
   startTime: Date;
   endTime: Date;
+  // Production day (yyyy-MM-dd) of the attendance the work was booked under
+  productionDate?: string;
   location?: {
     latitude: number;
     longitude: number;
@@ -299,6 +387,11 @@ export interface ProcessStageData {
   workEntryCount: number;
   latestEntry?: Date;
   activeWorkSessions?: number;
+  // rejectedQuantity = scrapQuantity + reworkOutQuantity
+  scrapQuantity?: number;
+  reworkOutQuantity?: number;
+  // Rework routed back into this stage from this or later stages; included in availableQuantity
+  reworkInQuantity?: number;
 }
 
 export interface ProductProcessStagesData {
@@ -311,6 +404,8 @@ export interface ProductProcessStagesData {
     totalRejected: number;
     totalAvailable: number;
     totalTarget: number;
+    totalScrapped?: number;
+    totalReworked?: number;
   };
 }
 
@@ -332,6 +427,8 @@ export interface ProductProcessStagesReport {
     totalRejected: number;
     totalAvailable: number;
     totalTarget: number;
+    totalScrapped?: number;
+    totalReworked?: number;
   };
   activeSessions: ActiveWorkSession[];
   lastUpdated: string;
@@ -397,3 +494,465 @@ export interface DisplayAnalyticsReport {
   lastUpdated: string;
   realtime: boolean;
 }
+
+// Kiosk Display Types
+export type DisplayPanel = 'hourly_chart' | 'product_plan' | 'process_stages' | 'top_performers' | 'gate_checkin';
+
+export interface DisplayConfig {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  name: string;
+  // Panels rotated on screen, in order
+  panels: DisplayPanel[];
+  dwellSeconds: number;
+  // Empty means every product/process in the factory
+  productIds: string[];
+  processIds: string[];
+  // Read-only token scoped to this display, used in the kiosk URL instead of a login
+  token: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Andon Alert Types
+// production_vs_expected: hourly actual below `threshold`% of expected
+// rejection_rate: rejected / (achieved + rejected) above `threshold`% in an hour
+export type AlertRuleMetric = 'production_vs_expected' | 'rejection_rate';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+export type AlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface AlertRule {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  name: string;
+  metric: AlertRuleMetric;
+  threshold: number;
+  // Hours in a row the condition must hold before the rule fires
+  consecutiveHours: number;
+  // Unset means the rule applies to every product/process
+  productId?: string;
+  processId?: string;
+  severity: AlertSeverity;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ProductionAlert {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  ruleId: string;
+  ruleName: string;
+  metric: AlertRuleMetric;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  message: string;
+  productId?: string;
+  productName?: string;
+  processId?: string;
+  processName?: string;
+  // Measured value (percent) for the hour that tripped the rule
+  value?: number;
+  acknowledgedBy?: User;
+  acknowledgedAt?: Date;
+  resolvedBy?: User;
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Downtime Types
+// breakdown/material/quality stoppages are unplanned; planned and changeover are scheduled
+export type DowntimeCategory = 'breakdown' | 'changeover' | 'material' | 'quality' | 'planned' | 'other';
+
+export interface DowntimeReason {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  code: string;
+  label: string;
+  category: DowntimeCategory;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DowntimeEvent {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  machineId: string | { _id: string; name: string };
+  reasonCode: string;
+  reasonLabel?: string;
+  category?: DowntimeCategory;
+  startTime: Date;
+  // Unset while the machine is still down
+  endTime?: Date;
+  durationMinutes?: number;
+  reportedBy?: string | { _id: string; profile: { firstName: string; lastName: string } };
+  endedBy?: string | { _id: string; profile: { firstName: string; lastName: string } };
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MachineRunState = 'running' | 'down';
+
+export interface MachineStatus {
+  machine: Machine;
+  status: MachineRunState;
+  // Open stoppage when status is 'down'
+  currentDowntime?: DowntimeEvent;
+  downtimeMinutesToday: number;
+}
+
+export interface DowntimeSummary {
+  reasonCode: string;
+  reasonLabel: string;
+  category: DowntimeCategory;
+  occurrences: number;
+  totalMinutes: number;
+}
+
+// OEE Types
+export type OeeGroupBy = 'machine' | 'process' | 'shift' | 'day';
+
+// availability = runMinutes / plannedMinutes
+// performance  = totalCount / idealCount (idealCount = run hours x Process.targetPerHour)
+// quality      = goodCount / totalCount
+// oee          = availability x performance x quality
+// Ratios are 0-1; performance can exceed 1 when targetPerHour is set too low
+export interface OeeMetrics {
+  plannedMinutes: number;
+  downtimeMinutes: number;
+  runMinutes: number;
+  idealCount: number;
+  totalCount: number;
+  goodCount: number;
+  availability: number;
+  performance: number;
+  quality: number;
+  oee: number;
+}
+
+export interface OeeRow extends OeeMetrics {
+  key: string;
+  label: string;
+  entries: number;
+}
+
+export interface OeeReport {
+  groupBy: OeeGroupBy;
+  rows: OeeRow[];
+  totals: OeeMetrics;
+  dateRange: {
+    startDate: string;
+    endDate: string;
+  };
+}
+
+// Defect Catalog Types
+export type DefectSeverity = 'minor' | 'major' | 'critical';
+
+export interface DefectCode {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  code: string;
+  label: string;
+  category: string;
+  severity: DefectSeverity;
+  // Processes the code applies to; empty means every process
+  processIds: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkEntryDefect {
+  code: string;
+  quantity: number;
+}
+
+export type DefectParetoGroupBy = 'defect' | 'product' | 'process' | 'machine' | 'employee';
+
+export interface DefectParetoRow {
+  key: string;
+  label: string;
+  quantity: number;
+  // Share of all rejects in the range, and running total down the sorted list
+  percentage: number;
+  cumulativePercentage: number;
+  // Set when grouped by defect
+  category?: string;
+  severity?: DefectSeverity;
+  // Set for the other groupings: the biggest defect cause within the group
+  topDefectCode?: string;
+  topDefectLabel?: string;
+}
+
+// Stage Waterfall Types
+// availableQuantity = receivedQuantity + reworkInQuantity - achievedQuantity - scrapQuantity - reworkOutQuantity
+export interface ProcessWaterfallStage {
+  processId: string;
+  processName: string;
+  stageOrder: number;
+  // Achieved at the previous stage (unbounded for the first stage)
+  receivedQuantity: number;
+  reworkInQuantity: number;
+  achievedQuantity: number;
+  scrapQuantity: number;
+  reworkOutQuantity: number;
+  availableQuantity: number;
+}
+
+export interface ProcessWaterfallView {
+  productId: string;
+  productName?: string;
+  stages: ProcessWaterfallStage[];
+}
+
+// Production Order Types
+export type ProductionOrderStatus = 'planned' | 'released' | 'in_progress' | 'completed' | 'cancelled';
+
+export type ProductionOrderPriority = 'low' | 'normal' | 'high' | 'urgent';
+
+export interface ProductionOrderStageProgress {
+  processId: string;
+  processName: string;
+  stageOrder: number;
+  achievedQuantity: number;
+  rejectedQuantity: number;
+}
+
+export interface ProductionOrder {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  orderNumber: string;
+  productId: string | { _id: string; name: string; code: string };
+  quantity: number;
+  dueDate: Date;
+  priority: ProductionOrderPriority;
+  status: ProductionOrderStatus;
+  notes?: string;
+  // Good pieces out of the last stage
+  completedQuantity: number;
+  stageProgress: ProductionOrderStageProgress[];
+  // Projected from the order's run rate so far; unset until work is booked
+  expectedCompletionDate?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Lot Traceability Types
+export interface LotConsumption {
+  lotNumber: string;
+  quantity: number;
+}
+
+export interface Lot {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  lotNumber: string;
+  productId: string;
+  // Stage that produced the lot
+  processId: string;
+  processName?: string;
+  stageOrder: number;
+  quantity: number;
+  // Not yet consumed by the next stage
+  remainingQuantity: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One work entry in a lot's history
+export interface LotTraceEntry {
+  workEntryId: string;
+  lotNumber: string;
+  processId: string;
+  processName: string;
+  stageOrder: number;
+  employeeName: string;
+  machineName?: string;
+  startTime: Date;
+  endTime?: Date;
+  achieved: number;
+  rejected: number;
+  photo?: string;
+  consumedLots: LotConsumption[];
+  // Hops from the traced lot: negative for the lots it came from, positive for the lots made from it
+  depth: number;
+}
+
+export interface LotGenealogy {
+  lotNumber: string;
+  productName?: string;
+  // Entries that produced the traced lot
+  entries: LotTraceEntry[];
+  backward: LotTraceEntry[];
+  forward: LotTraceEntry[];
+}
+
+// What a printed shop-floor label identifies
+export type LabelKind = 'product' | 'process' | 'machine';
+
+// A scanned label, decoded
+export interface ScanCode {
+  kind: LabelKind;
+  id: string;
+}
+
+// Short-lived check-in code shown on a gate display
+export interface GateCheckInCode {
+  // Rendered QR code (data URL) encoding the signed token employees scan
+  qrImage: string;
+  expiresAt: Date;
+}
+
+// Leave Management Types
+export type LeaveRequestStatus = 'pending' | 'approved' | 'declined' | 'cancelled';
+
+export interface LeaveType {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  name: string;
+  // Short code shown on calendars, e.g. SL
+  code: string;
+  // Days each employee gets per calendar year, unless their balance is adjusted
+  yearlyAllowance: number;
+  paid: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LeaveRequest {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  employeeId: string;
+  employeeName?: string;
+  leaveTypeId: string;
+  leaveTypeName?: string;
+  startDate: Date;
+  endDate: Date;
+  // Only for a single-day request
+  halfDay?: boolean;
+  // Working days the request takes from the balance
+  days: number;
+  reason: string;
+  status: LeaveRequestStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An employee's standing for one leave type in one year
+export interface LeaveBalance {
+  leaveTypeId: string;
+  leaveTypeName: string;
+  year: number;
+  allowance: number;
+  used: number;
+  // Requested but not yet reviewed
+  pending: number;
+  remaining: number;
+}
+
+// Attendance Regularization Types
+export type RegularizationStatus = 'pending' | 'approved' | 'rejected';
+
+// Check-out values on either side of a correction
+export interface AttendanceSnapshot {
+  checkOut?: Date;
+  autoClosed?: boolean;
+  workHours?: number;
+}
+
+// An employee's request to correct a missed or auto-closed check-out, kept as the audit record
+export interface AttendanceRegularization {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  attendanceId: string;
+  employeeId: string;
+  employeeName?: string;
+  attendanceDate: Date;
+  proposedCheckOut: Date;
+  reason: string;
+  status: RegularizationStatus;
+  // Attendance as it was when the request was made
+  before: AttendanceSnapshot;
+  // Attendance after the approved correction
+  after?: AttendanceSnapshot;
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Shift Roster Types
+// One employee placed on a shift x process (x machine) slot for a day
+export interface RosterAssignment {
+  id?: string;
+  _id?: string;
+  factoryId: string;
+  // yyyy-MM-dd
+  date: string;
+  shiftName: string;
+  processId: string;
+  processName?: string;
+  machineId?: string;
+  machineName?: string;
+  employeeId: string;
+  employeeName?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RosterIssueKind =
+  | 'double_booked'
+  | 'machine_clash'
+  | 'on_leave'
+  | 'not_trained'
+  | 'uncovered_process';
+
+export interface RosterIssue {
+  kind: RosterIssueKind;
+  // Conflicts make the roster unworkable; warnings are worth a look
+  severity: 'conflict' | 'warning';
+  date: string;
+  shiftName: string;
+  processId?: string;
+  employeeId?: string;
+  message: string;
+}
+
+// Platform-wide settings managed by the super admin
+export interface SystemSettings {
+  // IANA zone new factories start with
+  timezone: string;
+  currency: string;
+  // Language factories without their own default start with
+  defaultLanguage: Language;
+  emailNotifications: boolean;
+  smsNotifications: boolean;
+  systemMaintenance: boolean;
+  autoApproveFactories: boolean;
+  maxFactoriesPerAdmin: number;
+  sessionTimeout: number;
+}
@@ -1,16 +1,112 @@
 /**
- * Utility functions for consistent date and time formatting throughout the application
+ * Utility functions for consistent date and time formatting throughout the application.
+ * Dates and times are shown in the factory's timezone once it is known, otherwise the browser's.
  */
 
+let factoryTimezone: string | undefined;
+
+/**
+ * Set the zone dates and times are shown in (IANA name, e.g. "Asia/Kolkata"); unset to use the browser's
+ */
+export const setFactoryTimezone = (timezone?: string | null): void => {
+  factoryTimezone = timezone || undefined;
+};
+
+export const getFactoryTimezone = (): string | undefined => factoryTimezone;
+
+/**
+ * The browser's own timezone
+ */
+export const getViewerTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Timezones offered when configuring a factory
+ */
+export const TIMEZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Asia/Kolkata', label: 'India (IST)' },
+  { value: 'Asia/Dhaka', label: 'Bangladesh (BST)' },
+  { value: 'Asia/Karachi', label: 'Pakistan (PKT)' },
+  { value: 'Asia/Dubai', label: 'Gulf (GST)' },
+  { value: 'Asia/Singapore', label: 'Singapore (SGT)' },
+  { value: 'Asia/Shanghai', label: 'China (CST)' },
+  { value: 'Europe/London', label: 'London (GMT/BST)' },
+  { value: 'Europe/Berlin', label: 'Central Europe (CET)' },
+  { value: 'America/New_York', label: 'US Eastern (ET)' },
+  { value: 'America/Chicago', label: 'US Central (CT)' },
+  { value: 'America/Los_Angeles', label: 'US Pacific (PT)' },
+];
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Calendar and clock fields of a moment in the display timezone
+ */
+const getZonedParts = (date: Date, timeZone: string | undefined = factoryTimezone): ZonedParts => {
+  if (isNaN(date.getTime())) {
+    return { year: NaN, month: NaN, day: NaN, hour: NaN, minute: NaN };
+  }
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hour12: false
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+  // Some engines write midnight as hour 24
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') % 24, minute: get('minute') };
+};
+
+/**
+ * Minutes the display timezone is ahead of UTC at a moment
+ */
+const getZoneOffsetMinutes = (date: Date, timeZone: string | undefined = factoryTimezone): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+};
+
+/**
+ * Moment at which the display timezone's clock reads the given date and minutes after midnight
+ */
+const fromZonedTime = (year: number, month: number, day: number, minutes: number, timeZone: string | undefined = factoryTimezone): Date => {
+  const guess = Date.UTC(year, month - 1, day, 0, minutes);
+  const firstPass = guess - getZoneOffsetMinutes(new Date(guess), timeZone) * 60000;
+  // Second pass settles moments near a daylight-saving change
+  return new Date(guess - getZoneOffsetMinutes(new Date(firstPass), timeZone) * 60000);
+};
+
+/**
+ * Whether the viewer's clock currently differs from a timezone (the display timezone by default)
+ */
+export const isViewerInOtherTimezone = (timeZone: string | undefined = factoryTimezone): boolean => {
+  const now = new Date();
+  return getZoneOffsetMinutes(now, timeZone) !== -now.getTimezoneOffset();
+};
+
 /**
  * Format date to DD/MM/YYYY format
  */
 export const formatDate = (dateString: string | Date): string => {
-  const date = new Date(dateString);
-  const day = date.getDate().toString().padStart(2, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const year = date.getFullYear();
-  return `${day}/${month}/${year}`;
+  const { year, month, day } = getZonedParts(new Date(dateString));
+  return `${day.toString().padStart(2, '0')}/${month.toString().padStart(2, '0')}/${year}`;
+};
+
+/**
+ * Format date as yyyy-MM-dd on the factory's calendar, for date-only API parameters
+ */
+export const formatDateKey = (dateString: string | Date = new Date(), timeZone: string | undefined = factoryTimezone): string => {
+  const { year, month, day } = getZonedParts(new Date(dateString), timeZone);
+  return `${year}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`;
 };
 
 /**
@@ -21,7 +117,8 @@ export const formatTime = (dateString: string | Date): string => {
   return date.toLocaleTimeString('en-US', {
     hour: '2-digit',
     minute: '2-digit',
-    hour12: true
+    hour12: true,
+    timeZone: factoryTimezone
   });
 };
 
@@ -38,17 +135,54 @@ export const formatDateTime = (dateString: string | Date): string => {
  */
 export const formatDateWithDay = (dateString: string | Date): string => {
   const date = new Date(dateString);
-  const day = date.getDate().toString().padStart(2, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const year = date.getFullYear();
-  const dayName = date.toLocaleDateString('en-US', { weekday: 'long' });
-  return `${day}/${month}/${year} - ${dayName}`;
+  const dayName = date.toLocaleDateString('en-US', { weekday: 'long', timeZone: factoryTimezone });
+  return `${formatDate(date)} - ${dayName}`;
 };
 
 /**
- * Calculate hours between two dates
+ * Parse a time of day ("22:00" or "10:00 PM") to minutes after midnight
+ */
+export const parseTimeOfDay = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})(?:\s*([AaPp])[Mm])?$/.exec(time.trim());
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (match[3]) {
+    const pm = match[3].toUpperCase() === 'P';
+    hours = (hours % 12) + (pm ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+/**
+ * Minutes after midnight on the factory's clock at a moment
+ */
+export const getMinutesOfDay = (dateString: string | Date): number => {
+  const { hour, minute } = getZonedParts(new Date(dateString));
+  return hour * 60 + minute;
+};
+
+/**
+ * Moment the factory's clock reads a time of day (minutes after midnight) on the calendar day a moment falls on, moved by `addDays`
+ */
+export const atTimeOfDay = (dateString: string | Date, minutes: number, addDays = 0): Date => {
+  const { year, month, day } = getZonedParts(new Date(dateString));
+  return fromZonedTime(year, month, day + addDays, minutes);
+};
+
+/**
+ * Calculate hours between two dates, or between two times of day.
+ * Times of day without a date (e.g. shift times) run past midnight when the end is at or before the start.
  */
 export const calculateHours = (startTime: string | Date, endTime: string | Date): number => {
+  const startMinutes = typeof startTime === 'string' ? parseTimeOfDay(startTime) : null;
+  const endMinutes = typeof endTime === 'string' ? parseTimeOfDay(endTime) : null;
+  if (startMinutes !== null && endMinutes !== null) {
+    const minutes = endMinutes > startMinutes ? endMinutes - startMinutes : endMinutes + 24 * 60 - startMinutes;
+    return Math.round((minutes / 60) * 100) / 100;
+  }
+
   const start = new Date(startTime);
   const end = new Date(endTime);
   
@@ -65,6 +199,68 @@ export const calculateHours = (startTime: string | Date, endTime: string | Date)
   return Math.round(result * 100) / 100; // Round to 2 decimal places
 };
 
+/**
+ * People clock in a little before their shift starts
+ */
+export const EARLY_CHECK_IN_MINUTES = 60;
+
+/**
+ * Shift times as configured in factory settings
+ */
+export interface ShiftStart {
+  startTime: string;
+  endTime?: string;
+  isActive?: boolean;
+}
+
+/**
+ * Minutes after midnight at which the production day starts. A shift that runs past midnight
+ * hands over at its end, so the whole night shift stays on the day it started; otherwise the day
+ * starts with an early check-in before the earliest shift. Without shifts it is the calendar day.
+ */
+export const getProductionDayStartMinutes = (shifts: ShiftStart[]): number => {
+  const active = shifts.filter(shift => shift.isActive !== false);
+  const overnightEnds = active
+    .map(shift => ({ start: parseTimeOfDay(shift.startTime), end: shift.endTime ? parseTimeOfDay(shift.endTime) : null }))
+    .filter(({ start, end }) => start !== null && end !== null && end <= start)
+    .map(({ end }) => end as number);
+  if (overnightEnds.length > 0) return Math.max(...overnightEnds);
+
+  const starts = active
+    .map(shift => parseTimeOfDay(shift.startTime))
+    .filter((minutes): minutes is number => minutes !== null);
+  if (starts.length === 0) return 0;
+  return Math.min(...starts) - EARLY_CHECK_IN_MINUTES;
+};
+
+/**
+ * Production day (yyyy-MM-dd) a moment falls in, by the factory's clock. Hooks pass the zone they
+ * read from the tenant so their memos recompute when it loads.
+ */
+export const getProductionDate = (dateString: string | Date, shifts: ShiftStart[], timeZone: string | undefined = factoryTimezone): string => {
+  const date = new Date(dateString);
+  return formatDateKey(new Date(date.getTime() - getProductionDayStartMinutes(shifts) * 60000), timeZone);
+};
+
+/**
+ * Start and (exclusive) end of a production day in the factory's timezone, for attendance and report ranges.
+ * Takes a yyyy-MM-dd production date, or a Date whose calendar day (as picked in the browser) is used.
+ */
+export const getProductionDayRange = (
+  productionDate: string | Date,
+  shifts: ShiftStart[],
+  timeZone: string | undefined = factoryTimezone
+): { start: Date; end: Date } => {
+  const [year, month, day] = typeof productionDate === 'string'
+    ? productionDate.split('-').map(Number)
+    : [productionDate.getFullYear(), productionDate.getMonth() + 1, productionDate.getDate()];
+  const startMinutes = getProductionDayStartMinutes(shifts);
+  return {
+    start: fromZonedTime(year, month, day, startMinutes, timeZone),
+    end: fromZonedTime(year, month, day + 1, startMinutes, timeZone),
+  };
+};
+
 /**
  * Format hours for display
  */